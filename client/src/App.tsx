@@ -8,6 +8,7 @@ import Landing from "@/pages/Landing";
 import Overview from "@/pages/Overview";
 import ExceptionsPanel from "@/pages/ExceptionsPanel";
 import FloorRoomRollup from "@/pages/FloorRoomRollup";
+import ManualPctMismatches from "@/pages/ManualPctMismatches";
 import ContainerView from "@/pages/ContainerView";
 import CommonAreas from "@/pages/CommonAreas";
 import ConstructionProgress from "@/pages/ConstructionProgress";
@@ -19,6 +20,12 @@ import RoomSpecs from "@/pages/RoomSpecs";
 import VendorInvoices from "@/pages/VendorInvoices";
 import Settings from "@/pages/Settings";
 import UsefulLinks from "@/pages/UsefulLinks";
+import Users from "@/pages/Users";
+import WorkbookUpload from "@/pages/WorkbookUpload";
+import SheetHealth from "@/pages/SheetHealth";
+import SpecRollup from "@/pages/SpecRollup";
+import PartsLeaderboard from "@/pages/PartsLeaderboard";
+import AcceptInvite from "@/pages/AcceptInvite";
 import NotFound from "@/pages/not-found";
 
 function ScrollToTop() {
@@ -37,6 +44,9 @@ function Router() {
         {/* Landing page - no authentication required */}
         <Route path="/" component={Landing} />
 
+        {/* Invite link - sets the invitee's password, no authentication required */}
+        <Route path="/invite/:token" component={AcceptInvite} />
+
         {/* Overview - accessible once any tab is authenticated */}
         <Route path="/overview">
           <TabPasswordGate tab="construction" title="Dashboard Access" requireAny>
@@ -58,6 +68,27 @@ function Router() {
           </TabPasswordGate>
         </Route>
 
+        {/* Stale manual %s - punch list of package cells to fix on the sheet */}
+        <Route path="/mismatches">
+          <TabPasswordGate tab="construction" title="Stale Sheet %">
+            <ManualPctMismatches />
+          </TabPasswordGate>
+        </Route>
+
+        {/* Most-missing parts - every part ranked by rooms still waiting on it */}
+        <Route path="/parts">
+          <TabPasswordGate tab="construction" title="Most-Missing Parts">
+            <PartsLeaderboard />
+          </TabPasswordGate>
+        </Route>
+
+        {/* Specs vs Progress - rollup joined to Room Specs, filterable by spec */}
+        <Route path="/spec-rollup">
+          <TabPasswordGate tab="construction" title="Specs vs Progress">
+            <SpecRollup />
+          </TabPasswordGate>
+        </Route>
+
         {/* Container view - when a container lands, what unblocks */}
         <Route path="/containers">
           <TabPasswordGate tab="construction" title="Container View">
@@ -135,6 +166,27 @@ function Router() {
           </TabPasswordGate>
         </Route>
 
+        {/* Users - admin accounts only */}
+        <Route path="/users">
+          <TabPasswordGate tab="admin" title="Users">
+            <Users />
+          </TabPasswordGate>
+        </Route>
+
+        {/* Workbook Upload - admin accounts only */}
+        <Route path="/workbook-upload">
+          <TabPasswordGate tab="admin" title="Workbook Upload">
+            <WorkbookUpload />
+          </TabPasswordGate>
+        </Route>
+
+        {/* Sheet Health - taxonomy drift + layout history, admin accounts only */}
+        <Route path="/sheet-health">
+          <TabPasswordGate tab="admin" title="Sheet Health">
+            <SheetHealth />
+          </TabPasswordGate>
+        </Route>
+
         {/* Legacy management route */}
         <Route path="/management">
           <Redirect to="/" />
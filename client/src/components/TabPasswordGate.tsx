@@ -5,14 +5,30 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Lock, Loader2, AlertCircle, Shield } from "lucide-react";
 
-type TabName = "construction" | "budget" | "timeline";
+type TabName = "construction" | "budget" | "timeline" | "admin";
+
+export interface TabAuthUser {
+  id: number;
+  name: string;
+  email: string;
+  role: "field" | "construction" | "management" | "admin";
+}
 
 export interface TabAuthStatus {
   construction: boolean;
+  budget: boolean;
+  timeline: boolean;
   management: boolean;
+  admin: boolean;
   anyAuthenticated: boolean;
+  /** Named accounts are in use — sign in with email + password, not a shared password. */
+  accounts: boolean;
+  user: TabAuthUser | null;
 }
 
+/** The boolean access flags (what nav items and gates check). */
+export type TabAuthKey = "construction" | "budget" | "timeline" | "management" | "admin" | "anyAuthenticated";
+
 interface TabPasswordGateProps {
   tab: TabName;
   title: string;
@@ -40,13 +56,26 @@ async function tabLogin(params: { password: string; tab: TabName }): Promise<{ s
   return res.json();
 }
 
-function getAuthKey(tab: TabName): keyof TabAuthStatus {
-  if (tab === "budget" || tab === "timeline") return "management";
+async function userLogin(params: { email: string; password: string }): Promise<{ success: boolean }> {
+  const res = await fetch("/api/auth/user-login", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(params),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({ message: "Login failed" }));
+    throw new Error(err.message || "Login failed");
+  }
+  return res.json();
+}
+
+function getAuthKey(tab: TabName): TabAuthKey {
   return tab;
 }
 
 export function TabPasswordGate({ tab, title, children, requireAny }: TabPasswordGateProps) {
   const queryClient = useQueryClient();
+  const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [error, setError] = useState("");
   const [, setLocation] = useLocation();
@@ -58,25 +87,48 @@ export function TabPasswordGate({ tab, title, children, requireAny }: TabPasswor
     staleTime: 1000 * 60 * 5,
   });
 
+  const onLoginSuccess = () => {
+    setError("");
+    setPassword("");
+    // Every cached query was fetched under the previous identity.
+    queryClient.invalidateQueries();
+  };
+
   const loginMutation = useMutation({
     mutationFn: tabLogin,
-    onSuccess: () => {
-      setError("");
-      setPassword("");
-      queryClient.invalidateQueries({ queryKey: ["tab-auth"] });
+    onSuccess: onLoginSuccess,
+    onError: (err: Error) => {
+      setError(err.message);
     },
+  });
+
+  const userLoginMutation = useMutation({
+    mutationFn: userLogin,
+    onSuccess: onLoginSuccess,
     onError: (err: Error) => {
       setError(err.message);
     },
   });
 
+  const useAccounts = authQuery.data?.accounts ?? false;
+  const isPending = loginMutation.isPending || userLoginMutation.isPending;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (useAccounts) {
+      if (!email.trim() || !password) {
+        setError("Please enter your email and password");
+        return;
+      }
+      userLoginMutation.mutate({ email, password });
+      return;
+    }
     if (!password.trim()) {
       setError("Please enter a password");
       return;
     }
-    loginMutation.mutate({ password, tab });
+    // The admin page is part of the management tier while shared passwords are in use.
+    loginMutation.mutate({ password, tab: tab === "admin" ? "budget" : tab });
   };
 
   if (authQuery.isLoading) {
@@ -106,8 +158,9 @@ export function TabPasswordGate({ tab, title, children, requireAny }: TabPasswor
     return <>{children}</>;
   }
 
-  // Management tabs (budget, timeline, deals) get pink/purple styling
-  const isManagementGate = tab === "budget" || tab === "timeline";
+  // Management tabs (budget, timeline, admin) get pink/purple styling
+  const isManagementGate = tab === "budget" || tab === "timeline" || tab === "admin";
+  const signedInUser = authData?.user ?? null;
 
   return (
     <div className="min-h-screen bg-[#0a0a0f] flex items-center justify-center p-4">
@@ -122,13 +175,33 @@ export function TabPasswordGate({ tab, title, children, requireAny }: TabPasswor
           </div>
           <CardTitle className="text-xl text-white">{title}</CardTitle>
           <p className="text-sm text-muted-foreground mt-1">
-            {isManagementGate
-              ? "Enter the management password to access this section"
-              : "Enter password to access this section"}
+            {signedInUser
+              ? `Signed in as ${signedInUser.name}, whose account can't open this section. Ask an admin for access, or sign in as someone else.`
+              : useAccounts
+                ? "Sign in with your account to access this section"
+                : isManagementGate
+                  ? "Enter the management password to access this section"
+                  : "Enter password to access this section"}
           </p>
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-4">
+            {useAccounts && (
+              <div>
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => {
+                    setEmail(e.target.value);
+                    setError("");
+                  }}
+                  placeholder="Email"
+                  autoComplete="username"
+                  autoFocus
+                  className={`w-full px-3 py-2 rounded-md bg-white/5 border border-white/10 text-white placeholder:text-muted-foreground text-sm focus:outline-none focus:ring-2 ${isManagementGate ? "focus:ring-pink-400/50 focus:border-pink-400/50" : "focus:ring-teal-400/50 focus:border-teal-400/50"}`}
+                />
+              </div>
+            )}
             <div>
               <input
                 type="password"
@@ -137,8 +210,9 @@ export function TabPasswordGate({ tab, title, children, requireAny }: TabPasswor
                   setPassword(e.target.value);
                   setError("");
                 }}
-                placeholder={isManagementGate ? "Management password" : "Password"}
-                autoFocus
+                placeholder={useAccounts ? "Password" : isManagementGate ? "Management password" : "Password"}
+                autoComplete={useAccounts ? "current-password" : undefined}
+                autoFocus={!useAccounts}
                 className={`w-full px-3 py-2 rounded-md bg-white/5 border border-white/10 text-white placeholder:text-muted-foreground text-sm focus:outline-none focus:ring-2 ${isManagementGate ? "focus:ring-pink-400/50 focus:border-pink-400/50" : "focus:ring-teal-400/50 focus:border-teal-400/50"}`}
               />
             </div>
@@ -151,9 +225,9 @@ export function TabPasswordGate({ tab, title, children, requireAny }: TabPasswor
             <Button
               type="submit"
               className={`w-full text-white ${isManagementGate ? "bg-pink-500 hover:bg-pink-600" : "bg-teal-500 hover:bg-teal-600"}`}
-              disabled={loginMutation.isPending}
+              disabled={isPending}
             >
-              {loginMutation.isPending ? (
+              {isPending ? (
                 <>
                   <Loader2 className="h-4 w-4 animate-spin mr-2" />
                   Verifying...
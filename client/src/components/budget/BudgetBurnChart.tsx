@@ -0,0 +1,89 @@
+import { Flame } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import type { BudgetBurnPoint } from "@/lib/api";
+import { formatCurrency, formatCurrencyCompact, formatIsoDate } from "./budgetFormat";
+
+/** Cumulative paid against the total budget, one point per daily snapshot. */
+export function BudgetBurnChart({ burn }: { burn: BudgetBurnPoint[] }) {
+  const latest = burn[burn.length - 1];
+  const data = burn.map((p) => ({ ...p, label: formatIsoDate(p.date) }));
+
+  return (
+    <Card className="mb-6 border-white/10 sm:mb-8">
+      <CardHeader className="border-b border-white/10">
+        <CardTitle className="flex flex-wrap items-center gap-2 text-white">
+          <Flame className="h-5 w-5 text-blue-400" />
+          Paid vs total budget over time
+          {latest && (
+            <span className="text-xs font-normal text-muted-foreground">
+              {formatCurrency(latest.paid)} of {formatCurrency(latest.total)} paid as of {formatIsoDate(latest.date)}
+            </span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-6">
+        {burn.length < 2 ? (
+          <div className="flex h-[200px] items-center justify-center text-center text-sm text-muted-foreground">
+            {burn.length === 0
+              ? "No budget snapshots yet — history starts with the next budget read."
+              : "One snapshot so far — the burn line fills in as the budget is read on later days."}
+          </div>
+        ) : (
+          <div style={{ height: 300 }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={data} margin={{ top: 4, right: 16, bottom: 4, left: 8 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.08)" />
+                <XAxis dataKey="label" stroke="rgba(255,255,255,0.5)" fontSize={11} minTickGap={24} />
+                <YAxis
+                  stroke="rgba(255,255,255,0.5)"
+                  fontSize={11}
+                  width={64}
+                  tickFormatter={(v) => formatCurrencyCompact(v)}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: "hsl(217 33% 17%)",
+                    border: "1px solid rgba(255,255,255,0.1)",
+                    borderRadius: "8px",
+                    color: "white",
+                  }}
+                  formatter={(value: number, name: string) => [formatCurrency(value), name]}
+                />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                <Area
+                  type="monotone"
+                  dataKey="paid"
+                  name="Paid (cumulative)"
+                  stroke="#3b82f6"
+                  fill="#3b82f6"
+                  fillOpacity={0.2}
+                  isAnimationActive={false}
+                />
+                <Line
+                  type="stepAfter"
+                  dataKey="total"
+                  name="Total budget"
+                  stroke="#14b8a6"
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
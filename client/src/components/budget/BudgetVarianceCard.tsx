@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { ChevronRight, History } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { BudgetHistoryResponse, BudgetItemVariance } from "@/lib/api";
+import { formatCurrency, formatDelta, formatIsoDate } from "./budgetFormat";
+
+/** Range choices — days back from today, or null for every snapshot. */
+export const VARIANCE_RANGE_OPTIONS: { label: string; days: number | null }[] = [
+  { label: "30d", days: 30 },
+  { label: "90d", days: 90 },
+  { label: "1y", days: 365 },
+  { label: "All", days: null },
+];
+
+const MOVEMENT_STYLES: Record<BudgetItemVariance["movement"], { label: string; className: string }> = {
+  grew: { label: "grew", className: "border-red-500/30 bg-red-500/10 text-red-300" },
+  added: { label: "added", className: "border-amber-500/30 bg-amber-500/10 text-amber-300" },
+  shrank: { label: "shrank", className: "border-emerald-500/30 bg-emerald-500/10 text-emerald-300" },
+  removed: { label: "removed", className: "border-white/10 bg-white/5 text-muted-foreground" },
+  unchanged: { label: "back to start", className: "border-white/10 bg-white/5 text-muted-foreground" },
+};
+
+function deltaClass(delta: number): string {
+  if (Math.round(delta) === 0) return "text-muted-foreground";
+  return delta > 0 ? "text-red-300" : "text-emerald-300";
+}
+
+interface BudgetVarianceCardProps {
+  history: BudgetHistoryResponse;
+  rangeDays: number | null;
+  onRangeChange: (days: number | null) => void;
+}
+
+/** Which line items' estimates moved between the first and latest snapshot, when, and by how much. */
+export function BudgetVarianceCard({ history, rangeDays, onRangeChange }: BudgetVarianceCardProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const netDelta = history.baseline && history.current ? history.current.estimatedBeforeContingency - history.baseline.estimatedBeforeContingency : 0;
+  const grewCount = history.items.filter((i) => i.movement === "grew" || i.movement === "added").length;
+
+  return (
+    <Card className="mb-6 border-white/10 sm:mb-8">
+      <CardHeader className="border-b border-white/10">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="flex flex-wrap items-center gap-2 text-white">
+            <History className="h-5 w-5 text-amber-400" />
+            Estimate variance
+            {history.from && history.to && (
+              <span className="text-xs font-normal text-muted-foreground">
+                {formatIsoDate(history.from)} → {formatIsoDate(history.to)} · {history.snapshotCount} snapshot{history.snapshotCount === 1 ? "" : "s"}
+              </span>
+            )}
+          </CardTitle>
+          <div className="flex items-center gap-1 text-xs">
+            {VARIANCE_RANGE_OPTIONS.map((opt) => (
+              <button
+                key={opt.label}
+                onClick={() => onRangeChange(opt.days)}
+                className={`rounded-md border px-2 py-1 font-medium transition-colors ${
+                  rangeDays === opt.days ? "border-teal-400/40 bg-teal-400/10 text-teal-300" : "border-white/10 bg-white/[0.03] text-muted-foreground hover:text-white"
+                }`}
+              >
+                {opt.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        {history.items.length > 0 && (
+          <p className="mt-1 text-xs text-muted-foreground">
+            {history.items.length} line item{history.items.length === 1 ? "" : "s"} moved ({grewCount} up) · estimate before contingency{" "}
+            <span className={deltaClass(netDelta)}>{formatDelta(netDelta)}</span>
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="p-0">
+        {history.snapshotCount < 2 ? (
+          <p className="px-4 py-6 text-sm text-muted-foreground">
+            Variance needs at least two daily snapshots in range — each budget read is kept as that day's snapshot.
+          </p>
+        ) : history.items.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-muted-foreground">No line item estimates moved in this range.</p>
+        ) : (
+          <div className="max-h-[480px] overflow-y-auto">
+            <table className="w-full text-[12px]">
+              <thead className="sticky top-0 bg-background">
+                <tr className="border-b border-white/10 text-left text-[11px] uppercase tracking-wider text-muted-foreground">
+                  <th className="px-4 py-2 font-semibold">Line item</th>
+                  <th className="hidden px-4 py-2 font-semibold sm:table-cell">Category</th>
+                  <th className="px-4 py-2 text-right font-semibold">Was</th>
+                  <th className="px-4 py-2 text-right font-semibold">Now</th>
+                  <th className="px-4 py-2 text-right font-semibold">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {history.items.map((item) => {
+                  const style = MOVEMENT_STYLES[item.movement];
+                  const open = expanded === item.key;
+                  return (
+                    <VarianceRow
+                      key={item.key}
+                      item={item}
+                      open={open}
+                      badge={style}
+                      onToggle={() => setExpanded(open ? null : item.key)}
+                    />
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface VarianceRowProps {
+  item: BudgetItemVariance;
+  open: boolean;
+  badge: { label: string; className: string };
+  onToggle: () => void;
+}
+
+function VarianceRow({ item, open, badge, onToggle }: VarianceRowProps) {
+  return (
+    <>
+      <tr className="cursor-pointer border-b border-white/[0.04] hover:bg-white/[0.03]" onClick={onToggle}>
+        <td className="px-4 py-2 text-white">
+          <div className="flex items-center gap-1.5">
+            <ChevronRight className={`h-3 w-3 shrink-0 text-muted-foreground transition-transform ${open ? "rotate-90" : ""}`} />
+            <span className="max-w-[260px] truncate" title={item.name}>{item.name}</span>
+            <span className={`rounded-md border px-1.5 py-0.5 text-[10px] font-semibold ${badge.className}`}>{badge.label}</span>
+          </div>
+        </td>
+        <td className="hidden px-4 py-2 text-muted-foreground sm:table-cell">{item.displayCategory}</td>
+        <td className="px-4 py-2 text-right tabular-nums text-muted-foreground">
+          {item.baselineEstimate === null ? "—" : formatCurrency(item.baselineEstimate)}
+        </td>
+        <td className="px-4 py-2 text-right tabular-nums text-white">
+          {item.currentEstimate === null ? "—" : formatCurrency(item.currentEstimate)}
+        </td>
+        <td className={`px-4 py-2 text-right font-semibold tabular-nums ${deltaClass(item.estimateDelta)}`}>{formatDelta(item.estimateDelta)}</td>
+      </tr>
+      {open && (
+        <tr className="border-b border-white/[0.04] bg-white/[0.02]">
+          <td colSpan={5} className="px-10 py-3">
+            <ul className="space-y-1">
+              {item.changes.map((c) => (
+                <li key={c.date} className="flex flex-wrap items-center gap-x-3 text-[12px]">
+                  <span className="w-28 text-muted-foreground tabular-nums">{formatIsoDate(c.date)}</span>
+                  <span className="text-white tabular-nums">{c.estimatedCost === null ? "removed from sheet" : formatCurrency(c.estimatedCost)}</span>
+                  <span className={`tabular-nums ${deltaClass(c.estimateDelta)}`}>{formatDelta(c.estimateDelta)}</span>
+                  {c.paid !== null && <span className="text-muted-foreground/70">paid {formatCurrency(c.paid)}</span>}
+                </li>
+              ))}
+            </ul>
+            <p className="mt-2 text-[11px] text-muted-foreground/70">
+              Paid now {formatCurrency(item.currentPaid)} ({formatDelta(item.paidDelta)} over the range)
+            </p>
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
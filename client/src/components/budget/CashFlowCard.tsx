@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { AlertTriangle, CalendarClock, ChevronRight } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import type { CashFlowResponse } from "@/lib/api";
+import { PAYMENT_MILESTONES, PAYMENT_MILESTONE_LABELS, type PaymentMilestone } from "@shared/config/cashFlow";
+import { formatCurrency, formatCurrencyCompact, formatIsoDate } from "./budgetFormat";
+
+const MILESTONE_COLORS: Record<PaymentMilestone, string> = {
+  deposit: "#8b5cf6",
+  onShip: "#3b82f6",
+  onDelivery: "#14b8a6",
+  retainage: "#f59e0b",
+};
+
+// "2026-04" → "Apr 2026".
+function formatMonth(month: string): string {
+  return new Date(`${month}-01T00:00:00`).toLocaleDateString("en-US", { month: "short", year: "numeric" });
+}
+
+/** Projected monthly outflow for the unpaid part of every scheduled line item. */
+export function CashFlowCard({ cashFlow }: { cashFlow: CashFlowResponse }) {
+  const [selected, setSelected] = useState<string | null>(null);
+  const [showUndated, setShowUndated] = useState(false);
+  const data = cashFlow.months.map((m) => ({ month: m.month, label: formatMonth(m.month), ...m.byMilestone }));
+  const month = cashFlow.months.find((m) => m.month === selected) ?? null;
+
+  return (
+    <Card className="mb-6 border-white/10 sm:mb-8">
+      <CardHeader className="border-b border-white/10">
+        <CardTitle className="flex flex-wrap items-center gap-2 text-white">
+          <CalendarClock className="h-5 w-5 text-purple-400" />
+          Projected cash outflow
+          <span className="text-xs font-normal text-muted-foreground">
+            {formatCurrency(cashFlow.projectedTotal)} scheduled across {cashFlow.months.length} month{cashFlow.months.length === 1 ? "" : "s"}
+          </span>
+        </CardTitle>
+        <div className="mt-1 flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+          {cashFlow.overdueTotal > 0 && (
+            <span className="text-red-300">
+              <AlertTriangle className="mr-1 inline h-3 w-3" />
+              {formatCurrency(cashFlow.overdueTotal)} past due, counted in {formatMonth(cashFlow.asOf.slice(0, 7))}
+            </span>
+          )}
+          {cashFlow.unscheduledCount > 0 && (
+            <span>
+              {cashFlow.unscheduledCount} line item{cashFlow.unscheduledCount === 1 ? "" : "s"} ({formatCurrency(cashFlow.unscheduledAmount)} unpaid) have no payment schedule
+            </span>
+          )}
+          {!cashFlow.containersAvailable && <span className="text-amber-200">Container Schedule unavailable — container-linked payments are undated</span>}
+          {cashFlow.orphanKeys.length > 0 && (
+            <span className="text-amber-200">{cashFlow.orphanKeys.length} schedule{cashFlow.orphanKeys.length === 1 ? "" : "s"} point at line items no longer on the sheet</span>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="pt-6">
+        {cashFlow.months.length === 0 ? (
+          <div className="flex h-[160px] items-center justify-center text-center text-sm text-muted-foreground">
+            No dated payments yet — give line items a payment schedule from the table below.
+          </div>
+        ) : (
+          <div style={{ height: 300 }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart
+                data={data}
+                margin={{ top: 4, right: 16, bottom: 4, left: 8 }}
+                onClick={(e: any) => e?.activePayload?.[0] && setSelected(e.activePayload[0].payload.month)}
+              >
+                <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.08)" vertical={false} />
+                <XAxis dataKey="label" stroke="rgba(255,255,255,0.5)" fontSize={11} />
+                <YAxis stroke="rgba(255,255,255,0.5)" fontSize={11} width={64} tickFormatter={(v) => formatCurrencyCompact(v)} />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: "hsl(217 33% 17%)",
+                    border: "1px solid rgba(255,255,255,0.1)",
+                    borderRadius: "8px",
+                    color: "white",
+                  }}
+                  formatter={(value: number, name: string) => [formatCurrency(value), name]}
+                />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                {PAYMENT_MILESTONES.map((m) => (
+                  <Bar key={m} dataKey={m} name={PAYMENT_MILESTONE_LABELS[m]} stackId="outflow" fill={MILESTONE_COLORS[m]} isAnimationActive={false} cursor="pointer" />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+
+        {month && (
+          <div className="mt-4 rounded-lg border border-white/5 bg-white/[0.02] p-4">
+            <p className="mb-2 text-xs font-medium text-white">
+              {formatMonth(month.month)} · {formatCurrency(month.total)}
+            </p>
+            <ul className="space-y-1 text-[12px]">
+              {month.payments.map((p) => (
+                <li key={`${p.itemKey}:${p.milestone}`} className="flex flex-wrap items-center gap-x-3">
+                  <span className="w-24 tabular-nums text-muted-foreground">{formatIsoDate(p.dueDate)}</span>
+                  <span className="text-white">{p.name}</span>
+                  <span className="text-muted-foreground">{PAYMENT_MILESTONE_LABELS[p.milestone]}</span>
+                  {p.overdue && <span className="text-red-300">past due</span>}
+                  <span className="ml-auto tabular-nums text-white">{formatCurrency(p.amount)}</span>
+                </li>
+              ))}
+              {month.payments.length === 0 && <li className="text-muted-foreground">Nothing scheduled this month.</li>}
+            </ul>
+          </div>
+        )}
+
+        {cashFlow.undated.length > 0 && (
+          <div className="mt-4">
+            <button
+              onClick={() => setShowUndated((v) => !v)}
+              className="flex items-center gap-1 text-xs font-medium text-amber-300 hover:text-amber-200"
+            >
+              <ChevronRight className={`h-3 w-3 transition-transform ${showUndated ? "rotate-90" : ""}`} />
+              {formatCurrency(cashFlow.undatedTotal)} scheduled but not yet dated ({cashFlow.undated.length} payment{cashFlow.undated.length === 1 ? "" : "s"})
+            </button>
+            {showUndated && (
+              <ul className="mt-2 space-y-1 pl-4 text-[12px]">
+                {cashFlow.undated.map((u) => (
+                  <li key={`${u.itemKey}:${u.milestone}`} className="flex flex-wrap items-center gap-x-3">
+                    <span className="text-white">{u.name}</span>
+                    <span className="text-muted-foreground">{PAYMENT_MILESTONE_LABELS[u.milestone]}</span>
+                    <span className="text-muted-foreground/70">{u.reason}</span>
+                    <span className="ml-auto tabular-nums text-white">{formatCurrency(u.amount)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,253 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ExternalLink, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  addChangeOrder,
+  fetchVendorInvoicesData,
+  updateChangeOrder,
+  type BudgetCategory,
+  type BudgetLineItem,
+  type ChangeOrder,
+  type ChangeOrderDocument,
+  type ChangeOrderInput,
+} from "@/lib/api";
+import { toastError, toastSuccess } from "@/hooks/use-toast";
+import { CHANGE_ORDER_STATUSES, CHANGE_ORDER_STATUS_LABELS, type ChangeOrderStatus } from "@shared/config/changeOrders";
+import { formatCurrency } from "./budgetFormat";
+
+type LinkKind = "category" | "item";
+
+interface ChangeOrderDialogProps {
+  open: boolean;
+  /** Null to record a new change order. */
+  changeOrder: ChangeOrder | null;
+  categories: BudgetCategory[];
+  items: BudgetLineItem[];
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+/** Record or edit a change order: its link into the budget and the Drive documents behind it. */
+export function ChangeOrderDialog({ open, changeOrder, categories, items, onClose, onSaved }: ChangeOrderDialogProps) {
+  const [number, setNumber] = useState("");
+  const [vendor, setVendor] = useState("");
+  const [amount, setAmount] = useState("");
+  const [status, setStatus] = useState<ChangeOrderStatus>("proposed");
+  const [linkKind, setLinkKind] = useState<LinkKind>("category");
+  const [category, setCategory] = useState("");
+  const [itemKey, setItemKey] = useState("");
+  const [description, setDescription] = useState("");
+  const [documents, setDocuments] = useState<ChangeOrderDocument[]>([]);
+  const [folder, setFolder] = useState("");
+
+  // Same query (and cache) as the Vendor Invoices page.
+  const vendorsQuery = useQuery({
+    queryKey: ["vendor-invoices"],
+    queryFn: () => fetchVendorInvoicesData(),
+    enabled: open,
+    retry: false,
+    staleTime: 1000 * 60 * 5,
+  });
+  const folders = vendorsQuery.data?.vendors ?? [];
+
+  useEffect(() => {
+    if (!open) return;
+    setNumber(changeOrder?.number ?? "");
+    setVendor(changeOrder?.vendor ?? "");
+    setAmount(changeOrder ? String(changeOrder.amount) : "");
+    setStatus(changeOrder?.status ?? "proposed");
+    setLinkKind(changeOrder?.itemKey ? "item" : "category");
+    setCategory(changeOrder?.category ?? "");
+    setItemKey(changeOrder?.itemKey ?? "");
+    setDescription(changeOrder?.description ?? "");
+    setDocuments(changeOrder?.documents ?? []);
+    setFolder("");
+  }, [open, changeOrder]);
+
+  // Browse the vendor's own folder unless another one was picked.
+  const vendorFolder = folders.find((f) => f.name.trim().toLowerCase() === vendor.trim().toLowerCase());
+  const browsing = folders.find((f) => f.folderId === folder) ?? vendorFolder;
+
+  const saveMutation = useMutation({
+    mutationFn: (input: ChangeOrderInput) => (changeOrder ? updateChangeOrder(changeOrder.id, input) : addChangeOrder(input)),
+    onSuccess: (co) => {
+      onSaved();
+      toastSuccess(changeOrder ? "Change Order Updated" : "Change Order Recorded", `${co.number} · ${formatCurrency(co.amount)}`);
+      onClose();
+    },
+    onError: (err: Error) => toastError("Save Failed", err.message),
+  });
+
+  const item = items.find((i) => i.key === itemKey);
+  const value = Number(amount);
+  const linked = linkKind === "category" ? category !== "" : itemKey !== "";
+  const valid = number.trim() !== "" && vendor.trim() !== "" && amount !== "" && Number.isFinite(value) && value !== 0 && linked;
+
+  const toggleDocument = (doc: ChangeOrderDocument, checked: boolean) =>
+    setDocuments((prev) => (checked ? [...prev, doc] : prev.filter((d) => d.id !== doc.id)));
+
+  const handleSave = () =>
+    saveMutation.mutate({
+      number: number.trim(),
+      vendor: vendor.trim(),
+      description: description.trim(),
+      amount: value,
+      category: linkKind === "category" ? category : null,
+      itemKey: linkKind === "item" ? itemKey : null,
+      itemName: linkKind === "item" ? item?.name ?? changeOrder?.itemName ?? null : null,
+      status,
+      documents,
+    });
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="max-h-[90vh] max-w-2xl overflow-y-auto border-white/10 bg-[#12121a]">
+        <DialogHeader>
+          <DialogTitle className="text-white">{changeOrder ? `Change order ${changeOrder.number}` : "Record change order"}</DialogTitle>
+          <p className="text-xs text-muted-foreground">Only approved change orders are added to the estimate. Negative amounts are credits.</p>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-1.5">
+            <Label htmlFor="co-number">CO #</Label>
+            <Input id="co-number" value={number} onChange={(e) => setNumber(e.target.value)} placeholder="CO-014" />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="co-amount">Amount ($)</Label>
+            <Input id="co-amount" type="number" step="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} />
+          </div>
+          <div className="space-y-1.5">
+            <Label>Status</Label>
+            <Select value={status} onValueChange={(v) => setStatus(v as ChangeOrderStatus)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CHANGE_ORDER_STATUSES.map((s) => (
+                  <SelectItem key={s} value={s}>{CHANGE_ORDER_STATUS_LABELS[s]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5 sm:col-span-3">
+            <Label htmlFor="co-vendor">Vendor</Label>
+            <Input id="co-vendor" list="co-vendor-folders" value={vendor} onChange={(e) => setVendor(e.target.value)} placeholder="As named on the vendor invoices folder" />
+            <datalist id="co-vendor-folders">
+              {folders.map((f) => (
+                <option key={f.folderId} value={f.name} />
+              ))}
+            </datalist>
+          </div>
+          <div className="space-y-1.5">
+            <Label>Applies to</Label>
+            <Select value={linkKind} onValueChange={(v) => setLinkKind(v as LinkKind)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="category">Category</SelectItem>
+                <SelectItem value="item">Line item</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5 sm:col-span-2">
+            <Label>{linkKind === "category" ? "Category" : "Line item"}</Label>
+            {linkKind === "category" ? (
+              <Select value={category} onValueChange={setCategory}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Budget category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {category && !categories.some((c) => c.name === category) && <SelectItem value={category}>{category} (not on the sheet)</SelectItem>}
+                  {categories.map((c) => (
+                    <SelectItem key={c.name} value={c.name}>{c.displayName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Select value={itemKey} onValueChange={setItemKey}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Schedule Summary line item" />
+                </SelectTrigger>
+                <SelectContent>
+                  {itemKey && !item && <SelectItem value={itemKey}>{changeOrder?.itemName ?? itemKey} (not on the sheet)</SelectItem>}
+                  {items.map((i) => (
+                    <SelectItem key={i.key} value={i.key}>{i.displayCategory} · {i.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+          <div className="space-y-1.5 sm:col-span-3">
+            <Label htmlFor="co-description">Description</Label>
+            <Textarea id="co-description" rows={2} value={description} onChange={(e) => setDescription(e.target.value)} placeholder="What changed and why" />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <Label>Documents</Label>
+            <Select value={browsing?.folderId ?? ""} onValueChange={setFolder}>
+              <SelectTrigger className="h-8 w-[240px] text-xs">
+                <SelectValue placeholder={vendorsQuery.isLoading ? "Loading vendor folders…" : "Vendor invoices folder"} />
+              </SelectTrigger>
+              <SelectContent>
+                {folders.map((f) => (
+                  <SelectItem key={f.folderId} value={f.folderId}>{f.name} ({f.fileCount})</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {vendorsQuery.error && <p className="text-xs text-red-300">Couldn't load vendor invoices: {(vendorsQuery.error as Error).message}</p>}
+          <ul className="max-h-[200px] space-y-1 overflow-y-auto rounded-lg border border-white/5 bg-white/[0.02] p-3 text-[12px]">
+            {documents
+              .filter((d) => !browsing?.files.some((f) => f.id === d.id))
+              .map((d) => (
+                <DocumentRow key={d.id} doc={d} checked onChange={toggleDocument} />
+              ))}
+            {browsing?.files.map((f) => (
+              <DocumentRow
+                key={f.id}
+                doc={{ id: f.id, name: f.name, url: f.webViewUrl }}
+                checked={documents.some((d) => d.id === f.id)}
+                onChange={toggleDocument}
+              />
+            ))}
+            {!browsing && documents.length === 0 && (
+              <li className="text-muted-foreground">Pick the vendor's folder to attach its invoices and quotes.</li>
+            )}
+          </ul>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" className="border-white/10" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!valid || saveMutation.isPending}>
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function DocumentRow({ doc, checked, onChange }: { doc: ChangeOrderDocument; checked: boolean; onChange: (doc: ChangeOrderDocument, checked: boolean) => void }) {
+  return (
+    <li className="flex items-center gap-2">
+      <Checkbox checked={checked} onCheckedChange={(c) => onChange(doc, c === true)} />
+      <span className="truncate text-white">{doc.name}</span>
+      {doc.url && (
+        <a href={doc.url} target="_blank" rel="noreferrer" className="text-muted-foreground hover:text-white" title="Open in Drive">
+          <ExternalLink className="h-3 w-3" />
+        </a>
+      )}
+    </li>
+  );
+}
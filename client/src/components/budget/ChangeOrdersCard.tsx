@@ -0,0 +1,230 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FileText, FilePlus2, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  deleteChangeOrder,
+  fetchChangeOrders,
+  updateChangeOrder,
+  type BudgetCategory,
+  type BudgetLineItem,
+  type BudgetTotals,
+  type ChangeOrder,
+} from "@/lib/api";
+import { toastError, toastSuccess } from "@/hooks/use-toast";
+import { CHANGE_ORDER_STATUSES, CHANGE_ORDER_STATUS_LABELS, type ChangeOrderStatus } from "@shared/config/changeOrders";
+import { ChangeOrderDialog } from "./ChangeOrderDialog";
+import { formatCurrency } from "./budgetFormat";
+
+const STATUS_STYLES: Record<ChangeOrderStatus, string> = {
+  proposed: "text-amber-300",
+  approved: "text-emerald-300",
+  rejected: "text-muted-foreground line-through",
+};
+
+interface ChangeOrdersCardProps {
+  totals: BudgetTotals;
+  categories: BudgetCategory[];
+  items: BudgetLineItem[];
+}
+
+/** Every vendor change order, what it's linked to, and whether it has moved the budget yet. */
+export function ChangeOrdersCard({ totals, categories, items }: ChangeOrdersCardProps) {
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<ChangeOrder | "new" | null>(null);
+  const [toDelete, setToDelete] = useState<ChangeOrder | null>(null);
+
+  const changeOrdersQuery = useQuery({
+    queryKey: ["budget-change-orders"],
+    queryFn: fetchChangeOrders,
+    retry: false,
+    staleTime: 1000 * 60 * 2,
+  });
+
+  // Approved COs move the budget, its line items, the cash flow and the reconciliation.
+  const onSaved = () => {
+    queryClient.invalidateQueries({ queryKey: ["budget-change-orders"] });
+    queryClient.invalidateQueries({ queryKey: ["budget"], exact: true });
+    queryClient.invalidateQueries({ queryKey: ["budget-cash-flow"] });
+    queryClient.invalidateQueries({ queryKey: ["budget-reconciliation"] });
+  };
+  const statusMutation = useMutation({
+    mutationFn: ({ co, status }: { co: ChangeOrder; status: ChangeOrderStatus }) => updateChangeOrder(co.id, { ...co, status }),
+    onSuccess: (co) => {
+      onSaved();
+      toastSuccess(`Change Order ${CHANGE_ORDER_STATUS_LABELS[co.status]}`, `${co.number} · ${formatCurrency(co.amount)}`);
+    },
+    onError: (err: Error) => toastError("Update Failed", err.message),
+  });
+  const deleteMutation = useMutation({
+    mutationFn: deleteChangeOrder,
+    onSuccess: () => {
+      onSaved();
+      toastSuccess("Change Order Deleted");
+      setToDelete(null);
+    },
+    onError: (err: Error) => toastError("Delete Failed", err.message),
+  });
+
+  const changeOrders = changeOrdersQuery.data?.changeOrders ?? [];
+  const pending = changeOrders.filter((co) => co.status === "proposed");
+  const pendingTotal = pending.reduce((s, co) => s + co.amount, 0);
+  const linkLabel = (co: ChangeOrder) => {
+    if (co.itemKey) {
+      const item = items.find((i) => i.key === co.itemKey);
+      return item ? `${item.displayCategory} · ${item.name}` : `${co.itemName ?? co.itemKey} (not on the sheet)`;
+    }
+    const category = categories.find((c) => c.name.toLowerCase() === (co.category ?? "").trim().toLowerCase());
+    return category?.displayName ?? `${co.category} (not on the sheet)`;
+  };
+
+  return (
+    <Card className="mb-6 border-white/10 sm:mb-8">
+      <CardHeader className="border-b border-white/10">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="flex flex-wrap items-center gap-2 text-white">
+            <FilePlus2 className="h-5 w-5 text-emerald-400" />
+            Change orders
+            <span className="text-xs font-normal text-muted-foreground">
+              {formatCurrency(totals.approvedChangeOrders)} approved
+              {pending.length > 0 && ` · ${pending.length} proposed (${formatCurrency(pendingTotal)}) awaiting a decision`}
+            </span>
+          </CardTitle>
+          <Button size="sm" variant="outline" className="h-8 border-white/10 bg-white/5 text-xs" onClick={() => setEditing("new")}>
+            <Plus className="mr-1 h-3.5 w-3.5" />
+            Record change order
+          </Button>
+        </div>
+        <p className="mt-1 text-xs text-muted-foreground">
+          Estimate {formatCurrency(totals.estimatedBeforeContingency)} + approved COs = {formatCurrency(totals.adjustedEstimate)}
+        </p>
+      </CardHeader>
+      <CardContent className="p-0">
+        {changeOrdersQuery.error ? (
+          <p className="px-4 py-6 text-sm text-red-300">Couldn't load change orders: {(changeOrdersQuery.error as Error).message}</p>
+        ) : changeOrdersQuery.isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : changeOrders.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-muted-foreground">No change orders recorded — the budget is the sheet's estimate.</p>
+        ) : (
+          <div className="max-h-[400px] overflow-y-auto">
+            <table className="w-full text-[12px]">
+              <thead className="sticky top-0 bg-background">
+                <tr className="border-b border-white/10 text-left text-[11px] uppercase tracking-wider text-muted-foreground">
+                  <th className="px-4 py-2 font-semibold">CO #</th>
+                  <th className="px-4 py-2 font-semibold">Vendor</th>
+                  <th className="hidden px-4 py-2 font-semibold md:table-cell">Applies to</th>
+                  <th className="hidden px-4 py-2 font-semibold lg:table-cell">Documents</th>
+                  <th className="px-4 py-2 font-semibold">Status</th>
+                  <th className="px-4 py-2 text-right font-semibold">Amount</th>
+                  <th className="w-14" />
+                </tr>
+              </thead>
+              <tbody>
+                {changeOrders.map((co) => (
+                  <tr key={co.id} className="border-b border-white/[0.04] align-top">
+                    <td className="whitespace-nowrap px-4 py-2 font-medium text-white">{co.number}</td>
+                    <td className="px-4 py-2 text-white">
+                      {co.vendor}
+                      {co.description && <div className="mt-0.5 max-w-[320px] text-[11px] text-muted-foreground">{co.description}</div>}
+                      <div className="mt-0.5 text-[11px] text-muted-foreground md:hidden">{linkLabel(co)}</div>
+                    </td>
+                    <td className="hidden px-4 py-2 text-muted-foreground md:table-cell">{linkLabel(co)}</td>
+                    <td className="hidden px-4 py-2 lg:table-cell">
+                      {co.documents.length === 0 ? (
+                        <span className="text-muted-foreground/60">—</span>
+                      ) : (
+                        <ul className="space-y-0.5">
+                          {co.documents.map((d) => (
+                            <li key={d.id}>
+                              <a
+                                href={d.url ?? undefined}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="inline-flex max-w-[220px] items-center gap-1 truncate text-blue-300 hover:text-blue-200"
+                              >
+                                <FileText className="h-3 w-3 shrink-0" />
+                                <span className="truncate">{d.name}</span>
+                              </a>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                    <td className="px-4 py-1.5">
+                      <Select
+                        value={co.status}
+                        onValueChange={(v) => statusMutation.mutate({ co, status: v as ChangeOrderStatus })}
+                        disabled={statusMutation.isPending}
+                      >
+                        <SelectTrigger className={`h-7 w-[110px] border-white/10 text-xs ${STATUS_STYLES[co.status]}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CHANGE_ORDER_STATUSES.map((s) => (
+                            <SelectItem key={s} value={s}>{CHANGE_ORDER_STATUS_LABELS[s]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                    <td className={`whitespace-nowrap px-4 py-2 text-right font-semibold tabular-nums ${STATUS_STYLES[co.status]}`}>
+                      {formatCurrency(co.amount)}
+                    </td>
+                    <td className="whitespace-nowrap px-2 py-2">
+                      <button onClick={() => setEditing(co)} title="Edit change order" className="mr-2 text-muted-foreground hover:text-white">
+                        <Pencil className="h-3.5 w-3.5" />
+                      </button>
+                      <button onClick={() => setToDelete(co)} title="Delete change order" className="text-muted-foreground hover:text-red-300">
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+
+      <ChangeOrderDialog
+        open={editing !== null}
+        changeOrder={editing === "new" ? null : editing}
+        categories={categories}
+        items={items}
+        onClose={() => setEditing(null)}
+        onSaved={onSaved}
+      />
+
+      <AlertDialog open={toDelete !== null} onOpenChange={(open) => !open && setToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete change order {toDelete?.number}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Only delete change orders recorded by mistake — to keep the record of one the owner turned down, set it to Rejected instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => toDelete && deleteMutation.mutate(toDelete.id)} disabled={deleteMutation.isPending}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
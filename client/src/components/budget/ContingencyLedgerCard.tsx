@@ -0,0 +1,259 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Plus, ShieldCheck, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  addContingencyDrawdown,
+  deleteContingencyDrawdown,
+  fetchContingencyLedger,
+  type BudgetCategory,
+  type BudgetTotals,
+  type ContingencyDrawdown,
+} from "@/lib/api";
+import { toastError, toastSuccess } from "@/hooks/use-toast";
+import { formatCurrency, formatIsoDate, isoDateDaysAgo } from "./budgetFormat";
+
+interface ContingencyLedgerCardProps {
+  totals: BudgetTotals;
+  categories: BudgetCategory[];
+}
+
+/** How much of the contingency is left, and every approved drawdown that used it. */
+export function ContingencyLedgerCard({ totals, categories }: ContingencyLedgerCardProps) {
+  const queryClient = useQueryClient();
+  const [adding, setAdding] = useState(false);
+  const [toDelete, setToDelete] = useState<ContingencyDrawdown | null>(null);
+
+  const ledgerQuery = useQuery({
+    queryKey: ["budget-contingency"],
+    queryFn: fetchContingencyLedger,
+    retry: false,
+    staleTime: 1000 * 60 * 2,
+  });
+
+  const onSaved = () => {
+    queryClient.invalidateQueries({ queryKey: ["budget-contingency"] });
+    queryClient.invalidateQueries({ queryKey: ["budget"], exact: true });
+  };
+  const deleteMutation = useMutation({
+    mutationFn: deleteContingencyDrawdown,
+    onSuccess: () => {
+      onSaved();
+      toastSuccess("Drawdown Deleted", "Contingency remaining has been updated.");
+      setToDelete(null);
+    },
+    onError: (err: Error) => toastError("Delete Failed", err.message),
+  });
+
+  const displayName = (category: string) =>
+    categories.find((c) => c.name.toLowerCase() === category.trim().toLowerCase())?.displayName ?? category;
+  const usedPct = totals.contingency > 0 ? Math.min(100, (totals.contingencyUsed / totals.contingency) * 100) : 0;
+  const overdrawn = totals.contingencyRemaining < 0;
+  const drawdowns = ledgerQuery.data?.drawdowns ?? [];
+
+  return (
+    <Card className="mb-6 border-white/10 sm:mb-8">
+      <CardHeader className="border-b border-white/10">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="flex flex-wrap items-center gap-2 text-white">
+            <ShieldCheck className="h-5 w-5 text-amber-400" />
+            Contingency ledger
+            <span className="text-xs font-normal text-muted-foreground">
+              {formatCurrency(totals.contingencyUsed)} drawn of {formatCurrency(totals.contingency)}
+            </span>
+          </CardTitle>
+          <Button size="sm" variant="outline" className="h-8 border-white/10 bg-white/5 text-xs" onClick={() => setAdding(true)}>
+            <Plus className="mr-1 h-3.5 w-3.5" />
+            Record drawdown
+          </Button>
+        </div>
+        <div className="mt-3">
+          <div className="h-2 overflow-hidden rounded-full bg-white/10">
+            <div className={`h-full ${overdrawn ? "bg-red-500" : "bg-amber-400"}`} style={{ width: `${usedPct}%` }} />
+          </div>
+          <p className={`mt-1.5 text-xs ${overdrawn ? "text-red-300" : "text-muted-foreground"}`}>
+            {overdrawn
+              ? `Overdrawn by ${formatCurrency(-totals.contingencyRemaining)}`
+              : `${formatCurrency(totals.contingencyRemaining)} remaining (${Math.round(100 - usedPct)}% of the original contingency)`}
+          </p>
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        {ledgerQuery.error ? (
+          <p className="px-4 py-6 text-sm text-red-300">Couldn't load the ledger: {(ledgerQuery.error as Error).message}</p>
+        ) : ledgerQuery.isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : drawdowns.length === 0 ? (
+          <p className="px-4 py-6 text-sm text-muted-foreground">No drawdowns recorded — the full contingency is still available.</p>
+        ) : (
+          <div className="max-h-[400px] overflow-y-auto">
+            <table className="w-full text-[12px]">
+              <thead className="sticky top-0 bg-background">
+                <tr className="border-b border-white/10 text-left text-[11px] uppercase tracking-wider text-muted-foreground">
+                  <th className="px-4 py-2 font-semibold">Date</th>
+                  <th className="px-4 py-2 font-semibold">Category</th>
+                  <th className="hidden px-4 py-2 font-semibold md:table-cell">Reason</th>
+                  <th className="px-4 py-2 font-semibold">Approver</th>
+                  <th className="px-4 py-2 text-right font-semibold">Amount</th>
+                  <th className="w-8" />
+                </tr>
+              </thead>
+              <tbody>
+                {drawdowns.map((d) => (
+                  <tr key={d.id} className="border-b border-white/[0.04] align-top">
+                    <td className="whitespace-nowrap px-4 py-2 tabular-nums text-muted-foreground">{formatIsoDate(d.drawdownDate)}</td>
+                    <td className="px-4 py-2 text-white">
+                      {displayName(d.category)}
+                      <div className="mt-0.5 text-[11px] text-muted-foreground md:hidden">{d.reason}</div>
+                    </td>
+                    <td className="hidden max-w-[360px] px-4 py-2 text-muted-foreground md:table-cell">{d.reason}</td>
+                    <td className="px-4 py-2 text-white" title={d.createdBy ? `Entered by ${d.createdBy}` : undefined}>{d.approver}</td>
+                    <td className="whitespace-nowrap px-4 py-2 text-right font-semibold tabular-nums text-amber-300">{formatCurrency(d.amount)}</td>
+                    <td className="px-2 py-2">
+                      <button onClick={() => setToDelete(d)} title="Delete drawdown" className="text-muted-foreground hover:text-red-300">
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+
+      <DrawdownDialog open={adding} categories={categories} remaining={totals.contingencyRemaining} onClose={() => setAdding(false)} onSaved={onSaved} />
+
+      <AlertDialog open={toDelete !== null} onOpenChange={(open) => !open && setToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this drawdown?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {toDelete &&
+                `${formatCurrency(toDelete.amount)} to ${displayName(toDelete.category)} on ${formatIsoDate(toDelete.drawdownDate)} goes back to the contingency. Only delete entries recorded by mistake.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => toDelete && deleteMutation.mutate(toDelete.id)} disabled={deleteMutation.isPending}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
+
+interface DrawdownDialogProps {
+  open: boolean;
+  categories: BudgetCategory[];
+  remaining: number;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+function DrawdownDialog({ open, categories, remaining, onClose, onSaved }: DrawdownDialogProps) {
+  const [category, setCategory] = useState("");
+  const [amount, setAmount] = useState("");
+  const [approver, setApprover] = useState("");
+  const [drawdownDate, setDrawdownDate] = useState(isoDateDaysAgo(0));
+  const [reason, setReason] = useState("");
+
+  const reset = () => {
+    setCategory("");
+    setAmount("");
+    setApprover("");
+    setDrawdownDate(isoDateDaysAgo(0));
+    setReason("");
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: addContingencyDrawdown,
+    onSuccess: (d) => {
+      onSaved();
+      toastSuccess("Drawdown Recorded", `${formatCurrency(d.amount)} moved from contingency.`);
+      reset();
+      onClose();
+    },
+    onError: (err: Error) => toastError("Save Failed", err.message),
+  });
+
+  const value = Number(amount);
+  const valid = category !== "" && value > 0 && approver.trim() !== "" && reason.trim() !== "" && drawdownDate !== "";
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="max-w-lg border-white/10 bg-[#12121a]">
+        <DialogHeader>
+          <DialogTitle className="text-white">Record contingency drawdown</DialogTitle>
+          <p className="text-xs text-muted-foreground">{formatCurrency(remaining)} of contingency remaining.</p>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-1.5 sm:col-span-2">
+            <Label>Category</Label>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger>
+                <SelectValue placeholder="Where the money goes" />
+              </SelectTrigger>
+              <SelectContent>
+                {categories.map((c) => (
+                  <SelectItem key={c.name} value={c.name}>{c.displayName}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="drawdown-amount">Amount ($)</Label>
+            <Input id="drawdown-amount" type="number" min="0" step="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="drawdown-date">Approved on</Label>
+            <Input id="drawdown-date" type="date" value={drawdownDate} onChange={(e) => setDrawdownDate(e.target.value)} />
+          </div>
+          <div className="space-y-1.5 sm:col-span-2">
+            <Label htmlFor="drawdown-approver">Approver</Label>
+            <Input id="drawdown-approver" value={approver} onChange={(e) => setApprover(e.target.value)} placeholder="Who signed off" />
+          </div>
+          <div className="space-y-1.5 sm:col-span-2">
+            <Label htmlFor="drawdown-reason">Reason</Label>
+            <Textarea id="drawdown-reason" rows={3} value={reason} onChange={(e) => setReason(e.target.value)} placeholder="What the extra spend covers" />
+          </div>
+        </div>
+        {value > remaining && (
+          <p className="text-xs text-red-300">This is more than the contingency remaining — it will be recorded as overdrawn.</p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" className="border-white/10" onClick={onClose}>Cancel</Button>
+          <Button
+            disabled={!valid || saveMutation.isPending}
+            onClick={() => saveMutation.mutate({ category, amount: value, approver: approver.trim(), reason: reason.trim(), drawdownDate })}
+          >
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Record
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,201 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  deletePaymentSchedule,
+  savePaymentSchedule,
+  type BudgetLineItem,
+  type CashFlowResponse,
+  type PaymentSchedule,
+} from "@/lib/api";
+import { toastError, toastSuccess } from "@/hooks/use-toast";
+import {
+  PAYMENT_MILESTONES,
+  PAYMENT_MILESTONE_LABELS,
+  RETAINAGE_RELEASE_DAYS,
+  type PaymentLinkType,
+  type PaymentMilestone,
+} from "@shared/config/cashFlow";
+import { formatCurrency } from "./budgetFormat";
+
+const PCT_FIELDS: Record<PaymentMilestone, "depositPct" | "onShipPct" | "onDeliveryPct" | "retainagePct"> = {
+  deposit: "depositPct",
+  onShip: "onShipPct",
+  onDelivery: "onDeliveryPct",
+  retainage: "retainagePct",
+};
+
+/** "30/20/40/10 · C 12" — a schedule in one line, for the line items table. */
+export function scheduleSummary(schedule: PaymentSchedule, tasks: CashFlowResponse["tasks"]): string {
+  const pcts = PAYMENT_MILESTONES.map((m) => schedule[PCT_FIELDS[m]]).join("/");
+  const link =
+    schedule.linkType === "task"
+      ? tasks.find((t) => t.id === schedule.timelineTaskId)?.label ?? "missing task"
+      : schedule.container;
+  return `${pcts} · ${link}`;
+}
+
+interface PaymentScheduleDialogProps {
+  item: BudgetLineItem | null;
+  schedule: PaymentSchedule | undefined;
+  tasks: CashFlowResponse["tasks"];
+  containers: string[];
+  onClose: () => void;
+}
+
+/** Split a line item's estimate across payment milestones and pick what dates them. */
+export function PaymentScheduleDialog({ item, schedule, tasks, containers, onClose }: PaymentScheduleDialogProps) {
+  const queryClient = useQueryClient();
+  const [pcts, setPcts] = useState<Record<PaymentMilestone, string>>({ deposit: "", onShip: "", onDelivery: "", retainage: "" });
+  const [linkType, setLinkType] = useState<PaymentLinkType>("container");
+  const [taskId, setTaskId] = useState("");
+  const [container, setContainer] = useState("");
+
+  useEffect(() => {
+    setPcts({
+      deposit: String(schedule?.depositPct ?? 0),
+      onShip: String(schedule?.onShipPct ?? 0),
+      onDelivery: String(schedule?.onDeliveryPct ?? 100),
+      retainage: String(schedule?.retainagePct ?? 0),
+    });
+    setLinkType(schedule?.linkType ?? "container");
+    setTaskId(schedule?.timelineTaskId ? String(schedule.timelineTaskId) : "");
+    setContainer(schedule?.container ?? "");
+  }, [item, schedule]);
+
+  const onSaved = (title: string) => {
+    queryClient.invalidateQueries({ queryKey: ["budget-cash-flow"] });
+    toastSuccess(title, item?.name);
+    onClose();
+  };
+  const onError = (err: Error) => toastError("Save Failed", err.message);
+  const saveMutation = useMutation({ mutationFn: savePaymentSchedule, onSuccess: () => onSaved("Payment Schedule Saved"), onError });
+  const deleteMutation = useMutation({ mutationFn: deletePaymentSchedule, onSuccess: () => onSaved("Payment Schedule Removed"), onError });
+
+  const values = PAYMENT_MILESTONES.map((m) => Number(pcts[m]) || 0);
+  const sum = values.reduce((a, b) => a + b, 0);
+  const linked = linkType === "task" ? taskId !== "" : container.trim() !== "";
+  const valid = sum === 100 && values.every((v) => Number.isInteger(v) && v >= 0) && linked;
+
+  const handleSave = () => {
+    if (!item) return;
+    const [depositPct, onShipPct, onDeliveryPct, retainagePct] = values;
+    saveMutation.mutate({
+      itemKey: item.key,
+      itemName: item.name,
+      depositPct,
+      onShipPct,
+      onDeliveryPct,
+      retainagePct,
+      linkType,
+      timelineTaskId: linkType === "task" ? Number(taskId) : null,
+      container: linkType === "container" ? container.trim() : null,
+    });
+  };
+
+  return (
+    <Dialog open={item !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg border-white/10 bg-[#12121a]">
+        <DialogHeader>
+          <DialogTitle className="text-white">Payment schedule · {item?.name}</DialogTitle>
+          {item && (
+            <p className="text-xs text-muted-foreground">
+              {formatCurrency(item.estimatedCost)} estimated · {formatCurrency(item.paid)} paid — paid amounts cover the earliest milestones first.
+            </p>
+          )}
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+          {PAYMENT_MILESTONES.map((m) => (
+            <div key={m} className="space-y-1.5">
+              <Label htmlFor={`pct-${m}`}>{PAYMENT_MILESTONE_LABELS[m]} %</Label>
+              <Input
+                id={`pct-${m}`}
+                type="number"
+                min="0"
+                max="100"
+                step="1"
+                value={pcts[m]}
+                onChange={(e) => setPcts((prev) => ({ ...prev, [m]: e.target.value }))}
+              />
+            </div>
+          ))}
+        </div>
+        <p className={`text-xs ${sum === 100 ? "text-muted-foreground" : "text-red-300"}`}>Total {sum}% {sum !== 100 && "— must add up to 100%"}</p>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-1.5">
+            <Label>Dated from</Label>
+            <Select value={linkType} onValueChange={(v) => setLinkType(v as PaymentLinkType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="container">Container shipment</SelectItem>
+                <SelectItem value="task">Timeline task</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {linkType === "container" ? (
+            <div className="space-y-1.5">
+              <Label>Container</Label>
+              <Select value={container} onValueChange={setContainer}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Container Schedule row" />
+                </SelectTrigger>
+                <SelectContent>
+                  {container && !containers.includes(container) && <SelectItem value={container}>{container} (not on schedule)</SelectItem>}
+                  {containers.map((c) => (
+                    <SelectItem key={c} value={c}>{c}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <div className="space-y-1.5">
+              <Label>Task</Label>
+              <Select value={taskId} onValueChange={setTaskId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Timeline task" />
+                </SelectTrigger>
+                <SelectContent>
+                  {tasks.map((t) => (
+                    <SelectItem key={t.id} value={String(t.id)}>{t.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+        <p className="text-[11px] text-muted-foreground/70">
+          {linkType === "container"
+            ? `Deposit on the loading date, on-ship at vessel departure, on-delivery at the warehouse ETA; retainage ${RETAINAGE_RELEASE_DAYS} days after delivery.`
+            : `Deposit and on-ship at the task's first event, on-delivery at its last; retainage ${RETAINAGE_RELEASE_DAYS} days after that.`}
+        </p>
+
+        <DialogFooter className="gap-2">
+          {schedule && (
+            <Button
+              variant="outline"
+              className="mr-auto border-red-500/30 text-red-300"
+              onClick={() => deleteMutation.mutate(schedule.id)}
+              disabled={deleteMutation.isPending}
+            >
+              Remove
+            </Button>
+          )}
+          <Button variant="outline" className="border-white/10" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!valid || saveMutation.isPending}>
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
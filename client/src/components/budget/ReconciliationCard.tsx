@@ -0,0 +1,381 @@
+import { Fragment, useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle, ChevronRight, Link2, Loader2, Receipt } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { VerdictBadge } from "@/components/construction/VerdictBadge";
+import {
+  deleteVendorMapping,
+  fetchReconciliation,
+  saveVendorMapping,
+  type BudgetCategory,
+  type BudgetLineItem,
+  type VendorMapping,
+} from "@/lib/api";
+import { toastError, toastSuccess } from "@/hooks/use-toast";
+import { formatCurrency } from "./budgetFormat";
+
+interface ReconciliationCardProps {
+  categories: BudgetCategory[];
+  items: BudgetLineItem[];
+}
+
+/** The invoice audit against the budget: per mapped line, invoiced vs paid vs estimated. */
+export function ReconciliationCard({ categories, items }: ReconciliationCardProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  // The vendor being mapped ("" = pick one in the dialog); null when the dialog is closed.
+  const [mappingVendor, setMappingVendor] = useState<string | null>(null);
+
+  const reconciliationQuery = useQuery({
+    queryKey: ["budget-reconciliation"],
+    queryFn: fetchReconciliation,
+    retry: false,
+    staleTime: 1000 * 60 * 2,
+  });
+  const data = reconciliationQuery.data;
+
+  return (
+    <Card className="mb-6 border-white/10 sm:mb-8">
+      <CardHeader className="border-b border-white/10">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="flex flex-wrap items-center gap-2 text-white">
+            <Receipt className="h-5 w-5 text-blue-400" />
+            Invoice reconciliation
+            {data && (
+              <span className="text-xs font-normal text-muted-foreground">
+                {formatCurrency(data.totals.invoiced)} audited · {formatCurrency(data.totals.potentialOvercharge)} potential overcharge
+              </span>
+            )}
+          </CardTitle>
+          <Button size="sm" variant="outline" className="h-8 border-white/10 bg-white/5 text-xs" onClick={() => setMappingVendor("")} disabled={!data}>
+            <Link2 className="mr-1 h-3.5 w-3.5" />
+            Map vendor
+          </Button>
+        </div>
+        {data && (
+          <div className="mt-1 flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+            {data.totals.overBudgetLines > 0 && (
+              <span className="text-red-300">
+                <AlertTriangle className="mr-1 inline h-3 w-3" />
+                {data.totals.overBudgetLines} line{data.totals.overBudgetLines === 1 ? "" : "s"} invoiced over budget ({data.totals.flaggedInvoices} invoice
+                {data.totals.flaggedInvoices === 1 ? "" : "s"} past the estimate)
+              </span>
+            )}
+            {data.unmappedVendors.length > 0 && (
+              <span className="text-amber-200">
+                {formatCurrency(data.totals.invoiced - data.totals.mappedInvoiced)} from {data.unmappedVendors.length} unmapped vendor
+                {data.unmappedVendors.length === 1 ? "" : "s"}
+              </span>
+            )}
+            {data.orphanMappings.length > 0 && (
+              <span className="text-amber-200">
+                {data.orphanMappings.length} mapping{data.orphanMappings.length === 1 ? "" : "s"} point at budget lines no longer on the sheet
+              </span>
+            )}
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6 pt-6">
+        {reconciliationQuery.error ? (
+          <p className="text-sm text-red-300">Couldn't reconcile invoices: {(reconciliationQuery.error as Error).message}</p>
+        ) : !data ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {data.lines.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No vendors mapped yet — map an audited vendor to the line item or category it bills against.</p>
+            ) : (
+              <div className="max-h-[480px] overflow-y-auto rounded-md border border-white/10">
+                <table className="w-full text-[12px]">
+                  <thead className="sticky top-0 bg-background">
+                    <tr className="border-b border-white/10 text-left text-[11px] uppercase tracking-wider text-muted-foreground">
+                      <th className="px-4 py-2 font-semibold">Budget line</th>
+                      <th className="hidden px-4 py-2 font-semibold md:table-cell">Vendors</th>
+                      <th className="px-4 py-2 text-right font-semibold">Estimated</th>
+                      <th className="px-4 py-2 text-right font-semibold">Invoiced</th>
+                      <th className="hidden px-4 py-2 text-right font-semibold sm:table-cell">Paid</th>
+                      <th className="hidden px-4 py-2 text-right font-semibold lg:table-cell">Overcharge</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.lines.map((line) => {
+                      const id = `${line.target}:${line.key}`;
+                      const open = expanded === id;
+                      return (
+                        <Fragment key={id}>
+                          <tr
+                            className={`cursor-pointer border-b border-white/[0.04] align-top hover:bg-white/[0.03] ${line.overBudget ? "bg-red-500/[0.06]" : ""}`}
+                            onClick={() => setExpanded(open ? null : id)}
+                          >
+                            <td className="px-4 py-2 text-white">
+                              <span className="flex items-center gap-1">
+                                <ChevronRight className={`h-3 w-3 shrink-0 transition-transform ${open ? "rotate-90" : ""}`} />
+                                {line.name}
+                              </span>
+                              <div className="pl-4 text-[11px] text-muted-foreground">
+                                {line.target === "category" ? "Whole category" : line.displayCategory}
+                              </div>
+                            </td>
+                            <td className="hidden px-4 py-2 md:table-cell">
+                              <div className="flex flex-wrap gap-1">
+                                {line.vendors.map((v) => (
+                                  <button
+                                    key={v}
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      setMappingVendor(v);
+                                    }}
+                                    className="rounded bg-white/5 px-1.5 py-0.5 text-[11px] text-muted-foreground hover:text-white"
+                                    title="Change mapping"
+                                  >
+                                    {v}
+                                  </button>
+                                ))}
+                              </div>
+                            </td>
+                            <td className="whitespace-nowrap px-4 py-2 text-right tabular-nums text-teal-400">{formatCurrency(line.estimated)}</td>
+                            <td className={`whitespace-nowrap px-4 py-2 text-right font-semibold tabular-nums ${line.overBudget ? "text-red-300" : "text-white"}`}>
+                              {formatCurrency(line.invoiced)}
+                            </td>
+                            <td className="hidden whitespace-nowrap px-4 py-2 text-right tabular-nums text-muted-foreground sm:table-cell">{formatCurrency(line.paid)}</td>
+                            <td className="hidden whitespace-nowrap px-4 py-2 text-right tabular-nums text-amber-300 lg:table-cell">
+                              {line.potentialOvercharge > 0 ? formatCurrency(line.potentialOvercharge) : "—"}
+                            </td>
+                          </tr>
+                          {open && (
+                            <tr className="border-b border-white/[0.04] bg-white/[0.02]">
+                              <td colSpan={6} className="px-8 py-2">
+                                {line.invoices.length === 0 ? (
+                                  <p className="text-muted-foreground">No audited invoices from {line.vendors.join(", ")} yet.</p>
+                                ) : (
+                                  <ul className="space-y-1">
+                                    {line.invoices.map((inv) => (
+                                      <li key={inv.row} className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                                        <span className="w-28 truncate text-white">{inv.invoiceNumber || `Row ${inv.row}`}</span>
+                                        <span className="text-muted-foreground">{inv.vendor}</span>
+                                        <VerdictBadge verdict={inv.verdict} size="sm" />
+                                        {inv.pushesOverBudget && <span className="text-red-300">over budget</span>}
+                                        {inv.potentialOvercharge > 0 && (
+                                          <span className="text-amber-300">{formatCurrency(inv.potentialOvercharge)} potential overcharge</span>
+                                        )}
+                                        <span className="ml-auto tabular-nums text-white">{formatCurrency(inv.amount)}</span>
+                                      </li>
+                                    ))}
+                                  </ul>
+                                )}
+                              </td>
+                            </tr>
+                          )}
+                        </Fragment>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div className="grid gap-6 lg:grid-cols-2">
+              <div>
+                <p className="mb-2 text-xs font-medium text-white">Potential overcharge by category</p>
+                {data.overchargeByCategory.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">No audited invoices.</p>
+                ) : (
+                  <ul className="space-y-1 text-[12px]">
+                    {data.overchargeByCategory.map((c) => (
+                      <li key={c.category} className="flex items-center gap-3">
+                        <span className={c.category === "Unmapped" ? "text-amber-200" : "text-white"}>{c.displayName}</span>
+                        <span className="text-muted-foreground">
+                          {c.invoiceCount} invoice{c.invoiceCount === 1 ? "" : "s"} · {formatCurrency(c.invoiced)}
+                        </span>
+                        <span className="ml-auto tabular-nums text-amber-300">{formatCurrency(c.potentialOvercharge)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              {data.unmappedVendors.length > 0 && (
+                <div>
+                  <p className="mb-2 text-xs font-medium text-white">Unmapped vendors</p>
+                  <ul className="space-y-1 text-[12px]">
+                    {data.unmappedVendors.map((u) => (
+                      <li key={u.vendor} className="flex items-center gap-3">
+                        <button onClick={() => setMappingVendor(u.vendor)} className="text-blue-300 hover:text-blue-200" title="Map to a budget line">
+                          {u.vendor}
+                        </button>
+                        <span className="text-muted-foreground">
+                          {u.invoiceCount} invoice{u.invoiceCount === 1 ? "" : "s"}
+                        </span>
+                        <span className="ml-auto tabular-nums text-white">{formatCurrency(u.invoiced)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      {data && (
+        <VendorMappingDialog
+          vendor={mappingVendor}
+          mappings={data.mappings}
+          auditVendors={data.auditVendors}
+          categories={categories}
+          items={items}
+          onClose={() => setMappingVendor(null)}
+        />
+      )}
+    </Card>
+  );
+}
+
+type TargetKind = "item" | "category";
+
+// Vendors match the audit trimmed and case-insensitively, as on the server.
+function mappingFor(mappings: VendorMapping[], vendor: string): VendorMapping | undefined {
+  return mappings.find((m) => m.vendor.trim().toLowerCase() === vendor.trim().toLowerCase());
+}
+
+interface VendorMappingDialogProps {
+  vendor: string | null;
+  mappings: VendorMapping[];
+  auditVendors: string[];
+  categories: BudgetCategory[];
+  items: BudgetLineItem[];
+  onClose: () => void;
+}
+
+function VendorMappingDialog({ vendor: initialVendor, mappings, auditVendors, categories, items, onClose }: VendorMappingDialogProps) {
+  const queryClient = useQueryClient();
+  const [vendor, setVendor] = useState("");
+  const [kind, setKind] = useState<TargetKind>("item");
+  const [itemKey, setItemKey] = useState("");
+  const [category, setCategory] = useState("");
+
+  const mapping = mappingFor(mappings, vendor);
+
+  // Start from the vendor's current mapping, if it has one.
+  const selectVendor = (v: string) => {
+    const existing = mappingFor(mappings, v);
+    setVendor(existing?.vendor ?? v);
+    setKind(existing?.category ? "category" : "item");
+    setItemKey(existing?.itemKey ?? "");
+    setCategory(existing?.category ?? "");
+  };
+
+  useEffect(() => {
+    if (initialVendor !== null) selectVendor(initialVendor);
+  }, [initialVendor, mappings]);
+
+  const onSaved = (title: string) => {
+    queryClient.invalidateQueries({ queryKey: ["budget-reconciliation"] });
+    toastSuccess(title, vendor);
+    onClose();
+  };
+  const onError = (err: Error) => toastError("Save Failed", err.message);
+  const saveMutation = useMutation({ mutationFn: saveVendorMapping, onSuccess: () => onSaved("Vendor Mapped"), onError });
+  const deleteMutation = useMutation({ mutationFn: deleteVendorMapping, onSuccess: () => onSaved("Mapping Removed"), onError });
+
+  const item = items.find((i) => i.key === itemKey);
+  const valid = vendor !== "" && (kind === "item" ? itemKey !== "" : category !== "");
+  const vendorOptions = vendor && !auditVendors.includes(vendor) ? [vendor, ...auditVendors] : auditVendors;
+
+  const handleSave = () =>
+    saveMutation.mutate({
+      vendor,
+      itemKey: kind === "item" ? itemKey : null,
+      itemName: kind === "item" ? item?.name ?? mapping?.itemName ?? null : null,
+      category: kind === "category" ? category : null,
+    });
+
+  return (
+    <Dialog open={initialVendor !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg border-white/10 bg-[#12121a]">
+        <DialogHeader>
+          <DialogTitle className="text-white">Map vendor to the budget</DialogTitle>
+          <p className="text-xs text-muted-foreground">Every audited invoice from the vendor counts against this one line item or category.</p>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-1.5 sm:col-span-3">
+            <Label>Vendor (as on the invoice audit)</Label>
+            <Select value={vendor} onValueChange={selectVendor}>
+              <SelectTrigger>
+                <SelectValue placeholder="Audited vendor" />
+              </SelectTrigger>
+              <SelectContent>
+                {vendorOptions.map((v) => (
+                  <SelectItem key={v} value={v}>{v}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label>Bills against</Label>
+            <Select value={kind} onValueChange={(v) => setKind(v as TargetKind)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="item">Line item</SelectItem>
+                <SelectItem value="category">Category</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5 sm:col-span-2">
+            <Label>{kind === "item" ? "Line item" : "Category"}</Label>
+            {kind === "item" ? (
+              <Select value={itemKey} onValueChange={setItemKey}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Schedule Summary line item" />
+                </SelectTrigger>
+                <SelectContent>
+                  {itemKey && !item && <SelectItem value={itemKey}>{mapping?.itemName ?? itemKey} (not on the sheet)</SelectItem>}
+                  {items.map((i) => (
+                    <SelectItem key={i.key} value={i.key}>{i.displayCategory} · {i.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Select value={category} onValueChange={setCategory}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Budget category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {category && !categories.some((c) => c.name === category) && <SelectItem value={category}>{category} (not on the sheet)</SelectItem>}
+                  {categories.map((c) => (
+                    <SelectItem key={c.name} value={c.name}>{c.displayName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          {mapping && (
+            <Button
+              variant="outline"
+              className="mr-auto border-red-500/30 text-red-300"
+              onClick={() => deleteMutation.mutate(mapping.id)}
+              disabled={deleteMutation.isPending}
+            >
+              Remove
+            </Button>
+          )}
+          <Button variant="outline" className="border-white/10" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!valid || saveMutation.isPending}>
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,36 @@
+// Money + date formatting shared by the Budget page and its history cards.
+
+// Whole-dollar currency.
+export function formatCurrency(value: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(value);
+}
+
+// Compact currency ($1.2M / $340K).
+export function formatCurrencyCompact(value: number): string {
+  if (Math.abs(value) >= 1_000_000) return `$${(value / 1_000_000).toFixed(1)}M`;
+  if (Math.abs(value) >= 1_000) return `$${Math.round(value / 1_000)}K`;
+  return formatCurrency(value);
+}
+
+// Signed whole-dollar delta ("+$12,400" / "−$3,000").
+export function formatDelta(value: number): string {
+  if (Math.round(value) === 0) return "$0";
+  return `${value > 0 ? "+" : "−"}${formatCurrency(Math.abs(value))}`;
+}
+
+// "2026-03-14" → "Mar 14, 2026".
+export function formatIsoDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+// YYYY-MM-DD `days` before today, in local time (0 = today).
+export function isoDateDaysAgo(days: number): string {
+  const d = new Date();
+  d.setDate(d.getDate() - days);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
@@ -0,0 +1,248 @@
+import { useMemo, useState } from "react";
+import { CalendarDays, ChevronLeft, ChevronRight, MapPin, Package } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import type { ContainerEta, ContainerScheduleItem } from "@/lib/api";
+import { buildReceivingPlan, weekStartOf, type ReceivingContainer, type ReceivingWeek } from "@shared/lib/receivingPlan";
+import { FACTORY_COLORS, DEFAULT_FACTORY_COLOR, STATUS_STYLES, DEFAULT_STATUS_STYLE } from "./scheduleStyles";
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+function isoToday(): string {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+function addDays(iso: string, days: number): string {
+  const d = new Date(`${iso}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function formatDay(iso: string, withYear = false): string {
+  return new Date(`${iso}T00:00:00`).toLocaleDateString("en-US", { month: "short", day: "numeric", ...(withYear ? { year: "numeric" } : {}) });
+}
+
+function ContainerChip({ c, compact = false }: { c: ReceivingContainer; compact?: boolean }) {
+  const factory = FACTORY_COLORS[c.factory] || DEFAULT_FACTORY_COLOR;
+  const status = STATUS_STYLES[c.status] || DEFAULT_STATUS_STYLE;
+  return (
+    <span
+      title={`${c.factory} · ${c.container || "no container #"} · ${c.status || "no status"}`}
+      className={`inline-flex max-w-full items-center gap-1 rounded border px-1.5 py-0.5 text-[10px] font-medium ${factory.bg} ${factory.text} ${factory.border}`}
+    >
+      <span className={`h-1.5 w-1.5 shrink-0 rounded-full ${status.dot}`} />
+      <span className="truncate">{compact ? c.container || c.factory : `${c.factory} · ${c.container || "—"}`}</span>
+    </span>
+  );
+}
+
+interface ContainerArrivalCalendarProps {
+  containers: ContainerScheduleItem[];
+  /** Rooms each container number unblocks; null while unavailable. */
+  unblocks: ContainerEta[] | null;
+  unblocksNote?: string;
+}
+
+/** Containers on their warehouse ETA, by month, plus the week-by-week receiving plan. */
+export function ContainerArrivalCalendar({ containers, unblocks, unblocksNote }: ContainerArrivalCalendarProps) {
+  const today = isoToday();
+  const plan = useMemo(() => buildReceivingPlan(containers, unblocks ?? []), [containers, unblocks]);
+  const [month, setMonth] = useState(() => today.slice(0, 7)); // YYYY-MM
+  const [selectedWeek, setSelectedWeek] = useState(() => addDays(weekStartOf(today), 7)); // next week
+
+  const byDay = useMemo(() => {
+    const m = new Map<string, ReceivingContainer[]>();
+    for (const w of plan.weeks) for (const c of w.containers) m.set(c.eta!, [...(m.get(c.eta!) ?? []), c]);
+    return m;
+  }, [plan]);
+
+  const gridStart = weekStartOf(`${month}-01`);
+  const days = Array.from({ length: 42 }, (_, i) => addDays(gridStart, i));
+  const shiftMonth = (delta: number) => {
+    const [y, m] = month.split("-").map(Number);
+    const d = new Date(Date.UTC(y, m - 1 + delta, 1));
+    setMonth(d.toISOString().slice(0, 7));
+  };
+  const week: ReceivingWeek | undefined = plan.weeks.find((w) => w.weekStart === selectedWeek);
+  const factories = [...new Set(containers.map((c) => c.factory).filter(Boolean))].sort();
+
+  return (
+    <div className="space-y-4">
+      <Card className="border-white/[0.08] bg-[#12121a] overflow-hidden">
+        <CardHeader className="pb-3 pt-4 px-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <CardTitle className="text-sm font-semibold text-white flex items-center gap-2">
+              <CalendarDays className="h-3.5 w-3.5 text-cyan-400" />
+              Warehouse arrivals ·{" "}
+              {new Date(`${month}-01T00:00:00`).toLocaleDateString("en-US", { month: "long", year: "numeric" })}
+            </CardTitle>
+            <div className="flex items-center gap-1">
+              <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => shiftMonth(-1)}>
+                <ChevronLeft className="h-3.5 w-3.5" />
+              </Button>
+              <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setMonth(today.slice(0, 7))}>
+                Today
+              </Button>
+              <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => shiftMonth(1)}>
+                <ChevronRight className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-1.5 pt-2">
+            {factories.map((f) => {
+              const color = FACTORY_COLORS[f] || DEFAULT_FACTORY_COLOR;
+              return (
+                <span key={f} className={`rounded border px-1.5 py-0.5 text-[10px] font-medium ${color.bg} ${color.text} ${color.border}`}>
+                  {f}
+                </span>
+              );
+            })}
+            <span className="text-[10px] text-muted-foreground self-center">· dot = status</span>
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          <div className="grid grid-cols-7 border-t border-white/10 text-[11px]">
+            {WEEKDAYS.map((d) => (
+              <div key={d} className="px-2 py-1.5 text-center font-semibold uppercase tracking-wider text-muted-foreground">{d}</div>
+            ))}
+            {days.map((day) => {
+              const list = byDay.get(day) ?? [];
+              const inMonth = day.startsWith(month);
+              const inSelectedWeek = weekStartOf(day) === selectedWeek;
+              return (
+                <button
+                  key={day}
+                  onClick={() => setSelectedWeek(weekStartOf(day))}
+                  className={`min-h-[76px] border-t border-white/[0.05] p-1.5 text-left align-top transition-colors hover:bg-white/[0.04] ${
+                    inSelectedWeek ? "bg-cyan-400/[0.06]" : ""
+                  } ${inMonth ? "" : "opacity-40"}`}
+                >
+                  <span className={`mb-1 block text-[11px] tabular-nums ${day === today ? "font-bold text-cyan-300" : "text-muted-foreground"}`}>
+                    {Number(day.slice(8))}
+                  </span>
+                  <span className="flex flex-col gap-0.5">
+                    {list.slice(0, 3).map((c) => (
+                      <ContainerChip key={c.id} c={c} compact />
+                    ))}
+                    {list.length > 3 && <span className="text-[10px] text-muted-foreground">+{list.length - 3} more</span>}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="border-white/[0.08] bg-[#12121a] overflow-hidden">
+        <CardHeader className="pb-3 pt-4 px-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <CardTitle className="text-sm font-semibold text-white flex items-center gap-2">
+              <Package className="h-3.5 w-3.5 text-cyan-400" />
+              Receiving plan · week of {formatDay(selectedWeek, true)}
+              {selectedWeek === weekStartOf(today) && <span className="text-xs font-normal text-cyan-300">this week</span>}
+              {selectedWeek === addDays(weekStartOf(today), 7) && <span className="text-xs font-normal text-cyan-300">next week</span>}
+            </CardTitle>
+            <div className="flex items-center gap-1">
+              <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => setSelectedWeek(addDays(selectedWeek, -7))}>
+                <ChevronLeft className="h-3.5 w-3.5" />
+              </Button>
+              <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setSelectedWeek(addDays(weekStartOf(today), 7))}>
+                Next week
+              </Button>
+              <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => setSelectedWeek(addDays(selectedWeek, 7))}>
+                <ChevronRight className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          </div>
+          {unblocksNote && <p className="pt-1 text-[11px] text-amber-200/80">{unblocksNote}</p>}
+        </CardHeader>
+        <CardContent className="px-4 pb-4">
+          {!week ? (
+            <p className="py-6 text-center text-xs text-muted-foreground">No containers are due at the warehouse this week.</p>
+          ) : (
+            <div className="grid gap-4 lg:grid-cols-2">
+              <div className="space-y-2">
+                <p className="text-[11px] uppercase tracking-wider text-muted-foreground">Landing ({week.containers.length})</p>
+                {week.containers.map((c) => (
+                  <div key={c.id} className="rounded-lg border border-white/[0.06] bg-white/[0.015] p-3">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <ContainerChip c={c} />
+                      <span className="text-[11px] tabular-nums text-white">{formatDay(c.eta!)}</span>
+                      {c.status && <span className={`text-[11px] ${(STATUS_STYLES[c.status] || DEFAULT_STATUS_STYLE).text}`}>{c.status}</span>}
+                      <span className="ml-auto text-[11px] text-muted-foreground">
+                        {c.rooms.length} room{c.rooms.length === 1 ? "" : "s"} · {c.partCount} part{c.partCount === 1 ? "" : "s"}
+                      </span>
+                    </div>
+                    {c.rooms.length > 0 ? (
+                      <ul className="mt-2 space-y-0.5">
+                        {c.rooms.map((r) => (
+                          <li key={`${r.tower}:${r.roomNo}`} className="flex items-center gap-1.5 text-[11px]">
+                            <span className={`rounded px-1 text-[10px] ${r.tower === "HR" ? "bg-blue-500/15 text-blue-200" : "bg-purple-500/15 text-purple-200"}`}>{r.tower}</span>
+                            <span className="font-medium text-white">{r.roomNo}</span>
+                            <span className="truncate text-muted-foreground">{r.packages.join(", ")}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      unblocks && (
+                        <p className="mt-2 text-[11px] text-muted-foreground">
+                          {c.numbers.length === 0 ? "No container # on the schedule to match." : "No Tracking Detail parts reference this container."}
+                        </p>
+                      )
+                    )}
+                  </div>
+                ))}
+              </div>
+              <div>
+                <p className="mb-2 text-[11px] uppercase tracking-wider text-muted-foreground flex items-center gap-1">
+                  <MapPin className="h-3 w-3" /> Where it goes ({week.rooms.length} rooms · {week.partCount} parts)
+                </p>
+                <FloorBreakdown week={week} />
+              </div>
+            </div>
+          )}
+          {plan.undated.length > 0 && (
+            <p className="mt-4 text-[11px] text-muted-foreground">
+              {plan.undated.length} container{plan.undated.length === 1 ? " has" : "s have"} no warehouse ETA and aren't on the calendar.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+/** The week's rooms grouped by tower and floor, highest floor first. */
+function FloorBreakdown({ week }: { week: ReceivingWeek }) {
+  const floors = useMemo(() => {
+    const m = new Map<string, { tower: string; floor: string; rooms: string[]; packages: Set<string>; parts: number }>();
+    for (const r of week.rooms) {
+      const key = `${r.tower}:${r.floor}`;
+      const f = m.get(key) ?? { tower: r.tower, floor: r.floor, rooms: [], packages: new Set<string>(), parts: 0 };
+      f.rooms.push(r.roomNo);
+      r.packages.forEach((p) => f.packages.add(p));
+      f.parts += r.partCount;
+      m.set(key, f);
+    }
+    return [...m.values()].sort((a, b) => a.tower.localeCompare(b.tower) || (parseInt(b.floor, 10) || 0) - (parseInt(a.floor, 10) || 0));
+  }, [week]);
+
+  if (floors.length === 0) return <p className="text-xs text-muted-foreground">No rooms matched for this week's containers.</p>;
+  return (
+    <ul className="space-y-1.5">
+      {floors.map((f) => (
+        <li key={`${f.tower}:${f.floor}`} className="rounded-md border border-white/[0.06] bg-white/[0.015] px-3 py-2 text-[11px]">
+          <div className="flex items-center gap-2">
+            <span className={`rounded px-1 text-[10px] ${f.tower === "HR" ? "bg-blue-500/15 text-blue-200" : "bg-purple-500/15 text-purple-200"}`}>{f.tower}</span>
+            <span className="font-semibold text-white">Floor {f.floor || "—"}</span>
+            <span className="ml-auto tabular-nums text-muted-foreground">{f.parts} parts</span>
+          </div>
+          <p className="mt-1 text-muted-foreground">
+            Rooms {f.rooms.join(", ")} · {[...f.packages].join(", ")}
+          </p>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -19,6 +19,7 @@ import {
   Anchor,
   X,
   Filter,
+  AlertTriangle,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -36,7 +37,10 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { Skeleton } from "@/components/ui/skeleton";
-import type { ContainerScheduleItem, ContainerScheduleSummary } from "@/lib/api";
+import type { ContainerScheduleItem, ContainerScheduleSummary, ContainerSlippage } from "@/lib/api";
+import { scheduleContainerKey, DEFAULT_SLIP_THRESHOLD_DAYS } from "@shared/lib/etaSlippage";
+import { EtaSlippageCard, EtaHistory, SlipBadge } from "./EtaSlippageCard";
+import { FACTORY_COLORS, DEFAULT_FACTORY_COLOR, STATUS_STYLES, DEFAULT_STATUS_STYLE } from "./scheduleStyles";
 
 // Status lifecycle order (for the step indicator)
 const STATUS_ORDER = [
@@ -48,31 +52,6 @@ const STATUS_ORDER = [
   "Arrived to hotel",
 ];
 
-// Status color map - follows the shipment lifecycle
-const STATUS_STYLES: Record<string, { bg: string; text: string; border: string; dot: string }> = {
-  "Ready to be shipped": { bg: "bg-amber-500/15", text: "text-amber-400", border: "border-amber-500/30", dot: "bg-amber-400" },
-  "Passed inspection": { bg: "bg-sky-500/15", text: "text-sky-400", border: "border-sky-500/30", dot: "bg-sky-400" },
-  "Shipped": { bg: "bg-blue-500/15", text: "text-blue-400", border: "border-blue-500/30", dot: "bg-blue-400" },
-  "Arrived NY Port": { bg: "bg-violet-500/15", text: "text-violet-400", border: "border-violet-500/30", dot: "bg-violet-400" },
-  "Warehouse": { bg: "bg-emerald-500/15", text: "text-emerald-400", border: "border-emerald-500/30", dot: "bg-emerald-400" },
-  "Arrived to hotel": { bg: "bg-green-500/15", text: "text-green-400", border: "border-green-500/30", dot: "bg-green-400" },
-};
-
-const DEFAULT_STATUS_STYLE = { bg: "bg-gray-500/15", text: "text-gray-400", border: "border-gray-500/30", dot: "bg-gray-400" };
-
-// Factory colors for chips
-const FACTORY_COLORS: Record<string, { bg: string; text: string; border: string }> = {
-  IDM: { bg: "bg-teal-500/15", text: "text-teal-300", border: "border-teal-500/25" },
-  SESE: { bg: "bg-pink-500/15", text: "text-pink-300", border: "border-pink-500/25" },
-  ZHONGSHAN: { bg: "bg-amber-500/15", text: "text-amber-300", border: "border-amber-500/25" },
-  ORBITA: { bg: "bg-blue-500/15", text: "text-blue-300", border: "border-blue-500/25" },
-  DONGNA: { bg: "bg-indigo-500/15", text: "text-indigo-300", border: "border-indigo-500/25" },
-  DONGFANG: { bg: "bg-orange-500/15", text: "text-orange-300", border: "border-orange-500/25" },
-  ZHONGBAI: { bg: "bg-violet-500/15", text: "text-violet-300", border: "border-violet-500/25" },
-};
-
-const DEFAULT_FACTORY_COLOR = { bg: "bg-gray-500/15", text: "text-gray-300", border: "border-gray-500/25" };
-
 type SortField = "factory" | "containerLoaded" | "shipmentNumber" | "containerNumber" | "delivery" | "loadingDate" | "vesselDepartureDate" | "etaNYPort" | "etaWarehouse" | "status";
 type SortDirection = "asc" | "desc";
 
@@ -247,9 +226,10 @@ interface ContainerScheduleDashboardProps {
   containers: ContainerScheduleItem[];
   summary: ContainerScheduleSummary;
   isLoading: boolean;
+  slippage?: ContainerSlippage[];
 }
 
-export function ContainerScheduleDashboard({ containers, summary, isLoading }: ContainerScheduleDashboardProps) {
+export function ContainerScheduleDashboard({ containers, summary, isLoading, slippage = [] }: ContainerScheduleDashboardProps) {
   const [searchQuery, setSearchQuery] = useState("");
   const [factoryFilter, setFactoryFilter] = useState<string>("all");
   const [statusFilter, setStatusFilter] = useState<string>("all");
@@ -257,6 +237,11 @@ export function ContainerScheduleDashboard({ containers, summary, isLoading }: C
   const [sortDirection, setSortDirection] = useState<SortDirection>("asc");
   const [expandedRow, setExpandedRow] = useState<number | null>(null);
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const [slipThreshold, setSlipThreshold] = useState(DEFAULT_SLIP_THRESHOLD_DAYS);
+
+  const slipByContainer = useMemo(() => new Map(slippage.map((s) => [s.container, s])), [slippage]);
+  const slipFor = (container: ContainerScheduleItem) => slipByContainer.get(scheduleContainerKey(container.containerNumber));
+  const slippedCount = slippage.filter((s) => s.daysSlipped > slipThreshold).length;
 
   // Escape key to exit fullscreen
   useEffect(() => {
@@ -449,6 +434,8 @@ export function ContainerScheduleDashboard({ containers, summary, isLoading }: C
           </div>
         </div>
 
+        <EtaHistory slip={slipFor(container)} />
+
         {/* Photos */}
         {photoDocs.length > 0 && (
           <div>
@@ -593,7 +580,10 @@ export function ContainerScheduleDashboard({ containers, summary, isLoading }: C
 
                       {/* ETA WH */}
                       <td className="px-4 py-3">
-                        <span className="text-[13px] text-muted-foreground tabular-nums">{formatDate(container.etaWarehouse)}</span>
+                        <div className="flex flex-col items-start gap-1">
+                          <span className="text-[13px] text-muted-foreground tabular-nums">{formatDate(container.etaWarehouse)}</span>
+                          <SlipBadge slip={slipFor(container)} threshold={slipThreshold} />
+                        </div>
                       </td>
 
                       {/* Status */}
@@ -683,6 +673,7 @@ export function ContainerScheduleDashboard({ containers, summary, isLoading }: C
                       <span className="text-[11px] text-muted-foreground font-mono">
                         #{container.shipmentNumber}
                       </span>
+                      <SlipBadge slip={slipFor(container)} threshold={slipThreshold} />
                     </div>
                     <div className="flex items-center gap-2">
                       {container.status && (
@@ -890,6 +881,14 @@ export function ContainerScheduleDashboard({ containers, summary, isLoading }: C
           <span className="text-sm font-semibold text-emerald-400 tabular-nums">{warehouseCount}</span>
           <span className="text-xs text-muted-foreground">delivered</span>
         </div>
+
+        {slippedCount > 0 && (
+          <div className="flex items-center gap-1.5">
+            <AlertTriangle className="h-3.5 w-3.5 text-red-400" />
+            <span className="text-sm font-semibold text-red-400 tabular-nums">{slippedCount}</span>
+            <span className="text-xs text-muted-foreground">slipped &gt;{slipThreshold}d</span>
+          </div>
+        )}
       </div>
 
       {/* Main Table Card - filters integrated into header */}
@@ -919,6 +918,8 @@ export function ContainerScheduleDashboard({ containers, summary, isLoading }: C
           {tableContent}
         </CardContent>
       </Card>
+
+      <EtaSlippageCard slippage={slippage} threshold={slipThreshold} onThresholdChange={setSlipThreshold} />
     </div>
   );
 }
@@ -0,0 +1,167 @@
+import { useMemo, useState } from "react";
+import { AlertTriangle, CheckCircle2, CircleDashed, ExternalLink, FileWarning, HelpCircle, Loader2, ShieldCheck, XCircle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import type { ContainerDocumentAudit, DocCheck, DocCheckState } from "@/lib/api";
+import { CONTAINER_DOC_FIELDS } from "@shared/lib/documentAudit";
+import { FACTORY_COLORS, DEFAULT_FACTORY_COLOR } from "./scheduleStyles";
+
+const STATE_META: Record<DocCheckState, { label: string; icon: typeof CheckCircle2; className: string }> = {
+  ok: { label: "Present", icon: CheckCircle2, className: "text-emerald-400" },
+  external: { label: "Link outside Drive (not verified)", icon: ExternalLink, className: "text-sky-400" },
+  unverified: { label: "Drive lookup failed — try again later", icon: HelpCircle, className: "text-gray-400" },
+  missing: { label: "Missing", icon: CircleDashed, className: "text-muted-foreground/40" },
+  "not-a-link": { label: "Text instead of a link", icon: FileWarning, className: "text-amber-400" },
+  "not-found": { label: "Drive file not found or not shared", icon: XCircle, className: "text-red-400" },
+  trashed: { label: "Drive file is in the trash", icon: XCircle, className: "text-red-400" },
+  "wrong-type": { label: "Unexpected file type", icon: FileWarning, className: "text-amber-400" },
+};
+
+function DocCell({ check, required }: { check: DocCheck; required: boolean }) {
+  const meta = STATE_META[check.state];
+  const Icon = meta.icon;
+  const isLink = /^https?:\/\//i.test(check.value.trim());
+  const icon = <Icon className={`h-4 w-4 ${check.state === "missing" && required ? "text-red-400" : meta.className}`} />;
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        {isLink ? (
+          <a href={check.value.trim()} target="_blank" rel="noopener noreferrer" className="inline-flex">
+            {icon}
+          </a>
+        ) : (
+          <span className="inline-flex">{icon}</span>
+        )}
+      </TooltipTrigger>
+      <TooltipContent side="top" className="max-w-xs text-xs">
+        <p className="font-medium">{meta.label}</p>
+        {check.name && <p className="text-muted-foreground">{check.name}</p>}
+        {check.mimeType && <p className="text-muted-foreground">{check.mimeType}</p>}
+        {check.modifiedTime && <p className="text-muted-foreground">Modified {new Date(check.modifiedTime).toLocaleDateString()}</p>}
+        {check.state === "not-a-link" && <p className="text-muted-foreground">"{check.value}"</p>}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
+interface DocumentComplianceMatrixProps {
+  audit: ContainerDocumentAudit | undefined;
+  isLoading: boolean;
+  error: Error | null;
+}
+
+/** Per-container document checklist, with delivered containers missing their BOL or POD called out. */
+export function DocumentComplianceMatrix({ audit, isLoading, error }: DocumentComplianceMatrixProps) {
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const rows = useMemo(() => {
+    const list = audit?.containers ?? [];
+    return (flaggedOnly ? list.filter((c) => c.flagged) : list).slice().sort((a, b) => Number(b.flagged) - Number(a.flagged) || a.id - b.id);
+  }, [audit, flaggedOnly]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-24 text-sm text-muted-foreground">
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Checking every document link against Drive…
+      </div>
+    );
+  }
+  if (error) return <p className="rounded-md border border-red-500/30 bg-red-500/10 px-3 py-2 text-sm text-red-300">{error.message}</p>;
+  if (!audit) return null;
+
+  const { summary } = audit;
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-2 px-1">
+        <div className="flex items-center gap-1.5">
+          <ShieldCheck className="h-3.5 w-3.5 text-emerald-400" />
+          <span className="text-sm font-semibold text-emerald-400 tabular-nums">{summary.complete}</span>
+          <span className="text-xs text-muted-foreground">of {summary.containers} complete</span>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <AlertTriangle className="h-3.5 w-3.5 text-red-400" />
+          <span className="text-sm font-semibold text-red-400 tabular-nums">{summary.flagged}</span>
+          <span className="text-xs text-muted-foreground">of {summary.delivered} delivered missing BOL or proof of delivery</span>
+        </div>
+        {summary.lookupErrors > 0 && (
+          <span className="text-xs text-muted-foreground">{summary.lookupErrors} Drive lookups failed — shown as unverified</span>
+        )}
+      </div>
+
+      <Card className="border-white/[0.08] bg-[#12121a] overflow-hidden">
+        <CardHeader className="pb-3 pt-4 px-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <CardTitle className="text-sm font-semibold text-white">Document compliance</CardTitle>
+            <label className="flex items-center gap-2 text-xs text-muted-foreground">
+              <input type="checkbox" checked={flaggedOnly} onChange={(e) => setFlaggedOnly(e.target.checked)} className="accent-cyan-400" />
+              Only containers holding up payment
+            </label>
+          </div>
+          <div className="flex flex-wrap gap-3 pt-2 text-[10px] text-muted-foreground">
+            {(["ok", "missing", "not-found", "wrong-type", "not-a-link", "external", "unverified"] as DocCheckState[]).map((s) => {
+              const Icon = STATE_META[s].icon;
+              return (
+                <span key={s} className="inline-flex items-center gap-1">
+                  <Icon className={`h-3 w-3 ${STATE_META[s].className}`} /> {STATE_META[s].label}
+                </span>
+              );
+            })}
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          <TooltipProvider>
+            <div className="overflow-x-auto">
+              <table className="w-full text-[12px]">
+                <thead>
+                  <tr className="border-y border-white/10 bg-white/[0.02] text-left text-[11px] uppercase tracking-wider text-muted-foreground">
+                    <th className="px-4 py-2 font-semibold">Container</th>
+                    <th className="px-4 py-2 font-semibold">Status</th>
+                    {CONTAINER_DOC_FIELDS.map((spec) => (
+                      <th key={spec.field} className="px-3 py-2 text-center font-semibold">
+                        {spec.label}
+                        {spec.requiredOnDelivery && <span className="text-red-400">*</span>}
+                        <span className="block text-[10px] font-normal normal-case tabular-nums text-muted-foreground/70">
+                          {summary.byField[spec.field].present}/{summary.containers}
+                        </span>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.length === 0 ? (
+                    <tr>
+                      <td colSpan={2 + CONTAINER_DOC_FIELDS.length} className="px-4 py-10 text-center text-sm text-muted-foreground">
+                        {flaggedOnly ? "No delivered container is missing its BOL or proof of delivery." : "No containers on the schedule."}
+                      </td>
+                    </tr>
+                  ) : (
+                    rows.map((c) => {
+                      const factory = FACTORY_COLORS[c.factory] || DEFAULT_FACTORY_COLOR;
+                      return (
+                        <tr key={c.id} className={`border-b border-white/[0.04] ${c.flagged ? "bg-red-500/[0.05]" : ""}`}>
+                          <td className="px-4 py-2">
+                            <div className="flex items-center gap-2">
+                              <span className={`rounded-md border px-1.5 py-0.5 text-[10px] font-semibold ${factory.bg} ${factory.text} ${factory.border}`}>{c.factory || "—"}</span>
+                              <span className="font-mono text-white">{c.container || "—"}</span>
+                              {c.flagged && <AlertTriangle className="h-3.5 w-3.5 text-red-400" />}
+                            </div>
+                          </td>
+                          <td className="px-4 py-2 text-muted-foreground">{c.status || "—"}</td>
+                          {CONTAINER_DOC_FIELDS.map((spec) => (
+                            <td key={spec.field} className="px-3 py-2 text-center">
+                              <DocCell check={c.docs[spec.field]} required={c.delivered && spec.requiredOnDelivery} />
+                            </td>
+                          ))}
+                        </tr>
+                      );
+                    })
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </TooltipProvider>
+          <p className="px-4 py-2.5 text-[11px] text-muted-foreground/70">* Required once a container reaches the warehouse.</p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
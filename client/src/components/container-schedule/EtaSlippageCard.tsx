@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { AlertTriangle, ChevronRight, History } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { ContainerSlippage, EtaSlip } from "@/lib/api";
+
+export const SLIP_THRESHOLD_OPTIONS = [3, 7, 14, 30];
+
+function formatIsoDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+function formatSlip(days: number): string {
+  if (days === 0) return "on time";
+  return days > 0 ? `+${days}d` : `${days}d`;
+}
+
+/** The field the headline slip comes from — warehouse on a tie. */
+function headlineField(slip: ContainerSlippage): { field: EtaSlip; label: string } {
+  if (slip.warehouse && (slip.warehouse.daysSlipped === slip.daysSlipped || !slip.nyPort)) return { field: slip.warehouse, label: "WH" };
+  return { field: slip.nyPort!, label: "port" };
+}
+
+/** "+12d" badge for a container that slipped past the threshold. */
+export function SlipBadge({ slip, threshold }: { slip: ContainerSlippage | undefined; threshold: number }) {
+  if (!slip || slip.daysSlipped <= threshold) return null;
+  const { field, label } = headlineField(slip);
+  return (
+    <span
+      title={`ETA ${label} originally ${formatIsoDate(field.original)}, now ${formatIsoDate(field.current)} · ${slip.revisions} revision${slip.revisions === 1 ? "" : "s"}`}
+      className="inline-flex items-center gap-1 rounded-md border border-red-500/30 bg-red-500/10 px-1.5 py-0.5 text-[10px] font-semibold text-red-300 tabular-nums"
+    >
+      <AlertTriangle className="h-3 w-3" />
+      {formatSlip(slip.daysSlipped)}
+    </span>
+  );
+}
+
+/** Every ETA recorded for one container, for the expanded row. */
+export function EtaHistory({ slip }: { slip: ContainerSlippage | undefined }) {
+  if (!slip) return null;
+  const fields: [string, EtaSlip | null][] = [["ETA NY Port", slip.nyPort], ["ETA Warehouse", slip.warehouse]];
+  return (
+    <div className="rounded-lg bg-white/[0.02] border border-white/5 p-4">
+      <p className="text-[11px] text-muted-foreground uppercase tracking-wider mb-3 flex items-center gap-1.5">
+        <History className="h-3 w-3" />
+        ETA History
+      </p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {fields.map(([label, field]) =>
+          field ? (
+            <div key={label}>
+              <p className="text-xs text-muted-foreground mb-1.5">
+                {label} · <span className={field.daysSlipped > 0 ? "text-red-300" : "text-emerald-300"}>{formatSlip(field.daysSlipped)}</span>
+              </p>
+              <ul className="space-y-1">
+                {field.history.map((h) => (
+                  <li key={h.observedAt} className="flex items-center justify-between text-[12px]">
+                    <span className="text-white tabular-nums">{formatIsoDate(h.eta)}</span>
+                    <span className="text-muted-foreground/70">seen {new Date(h.observedAt).toLocaleDateString()}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null,
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface EtaSlippageCardProps {
+  slippage: ContainerSlippage[];
+  threshold: number;
+  onThresholdChange: (days: number) => void;
+}
+
+/** Original vs current ETA per container — how late the factory is versus what it promised. */
+export function EtaSlippageCard({ slippage, threshold, onThresholdChange }: EtaSlippageCardProps) {
+  const [showAll, setShowAll] = useState(false);
+  const flagged = slippage.filter((s) => s.daysSlipped > threshold);
+  const shown = showAll ? slippage : flagged;
+  const firstSeen = slippage.length > 0 ? slippage.reduce((min, s) => (s.firstSeenAt < min ? s.firstSeenAt : min), slippage[0].firstSeenAt) : null;
+
+  return (
+    <Card className="border-white/[0.08] bg-[#12121a] overflow-hidden">
+      <CardHeader className="pb-3 pt-4 px-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-sm font-semibold text-white flex items-center gap-2">
+            <AlertTriangle className="h-3.5 w-3.5 text-red-400" />
+            ETA slippage
+            <span className="text-muted-foreground font-normal">
+              {flagged.length} container{flagged.length === 1 ? "" : "s"} slipped more than {threshold} days
+            </span>
+          </CardTitle>
+          <div className="flex items-center gap-1 text-xs">
+            <span className="text-muted-foreground mr-1">Flag over</span>
+            {SLIP_THRESHOLD_OPTIONS.map((days) => (
+              <button
+                key={days}
+                onClick={() => onThresholdChange(days)}
+                className={`rounded-md border px-2 py-1 font-medium transition-colors ${
+                  threshold === days ? "border-cyan-400/40 bg-cyan-400/10 text-cyan-300" : "border-white/10 bg-white/[0.03] text-muted-foreground hover:text-white"
+                }`}
+              >
+                {days}d
+              </button>
+            ))}
+          </div>
+        </div>
+        {firstSeen && (
+          <p className="text-[11px] text-muted-foreground/70 mt-1">
+            Compared with the first ETA recorded since {new Date(firstSeen).toLocaleDateString()} — earlier promises weren't captured.
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="p-0">
+        {slippage.length === 0 ? (
+          <p className="px-4 pb-4 text-xs text-muted-foreground">No ETAs recorded yet — history starts with the next schedule refresh.</p>
+        ) : (
+          <>
+            {shown.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-[12px]">
+                  <thead>
+                    <tr className="border-y border-white/10 bg-white/[0.02] text-left text-[11px] uppercase tracking-wider text-muted-foreground">
+                      <th className="px-4 py-2 font-semibold">Cont #</th>
+                      <th className="px-4 py-2 font-semibold">Original ETA</th>
+                      <th className="px-4 py-2 font-semibold">Current ETA</th>
+                      <th className="px-4 py-2 font-semibold text-right">Slipped</th>
+                      <th className="px-4 py-2 font-semibold text-right">Revisions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {shown.map((s) => {
+                      const { field, label } = headlineField(s);
+                      return (
+                        <tr key={s.container} className="border-b border-white/[0.04]">
+                          <td className="px-4 py-2 font-mono text-white">{s.container}</td>
+                          <td className="px-4 py-2 text-muted-foreground tabular-nums">
+                            {formatIsoDate(field.original)}
+                            <span className="ml-1 text-[10px] text-muted-foreground/60">{label}</span>
+                          </td>
+                          <td className="px-4 py-2 text-white tabular-nums">{formatIsoDate(field.current)}</td>
+                          <td className={`px-4 py-2 text-right font-semibold tabular-nums ${s.daysSlipped > threshold ? "text-red-300" : "text-muted-foreground"}`}>
+                            {formatSlip(s.daysSlipped)}
+                          </td>
+                          <td className="px-4 py-2 text-right text-muted-foreground tabular-nums">{s.revisions}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            <button
+              onClick={() => setShowAll((v) => !v)}
+              className="flex items-center gap-1 px-4 py-2.5 text-xs font-medium text-cyan-400 hover:text-cyan-300"
+            >
+              <ChevronRight className={`h-3 w-3 transition-transform ${showAll ? "rotate-90" : ""}`} />
+              {showAll ? `Only containers over ${threshold} days` : `All ${slippage.length} tracked containers`}
+            </button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,26 @@
+// Container Schedule colors, shared by the table and the arrival calendar.
+
+// Factory colors for chips
+export const FACTORY_COLORS: Record<string, { bg: string; text: string; border: string }> = {
+  IDM: { bg: "bg-teal-500/15", text: "text-teal-300", border: "border-teal-500/25" },
+  SESE: { bg: "bg-pink-500/15", text: "text-pink-300", border: "border-pink-500/25" },
+  ZHONGSHAN: { bg: "bg-amber-500/15", text: "text-amber-300", border: "border-amber-500/25" },
+  ORBITA: { bg: "bg-blue-500/15", text: "text-blue-300", border: "border-blue-500/25" },
+  DONGNA: { bg: "bg-indigo-500/15", text: "text-indigo-300", border: "border-indigo-500/25" },
+  DONGFANG: { bg: "bg-orange-500/15", text: "text-orange-300", border: "border-orange-500/25" },
+  ZHONGBAI: { bg: "bg-violet-500/15", text: "text-violet-300", border: "border-violet-500/25" },
+};
+
+export const DEFAULT_FACTORY_COLOR = { bg: "bg-gray-500/15", text: "text-gray-300", border: "border-gray-500/25" };
+
+// Status color map - follows the shipment lifecycle
+export const STATUS_STYLES: Record<string, { bg: string; text: string; border: string; dot: string }> = {
+  "Ready to be shipped": { bg: "bg-amber-500/15", text: "text-amber-400", border: "border-amber-500/30", dot: "bg-amber-400" },
+  "Passed inspection": { bg: "bg-sky-500/15", text: "text-sky-400", border: "border-sky-500/30", dot: "bg-sky-400" },
+  "Shipped": { bg: "bg-blue-500/15", text: "text-blue-400", border: "border-blue-500/30", dot: "bg-blue-400" },
+  "Arrived NY Port": { bg: "bg-violet-500/15", text: "text-violet-400", border: "border-violet-500/30", dot: "bg-violet-400" },
+  "Warehouse": { bg: "bg-emerald-500/15", text: "text-emerald-400", border: "border-emerald-500/30", dot: "bg-emerald-400" },
+  "Arrived to hotel": { bg: "bg-green-500/15", text: "text-green-400", border: "border-green-500/30", dot: "bg-green-400" },
+};
+
+export const DEFAULT_STATUS_STYLE = { bg: "bg-gray-500/15", text: "text-gray-400", border: "border-gray-500/30", dot: "bg-gray-400" };
@@ -2,11 +2,12 @@ import { ReactNode, useState, useEffect } from "react";
 import { Link, useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { Sidebar, SidebarProvider, useSidebar } from "./Sidebar";
-import { RefreshCw, Menu, X, Clock, LayoutDashboard, Building2, DollarSign, Calendar, Lock, BedDouble, FileText, Link2, ShieldAlert, Layers, Container, LayoutGrid } from "lucide-react";
+import { RefreshCw, Menu, X, Clock, LayoutDashboard, Building2, DollarSign, Calendar, Lock, BedDouble, FileText, Link2, ShieldAlert, Layers, Container, LayoutGrid, Users, FileUp } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
-import type { TabAuthStatus } from "@/components/TabPasswordGate";
+import type { TabAuthStatus, TabAuthKey } from "@/components/TabPasswordGate";
+import { useDataFetchedAt } from "@/lib/dataAge";
 
 interface DashboardLayoutProps {
   children: ReactNode;
@@ -22,7 +23,7 @@ interface MobileNavItem {
   icon: ReactNode;
   iconColor: string;
   managementOnly?: boolean;
-  requiredAuth?: keyof TabAuthStatus;
+  requiredAuth?: TabAuthKey;
 }
 
 const mobileNavItems: MobileNavItem[] = [
@@ -32,10 +33,12 @@ const mobileNavItems: MobileNavItem[] = [
   { title: "Delivery & Installation", href: "/rollup", icon: <Layers className="h-5 w-5" />, iconColor: "text-indigo-400", requiredAuth: "construction" },
   { title: "Containers", href: "/containers", icon: <Container className="h-5 w-5" />, iconColor: "text-cyan-400", requiredAuth: "construction" },
   { title: "Common Areas", href: "/common-areas", icon: <LayoutGrid className="h-5 w-5" />, iconColor: "text-violet-400", requiredAuth: "construction" },
-  { title: "Budget", href: "/budget", icon: <DollarSign className="h-5 w-5" />, iconColor: "text-green-400", managementOnly: true, requiredAuth: "management" },
-  { title: "Timeline", href: "/timeline", icon: <Calendar className="h-5 w-5" />, iconColor: "text-amber-400", managementOnly: true, requiredAuth: "management" },
-  { title: "Room Specs", href: "/room-specs", icon: <BedDouble className="h-5 w-5" />, iconColor: "text-rose-400", managementOnly: true, requiredAuth: "management" },
-  { title: "Vendor Invoices", href: "/vendor-invoices", icon: <FileText className="h-5 w-5" />, iconColor: "text-yellow-400", managementOnly: true, requiredAuth: "management" },
+  { title: "Budget", href: "/budget", icon: <DollarSign className="h-5 w-5" />, iconColor: "text-green-400", managementOnly: true, requiredAuth: "budget" },
+  { title: "Timeline", href: "/timeline", icon: <Calendar className="h-5 w-5" />, iconColor: "text-amber-400", managementOnly: true, requiredAuth: "timeline" },
+  { title: "Room Specs", href: "/room-specs", icon: <BedDouble className="h-5 w-5" />, iconColor: "text-rose-400", managementOnly: true, requiredAuth: "budget" },
+  { title: "Vendor Invoices", href: "/vendor-invoices", icon: <FileText className="h-5 w-5" />, iconColor: "text-yellow-400", managementOnly: true, requiredAuth: "budget" },
+  { title: "Users", href: "/users", icon: <Users className="h-5 w-5" />, iconColor: "text-sky-400", managementOnly: true, requiredAuth: "admin" },
+  { title: "Workbook Upload", href: "/workbook-upload", icon: <FileUp className="h-5 w-5" />, iconColor: "text-sky-400", managementOnly: true, requiredAuth: "admin" },
 ];
 
 // Same labeled sections as the desktop sidebar (display order/grouping only). Hrefs
@@ -43,11 +46,14 @@ const mobileNavItems: MobileNavItem[] = [
 const MOBILE_NAV_SECTIONS: { label: string; hrefs: string[] }[] = [
   { label: "Main", hrefs: ["/overview", "/construction"] },
   { label: "Tracking Detail", hrefs: ["/exceptions", "/rollup", "/containers", "/common-areas"] },
-  { label: "Management", hrefs: ["/budget", "/timeline", "/weekly-goals", "/container-schedule", "/room-specs", "/vendor-invoices"] },
+  { label: "Management", hrefs: ["/budget", "/timeline", "/weekly-goals", "/container-schedule", "/room-specs", "/vendor-invoices", "/users", "/workbook-upload"] },
 ];
 
 function Header({ title, subtitle, onRefresh, isLoading }: Omit<DashboardLayoutProps, 'children'>) {
   const [lastSync, setLastSync] = useState<Date>(new Date());
+  const [, setTick] = useState(0);
+  // Server-reported age of the oldest sheet data on this page (X-Data-Age)
+  const dataFetchedAt = useDataFetchedAt();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
   const handleRefresh = () => {
@@ -74,7 +80,7 @@ function Header({ title, subtitle, onRefresh, isLoading }: Omit<DashboardLayoutP
   // Auto-update the "last sync" display
   useEffect(() => {
     const interval = setInterval(() => {
-      setLastSync((prev) => prev);
+      setTick((tick) => tick + 1);
     }, 60000);
     return () => clearInterval(interval);
   }, []);
@@ -120,9 +126,12 @@ function Header({ title, subtitle, onRefresh, isLoading }: Omit<DashboardLayoutP
             <span>Synced</span>
           </div>
           <span className="text-muted-foreground/50">|</span>
-          <div className="flex items-center gap-1">
+          <div
+            className="flex items-center gap-1"
+            title={dataFetchedAt ? `Sheet data fetched ${dataFetchedAt.toLocaleString()}` : undefined}
+          >
             <Clock className="h-3 w-3" />
-            <span>{formatLastSync(lastSync)}</span>
+            <span>{formatLastSync(dataFetchedAt ?? lastSync)}</span>
           </div>
         </div>
 
@@ -19,11 +19,17 @@ import {
   Layers,
   Container,
   LayoutGrid,
+  Users,
+  FileUp,
+  Percent,
+  Stethoscope,
+  ListChecks,
+  ListOrdered,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import type { TabAuthStatus } from "@/components/TabPasswordGate";
+import type { TabAuthStatus, TabAuthKey } from "@/components/TabPasswordGate";
 
 interface SidebarContextType {
   isCollapsed: boolean;
@@ -46,7 +52,7 @@ interface NavItem {
   badge?: string;
   managementOnly?: boolean;
   /** Which tab-auth key is required to show this item. "anyAuthenticated" for Overview. */
-  requiredAuth?: keyof TabAuthStatus;
+  requiredAuth?: TabAuthKey;
 }
 
 const mainNavItems: NavItem[] = [
@@ -82,6 +88,30 @@ const mainNavItems: NavItem[] = [
     description: "Received vs installed per package, by floor & room",
     requiredAuth: "construction",
   },
+  {
+    title: "Stale Sheet %",
+    href: "/mismatches",
+    icon: <Percent className="h-5 w-5" />,
+    iconColor: "text-amber-400",
+    description: "Package %s on the sheet that disagree with their parts",
+    requiredAuth: "construction",
+  },
+  {
+    title: "Most-Missing Parts",
+    href: "/parts",
+    icon: <ListOrdered className="h-5 w-5" />,
+    iconColor: "text-red-400",
+    description: "Every part ranked by rooms still waiting on it",
+    requiredAuth: "construction",
+  },
+  {
+    title: "Specs vs Progress",
+    href: "/spec-rollup",
+    icon: <ListChecks className="h-5 w-5" />,
+    iconColor: "text-rose-400",
+    description: "Installation progress by room spec, and spec disagreements",
+    requiredAuth: "construction",
+  },
   {
     title: "Containers",
     href: "/containers",
@@ -105,7 +135,7 @@ const mainNavItems: NavItem[] = [
     iconColor: "text-green-400",
     description: "Project budget tracking",
     managementOnly: true,
-    requiredAuth: "management",
+    requiredAuth: "budget",
   },
   {
     title: "Timeline",
@@ -114,7 +144,7 @@ const mainNavItems: NavItem[] = [
     iconColor: "text-amber-400",
     description: "Project schedule and milestones",
     managementOnly: true,
-    requiredAuth: "management",
+    requiredAuth: "timeline",
   },
   {
     title: "Weekly Goals",
@@ -123,7 +153,7 @@ const mainNavItems: NavItem[] = [
     iconColor: "text-orange-400",
     description: "Weekly sprint goals and progress",
     managementOnly: true,
-    requiredAuth: "management",
+    requiredAuth: "budget",
   },
   {
     title: "Container Schedule",
@@ -132,7 +162,7 @@ const mainNavItems: NavItem[] = [
     iconColor: "text-cyan-400",
     description: "Shipment tracking from factory to warehouse",
     managementOnly: true,
-    requiredAuth: "management",
+    requiredAuth: "budget",
   },
   {
     title: "Room Specs",
@@ -141,7 +171,7 @@ const mainNavItems: NavItem[] = [
     iconColor: "text-rose-400",
     description: "Room specifications and fact sheet",
     managementOnly: true,
-    requiredAuth: "management",
+    requiredAuth: "budget",
   },
   {
     title: "Vendor Invoices",
@@ -150,7 +180,34 @@ const mainNavItems: NavItem[] = [
     iconColor: "text-yellow-400",
     description: "Browse vendor documents and invoices",
     managementOnly: true,
-    requiredAuth: "management",
+    requiredAuth: "budget",
+  },
+  {
+    title: "Users",
+    href: "/users",
+    icon: <Users className="h-5 w-5" />,
+    iconColor: "text-sky-400",
+    description: "Invite people, set roles, disable accounts",
+    managementOnly: true,
+    requiredAuth: "admin",
+  },
+  {
+    title: "Workbook Upload",
+    href: "/workbook-upload",
+    icon: <FileUp className="h-5 w-5" />,
+    iconColor: "text-sky-400",
+    description: "Preview an .xlsx export, serve it when Sheets is down",
+    managementOnly: true,
+    requiredAuth: "admin",
+  },
+  {
+    title: "Sheet Health",
+    href: "/sheet-health",
+    icon: <Stethoscope className="h-5 w-5" />,
+    iconColor: "text-sky-400",
+    description: "Tracking Detail layout vs the expected taxonomy",
+    managementOnly: true,
+    requiredAuth: "admin",
   },
 ];
 
@@ -160,8 +217,8 @@ const mainNavItems: NavItem[] = [
 // item keeps its relative order (Overview→Construction on top, Budget→… below).
 const NAV_SECTIONS: { label: string; hrefs: string[] }[] = [
   { label: "Main", hrefs: ["/overview", "/construction"] },
-  { label: "Tracking Detail", hrefs: ["/exceptions", "/rollup", "/containers", "/common-areas"] },
-  { label: "Management", hrefs: ["/budget", "/timeline", "/weekly-goals", "/container-schedule", "/room-specs", "/vendor-invoices"] },
+  { label: "Tracking Detail", hrefs: ["/exceptions", "/rollup", "/mismatches", "/parts", "/spec-rollup", "/containers", "/common-areas"] },
+  { label: "Management", hrefs: ["/budget", "/timeline", "/weekly-goals", "/container-schedule", "/room-specs", "/vendor-invoices", "/users", "/workbook-upload", "/sheet-health"] },
 ];
 
 const bottomNavItems: NavItem[] = [];
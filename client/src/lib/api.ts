@@ -1,5 +1,11 @@
 // API client for Google Sheets data
 
+import { recordDataAge } from './dataAge';
+import type { TriageStatus } from '@shared/config/triage';
+import type { PaymentLinkType, PaymentMilestone } from '@shared/config/cashFlow';
+import type { ChangeOrderStatus } from '@shared/config/changeOrders';
+import type { SpecAttribute, SpecFeature } from '@shared/types/dashboard';
+
 export interface SheetRow {
   [key: string]: string | number | boolean | null;
 }
@@ -17,6 +23,7 @@ async function handleResponse<T>(response: Response): Promise<T> {
     const error = await response.json().catch(() => ({ message: 'Unknown error' }));
     throw new Error(error.message || `HTTP ${response.status}`);
   }
+  recordDataAge(response);
   return response.json();
 }
 
@@ -63,6 +70,43 @@ export interface ExceptionItem {
   part: string;         // part header
   rawValue: string;
   reason: string;       // canonical label, e.g. "Not Found"
+  triage: ExceptionTriage | null; // null until someone triages the cell
+}
+
+export interface ExceptionTriage {
+  id: number;
+  tab: string;
+  roomNo: string;
+  package: string;
+  part: string;
+  assignee: string | null;
+  status: TriageStatus;
+  notes: string | null;
+  dueDate: string | null;      // YYYY-MM-DD
+  autoClosedAt: string | null; // set when the cell stopped being flagged
+  updatedBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ExceptionTriageEvent {
+  id: number;
+  triageId: number;
+  kind: 'created' | 'edited' | 'auto-closed' | 'reopened';
+  actor: string | null;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  createdAt: string;
+}
+
+export interface ExceptionTriageUpdate {
+  tab: string;
+  roomNo: string;
+  package: string;
+  part: string;
+  assignee?: string | null;
+  status?: TriageStatus;
+  notes?: string | null;
+  dueDate?: string | null;
 }
 
 export interface ExceptionsResponse {
@@ -71,6 +115,8 @@ export interface ExceptionsResponse {
   items: ExceptionItem[];
   tabsScanned: string[];
   missingTabs: string[];
+  triageAvailable: boolean;
+  recentlyClosed: ExceptionTriage[]; // auto-closed in the last 14 days
 }
 
 // Fetch the cross-tab exceptions feed (all 4 room tabs)
@@ -79,6 +125,20 @@ export async function fetchExpansionExceptions(): Promise<ExceptionsResponse> {
   return handleResponse<ExceptionsResponse>(response);
 }
 
+export async function saveExceptionTriage(update: ExceptionTriageUpdate): Promise<{ triage: ExceptionTriage }> {
+  const response = await fetch('/api/expansion/exceptions/triage', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(update),
+  });
+  return handleResponse<{ triage: ExceptionTriage }>(response);
+}
+
+export async function fetchExceptionTriageHistory(id: number): Promise<{ events: ExceptionTriageEvent[] }> {
+  const response = await fetch(`/api/expansion/exceptions/triage/${id}/history`);
+  return handleResponse<{ events: ExceptionTriageEvent[] }>(response);
+}
+
 // ---------------------------------------------------------------------------
 // Dashboard Expansion — Floor → Room rollup (§9 item 2)
 // ---------------------------------------------------------------------------
@@ -151,6 +211,255 @@ export async function fetchExpansionRollup(): Promise<RollupResponse> {
   return handleResponse<RollupResponse>(response);
 }
 
+// --- Most-missing parts — every part across the 4 room tabs, ranked ---
+export interface PartCounts {
+  applicable: number;          // non-N/A cells
+  received: number;
+  incoming: number;
+  upstream: number;
+  problem: number;
+  attention: number;
+  unrecorded: number;
+  other: number;
+  missing: number;             // applicable − received (the ranking key)
+}
+
+export interface PartLeaderboardEntry {
+  type: 'containers' | 'installation';
+  package: string;
+  part: string;
+  counts: PartCounts;
+  byTower: { tower: 'HR' | 'LR'; counts: PartCounts }[];
+  byFloor: { tower: 'HR' | 'LR'; floor: string; counts: PartCounts }[];
+}
+
+export interface PartsLeaderboardResponse {
+  generatedAt: string;
+  parts: PartLeaderboardEntry[];
+  missingTabs: string[];
+}
+
+export interface PartRoomCell {
+  tower: 'HR' | 'LR';
+  tab: string;
+  floor: string;
+  roomNo: string;
+  roomType: string;
+  bucket: UrgencyBucket;
+  rawValue: string;
+}
+
+export interface PartRoomsResponse {
+  generatedAt: string;
+  type: 'containers' | 'installation';
+  package: string;
+  part: string;
+  rooms: PartRoomCell[];
+  missingTabs: string[];
+}
+
+// Fetch the most-missing parts leaderboard
+export async function fetchPartsLeaderboard(): Promise<PartsLeaderboardResponse> {
+  const response = await fetch('/api/expansion/parts');
+  return handleResponse<PartsLeaderboardResponse>(response);
+}
+
+// Fetch each room's cell for one part (the leaderboard drill-down)
+export async function fetchPartRooms(
+  entry: Pick<PartLeaderboardEntry, 'type' | 'package' | 'part'>,
+  where: { tower?: 'HR' | 'LR'; floor?: string } = {},
+): Promise<PartRoomsResponse> {
+  const params = new URLSearchParams({ type: entry.type, package: entry.package, part: entry.part });
+  if (where.tower) params.set('tower', where.tower);
+  if (where.floor) params.set('floor', where.floor);
+  const response = await fetch(`/api/expansion/parts/rooms?${params}`);
+  return handleResponse<PartRoomsResponse>(response);
+}
+
+// --- Spec-aware rollup — Room Specs joined to the rollup by Room # ---
+export interface SpecDisagreement {
+  feature: SpecFeature;
+  label: string;
+  side: 'received' | 'installed';
+  kind: 'spec-not-tracked' | 'tracked-not-in-spec';
+  parts: string[];
+}
+
+export interface SpecRollupRoom {
+  key: string;
+  roomNo: string;
+  floor: string;
+  type: string;
+  installedPct: number | null;
+  spec: RoomOverviewItem | null;
+  disagreements: SpecDisagreement[];   // carried by a Room #'s first row only
+}
+
+export interface SpecRollupFloor {
+  floor: string;
+  installedPct: number | null;         // average over the rooms that matched
+  rooms: SpecRollupRoom[];
+}
+
+export interface SpecRollupTower {
+  tower: 'HR' | 'LR';
+  installedPct: number | null;
+  roomCount: number;
+  floors: SpecRollupFloor[];
+}
+
+export interface SpecRollupQuery {
+  tower?: 'HR' | 'LR';
+  floors?: string;                     // "20-27" or "21"
+  features?: Partial<Record<SpecFeature, 'yes' | 'no'>>;
+  attributes?: Partial<Record<SpecAttribute, string>>;
+  flagged?: boolean;
+}
+
+export interface SpecRollupResponse {
+  generatedAt: string;
+  missingTabs: string[];
+  towers: SpecRollupTower[];
+  matchedRooms: number;
+  roomsWithoutSpec: string[];
+  specsWithoutRoom: number[];
+  disagreementCount: number;
+  attributeValues: Record<SpecAttribute, string[]>;
+}
+
+// Fetch the rollup joined to Room Specs, filtered by spec
+export async function fetchSpecRollup(query: SpecRollupQuery = {}): Promise<SpecRollupResponse> {
+  const params = new URLSearchParams();
+  if (query.tower) params.set('tower', query.tower);
+  if (query.floors) params.set('floors', query.floors);
+  for (const [key, value] of Object.entries(query.features ?? {})) if (value) params.set(key, value);
+  for (const [key, value] of Object.entries(query.attributes ?? {})) if (value) params.set(key, value);
+  if (query.flagged) params.set('flagged', 'true');
+  const qs = params.toString();
+  const response = await fetch(`/api/expansion/rollup/specs${qs ? `?${qs}` : ''}`);
+  return handleResponse<SpecRollupResponse>(response);
+}
+
+// --- Stale manual %s — PACKAGE-summary cells that disagree with their parts ---
+export interface PackageMismatch {
+  tab: string;
+  tower: 'HR' | 'LR';
+  type: 'containers' | 'installation';
+  roomNo: string;
+  floor: string;
+  package: string;
+  manualRaw: string;      // the cell as read
+  manualPct: number;
+  recomputedPct: number;
+  cell: string;           // A1 address on the tab, e.g. "K12"
+}
+
+export interface MismatchesResponse {
+  generatedAt: string;
+  count: number;
+  tabs: { tab: string; resolvedTitle: string | null; count: number }[];
+  items: PackageMismatch[];
+  missingTabs: string[];
+}
+
+export const MISMATCHES_CSV_URL = '/api/expansion/mismatches?format=csv';
+
+// Fetch every mismatched package across the 4 room tabs
+export async function fetchManualPctMismatches(): Promise<MismatchesResponse> {
+  const response = await fetch('/api/expansion/mismatches');
+  return handleResponse<MismatchesResponse>(response);
+}
+
+// --- Sheet health — room-tab layout vs the expected taxonomy (admin) ---
+export interface TaxonomyDrift {
+  hasExpected: boolean;
+  discovered: { packageCount: number; partCount: number };
+  expected: { packageCount: number; partCount: number } | null;
+  packagesAdded: { name: string; column: string; partCount: number }[];
+  packagesRemoved: { name: string; partCount: number }[];
+  packagesRenamed: { from: string; to: string; column: string; similarity: number }[];
+  partsAdded: { package: string; part: string; column: string }[];
+  partsRemoved: { package: string; part: string }[];
+  partsMoved: { part: string; from: string; to: string; column: string }[];
+  headerlessColumns: { column: string; package: string; filledCells: number }[];
+  issueCount: number;
+}
+
+export interface TabLayout {
+  headerRow: number;
+  packages: { name: string; column: string; parts: { header: string; column: string }[] }[];
+  blankHeaderColumns: string[];
+}
+
+export interface TabHealth {
+  tab: string;
+  tower: 'HR' | 'LR';
+  type: 'containers' | 'installation';
+  resolvedTitle: string | null;
+  drift: TaxonomyDrift | null;
+  layout: TabLayout | null;
+  warnings: string[];
+  layoutSince: string | null;   // when the current layout was first recorded
+}
+
+export interface LayoutChange {
+  id: number;
+  tab: string;
+  observedAt: string;
+  issueCount: number;
+  changes: string[];            // empty for a tab's first recorded layout
+}
+
+export interface SheetHealthResponse {
+  generatedAt: string;
+  tabs: TabHealth[];
+  historyAvailable: boolean;
+  history: LayoutChange[];
+}
+
+// Fetch the taxonomy drift report + layout history (admin)
+export async function fetchSheetHealth(): Promise<SheetHealthResponse> {
+  const response = await fetch('/api/expansion/sheet-health');
+  return handleResponse<SheetHealthResponse>(response);
+}
+
+// --- Completion forecast — install rate fitted over the daily snapshots ---
+export type ForecastStatus = 'complete' | 'projected' | 'stalled' | 'insufficient-data';
+
+export interface CompletionForecast {
+  status: ForecastStatus;
+  currentPct: number | null;
+  asOf: string | null;
+  ratePerWeek: number | null;      // percentage points per week
+  projectedDate: string | null;    // YYYY-MM-DD
+  earliestDate: string | null;     // 80% band
+  latestDate: string | null;       // null when the slow end never gets to 100%
+  points: number;
+  history: { date: string; pct: number }[];
+}
+
+export interface FloorForecast extends CompletionForecast {
+  floor: string;
+}
+
+export interface TowerForecast extends CompletionForecast {
+  tower: 'HR' | 'LR';
+  floors: FloorForecast[];
+}
+
+export interface ForecastResponse {
+  generatedAt: string;
+  windowDays: number;
+  snapshotDays: number;
+  towers: TowerForecast[];
+}
+
+// Fetch projected completion dates per tower and floor
+export async function fetchCompletionForecast(days?: number): Promise<ForecastResponse> {
+  const response = await fetch(`/api/expansion/forecast${days ? `?days=${days}` : ''}`);
+  return handleResponse<ForecastResponse>(response);
+}
+
 // --- Delivery view (§9 item 3, reframed around outstanding parts by stage) ---
 export type DeliveryStage =
   | 'received' | 'in-ny-port' | 'in-transit' | 'partial-china' | 'in-china'
@@ -197,12 +506,44 @@ export interface ContainerGroup {
   entries: ContainerBlockedPart[];
 }
 
+// Container Schedule ETAs joined onto the container index (dates are YYYY-MM-DD)
+export interface ContainerRoomUnblock {
+  tower: 'HR' | 'LR';
+  roomNo: string;
+  floor: string;
+  packages: string[];
+  partCount: number;
+}
+
+export interface ContainerEta {
+  number: number;
+  arrived: boolean;
+  scheduled: boolean;
+  etaNYPort: string | null;
+  etaWarehouse: string | null;
+  projectedUnblock: string | null; // warehouse ETA, else NY port ETA
+  status: string | null;
+  rooms: ContainerRoomUnblock[];
+}
+
+export interface RoomEta {
+  tower: 'HR' | 'LR';
+  roomNo: string;
+  floor: string;
+  latestEta: string | null;
+  pendingContainers: number[];
+  undatedContainers: number[];
+  outstandingParts: number;
+}
+
 export interface ContainersResponse {
   generatedAt: string;
   arrivedConfig: 'ALL' | number[];
+  arrivedMode: ArrivedMode | null; // null = the built-in default
   summary: { incoming: number; received: number; problems: number; partials: number; containers: number };
   stages: StageGroup[];      // outstanding parts, ordered closest → furthest
   containers: ContainerGroup[];
+  etas: { scheduleAvailable: boolean; containers: ContainerEta[]; rooms: RoomEta[] };
   missingTabs: string[];
 }
 
@@ -211,6 +552,70 @@ export async function fetchExpansionContainers(): Promise<ContainersResponse> {
   return handleResponse<ContainersResponse>(response);
 }
 
+// Live ARRIVED_CONTAINERS setting (admin). 'schedule' = derived from the
+// Container Schedule status, with overrides; 'all' = every container number
+// counts as arrived; 'list' = only the marked numbers do.
+export type ArrivedMode = 'schedule' | 'all' | 'list';
+export type ArrivalState = 'unknown' | 'loaded' | 'departed' | 'at-port' | 'at-warehouse' | 'delivered';
+
+export interface ContainerArrival {
+  number: number;
+  state: ArrivalState;
+  status: string | null;
+  proofOfDelivery: boolean;
+  derivedArrived: boolean;
+  override: boolean | null;
+  arrived: boolean;
+}
+
+export interface ArrivedContainersState {
+  mode: ArrivedMode;
+  configured: boolean; // false while the code default still applies
+  modeUpdatedBy: string | null;
+  modeUpdatedAt: string | null;
+  containers: { number: number; markedBy: string | null; markedAt: string }[];
+  overrides: { number: number; arrived: boolean; reason: string | null; setBy: string | null; setAt: string }[];
+  schedule: { available: boolean; arrivedFrom: ArrivalState; containers: ContainerArrival[] } | null;
+}
+
+const ARRIVED_BASE = '/api/expansion/arrived-containers';
+
+export async function fetchArrivedContainers(): Promise<ArrivedContainersState> {
+  return handleResponse<ArrivedContainersState>(await fetch(ARRIVED_BASE));
+}
+
+export async function setArrivedContainersMode(mode: ArrivedMode): Promise<ArrivedContainersState> {
+  return handleResponse<ArrivedContainersState>(await fetch(`${ARRIVED_BASE}/mode`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ mode }),
+  }));
+}
+
+export async function markContainersArrived(numbers: number[]): Promise<ArrivedContainersState> {
+  return handleResponse<ArrivedContainersState>(await fetch(ARRIVED_BASE, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ numbers }),
+  }));
+}
+
+export async function unmarkContainerArrived(number: number): Promise<ArrivedContainersState> {
+  return handleResponse<ArrivedContainersState>(await fetch(`${ARRIVED_BASE}/${number}`, { method: 'DELETE' }));
+}
+
+export async function setContainerArrivalOverride(input: { number: number; arrived: boolean; reason?: string }): Promise<ArrivedContainersState> {
+  return handleResponse<ArrivedContainersState>(await fetch(`${ARRIVED_BASE}/overrides/${input.number}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ arrived: input.arrived, reason: input.reason }),
+  }));
+}
+
+export async function clearContainerArrivalOverride(number: number): Promise<ArrivedContainersState> {
+  return handleResponse<ArrivedContainersState>(await fetch(`${ARRIVED_BASE}/overrides/${number}`, { method: 'DELETE' }));
+}
+
 // --- Common-area views (§8, §9 item 4) ---
 export type StatusState = 'done' | 'in-progress' | 'blocker' | 'in-motion' | 'not-started' | 'other';
 
@@ -268,6 +673,119 @@ export async function fetchLobby(): Promise<LobbyResponse> {
   return handleResponse<LobbyResponse>(await fetch('/api/expansion/temp-lobby'));
 }
 
+// ---------------------------------------------------------------------------
+// Dashboard Expansion — workbook uploads (admin)
+// ---------------------------------------------------------------------------
+
+export interface WorkbookUpload {
+  id: string;
+  filename: string;
+  size: number;
+  uploadedAt: string;
+  uploadedBy: string | null;
+  tabs: string[];       // tab titles found in the workbook
+  live: boolean;        // currently served in place of the live sheet
+}
+
+export interface LiveWorkbookUpload extends WorkbookUpload {
+  publishedAt: string;
+  publishedBy: string | null;
+}
+
+export interface WorkbookUploadsResponse {
+  live: LiveWorkbookUpload | null;
+  uploads: WorkbookUpload[];   // newest first; held in server memory
+}
+
+export type UploadPreviewTab =
+  | { tab: string; ok: false; error: string; message: string }
+  | {
+      tab: string;
+      ok: true;
+      kind: 'room' | 'commonArea';
+      resolvedTitle: string;
+      count: number;        // rooms (room tabs), floors or tasks (common areas)
+      discovered: { packageCount: number; partCount: number } | null;
+      expected: { packageCount: number; partCount: number } | null;
+      warnings: string[];
+    };
+
+export interface UploadPreview {
+  spreadsheetTitle: string;
+  availableTitles: string[];
+  tabs: UploadPreviewTab[];
+  exceptions: Omit<ExceptionsResponse, 'generatedAt'>;
+  rollup: {
+    missingTabs: string[];
+    towers: {
+      tower: 'HR' | 'LR';
+      installedPct: number | null;
+      duplicateRooms: string[];
+      floors: { floor: string; installedPct: number | null; roomCount: number }[];
+    }[];
+  };
+}
+
+export interface UploadPreviewResponse {
+  upload: WorkbookUpload;
+  preview: UploadPreview;
+}
+
+const UPLOADS_BASE = '/api/expansion/uploads';
+
+export async function fetchWorkbookUploads(): Promise<WorkbookUploadsResponse> {
+  return handleResponse<WorkbookUploadsResponse>(await fetch(UPLOADS_BASE));
+}
+
+// Stage an .xlsx export and get its preview back (nothing goes live yet)
+export async function uploadWorkbook(file: File): Promise<UploadPreviewResponse> {
+  const response = await fetch(UPLOADS_BASE, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/octet-stream',
+      'X-Filename': encodeURIComponent(file.name),
+    },
+    body: file,
+  });
+  return handleResponse<UploadPreviewResponse>(response);
+}
+
+export async function fetchUploadPreview(id: string): Promise<UploadPreviewResponse> {
+  return handleResponse<UploadPreviewResponse>(await fetch(`${UPLOADS_BASE}/${id}/preview`));
+}
+
+export async function publishWorkbookUpload(id: string): Promise<WorkbookUploadsResponse> {
+  return handleResponse<WorkbookUploadsResponse>(await fetch(`${UPLOADS_BASE}/${id}/publish`, { method: 'POST' }));
+}
+
+export async function revertToLiveSheet(): Promise<WorkbookUploadsResponse> {
+  return handleResponse<WorkbookUploadsResponse>(await fetch(`${UPLOADS_BASE}/live`, { method: 'DELETE' }));
+}
+
+// Shared server-side sheet cache (admin)
+
+export interface SheetCacheSource {
+  sourceId: string;
+  /** Env var naming the source (e.g. BUDGET_SHEET_ID), or null for ad-hoc sheets */
+  source: string | null;
+  entries: number;
+  oldestAgeSeconds: number;
+  ttlSeconds: number;
+}
+
+export interface SheetCacheStatus {
+  sources: SheetCacheSource[];
+}
+
+export async function fetchSheetCacheStatus(): Promise<SheetCacheStatus> {
+  return handleResponse<SheetCacheStatus>(await fetch('/api/cache'));
+}
+
+/** Drop every cached sheet read so the next request goes to Google. */
+export async function refreshSheetCache(): Promise<SheetCacheStatus & { dropped: number }> {
+  return handleResponse<SheetCacheStatus & { dropped: number }>(await fetch('/api/cache/refresh', { method: 'POST' }));
+}
+
 // Construction Progress Types
 // Field names match exactly what's in Row 3 of the Google Sheet
 export interface RoomProgress {
@@ -360,27 +878,38 @@ export async function fetchDriveFiles(folderUrl: string): Promise<DriveFilesResp
 // Budget Types — sourced from the "Schedule Summary" tab (see shared/lib/budget.ts).
 export interface BudgetLineItem {
   id: number;                // sheet row number
+  key: string;               // stable identity across reads (category + name)
   name: string;              // column A
   category: string;          // column F, raw trimmed ("" grouped as Uncategorized)
   displayCategory: string;   // pretty label (typos fixed; blank → "Uncategorized")
   estimatedCost: number;     // column C
   paid: number;              // column D
   requiredForLowRise: boolean; // column E
+  approvedChangeOrders: number; // Σ approved change orders on this line item
+  adjustedEstimate: number;  // estimatedCost + approvedChangeOrders
 }
 
 export interface BudgetCategory {
   name: string;              // raw grouping key (or "Uncategorized")
   displayName: string;       // pretty label
   total: number;             // Σ estimated cost in this category
-  pct: number;               // % of estimatedBeforeContingency
+  pct: number;               // adjustedTotal as % of Σ adjustedTotal
   count: number;
+  contingencyDrawn: number;  // Σ contingency ledger drawdowns into this category
+  approvedChangeOrders: number; // Σ approved COs on the category or its line items
+  adjustedTotal: number;     // total + approvedChangeOrders + contingencyDrawn
 }
 
 export interface BudgetTotals {
   estimatedBeforeContingency: number; // Σ column C (the category chart sums to this)
   contingencyRate: number;            // 0.10
-  contingency: number;                // Σ C × rate
-  total: number;                      // headline "Total Budget" (incl. contingency)
+  contingency: number;                // Σ C × rate — the original contingency
+  contingencyUsed: number;            // Σ contingency ledger drawdowns
+  contingencyRemaining: number;       // contingency − used (negative = overdrawn)
+  total: number;                      // the sheet's "Total Budget" (incl. contingency)
+  approvedChangeOrders: number;       // Σ approved change orders
+  adjustedEstimate: number;           // estimatedBeforeContingency + approvedChangeOrders
+  adjustedTotal: number;              // headline: total + approved change orders
   paid: number;                       // Σ column D
   paidPct: number;                    // paid / total × 100
   remaining: number;                  // total − paid
@@ -391,7 +920,7 @@ export interface BudgetTotals {
 export interface BudgetData {
   tab: string;
   totals: BudgetTotals;
-  categories: BudgetCategory[]; // sorted by total desc
+  categories: BudgetCategory[]; // sorted by total desc, then "Unassigned" (COs / drawdowns off the sheet) if any
   items: BudgetLineItem[];
   meta: { headerRow: number; firstItemRow: number; lastItemRow: number; totalRow: number; lineItemCount: number };
   lastUpdated: string;
@@ -403,6 +932,274 @@ export async function fetchBudgetData(): Promise<BudgetData> {
   return handleResponse<BudgetData>(response);
 }
 
+// Contingency ledger — drawdowns from contingency into a category (Postgres).
+export interface ContingencyDrawdown {
+  id: number;
+  category: string;          // BudgetCategory.name
+  amount: number;
+  reason: string;
+  approver: string;
+  drawdownDate: string;      // YYYY-MM-DD
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export type NewContingencyDrawdown = Pick<ContingencyDrawdown, 'category' | 'amount' | 'reason' | 'approver' | 'drawdownDate'>;
+
+const CONTINGENCY_BASE = `${API_BASE}/budget/contingency`;
+
+export async function fetchContingencyLedger(): Promise<{ drawdowns: ContingencyDrawdown[] }> {
+  return handleResponse<{ drawdowns: ContingencyDrawdown[] }>(await fetch(CONTINGENCY_BASE));
+}
+
+export async function addContingencyDrawdown(input: NewContingencyDrawdown): Promise<ContingencyDrawdown> {
+  return handleResponse<ContingencyDrawdown>(await fetch(CONTINGENCY_BASE, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  }));
+}
+
+export async function deleteContingencyDrawdown(id: number): Promise<{ success: boolean }> {
+  return handleResponse<{ success: boolean }>(await fetch(`${CONTINGENCY_BASE}/${id}`, { method: 'DELETE' }));
+}
+
+// Change orders — vendor COs against a category or line item (Postgres). Only
+// approved ones move the budget.
+export interface ChangeOrderDocument {
+  id: string;                // Drive file id
+  name: string;
+  url: string | null;
+}
+
+export interface ChangeOrder {
+  id: number;
+  number: string;
+  vendor: string;
+  description: string;
+  amount: number;            // negative = credit
+  category: string | null;   // BudgetCategory.name — or
+  itemKey: string | null;    // BudgetLineItem.key
+  itemName: string | null;
+  status: ChangeOrderStatus;
+  documents: ChangeOrderDocument[];
+  createdBy: string | null;
+  updatedBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ChangeOrderInput = Pick<
+  ChangeOrder,
+  'number' | 'vendor' | 'description' | 'amount' | 'category' | 'itemKey' | 'itemName' | 'status' | 'documents'
+>;
+
+const CHANGE_ORDERS_BASE = `${API_BASE}/budget/change-orders`;
+
+export async function fetchChangeOrders(): Promise<{ changeOrders: ChangeOrder[] }> {
+  return handleResponse<{ changeOrders: ChangeOrder[] }>(await fetch(CHANGE_ORDERS_BASE));
+}
+
+export async function addChangeOrder(input: ChangeOrderInput): Promise<ChangeOrder> {
+  return handleResponse<ChangeOrder>(await fetch(CHANGE_ORDERS_BASE, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  }));
+}
+
+export async function updateChangeOrder(id: number, input: ChangeOrderInput): Promise<ChangeOrder> {
+  return handleResponse<ChangeOrder>(await fetch(`${CHANGE_ORDERS_BASE}/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  }));
+}
+
+export async function deleteChangeOrder(id: number): Promise<{ success: boolean }> {
+  return handleResponse<{ success: boolean }>(await fetch(`${CHANGE_ORDERS_BASE}/${id}`, { method: 'DELETE' }));
+}
+
+// Invoice reconciliation — the invoice audit against the budget, through a
+// vendor → line item / category mapping (see shared/lib/invoiceReconciliation.ts).
+export interface VendorMapping {
+  id: number;
+  vendor: string;
+  itemKey: string | null;    // BudgetLineItem.key — or
+  itemName: string | null;
+  category: string | null;   // BudgetCategory.name
+  updatedBy: string | null;
+  updatedAt: string;
+}
+
+export type VendorMappingInput = Pick<VendorMapping, 'vendor' | 'itemKey' | 'itemName' | 'category'>;
+
+export interface ReconciledInvoice {
+  row: number;               // audit sheet row
+  vendor: string;
+  invoiceNumber: string;
+  amount: number;
+  verdict: string;
+  potentialOvercharge: number;
+  pushesOverBudget: boolean; // invoiced on the line, this one included, is above its estimate
+}
+
+export interface ReconciliationLine {
+  target: 'item' | 'category';
+  key: string;
+  name: string;
+  displayCategory: string;
+  estimated: number;         // estimate + approved COs
+  paid: number;
+  invoiced: number;
+  potentialOvercharge: number;
+  overBudget: boolean;
+  vendors: string[];
+  invoices: ReconciledInvoice[];
+}
+
+export interface ReconciliationResponse {
+  lines: ReconciliationLine[];
+  overchargeByCategory: { category: string; displayName: string; potentialOvercharge: number; invoiced: number; invoiceCount: number }[];
+  unmappedVendors: { vendor: string; invoiceCount: number; invoiced: number; potentialOvercharge: number }[];
+  orphanMappings: string[];
+  totals: { invoiced: number; mappedInvoiced: number; potentialOvercharge: number; overBudgetLines: number; flaggedInvoices: number };
+  mappings: VendorMapping[];
+  auditVendors: string[];
+  generatedAt: string;
+}
+
+export async function fetchReconciliation(): Promise<ReconciliationResponse> {
+  return handleResponse<ReconciliationResponse>(await fetch(`${API_BASE}/budget/reconciliation`));
+}
+
+export async function saveVendorMapping(input: VendorMappingInput): Promise<{ success: boolean }> {
+  return handleResponse<{ success: boolean }>(await fetch(`${API_BASE}/budget/vendor-mappings`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  }));
+}
+
+export async function deleteVendorMapping(id: number): Promise<{ success: boolean }> {
+  return handleResponse<{ success: boolean }>(await fetch(`${API_BASE}/budget/vendor-mappings/${id}`, { method: 'DELETE' }));
+}
+
+// Cash-flow projection — payment schedules per line item (see shared/lib/cashFlow.ts).
+export interface PaymentSchedule {
+  id: number;
+  itemKey: string;           // BudgetLineItem.key
+  itemName: string;
+  depositPct: number;
+  onShipPct: number;
+  onDeliveryPct: number;
+  retainagePct: number;
+  linkType: PaymentLinkType;
+  timelineTaskId: number | null;
+  container: string | null;  // Container Schedule "Container #"
+  updatedBy: string | null;
+  updatedAt: string;
+}
+
+export type PaymentScheduleInput = Omit<PaymentSchedule, 'id' | 'updatedBy' | 'updatedAt'>;
+
+export interface CashFlowPayment {
+  itemKey: string;
+  name: string;
+  displayCategory: string;
+  milestone: PaymentMilestone;
+  dueDate: string;
+  amount: number;
+  overdue: boolean;          // past due and unpaid — counted in the current month
+}
+
+export interface CashFlowMonth {
+  month: string;             // YYYY-MM
+  total: number;
+  byMilestone: Record<PaymentMilestone, number>;
+  payments: CashFlowPayment[];
+}
+
+export interface CashFlowResponse {
+  asOf: string;
+  months: CashFlowMonth[];   // consecutive, from the current month
+  projectedTotal: number;
+  overdueTotal: number;
+  undated: { itemKey: string; name: string; milestone: PaymentMilestone; amount: number; reason: string }[];
+  undatedTotal: number;
+  unscheduledCount: number;  // line items with an unpaid balance and no schedule
+  unscheduledAmount: number;
+  orphanKeys: string[];      // schedules whose line item left the sheet
+  schedules: PaymentSchedule[];
+  tasks: { id: number; label: string; start: string | null; end: string | null }[];
+  containers: string[];
+  containersAvailable: boolean;
+  generatedAt: string;
+}
+
+export async function fetchCashFlow(): Promise<CashFlowResponse> {
+  return handleResponse<CashFlowResponse>(await fetch(`${API_BASE}/budget/cash-flow`));
+}
+
+export async function savePaymentSchedule(input: PaymentScheduleInput): Promise<{ success: boolean }> {
+  return handleResponse<{ success: boolean }>(await fetch(`${API_BASE}/budget/payment-schedules`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  }));
+}
+
+export async function deletePaymentSchedule(id: number): Promise<{ success: boolean }> {
+  return handleResponse<{ success: boolean }>(await fetch(`${API_BASE}/budget/payment-schedules/${id}`, { method: 'DELETE' }));
+}
+
+// Budget history — built from the daily snapshots (see shared/lib/budgetHistory.ts).
+export interface BudgetItemChange {
+  date: string;
+  estimatedCost: number | null; // null = not on the sheet that day
+  paid: number | null;
+  estimateDelta: number;
+  paidDelta: number;
+}
+
+export interface BudgetItemVariance {
+  key: string;
+  name: string;
+  displayCategory: string;
+  movement: 'grew' | 'shrank' | 'added' | 'removed' | 'unchanged';
+  baselineEstimate: number | null; // null = added since the first snapshot
+  currentEstimate: number | null;  // null = removed since
+  estimateDelta: number;
+  currentPaid: number;
+  paidDelta: number;
+  changes: BudgetItemChange[];     // dates the estimate moved, oldest first
+}
+
+export interface BudgetBurnPoint {
+  date: string;
+  paid: number;
+  total: number;                   // total budget incl. contingency that day
+  estimatedBeforeContingency: number;
+}
+
+export interface BudgetHistoryResponse {
+  from: string | null;             // first snapshot in range
+  to: string | null;               // latest snapshot
+  snapshotCount: number;
+  baseline: BudgetTotals | null;
+  current: BudgetTotals | null;
+  items: BudgetItemVariance[];     // largest absolute estimate movement first
+  burn: BudgetBurnPoint[];
+  generatedAt: string;
+}
+
+// Fetch the budget variance / burn history, optionally from a date (YYYY-MM-DD)
+export async function fetchBudgetHistory(from?: string): Promise<BudgetHistoryResponse> {
+  const qs = from ? `?from=${encodeURIComponent(from)}` : '';
+  const response = await fetch(`${API_BASE}/budget/history${qs}`);
+  return handleResponse<BudgetHistoryResponse>(response);
+}
+
 // Timeline Types
 export interface TimelineTask {
   id: number;
@@ -629,6 +1426,80 @@ export async function fetchContainerScheduleData(): Promise<ContainerScheduleDat
   return handleResponse<ContainerScheduleData>(response);
 }
 
+// ETA slippage per container, from every ETA the server has seen on the schedule
+export interface EtaSlip {
+  original: string; // YYYY-MM-DD
+  current: string;
+  daysSlipped: number; // negative = pulled in
+  revisions: number;
+  history: { eta: string; observedAt: string }[];
+}
+
+export interface ContainerSlippage {
+  container: string; // schedule "Cont #" text, whitespace-collapsed
+  nyPort: EtaSlip | null;
+  warehouse: EtaSlip | null;
+  daysSlipped: number; // larger of the two fields
+  revisions: number;
+  firstSeenAt: string;
+  lastChangedAt: string;
+}
+
+export interface ContainerSlippageData {
+  containers: ContainerSlippage[];
+  generatedAt: string;
+}
+
+export async function fetchContainerSlippage(): Promise<ContainerSlippageData> {
+  const response = await fetch(`${API_BASE}/container-schedule/slippage`);
+  return handleResponse<ContainerSlippageData>(response);
+}
+
+// Document audit — every Container Schedule link checked against Drive
+export type ContainerDocField =
+  | 'bolCopy' | 'insurance' | 'packingList' | 'productListWithPhotos' | 'productDetails' | 'warehouseProofOfDelivery';
+export type DocCheckState = 'ok' | 'external' | 'unverified' | 'missing' | 'not-a-link' | 'not-found' | 'trashed' | 'wrong-type';
+
+export interface DocCheck {
+  state: DocCheckState;
+  value: string;
+  fileId: string | null;
+  name: string | null;
+  mimeType: string | null;
+  modifiedTime: string | null;
+}
+
+export interface ContainerDocAudit {
+  id: number;
+  container: string;
+  factory: string;
+  status: string;
+  state: ArrivalState;
+  delivered: boolean;
+  docs: Record<ContainerDocField, DocCheck>;
+  presentCount: number;
+  missingRequired: ContainerDocField[];
+  flagged: boolean; // delivered without a usable BOL or proof of delivery
+}
+
+export interface ContainerDocumentAudit {
+  containers: ContainerDocAudit[];
+  summary: {
+    containers: number;
+    delivered: number;
+    flagged: number;
+    complete: number;
+    lookupErrors: number;
+    byField: Record<ContainerDocField, { present: number; missing: number; broken: number }>;
+  };
+  generatedAt: string;
+}
+
+export async function fetchContainerDocumentAudit(): Promise<ContainerDocumentAudit> {
+  const response = await fetch(`${API_BASE}/container-schedule/documents`);
+  return handleResponse<ContainerDocumentAudit>(response);
+}
+
 // Room Overview / Specs Types
 export interface RoomOverviewItem {
   id: number;
@@ -719,3 +1590,70 @@ export async function fetchUsefulLinks(): Promise<UsefulLinksData> {
   const response = await fetch(`${API_BASE}/useful-links`);
   return handleResponse<UsefulLinksData>(response);
 }
+
+// ── User accounts (admin) ───────────────────────────────────────────────────
+
+export type UserRole = 'field' | 'construction' | 'management' | 'admin';
+export type DashboardTab = 'construction' | 'budget' | 'timeline';
+
+export interface UserAccount {
+  id: number;
+  email: string;
+  name: string;
+  role: UserRole;
+  tabGrants: DashboardTab[];
+  disabled: boolean;
+  status: 'active' | 'invited' | 'disabled';
+  inviteExpiresAt: string | null;
+  lastLoginAt: string | null;
+  createdAt: string;
+}
+
+export interface InviteResult {
+  user: UserAccount;
+  invitePath: string; // e.g. "/invite/<token>" — share as an absolute URL
+}
+
+const USERS_BASE = '/api/users';
+
+export async function fetchUsers(): Promise<{ users: UserAccount[] }> {
+  const response = await fetch(USERS_BASE);
+  return handleResponse<{ users: UserAccount[] }>(response);
+}
+
+export async function inviteUser(data: { email: string; name: string; role: UserRole; tabGrants: DashboardTab[] }): Promise<InviteResult> {
+  const response = await fetch(USERS_BASE, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  return handleResponse<InviteResult>(response);
+}
+
+export async function updateUser(id: number, data: { name?: string; role?: UserRole; tabGrants?: DashboardTab[]; disabled?: boolean }): Promise<{ user: UserAccount }> {
+  const response = await fetch(`${USERS_BASE}/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  return handleResponse<{ user: UserAccount }>(response);
+}
+
+export async function reinviteUser(id: number): Promise<InviteResult> {
+  const response = await fetch(`${USERS_BASE}/${id}/reinvite`, { method: 'POST' });
+  return handleResponse<InviteResult>(response);
+}
+
+export async function fetchInvite(token: string): Promise<{ email: string; name: string; role: UserRole }> {
+  const response = await fetch(`/api/auth/invite/${encodeURIComponent(token)}`);
+  return handleResponse<{ email: string; name: string; role: UserRole }>(response);
+}
+
+export async function acceptInvite(token: string, password: string): Promise<{ success: boolean }> {
+  const response = await fetch('/api/auth/accept-invite', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ token, password }),
+  });
+  return handleResponse<{ success: boolean }>(response);
+}
@@ -0,0 +1,45 @@
+import { useSyncExternalStore } from "react";
+import { useLocation } from "wouter";
+
+// How fresh the sheet data behind each page is. The server stamps every /api
+// response that read from its sheet cache with X-Data-Age (seconds); we keep
+// the implied fetch time per page + endpoint, so the header can show the
+// oldest number on screen — also when TanStack Query serves from its own cache.
+
+const byPage = new Map<string, Map<string, number>>();
+const listeners = new Set<() => void>();
+
+/** Record the X-Data-Age of an API response against the page that requested it. */
+export function recordDataAge(response: Response) {
+  const header = response.headers.get("X-Data-Age");
+  if (header === null) return;
+  const ageSeconds = Number(header);
+  if (!Number.isFinite(ageSeconds)) return;
+
+  const page = window.location.pathname;
+  const endpoint = response.url ? new URL(response.url).pathname : "";
+  const entries = byPage.get(page) ?? new Map<string, number>();
+  entries.set(endpoint, Date.now() - ageSeconds * 1000);
+  byPage.set(page, entries);
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function oldestFetchedAt(page: string): number | null {
+  const entries = byPage.get(page);
+  if (!entries || entries.size === 0) return null;
+  return Math.min(...entries.values());
+}
+
+/** When the oldest sheet data shown on the current page was fetched, or null if unknown. */
+export function useDataFetchedAt(): Date | null {
+  const [location] = useLocation();
+  const fetchedAt = useSyncExternalStore(subscribe, () => oldestFetchedAt(location));
+  return fetchedAt === null ? null : new Date(fetchedAt);
+}
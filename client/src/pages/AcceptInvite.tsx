@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { fetchInvite, acceptInvite } from "@/lib/api";
+import { useDocumentTitle } from "@/hooks/use-document-title";
+import { ROLE_LABELS } from "@shared/config/access";
+import { AlertCircle, KeyRound, Loader2 } from "lucide-react";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const inputClass =
+  "w-full px-3 py-2 rounded-md bg-white/5 border border-white/10 text-white placeholder:text-muted-foreground text-sm focus:outline-none focus:ring-2 focus:ring-sky-400/50 focus:border-sky-400/50";
+
+/** Public page behind an invite link — the invitee sets their password here. */
+export default function AcceptInvite() {
+  useDocumentTitle("Accept Invite");
+  const { token = "" } = useParams<{ token: string }>();
+  const [, setLocation] = useLocation();
+  const queryClient = useQueryClient();
+
+  const [password, setPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [error, setError] = useState("");
+
+  const inviteQuery = useQuery({
+    queryKey: ["invite", token],
+    queryFn: () => fetchInvite(token),
+    enabled: !!token,
+    retry: false,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: () => acceptInvite(token, password),
+    onSuccess: () => {
+      queryClient.invalidateQueries();
+      setLocation("/overview");
+    },
+    onError: (err: Error) => setError(err.message),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Use at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (password !== confirm) {
+      setError("Passwords don't match");
+      return;
+    }
+    acceptMutation.mutate();
+  };
+
+  if (inviteQuery.isLoading) {
+    return (
+      <div className="min-h-screen bg-[#0a0a0f] flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-sky-400" />
+      </div>
+    );
+  }
+
+  const invite = inviteQuery.data;
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0f] flex items-center justify-center p-4">
+      <Card className="w-full max-w-sm border-white/10 bg-[#12121a]">
+        <CardHeader className="text-center pb-4">
+          <div className="mx-auto mb-3 h-12 w-12 rounded-full flex items-center justify-center bg-sky-400/10">
+            <KeyRound className="h-6 w-6 text-sky-400" />
+          </div>
+          <CardTitle className="text-xl text-white">
+            {invite ? `Welcome, ${invite.name}` : "Invite unavailable"}
+          </CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            {invite
+              ? `Set a password for ${invite.email} (${ROLE_LABELS[invite.role] ?? invite.role} access).`
+              : "This invite link is invalid or has expired. Ask an admin for a new one."}
+          </p>
+        </CardHeader>
+        {invite && (
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => {
+                  setPassword(e.target.value);
+                  setError("");
+                }}
+                placeholder="New password"
+                autoComplete="new-password"
+                autoFocus
+                className={inputClass}
+              />
+              <input
+                type="password"
+                value={confirm}
+                onChange={(e) => {
+                  setConfirm(e.target.value);
+                  setError("");
+                }}
+                placeholder="Confirm password"
+                autoComplete="new-password"
+                className={inputClass}
+              />
+              {error && (
+                <div className="flex items-center gap-2 text-sm text-red-400">
+                  <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                  <span>{error}</span>
+                </div>
+              )}
+              <Button type="submit" className="w-full text-white bg-sky-500 hover:bg-sky-600" disabled={acceptMutation.isPending}>
+                {acceptMutation.isPending ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                    Saving...
+                  </>
+                ) : (
+                  "Set password & sign in"
+                )}
+              </Button>
+            </form>
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -20,7 +20,16 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { fetchBudgetData, type BudgetLineItem } from "@/lib/api";
+import { fetchBudgetData, fetchBudgetHistory, fetchCashFlow, type BudgetLineItem } from "@/lib/api";
+import { UNASSIGNED_CATEGORY } from "@shared/lib/budget";
+import { formatCurrency, formatCurrencyCompact, isoDateDaysAgo } from "@/components/budget/budgetFormat";
+import { BudgetBurnChart } from "@/components/budget/BudgetBurnChart";
+import { BudgetVarianceCard } from "@/components/budget/BudgetVarianceCard";
+import { ContingencyLedgerCard } from "@/components/budget/ContingencyLedgerCard";
+import { CashFlowCard } from "@/components/budget/CashFlowCard";
+import { ChangeOrdersCard } from "@/components/budget/ChangeOrdersCard";
+import { ReconciliationCard } from "@/components/budget/ReconciliationCard";
+import { PaymentScheduleDialog, scheduleSummary } from "@/components/budget/PaymentScheduleDialog";
 import { useDocumentTitle } from "@/hooks/use-document-title";
 import { toastSuccess } from "@/hooks/use-toast";
 import {
@@ -34,6 +43,7 @@ import {
   BarChart3,
   ChevronDown,
   ChevronUp,
+  CalendarPlus,
 } from "lucide-react";
 import {
   BarChart,
@@ -47,23 +57,6 @@ import {
   LabelList,
 } from "recharts";
 
-// Whole-dollar currency.
-function formatCurrency(value: number): string {
-  return new Intl.NumberFormat("en-US", {
-    style: "currency",
-    currency: "USD",
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(value);
-}
-
-// Compact currency ($1.2M / $340K).
-function formatCurrencyCompact(value: number): string {
-  if (Math.abs(value) >= 1_000_000) return `$${(value / 1_000_000).toFixed(1)}M`;
-  if (Math.abs(value) >= 1_000) return `$${Math.round(value / 1_000)}K`;
-  return formatCurrency(value);
-}
-
 // Recharts palette (categorical).
 const CHART_COLORS = [
   "#14b8a6", "#3b82f6", "#8b5cf6", "#f59e0b", "#ef4444",
@@ -77,8 +70,11 @@ export default function Budget() {
 
   const [searchQuery, setSearchQuery] = useState("");
   const [categoryFilter, setCategoryFilter] = useState<string>("all");
-  const [sortField, setSortField] = useState<keyof BudgetLineItem>("estimatedCost");
+  const [sortField, setSortField] = useState<keyof BudgetLineItem>("adjustedEstimate");
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc");
+  const [historyRangeDays, setHistoryRangeDays] = useState<number | null>(null);
+  const historyFrom = historyRangeDays === null ? undefined : isoDateDaysAgo(historyRangeDays);
+  const [schedulingItem, setSchedulingItem] = useState<BudgetLineItem | null>(null);
 
   const budgetQuery = useQuery({
     queryKey: ["budget"],
@@ -87,29 +83,64 @@ export default function Budget() {
     staleTime: 1000 * 60 * 2,
   });
 
+  // Waits for the budget read so today's snapshot is in the history.
+  const historyQuery = useQuery({
+    queryKey: ["budget-history", historyFrom ?? "all"],
+    queryFn: () => fetchBudgetHistory(historyFrom),
+    enabled: budgetQuery.isSuccess,
+    retry: false,
+    staleTime: 1000 * 60 * 2,
+    placeholderData: (previous) => previous,
+  });
+
+  // No staleTime: container ETAs and timeline events edited elsewhere move the months,
+  // so coming back to the page re-projects.
+  const cashFlowQuery = useQuery({
+    queryKey: ["budget-cash-flow"],
+    queryFn: fetchCashFlow,
+    enabled: budgetQuery.isSuccess,
+    retry: false,
+  });
+  const cashFlow = cashFlowQuery.data;
+  const scheduleByKey = useMemo(
+    () => new Map((cashFlow?.schedules ?? []).map((s) => [s.itemKey, s])),
+    [cashFlow?.schedules],
+  );
+
   const handleRefresh = async () => {
     await budgetQuery.refetch();
+    await Promise.all([historyQuery.refetch(), cashFlowQuery.refetch()]);
     toastSuccess("Data Refreshed", "Budget data has been updated.");
   };
 
   const isLoading = budgetQuery.isLoading;
   const data = budgetQuery.data;
   const totals = data?.totals;
+  const hasChangeOrders = !!totals && totals.approvedChangeOrders !== 0;
+  const categoryChartNotes = [
+    ...(hasChangeOrders ? ["approved COs"] : []),
+    ...(totals && totals.contingencyUsed !== 0 ? ["contingency drawn"] : []),
+  ];
+  const categoryChartTotal = totals ? totals.adjustedEstimate + totals.contingencyUsed : 0;
 
   // Category filter options — the pretty display names, in the chart's descending order.
-  const categoryOptions = useMemo(
-    () => (data?.categories || []).map((c) => c.displayName),
+  // The Unassigned bucket has no line items and can't be picked as a target.
+  const sheetCategories = useMemo(
+    () => (data?.categories || []).filter((c) => c.name !== UNASSIGNED_CATEGORY),
     [data?.categories],
   );
+  const categoryOptions = useMemo(() => sheetCategories.map((c) => c.displayName), [sheetCategories]);
 
-  // Horizontal bar-chart data (descending). Each bar carries a precomputed "$X · Y%" label.
+  // Horizontal bar-chart data (descending, estimate + approved COs). Each bar carries a
+  // precomputed "$X · Y%" label.
   const categoryChartData = useMemo(() => {
     if (!data?.categories) return [];
     return data.categories.map((cat, index) => ({
       name: cat.displayName,
-      value: cat.total,
+      value: cat.adjustedTotal,
       pct: cat.pct,
-      label: `${formatCurrencyCompact(cat.total)} · ${cat.pct.toFixed(1)}%`,
+      changeOrders: cat.approvedChangeOrders,
+      label: `${formatCurrencyCompact(cat.adjustedTotal)} · ${cat.pct.toFixed(1)}%`,
       color: CHART_COLORS[index % CHART_COLORS.length],
     }));
   }, [data?.categories]);
@@ -142,7 +173,7 @@ export default function Budget() {
   }, [data?.items, categoryFilter, searchQuery, sortField, sortDirection]);
 
   const filteredTotal = useMemo(
-    () => filteredItems.reduce((s, it) => s + it.estimatedCost, 0),
+    () => filteredItems.reduce((s, it) => s + it.adjustedEstimate, 0),
     [filteredItems],
   );
 
@@ -176,8 +207,8 @@ export default function Budget() {
       <div className="mb-6 grid grid-cols-2 gap-3 sm:mb-8 sm:gap-4 lg:grid-cols-3">
         <StatCard
           title="Total Budget"
-          value={formatCurrency(totals?.total || 0)}
-          change="Including 10% contingency"
+          value={formatCurrency(totals?.adjustedTotal || 0)}
+          change={hasChangeOrders ? `Incl. 10% contingency + ${formatCurrency(totals.approvedChangeOrders)} approved COs` : "Including 10% contingency"}
           changeType="neutral"
           icon={<DollarSign className="h-5 w-5" />}
           accentColor="teal"
@@ -199,20 +230,24 @@ export default function Budget() {
           accentColor="purple"
         />
         <StatCard
-          title="Estimated Cost"
-          value={formatCurrency(totals?.estimatedBeforeContingency || 0)}
-          change="Before contingency"
+          title={hasChangeOrders ? "Estimate + Approved COs" : "Estimated Cost"}
+          value={formatCurrency(totals?.adjustedEstimate || 0)}
+          change={
+            hasChangeOrders
+              ? `${formatCurrency(totals.estimatedBeforeContingency)} on the sheet, before contingency`
+              : "Before contingency"
+          }
           changeType="neutral"
           icon={<Calculator className="h-5 w-5" />}
           accentColor="teal"
         />
         <StatCard
-          title="Contingency (10%)"
-          value={formatCurrency(totals?.contingency || 0)}
-          change="On the estimated cost"
-          changeType="neutral"
+          title="Contingency Remaining"
+          value={formatCurrency(totals?.contingencyRemaining || 0)}
+          change={totals ? `of ${formatCurrency(totals.contingency)} original (10%) · ${formatCurrency(totals.contingencyUsed)} drawn` : "—"}
+          changeType={totals && totals.contingencyRemaining < 0 ? "negative" : "neutral"}
           icon={<Percent className="h-5 w-5" />}
-          accentColor="amber"
+          accentColor={totals && totals.contingencyRemaining < 0 ? "red" : "amber"}
         />
         <StatCard
           title="Cost per unit (166 units)"
@@ -224,14 +259,16 @@ export default function Budget() {
         />
       </div>
 
-      {/* Estimated cost by category (before contingency) */}
+      {/* Estimated cost by category (before unspent contingency) */}
       <Card className="mb-6 border-white/10 sm:mb-8">
         <CardHeader className="border-b border-white/10">
           <CardTitle className="flex flex-wrap items-center gap-2 text-white">
             <BarChart3 className="h-5 w-5 text-teal-400" />
-            Estimated cost by category (before contingency)
+            Estimated cost by category
             <span className="text-xs font-normal text-muted-foreground">
-              sums to {formatCurrency(totals?.estimatedBeforeContingency || 0)}
+              {categoryChartNotes.length > 0
+                ? `incl. ${categoryChartNotes.join(" + ")} · sums to ${formatCurrency(categoryChartTotal)}`
+                : `before contingency · sums to ${formatCurrency(totals?.estimatedBeforeContingency || 0)}`}
             </span>
           </CardTitle>
         </CardHeader>
@@ -267,7 +304,9 @@ export default function Budget() {
                       color: "white",
                     }}
                     formatter={(value: number, _name, props: any) => [
-                      `${formatCurrency(value)} · ${props.payload.pct.toFixed(1)}% of estimated`,
+                      `${formatCurrency(value)} · ${props.payload.pct.toFixed(1)}% of estimated${
+                        props.payload.changeOrders ? ` (incl. ${formatCurrency(props.payload.changeOrders)} approved COs)` : ""
+                      }`,
                       props.payload.name,
                     ]}
                   />
@@ -288,6 +327,30 @@ export default function Budget() {
         </CardContent>
       </Card>
 
+      {/* Change orders — approved ones are already in the figures above */}
+      {totals && data && <ChangeOrdersCard totals={totals} categories={sheetCategories} items={data.items} />}
+
+      {/* Invoice audit vs budget — through the vendor → budget line mapping */}
+      {data && <ReconciliationCard categories={sheetCategories} items={data.items} />}
+
+      {/* Contingency ledger — drawdowns against the 10% cushion */}
+      {totals && data && <ContingencyLedgerCard totals={totals} categories={sheetCategories} />}
+
+      {/* Cash flow — unpaid balances on months via each line item's payment schedule */}
+      {cashFlow && <CashFlowCard cashFlow={cashFlow} />}
+
+      {/* History — paid burn + estimate variance from the daily snapshots */}
+      {historyQuery.data && (
+        <>
+          <BudgetBurnChart burn={historyQuery.data.burn} />
+          <BudgetVarianceCard
+            history={historyQuery.data}
+            rangeDays={historyRangeDays}
+            onRangeChange={setHistoryRangeDays}
+          />
+        </>
+      )}
+
       {/* Line items */}
       <Card className="border-white/10">
         <CardHeader className="border-b border-white/10">
@@ -349,9 +412,9 @@ export default function Budget() {
                     </TableHead>
                     <TableHead
                       className="cursor-pointer text-right text-xs text-muted-foreground hover:text-white sm:text-sm"
-                      onClick={() => handleSort("estimatedCost")}
+                      onClick={() => handleSort("adjustedEstimate")}
                     >
-                      Estimated <SortIcon field="estimatedCost" />
+                      Estimated <SortIcon field="adjustedEstimate" />
                     </TableHead>
                     <TableHead
                       className="hidden cursor-pointer text-right text-xs text-muted-foreground hover:text-white md:table-cell sm:text-sm"
@@ -359,6 +422,9 @@ export default function Budget() {
                     >
                       Paid <SortIcon field="paid" />
                     </TableHead>
+                    {cashFlow && (
+                      <TableHead className="hidden text-xs text-muted-foreground lg:table-cell sm:text-sm">Payments</TableHead>
+                    )}
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -379,16 +445,38 @@ export default function Budget() {
                           </Badge>
                         </TableCell>
                         <TableCell className="whitespace-nowrap py-2.5 text-right text-xs font-medium text-teal-400 sm:py-4 sm:text-sm">
-                          {formatCurrency(item.estimatedCost)}
+                          {formatCurrency(item.adjustedEstimate)}
+                          {item.approvedChangeOrders !== 0 && (
+                            <div className="text-[10px] font-normal text-muted-foreground">
+                              {formatCurrency(item.estimatedCost)} {item.approvedChangeOrders > 0 ? "+" : "−"} {formatCurrency(Math.abs(item.approvedChangeOrders))} CO
+                            </div>
+                          )}
                         </TableCell>
                         <TableCell className="hidden whitespace-nowrap py-2.5 text-right text-xs text-muted-foreground md:table-cell sm:py-4 sm:text-sm">
                           {item.paid > 0 ? formatCurrency(item.paid) : "—"}
                         </TableCell>
+                        {cashFlow && (
+                          <TableCell className="hidden py-2.5 lg:table-cell sm:py-4">
+                            <button
+                              onClick={() => setSchedulingItem(item)}
+                              className="flex max-w-[200px] items-center gap-1 truncate text-xs text-muted-foreground hover:text-white"
+                            >
+                              {scheduleByKey.has(item.key) ? (
+                                scheduleSummary(scheduleByKey.get(item.key)!, cashFlow.tasks)
+                              ) : (
+                                <>
+                                  <CalendarPlus className="h-3.5 w-3.5" />
+                                  Schedule
+                                </>
+                              )}
+                            </button>
+                          </TableCell>
+                        )}
                       </TableRow>
                     ))
                   ) : (
                     <TableRow>
-                      <TableCell colSpan={4} className="py-8 text-center text-muted-foreground">
+                      <TableCell colSpan={cashFlow ? 5 : 4} className="py-8 text-center text-muted-foreground">
                         No items match your filters
                       </TableCell>
                     </TableRow>
@@ -399,6 +487,16 @@ export default function Budget() {
           </div>
         </CardContent>
       </Card>
+
+      {cashFlow && (
+        <PaymentScheduleDialog
+          item={schedulingItem}
+          schedule={schedulingItem ? scheduleByKey.get(schedulingItem.key) : undefined}
+          tasks={cashFlow.tasks}
+          containers={cashFlow.containers}
+          onClose={() => setSchedulingItem(null)}
+        />
+      )}
     </DashboardLayout>
   );
 }
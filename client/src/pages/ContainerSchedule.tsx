@@ -1,10 +1,13 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { DashboardLayout } from "@/components/dashboard/DashboardLayout";
 import { ContainerScheduleDashboard } from "@/components/container-schedule/ContainerScheduleDashboard";
-import { fetchContainerScheduleData } from "@/lib/api";
+import { ContainerArrivalCalendar } from "@/components/container-schedule/ContainerArrivalCalendar";
+import { DocumentComplianceMatrix } from "@/components/container-schedule/DocumentComplianceMatrix";
+import { fetchContainerScheduleData, fetchContainerSlippage, fetchExpansionContainers, fetchContainerDocumentAudit } from "@/lib/api";
 import { useDocumentTitle } from "@/hooks/use-document-title";
 import { toastSuccess, toastError } from "@/hooks/use-toast";
-import { AlertCircle } from "lucide-react";
+import { AlertCircle, CalendarDays, FileCheck2, Table2 } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 
 export default function ContainerSchedule() {
@@ -17,9 +20,38 @@ export default function ContainerSchedule() {
     staleTime: 1000 * 60 * 2,
   });
 
+  const [view, setView] = useState<"table" | "calendar" | "documents">("table");
+
+  // Which rooms/parts each container unblocks (Tracking Detail). Same query as
+  // the Containers page; needs construction access, so the calendar works without it.
+  const unblocksQuery = useQuery({
+    queryKey: ["expansion-containers"],
+    queryFn: fetchExpansionContainers,
+    enabled: view === "calendar",
+    retry: false,
+    staleTime: 1000 * 60 * 2,
+  });
+
+  // One Drive lookup per linked document — only when the audit is open
+  const documentsQuery = useQuery({
+    queryKey: ["container-schedule-documents"],
+    queryFn: fetchContainerDocumentAudit,
+    enabled: view === "documents",
+    retry: false,
+    staleTime: 1000 * 60 * 5,
+  });
+
+  // Reading the schedule records any ETA change, so load slippage after it
+  const slippageQuery = useQuery({
+    queryKey: ["container-schedule-slippage", data?.lastUpdated],
+    queryFn: fetchContainerSlippage,
+    enabled: !!data,
+    retry: false,
+  });
+
   const handleRefresh = async () => {
     try {
-      await refetch();
+      await Promise.all([refetch(), view === "documents" ? documentsQuery.refetch() : undefined]);
       toastSuccess("Data Refreshed", "Container schedule data has been updated.");
     } catch (err) {
       toastError("Refresh Failed", "Could not refresh data. Please try again.");
@@ -57,11 +89,43 @@ export default function ContainerSchedule() {
         </Card>
       )}
 
-      <ContainerScheduleDashboard
-        containers={data?.containers || []}
-        summary={data?.summary || { total: 0, byStatus: {}, byFactory: {} }}
-        isLoading={isLoading}
-      />
+      <div className="mb-4 flex gap-2">
+        {([["table", "Table", Table2], ["calendar", "Calendar", CalendarDays], ["documents", "Documents", FileCheck2]] as const).map(([v, label, Icon]) => (
+          <button
+            key={v}
+            onClick={() => setView(v)}
+            className={`inline-flex items-center gap-1.5 rounded-md border px-3 py-1.5 text-xs font-medium transition-colors ${
+              view === v ? "border-cyan-400/40 bg-cyan-400/10 text-cyan-300" : "border-white/10 bg-white/[0.03] text-muted-foreground hover:text-white"
+            }`}
+          >
+            <Icon className="h-3.5 w-3.5" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {view === "documents" ? (
+        <DocumentComplianceMatrix audit={documentsQuery.data} isLoading={documentsQuery.isLoading} error={documentsQuery.error as Error | null} />
+      ) : view === "table" ? (
+        <ContainerScheduleDashboard
+          containers={data?.containers || []}
+          summary={data?.summary || { total: 0, byStatus: {}, byFactory: {} }}
+          isLoading={isLoading}
+          slippage={slippageQuery.data?.containers}
+        />
+      ) : (
+        <ContainerArrivalCalendar
+          containers={data?.containers || []}
+          unblocks={unblocksQuery.data?.etas.containers ?? null}
+          unblocksNote={
+            unblocksQuery.isLoading
+              ? "Loading which rooms each container unblocks…"
+              : unblocksQuery.error
+                ? `Rooms and parts per container unavailable: ${(unblocksQuery.error as Error).message}`
+                : undefined
+          }
+        />
+      )}
     </DashboardLayout>
   );
 }
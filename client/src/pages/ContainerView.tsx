@@ -1,14 +1,25 @@
 import { useMemo, useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Link } from "wouter";
 import { DashboardLayout } from "@/components/dashboard/DashboardLayout";
 import {
   fetchExpansionContainers,
+  fetchArrivedContainers,
+  setArrivedContainersMode,
+  markContainersArrived,
+  unmarkContainerArrived,
+  setContainerArrivalOverride,
+  clearContainerArrivalOverride,
+  type ArrivedContainersState,
+  type ArrivalState,
+  type ContainerArrival,
   type ContainersResponse,
   type StageGroup,
   type OutstandingPart,
   type ContainerGroup,
   type ContainerBlockedPart,
+  type ContainerEta,
+  type RoomEta,
   type DeliveryStage,
 } from "@/lib/api";
 import { useDocumentTitle } from "@/hooks/use-document-title";
@@ -16,7 +27,8 @@ import { toastSuccess, toastError } from "@/hooks/use-toast";
 import { Card, CardContent } from "@/components/ui/card";
 import { cn } from "@/lib/utils";
 import { rollupByPart } from "@shared/lib/partRollup";
-import { AlertCircle, ChevronRight, Loader2, Container as ContainerIcon, Search, ArrowRight } from "lucide-react";
+import type { TabAuthStatus } from "@/components/TabPasswordGate";
+import { AlertCircle, ChevronRight, Loader2, Container as ContainerIcon, Search, ArrowRight, Settings2, X, CalendarDays } from "lucide-react";
 
 // Incoming stages, ordered closest-to-here → furthest (matches engine order).
 const STAGE_META: Record<string, { label: string; dot: string; ring: string; desc: string }> = {
@@ -33,7 +45,7 @@ const STAGE_META: Record<string, { label: string; dot: string; ring: string; des
 const STAGE_BAR_ORDER: DeliveryStage[] = ["in-ny-port", "in-transit", "partial-china", "in-china", "in-production", "production-needed", "unrecorded", "other"];
 
 type Tower = "all" | "HR" | "LR";
-type View = "stage" | "container";
+type View = "stage" | "container" | "date";
 
 // --- Delivered-vs-total summary (leads the tab). Reconciles by construction:
 //     delivered (received) + outstanding (incoming) + problems = total applicable. ---
@@ -119,6 +131,19 @@ export default function ContainerView() {
   const [filters, setFilters] = useState<Filters>({ tower: "all", floor: "all", pkg: "all", roomQ: "" });
   const [containerQ, setContainerQ] = useState("");
 
+  // Admins can edit which containers count as arrived (server enforces it too)
+  const tabAuthQuery = useQuery({
+    queryKey: ["tab-auth"],
+    queryFn: async () => {
+      const res = await fetch("/api/auth/tab-check");
+      if (!res.ok) throw new Error("Tab auth check failed");
+      return res.json() as Promise<TabAuthStatus>;
+    },
+    retry: false,
+    staleTime: 1000 * 60 * 5,
+  });
+  const isAdmin = tabAuthQuery.data?.admin ?? false;
+
   const handleRefresh = async () => {
     try {
       await refetch();
@@ -169,11 +194,15 @@ export default function ContainerView() {
           <p className="mb-4 rounded-md border border-white/10 bg-white/5 px-3 py-2 text-[11px] leading-relaxed text-muted-foreground">
             <span className="font-medium text-white/80">Note:</span> "Delivered" assumes a <span className="font-mono">Container N</span> cell means the container has landed. If your team
             assigns container numbers <em>before</em> arrival, delivered will over-count — confirm the convention with the site team.
+            {data.arrivedMode === "schedule" && <> Arrival follows each container's Container Schedule status, plus any admin overrides.</>}
+            {data.arrivedConfig !== "ALL" && <> Right now only containers {data.arrivedConfig.map((n) => `#${n}`).join(", ") || "(none)"} count as arrived.</>}
           </p>
 
+          {isAdmin && <ArrivedContainersPanel containerNumbers={data.containers.map((c) => c.number)} />}
+
           {/* Two views */}
           <div className="mb-1 flex flex-wrap gap-2">
-            {([["stage", "By stage"], ["container", "By container"]] as [View, string][]).map(([v, label]) => (
+            {([["stage", "By stage"], ["container", "By container"], ["date", "By date"]] as [View, string][]).map(([v, label]) => (
               <button
                 key={v}
                 onClick={() => setView(v)}
@@ -189,11 +218,13 @@ export default function ContainerView() {
           <p className="mb-4 text-xs text-muted-foreground">
             {view === "stage"
               ? "Outstanding parts grouped by where they are in the delivery pipeline (biggest group is usually “No status entered”)."
-              : "See what each container delivered / is bringing — expand a container for its parts."}
+              : view === "container"
+                ? "See what each container delivered / is bringing — expand a container for its parts."
+                : "Plan crews by date: when each pending container lands (Container Schedule ETA) and the rooms it unblocks, and when each room has everything."}
           </p>
 
-          {/* Filters (by-stage view) */}
-          {view === "stage" && (
+          {/* Filters (by-stage and by-date views) */}
+          {view !== "container" && (
             <div className="mb-4 flex flex-wrap items-center gap-2 text-xs">
               {(["all", "HR", "LR"] as Tower[]).map((t) => (
                 <button
@@ -205,7 +236,7 @@ export default function ContainerView() {
                 </button>
               ))}
               <SelectFilter label="Floor" value={filters.floor} onChange={(v) => setFilters((f) => ({ ...f, floor: v }))} options={floors} />
-              <SelectFilter label="Package" value={filters.pkg} onChange={(v) => setFilters((f) => ({ ...f, pkg: v }))} options={packages} />
+              {view === "stage" && <SelectFilter label="Package" value={filters.pkg} onChange={(v) => setFilters((f) => ({ ...f, pkg: v }))} options={packages} />}
               <div className="relative ml-auto">
                 <Search className="pointer-events-none absolute left-2 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-muted-foreground" />
                 <input
@@ -220,13 +251,261 @@ export default function ContainerView() {
           )}
 
           {view === "stage" && <StageView stages={data.stages} filters={filters} />}
-          {view === "container" && <ContainerLens containers={data.containers} containerQ={containerQ} setContainerQ={setContainerQ} />}
+          {view === "container" && <ContainerLens containers={data.containers} etas={data.etas.containers} containerQ={containerQ} setContainerQ={setContainerQ} />}
+          {view === "date" && <DateView data={data} filters={filters} />}
         </>
       )}
     </DashboardLayout>
   );
 }
 
+// ---------------------------------------------------------------------------
+// Arrived containers (admin) — the live ARRIVED_CONTAINERS setting (§3.3)
+// ---------------------------------------------------------------------------
+function ArrivedContainersPanel({ containerNumbers }: { containerNumbers: number[] }) {
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [input, setInput] = useState("");
+
+  const arrivedQuery = useQuery({
+    queryKey: ["expansion-arrived-containers"],
+    queryFn: fetchArrivedContainers,
+    enabled: open,
+    retry: false,
+  });
+
+  const onSaved = (state: ArrivedContainersState) => {
+    queryClient.setQueryData(["expansion-arrived-containers"], state);
+    // Every "% received" depends on this set
+    queryClient.invalidateQueries({ predicate: (q) => String(q.queryKey[0]).startsWith("expansion-") && q.queryKey[0] !== "expansion-arrived-containers" });
+  };
+  const onError = (err: Error) => toastError("Update failed", err.message);
+
+  const modeMutation = useMutation({ mutationFn: setArrivedContainersMode, onSuccess: onSaved, onError });
+  const markMutation = useMutation({
+    mutationFn: markContainersArrived,
+    onSuccess: (state) => {
+      onSaved(state);
+      setInput("");
+      toastSuccess("Containers marked arrived", "Delivery numbers are recalculating.");
+    },
+    onError,
+  });
+  const unmarkMutation = useMutation({ mutationFn: unmarkContainerArrived, onSuccess: onSaved, onError });
+  const overrideMutation = useMutation({ mutationFn: setContainerArrivalOverride, onSuccess: onSaved, onError });
+  const clearOverrideMutation = useMutation({ mutationFn: clearContainerArrivalOverride, onSuccess: onSaved, onError });
+
+  const state = arrivedQuery.data;
+  const marked = new Set(state?.containers.map((c) => c.number) ?? []);
+  const unmarkedKnown = containerNumbers.filter((n) => !marked.has(n)).sort((a, b) => a - b);
+  const busy = modeMutation.isPending || markMutation.isPending || unmarkMutation.isPending || overrideMutation.isPending || clearOverrideMutation.isPending;
+
+  const handleAdd = () => {
+    const numbers = input.split(/[\s,]+/).map((t) => parseInt(t, 10)).filter((n) => Number.isInteger(n) && n > 0);
+    if (numbers.length === 0) {
+      toastError("No container numbers", "Enter numbers like 22, 23.");
+      return;
+    }
+    markMutation.mutate(numbers);
+  };
+
+  return (
+    <div className="mb-4 overflow-hidden rounded-lg border border-white/10 bg-white/[0.02]">
+      <button onClick={() => setOpen((v) => !v)} className="flex w-full items-center gap-2 px-4 py-2.5 text-left text-sm hover:bg-white/5">
+        <ChevronRight className={cn("h-4 w-4 text-muted-foreground transition-transform", open && "rotate-90")} />
+        <Settings2 className="h-4 w-4 text-cyan-300" />
+        <span className="font-medium text-white">Arrived containers</span>
+        <span className="text-xs text-muted-foreground">Admin — which container numbers count as delivered</span>
+      </button>
+
+      {open && (
+        <div className="space-y-3 border-t border-white/10 p-4 text-xs">
+          {arrivedQuery.isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          {arrivedQuery.error && <p className="text-red-300">{(arrivedQuery.error as Error).message}</p>}
+          {state && (
+            <>
+              <div className="flex flex-wrap items-center gap-2">
+                {([["schedule", "From the Container Schedule"], ["all", "Every container has arrived"], ["list", "Only the containers listed below"]] as const).map(([mode, label]) => (
+                  <button
+                    key={mode}
+                    disabled={busy}
+                    onClick={() => mode !== state.mode && modeMutation.mutate(mode)}
+                    className={cn(
+                      "rounded-md border px-2.5 py-1.5 font-medium transition-colors",
+                      state.mode === mode ? "border-teal-500/50 bg-teal-500/15 text-teal-200" : "border-white/10 bg-white/5 text-muted-foreground hover:text-white",
+                    )}
+                  >
+                    {label}
+                  </button>
+                ))}
+                <span className="text-muted-foreground">
+                  {state.configured
+                    ? state.modeUpdatedBy && `Set by ${state.modeUpdatedBy}${state.modeUpdatedAt ? ` · ${new Date(state.modeUpdatedAt).toLocaleDateString()}` : ""}`
+                    : "Using the built-in default"}
+                </span>
+              </div>
+
+              {state.mode === "schedule" && state.schedule && (
+                <ScheduleArrivals
+                  schedule={state.schedule}
+                  overrides={state.overrides}
+                  busy={busy}
+                  onOverride={(number, arrived, reason) => overrideMutation.mutate({ number, arrived, reason })}
+                  onClear={(number) => clearOverrideMutation.mutate(number)}
+                />
+              )}
+
+              {state.mode !== "schedule" && <div className={cn("space-y-2", state.mode === "all" && "opacity-60")}>
+                {state.mode === "all" && <p className="text-muted-foreground">The list only applies when "Only the containers listed below" is selected.</p>}
+                <div className="flex flex-wrap gap-1.5">
+                  {state.containers.length === 0 && <span className="text-muted-foreground">No containers marked yet.</span>}
+                  {state.containers.map((c) => (
+                    <span key={c.number} className="inline-flex items-center gap-1.5 rounded border border-emerald-500/30 bg-emerald-500/10 px-2 py-1">
+                      <span className="font-semibold text-emerald-200">#{c.number}</span>
+                      {c.markedAt && (
+                        <span className="text-[10px] text-muted-foreground">
+                          {c.markedBy ?? "unknown"} · {new Date(c.markedAt).toLocaleDateString()}
+                        </span>
+                      )}
+                      <button disabled={busy} onClick={() => unmarkMutation.mutate(c.number)} title="Mark as not arrived" className="text-muted-foreground hover:text-white">
+                        <X className="h-3 w-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    value={input}
+                    onChange={(e) => setInput(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+                    placeholder="Container #s, e.g. 22, 23"
+                    className="w-48 rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-white placeholder:text-muted-foreground focus:border-teal-500/50 focus:outline-none"
+                  />
+                  <button
+                    disabled={busy || !input.trim()}
+                    onClick={handleAdd}
+                    className="rounded-md border border-teal-500/50 bg-teal-500/15 px-2.5 py-1.5 font-medium text-teal-200 disabled:opacity-50"
+                  >
+                    Mark arrived
+                  </button>
+                  {unmarkedKnown.length > 0 && (
+                    <span className="text-muted-foreground">
+                      In the sheet, not marked:{" "}
+                      {unmarkedKnown.map((n) => (
+                        <button key={n} disabled={busy} onClick={() => markMutation.mutate([n])} className="mr-1 text-teal-300 hover:text-teal-200">
+                          #{n}
+                        </button>
+                      ))}
+                    </span>
+                  )}
+                </div>
+              </div>}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const ARRIVAL_LABELS: Record<ArrivalState, string> = {
+  unknown: "Unknown status",
+  loaded: "Loaded",
+  departed: "Departed",
+  "at-port": "At NY port",
+  "at-warehouse": "At warehouse",
+  delivered: "Delivered",
+};
+
+/** Schedule mode: the arrival each container's status implies, with per-container overrides. */
+function ScheduleArrivals({
+  schedule,
+  overrides,
+  busy,
+  onOverride,
+  onClear,
+}: {
+  schedule: NonNullable<ArrivedContainersState["schedule"]>;
+  overrides: ArrivedContainersState["overrides"];
+  busy: boolean;
+  onOverride: (number: number, arrived: boolean, reason?: string) => void;
+  onClear: (number: number) => void;
+}) {
+  const [reason, setReason] = useState("");
+  const overrideByNumber = new Map(overrides.map((o) => [o.number, o]));
+
+  if (!schedule.available) {
+    return (
+      <p className="rounded-md border border-amber-500/30 bg-amber-500/10 px-3 py-2 text-amber-200">
+        The Container Schedule couldn't be read, so the last arrivals read from it still apply (the built-in default if none were read since the server started). Check CONTAINER_SCHEDULE_SHEET_ID.
+      </p>
+    );
+  }
+
+  const override = (c: ContainerArrival, arrived: boolean) => onOverride(c.number, arrived, reason.trim() || undefined);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-muted-foreground">
+        A container counts as arrived from <span className="text-white">{ARRIVAL_LABELS[schedule.arrivedFrom]}</span> on (or with a warehouse proof of delivery).
+        Override a container when its status is wrong or late.
+      </p>
+      <input
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        placeholder="Reason for the next override (optional)"
+        className="w-72 rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-white placeholder:text-muted-foreground focus:border-teal-500/50 focus:outline-none"
+      />
+      <div className="max-h-72 overflow-y-auto rounded-md border border-white/10">
+        <table className="w-full">
+          <thead className="bg-white/5 text-left text-muted-foreground">
+            <tr>
+              <th className="px-2 py-1.5 font-medium">#</th>
+              <th className="px-2 py-1.5 font-medium">Schedule status</th>
+              <th className="px-2 py-1.5 font-medium">Counts as</th>
+              <th className="px-2 py-1.5 font-medium">Override</th>
+            </tr>
+          </thead>
+          <tbody>
+            {schedule.containers.map((c) => {
+              const o = overrideByNumber.get(c.number);
+              return (
+                <tr key={c.number} className="border-t border-white/5">
+                  <td className="px-2 py-1.5 font-semibold text-white">{c.number}</td>
+                  <td className="px-2 py-1.5">
+                    <span className="text-white/90">{c.status ?? "—"}</span>
+                    <span className="ml-1.5 text-[10px] text-muted-foreground">{ARRIVAL_LABELS[c.state]}{c.proofOfDelivery && " · POD"}</span>
+                  </td>
+                  <td className="px-2 py-1.5">
+                    <span className={c.arrived ? "text-emerald-300" : "text-amber-200"}>{c.arrived ? "arrived" : "pending"}</span>
+                  </td>
+                  <td className="px-2 py-1.5">
+                    {o ? (
+                      <span className="inline-flex items-center gap-1.5">
+                        <span className="rounded border border-cyan-500/30 bg-cyan-500/10 px-1.5 py-0.5 text-cyan-200" title={o.reason ?? undefined}>
+                          forced {o.arrived ? "arrived" : "pending"}
+                        </span>
+                        <span className="text-[10px] text-muted-foreground">{o.setBy ?? "unknown"} · {new Date(o.setAt).toLocaleDateString()}</span>
+                        <button disabled={busy} onClick={() => onClear(c.number)} title="Follow the schedule again" className="text-muted-foreground hover:text-white">
+                          <X className="h-3 w-3" />
+                        </button>
+                      </span>
+                    ) : (
+                      <button disabled={busy} onClick={() => override(c, !c.derivedArrived)} className="text-teal-300 hover:text-teal-200 disabled:opacity-50">
+                        Mark {c.derivedArrived ? "pending" : "arrived"}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
 function SelectFilter({ label, value, onChange, options }: { label: string; value: string; onChange: (v: string) => void; options: string[] }) {
   return (
     <label className="flex items-center gap-1.5 text-muted-foreground">
@@ -350,7 +629,8 @@ function PartRollupRow({ pkg, part, rooms }: { pkg: string; part: string; rooms:
 // ---------------------------------------------------------------------------
 // By-container view (secondary, summary-first)
 // ---------------------------------------------------------------------------
-function ContainerLens({ containers, containerQ, setContainerQ }: { containers: ContainerGroup[]; containerQ: string; setContainerQ: (v: string) => void }) {
+function ContainerLens({ containers, etas, containerQ, setContainerQ }: { containers: ContainerGroup[]; etas: ContainerEta[]; containerQ: string; setContainerQ: (v: string) => void }) {
+  const etaByNumber = useMemo(() => new Map(etas.map((e) => [e.number, e])), [etas]);
   const shown = useMemo(() => {
     const n = parseInt(containerQ.replace(/\D/g, ""), 10);
     return Number.isNaN(n) ? containers : containers.filter((c) => c.number === n);
@@ -372,7 +652,7 @@ function ContainerLens({ containers, containerQ, setContainerQ }: { containers:
         <span className="text-muted-foreground">Summary first — expand for the part breakdown.</span>
       </div>
       {shown.map((c) => (
-        <ContainerCard key={c.number} c={c} />
+        <ContainerCard key={c.number} c={c} eta={etaByNumber.get(c.number)} />
       ))}
     </div>
   );
@@ -385,7 +665,7 @@ function floorSpan(entries: ContainerBlockedPart[]): string {
   return lo === hi ? `Floor ${hi}` : `Floors ${hi}–${lo}`;
 }
 
-function ContainerCard({ c }: { c: ContainerGroup }) {
+function ContainerCard({ c, eta }: { c: ContainerGroup; eta?: ContainerEta }) {
   const [open, setOpen] = useState(false);
   const [manifest, setManifest] = useState(false);
 
@@ -408,10 +688,14 @@ function ContainerCard({ c }: { c: ContainerGroup }) {
         <ChevronRight className={cn("h-4 w-4 text-muted-foreground transition-transform", open && "rotate-90")} />
         <ContainerIcon className="h-5 w-5 text-cyan-300" />
         <span className="font-semibold text-white">Container {c.number}</span>
-        <span className="rounded border border-emerald-500/30 bg-emerald-500/10 px-1.5 py-0.5 text-[10px] font-medium uppercase tracking-wide text-emerald-300">
+        <span className={cn(
+          "rounded border px-1.5 py-0.5 text-[10px] font-medium uppercase tracking-wide",
+          c.arrived ? "border-emerald-500/30 bg-emerald-500/10 text-emerald-300" : "border-amber-500/30 bg-amber-500/10 text-amber-200",
+        )}>
           {c.arrived ? "delivered" : "pending"}
         </span>
         <span className="text-xs text-muted-foreground">{c.roomCount} rooms · {c.partCount} parts · {floorSpan(c.entries)}</span>
+        {!c.arrived && eta?.projectedUnblock && <EtaChip date={eta.projectedUnblock} />}
         {c.partialCount > 0 && <span className="rounded border border-amber-500/40 bg-amber-500/10 px-1.5 py-0.5 text-[10px] text-amber-200">{c.partialCount} partial</span>}
         <span className="ml-auto flex flex-wrap gap-1">
           {packages.slice(0, 5).map((p) => (
@@ -457,3 +741,148 @@ function ContainerCard({ c }: { c: ContainerGroup }) {
     </div>
   );
 }
+
+// ---------------------------------------------------------------------------
+// By-date view — Container Schedule ETAs joined to the container index
+// ---------------------------------------------------------------------------
+function formatEta(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" });
+}
+
+function EtaChip({ date }: { date: string }) {
+  const past = date < new Date().toISOString().slice(0, 10);
+  return (
+    <span
+      title={past ? "ETA has passed but the container is not marked arrived" : "Projected unblock (warehouse ETA, else NY port ETA)"}
+      className={cn(
+        "inline-flex items-center gap-1 rounded border px-1.5 py-0.5 text-[10px] font-medium",
+        past ? "border-red-500/30 bg-red-500/10 text-red-200" : "border-cyan-500/30 bg-cyan-500/10 text-cyan-200",
+      )}
+    >
+      <CalendarDays className="h-3 w-3" />
+      {formatEta(date)}
+    </span>
+  );
+}
+
+function matchRoom(r: { tower: string; floor: string; roomNo: string }, f: Filters): boolean {
+  if (f.tower !== "all" && r.tower !== f.tower) return false;
+  if (f.floor !== "all" && r.floor !== f.floor) return false;
+  if (f.roomQ.trim() && !r.roomNo.includes(f.roomQ.trim())) return false;
+  return true;
+}
+
+function DateView({ data, filters }: { data: ContainersResponse; filters: Filters }) {
+  const [roomsAll, setRoomsAll] = useState(false);
+  const { scheduleAvailable } = data.etas;
+
+  const containers = useMemo(
+    () =>
+      data.etas.containers
+        .filter((c) => !c.arrived)
+        .map((c) => ({ ...c, rooms: c.rooms.filter((r) => matchRoom(r, filters)) }))
+        .filter((c) => c.rooms.length > 0),
+    [data.etas.containers, filters],
+  );
+  const rooms = useMemo(() => data.etas.rooms.filter((r) => matchRoom(r, filters)), [data.etas.rooms, filters]);
+  const shownRooms = roomsAll ? rooms : rooms.slice(0, PART_CAP);
+
+  if (!scheduleAvailable) {
+    return (
+      <p className="rounded-md border border-amber-500/30 bg-amber-500/10 px-3 py-2 text-xs text-amber-200">
+        The Container Schedule couldn't be read (check CONTAINER_SCHEDULE_SHEET_ID), so there are no ETAs to plan by.
+      </p>
+    );
+  }
+  if (data.arrivedConfig === "ALL") {
+    return (
+      <p className="rounded-md border border-white/10 bg-white/5 px-3 py-2 text-xs text-muted-foreground">
+        Every container currently counts as arrived, so nothing is waiting on an ETA. Limit the arrived list to the containers that have actually landed to plan by date.
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-2">
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-white">Pending containers by ETA</h3>
+        {containers.length === 0 && <p className="py-8 text-center text-sm text-muted-foreground">No pending containers match these filters.</p>}
+        {containers.map((c) => (
+          <div key={c.number} className="rounded-lg border border-white/10 bg-white/[0.02] p-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <ContainerIcon className="h-4 w-4 text-cyan-300" />
+              <span className="font-semibold text-white">Container {c.number}</span>
+              {c.projectedUnblock ? (
+                <EtaChip date={c.projectedUnblock} />
+              ) : (
+                <span className="rounded border border-fuchsia-500/30 bg-fuchsia-500/10 px-1.5 py-0.5 text-[10px] text-fuchsia-200">
+                  {c.scheduled ? "no ETA entered" : "not on schedule"}
+                </span>
+              )}
+              {c.status && <span className="text-[11px] text-muted-foreground">{c.status}</span>}
+              <span className="ml-auto text-xs text-muted-foreground">{c.rooms.length} room{c.rooms.length === 1 ? "" : "s"}</span>
+            </div>
+            {c.etaNYPort && c.etaWarehouse && (
+              <p className="mt-1 text-[11px] text-muted-foreground">NY port {formatEta(c.etaNYPort)} → warehouse {formatEta(c.etaWarehouse)}</p>
+            )}
+            <ul className="mt-2 space-y-0.5">
+              {c.rooms.map((r) => (
+                <li key={`${r.tower}:${r.roomNo}`} className="flex flex-wrap items-center gap-1.5 text-[11px]">
+                  <span className={cn("rounded px-1 text-[10px]", r.tower === "HR" ? "bg-blue-500/15 text-blue-200" : "bg-purple-500/15 text-purple-200")}>{r.tower}</span>
+                  <span className="font-medium text-white">{r.roomNo}</span>
+                  <span className="text-muted-foreground">{r.packages.join(", ")}</span>
+                  <span className="ml-auto tabular-nums text-muted-foreground">{r.partCount} part{r.partCount === 1 ? "" : "s"}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <h3 className="mb-2 text-sm font-semibold text-white">Rooms — ready for install by</h3>
+        {rooms.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No rooms are waiting on a container.</p>
+        ) : (
+          <div className="overflow-hidden rounded-lg border border-white/10">
+            <table className="w-full text-xs">
+              <thead className="bg-white/5 text-left text-muted-foreground">
+                <tr>
+                  <th className="px-3 py-2 font-medium">Room</th>
+                  <th className="px-3 py-2 font-medium">Floor</th>
+                  <th className="px-3 py-2 font-medium">Latest ETA</th>
+                  <th className="px-3 py-2 font-medium">Waiting on</th>
+                  <th className="px-3 py-2 text-right font-medium">Parts</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shownRooms.map((r: RoomEta) => (
+                  <tr key={`${r.tower}:${r.roomNo}`} className="border-t border-white/5">
+                    <td className="px-3 py-1.5">
+                      <span className={cn("mr-1 rounded px-1 text-[10px]", r.tower === "HR" ? "bg-blue-500/15 text-blue-200" : "bg-purple-500/15 text-purple-200")}>{r.tower}</span>
+                      <span className="font-medium text-white">{r.roomNo}</span>
+                    </td>
+                    <td className="px-3 py-1.5 text-muted-foreground">{r.floor || "—"}</td>
+                    <td className="px-3 py-1.5">
+                      {r.latestEta ? <EtaChip date={r.latestEta} /> : <span className="text-fuchsia-200">no ETA</span>}
+                      {r.latestEta && r.undatedContainers.length > 0 && (
+                        <span className="ml-1 text-[10px] text-fuchsia-200" title="Some containers for this room have no ETA, so the real date may be later">+ undated</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-1.5 text-muted-foreground">{r.pendingContainers.map((n) => `#${n}`).join(", ")}</td>
+                    <td className="px-3 py-1.5 text-right tabular-nums text-white">{r.outstandingParts}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {!roomsAll && rooms.length > PART_CAP && (
+          <button onClick={() => setRoomsAll(true)} className="mt-2 text-xs font-medium text-teal-300 hover:text-teal-200">
+            Show all {rooms.length} rooms (+{rooms.length - PART_CAP} more) — or narrow with filters
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
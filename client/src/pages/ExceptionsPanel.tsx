@@ -1,14 +1,27 @@
-import { useMemo, useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { DashboardLayout } from "@/components/dashboard/DashboardLayout";
-import { fetchExpansionExceptions, type ExceptionItem } from "@/lib/api";
+import {
+  fetchExpansionExceptions,
+  saveExceptionTriage,
+  fetchExceptionTriageHistory,
+  type ExceptionItem,
+  type ExceptionTriage,
+  type ExceptionTriageEvent,
+} from "@/lib/api";
 import { useDocumentTitle } from "@/hooks/use-document-title";
 import { toastSuccess, toastError } from "@/hooks/use-toast";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { cn } from "@/lib/utils";
 import { rollupByPart } from "@shared/lib/partRollup";
-import { AlertCircle, AlertTriangle, CheckCircle2, Loader2, ChevronRight, PackageSearch, Boxes } from "lucide-react";
+import { TRIAGE_STATUSES, TRIAGE_STATUS_LABELS, type TriageStatus } from "@shared/config/triage";
+import { AlertCircle, AlertTriangle, CheckCircle2, Loader2, ChevronRight, PackageSearch, Boxes, ClipboardCheck, History } from "lucide-react";
 
 // ---------------------------------------------------------------------------
 // Tiers — grouped by the plain-language REASON, not "loud/attention" jargon.
@@ -88,6 +101,35 @@ function shortTab(sheetName: string): string {
   return sheetName.replace(/Distribution/i, "").replace(/Progress/i, "").replace(/-/g, " ").replace(/\s+/g, " ").trim();
 }
 
+// Triage — procurement's follow-up on one flagged cell (assignee, status, notes, due date)
+const TRIAGE_TONE: Record<TriageStatus, string> = {
+  new: "border-sky-500/30 bg-sky-500/15 text-sky-200",
+  investigating: "border-amber-500/30 bg-amber-500/15 text-amber-200",
+  reordered: "border-purple-500/30 bg-purple-500/15 text-purple-200",
+  resolved: "border-emerald-500/30 bg-emerald-500/15 text-emerald-200",
+};
+
+type TriageFilter = "all" | "untriaged" | TriageStatus;
+
+function matchesTriageFilter(item: ExceptionItem, filter: TriageFilter): boolean {
+  if (filter === "all") return true;
+  if (filter === "untriaged") return item.triage === null;
+  return item.triage?.status === filter;
+}
+
+function todayString(): string {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+function isOverdue(triage: ExceptionTriage | null): boolean {
+  return !!triage?.dueDate && triage.status !== "resolved" && triage.dueDate < todayString();
+}
+
+function formatDueDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+}
+
 function towerChipClass(tower: string): string {
   return tower === "HR"
     ? "bg-blue-500/15 text-blue-300 border-blue-500/30"
@@ -102,7 +144,7 @@ interface PartGroup {
   package: string;
   part: string;
   status: string; // status label(s) for this part
-  rooms: { roomNo: string; tower: string; line: string; type: string }[];
+  rooms: { roomNo: string; tower: string; line: string; type: string; item: ExceptionItem }[];
 }
 interface TabPartGroup {
   tab: string;
@@ -128,7 +170,7 @@ function buildTiers(items: ExceptionItem[], tabOrder: string[]): Tier[] {
           part: g.part,
           status: [...new Set(g.items.map((i) => statusLabel(i.reason)))].join(" / "),
           rooms: g.items
-            .map((i) => ({ roomNo: i.roomNo, tower: i.tower, line: i.line, type: i.type }))
+            .map((i) => ({ roomNo: i.roomNo, tower: i.tower, line: i.line, type: i.type, item: i }))
             .sort((a, b) => a.roomNo.localeCompare(b.roomNo, undefined, { numeric: true })),
         }));
         return { tab, count: ti.length, parts };
@@ -157,6 +199,8 @@ export default function ExceptionsPanel() {
 
   const [tabFilter, setTabFilter] = useState<"all" | string>("all");
   const [towerFilter, setTowerFilter] = useState<"all" | "HR" | "LR">("all");
+  const [triageFilter, setTriageFilter] = useState<TriageFilter>("all");
+  const [triageItem, setTriageItem] = useState<ExceptionItem | null>(null);
 
   const handleRefresh = async () => {
     try {
@@ -176,14 +220,21 @@ export default function ExceptionsPanel() {
   );
 
   const filtered = useMemo(
-    () => allItems.filter((i) => (towerFilter === "all" || i.tower === towerFilter) && (tabFilter === "all" || i.tab === tabFilter)),
-    [allItems, towerFilter, tabFilter],
+    () =>
+      allItems.filter(
+        (i) =>
+          (towerFilter === "all" || i.tower === towerFilter) &&
+          (tabFilter === "all" || i.tab === tabFilter) &&
+          matchesTriageFilter(i, triageFilter),
+      ),
+    [allItems, towerFilter, tabFilter, triageFilter],
   );
 
   const tiers = useMemo(() => buildTiers(filtered, tabsScanned), [filtered, tabsScanned]);
 
   const notFoundCount = filtered.filter((i) => i.reason === "Not Found").length;
   const attentionCount = filtered.filter((i) => i.severity === "attention").length;
+  const overdueCount = filtered.filter((i) => isOverdue(i.triage)).length;
   const partTypes = useMemo(() => new Set(filtered.map((i) => `${i.tab}||${i.package}||${i.part}`)).size, [filtered]);
 
   const lastUpdated = data?.generatedAt ? new Date(data.generatedAt).toLocaleTimeString() : null;
@@ -246,23 +297,41 @@ export default function ExceptionsPanel() {
                 <FilterButton key={t} active={tabFilter === t} onClick={() => setTabFilter(t)}>{shortTab(t)}</FilterButton>
               ))}
             </FilterRow>
+            {data.triageAvailable && (
+              <FilterRow label="Triage">
+                <FilterButton active={triageFilter === "all"} onClick={() => setTriageFilter("all")}>All</FilterButton>
+                <FilterButton active={triageFilter === "untriaged"} onClick={() => setTriageFilter("untriaged")}>Untriaged</FilterButton>
+                {TRIAGE_STATUSES.map((status) => (
+                  <FilterButton key={status} active={triageFilter === status} onClick={() => setTriageFilter(status)}>
+                    {TRIAGE_STATUS_LABELS[status]}
+                  </FilterButton>
+                ))}
+              </FilterRow>
+            )}
+            {overdueCount > 0 && (
+              <p className="text-xs text-red-300">{overdueCount} follow-up{overdueCount > 1 ? "s are" : " is"} past due.</p>
+            )}
           </div>
 
           {data.counts.total === 0 ? (
             <EmptyState icon={<CheckCircle2 className="h-10 w-10 text-emerald-400" />} title="All clear" body="No Not Found, Damaged, Missing Parts, Unknown Location, or partial-arrival items on any room tab." />
           ) : filtered.length === 0 ? (
-            <EmptyState icon={<AlertCircle className="h-10 w-10 text-muted-foreground" />} title="Nothing matches your filters" body="Try widening the tower or tab filter." />
+            <EmptyState icon={<AlertCircle className="h-10 w-10 text-muted-foreground" />} title="Nothing matches your filters" body="Try widening the tower, tab or triage filter." />
           ) : (
             <div className="space-y-6">
               {/* Visual priority ranking of the worst Not Found gaps (respects filters) */}
               <NotFoundChart items={filtered.filter((i) => i.reason === "Not Found")} />
               {tiers.map((tier) => (
-                <TierSection key={tier.key} tier={tier} />
+                <TierSection key={tier.key} tier={tier} onTriage={data.triageAvailable ? setTriageItem : undefined} />
               ))}
             </div>
           )}
+
+          <RecentlyClosed records={data.recentlyClosed} />
         </>
       )}
+
+      <TriageDialog item={triageItem} onClose={() => setTriageItem(null)} />
     </DashboardLayout>
   );
 }
@@ -348,7 +417,7 @@ function FilterButton({ active, onClick, children }: { active: boolean; onClick:
   );
 }
 
-function TierSection({ tier }: { tier: Tier }) {
+function TierSection({ tier, onTriage }: { tier: Tier; onTriage?: (item: ExceptionItem) => void }) {
   const tone = TONE[tier.tone];
   return (
     <section>
@@ -370,7 +439,7 @@ function TierSection({ tier }: { tier: Tier }) {
             </h3>
             <div className="space-y-1">
               {tabGroup.parts.map((pg) => (
-                <PartRow key={`${pg.package}||${pg.part}`} pg={pg} tone={tier.tone} />
+                <PartRow key={`${pg.package}||${pg.part}`} pg={pg} tone={tier.tone} onTriage={onTriage} />
               ))}
             </div>
           </div>
@@ -380,9 +449,10 @@ function TierSection({ tier }: { tier: Tier }) {
   );
 }
 
-function PartRow({ pg, tone }: { pg: PartGroup; tone: Tone }) {
+function PartRow({ pg, tone, onTriage }: { pg: PartGroup; tone: Tone; onTriage?: (item: ExceptionItem) => void }) {
   const [open, setOpen] = useState(false);
   const t = TONE[tone];
+  const openFollowUps = pg.rooms.filter((r) => r.item.triage && r.item.triage.status !== "resolved").length;
   return (
     <div className="rounded border border-white/10 bg-white/[0.02]">
       <button onClick={() => setOpen((v) => !v)} className="flex w-full items-center gap-2 px-3 py-2 text-left hover:bg-white/5">
@@ -392,6 +462,12 @@ function PartRow({ pg, tone }: { pg: PartGroup; tone: Tone }) {
           <span className="text-muted-foreground/40"> · </span>
           <span className="text-sm font-medium text-white">{pg.part}</span>
         </span>
+        {openFollowUps > 0 && (
+          <span className="flex flex-shrink-0 items-center gap-1 text-[10px] text-muted-foreground">
+            <ClipboardCheck className="h-3 w-3" />
+            {openFollowUps}
+          </span>
+        )}
         <span className={cn("flex-shrink-0 rounded border px-1.5 py-0.5 text-[10px] font-medium", t.chip)}>{pg.status}</span>
         <span className="flex-shrink-0 text-sm font-semibold tabular-nums text-white">{pg.rooms.length}</span>
         <span className="flex-shrink-0 text-[10px] uppercase tracking-wide text-muted-foreground">rooms</span>
@@ -399,11 +475,29 @@ function PartRow({ pg, tone }: { pg: PartGroup; tone: Tone }) {
       {open && (
         <div className="flex flex-wrap gap-1.5 border-t border-white/10 p-2.5">
           {pg.rooms.map((r, i) => (
-            <span key={i} className="inline-flex items-center gap-1 rounded border border-white/10 bg-white/5 px-1.5 py-0.5 text-[11px]">
+            <button
+              key={i}
+              type="button"
+              onClick={() => onTriage?.(r.item)}
+              disabled={!onTriage}
+              title={onTriage ? "Triage this item" : undefined}
+              className="inline-flex items-center gap-1 rounded border border-white/10 bg-white/5 px-1.5 py-0.5 text-[11px] enabled:hover:bg-white/10"
+            >
               <span className={cn("rounded border px-1 text-[9px] font-medium", towerChipClass(r.tower))}>{r.tower}</span>
               <span className="text-white/90">{r.roomNo}</span>
               {r.type && <span className="text-muted-foreground/70">{r.type}</span>}
-            </span>
+              {r.item.triage && (
+                <span className={cn("rounded border px-1 text-[9px] font-medium", TRIAGE_TONE[r.item.triage.status])}>
+                  {TRIAGE_STATUS_LABELS[r.item.triage.status]}
+                  {r.item.triage.assignee && ` · ${r.item.triage.assignee}`}
+                </span>
+              )}
+              {r.item.triage?.dueDate && r.item.triage.status !== "resolved" && (
+                <span className={cn("text-[9px]", isOverdue(r.item.triage) ? "text-red-300" : "text-muted-foreground")}>
+                  due {formatDueDate(r.item.triage.dueDate)}
+                </span>
+              )}
+            </button>
           ))}
         </div>
       )}
@@ -411,6 +505,168 @@ function PartRow({ pg, tone }: { pg: PartGroup; tone: Tone }) {
   );
 }
 
+/** Records that closed themselves because the cell stopped being flagged — history is kept. */
+function RecentlyClosed({ records }: { records: ExceptionTriage[] }) {
+  if (records.length === 0) return null;
+  return (
+    <Card className="mt-8 border-emerald-500/20 bg-emerald-500/[0.04]">
+      <CardContent className="p-4">
+        <div className="mb-3 flex items-center gap-2">
+          <CheckCircle2 className="h-4 w-4 text-emerald-300" />
+          <h3 className="text-sm font-semibold text-emerald-200">Closed by the sheet</h3>
+          <span className="text-xs text-muted-foreground">last 14 days · no longer flagged</span>
+        </div>
+        <ul className="space-y-1 text-xs">
+          {records.map((r) => (
+            <li key={r.id} className="flex flex-wrap items-center gap-x-2 gap-y-0.5">
+              <span className="text-white/90">{r.roomNo}</span>
+              <span className="text-muted-foreground">{r.package} · {r.part}</span>
+              <span className="text-muted-foreground/60">{shortTab(r.tab)}</span>
+              {r.assignee && <span className="text-muted-foreground">· {r.assignee}</span>}
+              <span className="ml-auto text-muted-foreground/70">{new Date(r.autoClosedAt!).toLocaleDateString()}</span>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
+
+function describeEvent(event: ExceptionTriageEvent): string {
+  if (event.kind === "auto-closed") return "Closed automatically — no longer flagged in the sheet";
+  if (event.kind === "reopened") return "Reopened — flagged in the sheet again";
+  const parts = Object.entries(event.changes).map(([field, { to }]) => {
+    if (field === "status") return `status → ${TRIAGE_STATUS_LABELS[to as TriageStatus] ?? String(to)}`;
+    if (field === "dueDate") return to ? `due ${formatDueDate(String(to))}` : "due date cleared";
+    if (field === "notes") return "notes edited";
+    return to ? `${field} → ${String(to)}` : `${field} cleared`;
+  });
+  return `${event.kind === "created" ? "Triaged" : "Edited"}${parts.length ? `: ${parts.join(", ")}` : ""}`;
+}
+
+function TriageDialog({ item, onClose }: { item: ExceptionItem | null; onClose: () => void }) {
+  const queryClient = useQueryClient();
+  const [assignee, setAssignee] = useState("");
+  const [status, setStatus] = useState<TriageStatus>("new");
+  const [dueDate, setDueDate] = useState("");
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (!item) return;
+    setAssignee(item.triage?.assignee ?? "");
+    setStatus(item.triage?.status ?? "new");
+    setDueDate(item.triage?.dueDate ?? "");
+    setNotes(item.triage?.notes ?? "");
+  }, [item]);
+
+  const triageId = item?.triage?.id;
+  const historyQuery = useQuery({
+    queryKey: ["expansion-triage-history", triageId],
+    queryFn: () => fetchExceptionTriageHistory(triageId!),
+    enabled: triageId !== undefined,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: saveExceptionTriage,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["expansion-exceptions"] });
+      queryClient.invalidateQueries({ queryKey: ["expansion-triage-history"] });
+      toastSuccess("Triage Saved", item ? `Room ${item.roomNo} · ${item.part}` : undefined);
+      onClose();
+    },
+    onError: (err: Error) => toastError("Save Failed", err.message),
+  });
+
+  const handleSave = () => {
+    if (!item) return;
+    saveMutation.mutate({
+      tab: item.tab,
+      roomNo: item.roomNo,
+      package: item.package,
+      part: item.part,
+      assignee: assignee.trim() || null,
+      status,
+      dueDate: dueDate || null,
+      notes: notes.trim() || null,
+    });
+  };
+
+  return (
+    <Dialog open={item !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[85vh] max-w-lg overflow-y-auto border-white/10 bg-[#12121a]">
+        <DialogHeader>
+          <DialogTitle className="text-white">
+            Room {item?.roomNo} · {item?.part}
+          </DialogTitle>
+          {item && (
+            <p className="text-xs text-muted-foreground">
+              {item.package} · {shortTab(item.tab)} · sheet says "{item.rawValue}"
+            </p>
+          )}
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-1.5">
+            <Label htmlFor="triage-assignee">Assignee</Label>
+            <Input id="triage-assignee" value={assignee} onChange={(e) => setAssignee(e.target.value)} placeholder="Who follows up" />
+          </div>
+          <div className="space-y-1.5">
+            <Label>Status</Label>
+            <Select value={status} onValueChange={(v) => setStatus(v as TriageStatus)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRIAGE_STATUSES.map((s) => (
+                  <SelectItem key={s} value={s}>{TRIAGE_STATUS_LABELS[s]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="triage-due">Due date</Label>
+            <Input id="triage-due" type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+          </div>
+          <div className="space-y-1.5 sm:col-span-2">
+            <Label htmlFor="triage-notes">Notes</Label>
+            <Textarea id="triage-notes" rows={3} value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="PO number, supplier contact, where it was last seen…" />
+          </div>
+        </div>
+
+        {triageId !== undefined && (
+          <div className="border-t border-white/10 pt-3">
+            <h4 className="mb-2 flex items-center gap-1.5 text-xs font-medium uppercase tracking-wider text-muted-foreground">
+              <History className="h-3.5 w-3.5" />
+              History
+            </h4>
+            {historyQuery.isLoading ? (
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            ) : (
+              <ul className="space-y-1 text-xs">
+                {(historyQuery.data?.events ?? []).map((event) => (
+                  <li key={event.id} className="flex gap-2">
+                    <span className="flex-shrink-0 text-muted-foreground/70">{new Date(event.createdAt).toLocaleDateString()}</span>
+                    <span className="text-white/80">{describeEvent(event)}</span>
+                    {event.actor && <span className="ml-auto flex-shrink-0 text-muted-foreground/70">{event.actor}</span>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" className="border-white/10" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saveMutation.isPending}>
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 function EmptyState({ icon, title, body }: { icon: React.ReactNode; title: string; body: string }) {
   return (
     <div className="flex flex-col items-center justify-center gap-3 py-20 text-center">
@@ -1,8 +1,12 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { DashboardLayout } from "@/components/dashboard/DashboardLayout";
 import {
   fetchExpansionRollup,
+  fetchCompletionForecast,
+  type CompletionForecast,
+  type TowerForecast,
   type RollupTower,
   type RollupFloor,
   type RollupRoom,
@@ -18,7 +22,7 @@ import { cn } from "@/lib/utils";
 import { dedupeProblemParts, type ProblemObservation, type ProblemPart } from "@shared/lib/problems";
 import { exceptionReason } from "@shared/lib/buckets";
 import { LABELS } from "@/lib/labels";
-import { AlertCircle, ChevronRight, Loader2, Building2, Layers, DoorClosed, PackageOpen } from "lucide-react";
+import { AlertCircle, ChevronRight, Loader2, Building2, Layers, DoorClosed, PackageOpen, CalendarClock } from "lucide-react";
 
 // ---------------------------------------------------------------------------
 // Styling helpers
@@ -134,6 +138,15 @@ export default function FloorRoomRollup() {
     staleTime: 1000 * 60 * 2,
   });
 
+  // Projected completion from the daily snapshots — optional; the rollup stands alone without it.
+  const forecastQuery = useQuery({
+    queryKey: ["expansion-forecast"],
+    queryFn: () => fetchCompletionForecast(),
+    retry: false,
+    staleTime: 1000 * 60 * 10,
+  });
+  const forecastFor = (tower: RollupTower) => forecastQuery.data?.towers.find((f) => f.tower === tower.tower);
+
   const [openFloors, setOpenFloors] = useState<Set<string>>(new Set());
   const [openRooms, setOpenRooms] = useState<Set<string>>(new Set());
   const [openPkgs, setOpenPkgs] = useState<Set<string>>(new Set());
@@ -146,7 +159,7 @@ export default function FloorRoomRollup() {
 
   const handleRefresh = async () => {
     try {
-      await refetch();
+      await Promise.all([refetch(), forecastQuery.refetch()]);
       toastSuccess("Refreshed", "Rollup re-joined from Containers + Installation tabs.");
     } catch {
       toastError("Refresh Failed", "Could not refresh the rollup. Please try again.");
@@ -205,7 +218,10 @@ export default function FloorRoomRollup() {
               <span className="rounded border border-white/15 bg-white/[0.04] px-1 text-muted-foreground">N/A</span> package doesn't apply to that room (not counted)
             </span>
             <span className="inline-flex items-center gap-1">
-              <span className="rounded border border-amber-500/40 bg-amber-500/10 px-1 text-amber-200">sheet says 50% — doesn't match</span> delivered side only, when the sheet disagrees
+              <span className="rounded border border-amber-500/40 bg-amber-500/10 px-1 text-amber-200">sheet says 50% — doesn't match</span> delivered side only, when the sheet disagrees (<Link href="/mismatches" className="underline hover:text-white">full list</Link>)
+            </span>
+            <span className="inline-flex items-center gap-1">
+              <CalendarClock className="h-3 w-3 text-sky-300" /> projected install finish, from the last {forecastQuery.data?.windowDays ?? 28} days of daily snapshots (80% range)
             </span>
           </div>
 
@@ -214,6 +230,7 @@ export default function FloorRoomRollup() {
               <TowerSection
                 key={tower.tower}
                 tower={tower}
+                forecast={forecastFor(tower)}
                 openFloors={openFloors}
                 openRooms={openRooms}
                 openPkgs={openPkgs}
@@ -332,13 +349,63 @@ function floorInstalledTitle(floor: RollupFloor): string {
     : base;
 }
 
+// --- Completion forecast chip (shared with the Overview) ---
+
+function shortDate(iso: string): string {
+  return new Date(`${iso}T00:00:00`).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+function forecastTitle(f: CompletionForecast): string {
+  switch (f.status) {
+    case "complete":
+      return `Installed 100% since ${shortDate(f.projectedDate!)}`;
+    case "projected":
+      return `At ${f.ratePerWeek} points/week (fitted over ${f.points} snapshot days), ${f.currentPct}% reaches 100% around ${shortDate(f.projectedDate!)}. ` +
+        `80% range: ${shortDate(f.earliestDate!)} – ${f.latestDate ? shortDate(f.latestDate) : "no finish in sight at the slow end"}.`;
+    case "stalled":
+      return `Installed % hasn't been rising over the last ${f.points} snapshot days (${f.ratePerWeek ?? 0} points/week), so there's no finish date to project.`;
+    default:
+      return f.points === 0
+        ? "No snapshot has an installed % for this yet"
+        : `Only ${f.points} snapshot day${f.points === 1 ? "" : "s"} so far — a forecast needs at least a week of history.`;
+  }
+}
+
+/** Projected install finish with its 80% range, or why there isn't one. */
+export function ForecastChip({ forecast, compact = false }: { forecast: CompletionForecast; compact?: boolean }) {
+  const f = forecast;
+  let label: string;
+  let tone: string;
+  if (f.status === "complete") {
+    label = `done ${shortDate(f.projectedDate!)}`;
+    tone = "border-emerald-500/30 bg-emerald-500/10 text-emerald-300";
+  } else if (f.status === "projected") {
+    const range = compact ? "" : ` (${shortDate(f.earliestDate!)} – ${f.latestDate ? shortDate(f.latestDate) : "?"})`;
+    label = `~${shortDate(f.projectedDate!)}${range}`;
+    tone = "border-sky-500/30 bg-sky-500/10 text-sky-200";
+  } else if (f.status === "stalled") {
+    label = "stalled";
+    tone = "border-amber-500/30 bg-amber-500/10 text-amber-200";
+  } else {
+    if (compact) return null;
+    label = "forecast needs more history";
+    tone = "border-white/10 bg-white/[0.03] text-muted-foreground";
+  }
+  return (
+    <span className={cn("inline-flex items-center gap-1 whitespace-nowrap rounded border px-1.5 py-0.5 text-[11px] tabular-nums", tone)} title={forecastTitle(f)}>
+      <CalendarClock className="h-3 w-3" />
+      {label}
+    </span>
+  );
+}
+
 /** "1105" → "1105"; "1105","1106" → "1105 & 1106"; a,b,c → "a, b & c". */
 function formatRoomList(rooms: string[]): string {
   if (rooms.length <= 1) return rooms.join("");
   return `${rooms.slice(0, -1).join(", ")} & ${rooms[rooms.length - 1]}`;
 }
 
-function TowerSection({ tower, ...t }: { tower: RollupTower } & ToggleProps) {
+function TowerSection({ tower, forecast, ...t }: { tower: RollupTower; forecast?: TowerForecast } & ToggleProps) {
   const roomCount = tower.floors.reduce((s, f) => s + f.rooms.length, 0);
   const towerColor = tower.tower === "HR" ? "text-blue-300" : "text-purple-300";
   return (
@@ -359,7 +426,8 @@ function TowerSection({ tower, ...t }: { tower: RollupTower } & ToggleProps) {
             {tower.duplicateRooms.length === 1 ? "Suite" : "Suites"} {formatRoomList(tower.duplicateRooms)} · shown as separate rooms
           </span>
         )}
-        <div className="ml-auto">
+        <div className="ml-auto flex items-center gap-3">
+          {forecast && <ForecastChip forecast={forecast} />}
           <DeliveryStat
             counts={towerDeliveryCounts(tower)}
             installedPct={tower.installedPct}
@@ -374,14 +442,25 @@ function TowerSection({ tower, ...t }: { tower: RollupTower } & ToggleProps) {
       </div>
       <div className="space-y-2">
         {tower.floors.map((floor) => (
-          <FloorRow key={floor.floor} tower={tower} floor={floor} {...t} />
+          <FloorRow
+            key={floor.floor}
+            tower={tower}
+            floor={floor}
+            forecast={forecast?.floors.find((f) => f.floor === floor.floor)}
+            {...t}
+          />
         ))}
       </div>
     </section>
   );
 }
 
-function FloorRow({ tower, floor, ...t }: { tower: RollupTower; floor: RollupFloor } & ToggleProps) {
+function FloorRow({
+  tower,
+  floor,
+  forecast,
+  ...t
+}: { tower: RollupTower; floor: RollupFloor; forecast?: CompletionForecast } & ToggleProps) {
   const key = `${tower.tower}:${floor.floor}`;
   const open = t.openFloors.has(key);
   return (
@@ -394,6 +473,7 @@ function FloorRow({ tower, floor, ...t }: { tower: RollupTower; floor: RollupFlo
         <Layers className="h-4 w-4 text-teal-400" />
         <span className="font-medium text-white">Floor {floor.floor}</span>
         <div className="ml-auto flex items-center gap-3">
+          {forecast && <ForecastChip forecast={forecast} compact />}
           <DeliveryStat counts={floorDeliveryCounts(floor)} installedPct={floor.installedPct} installedTitle={floorInstalledTitle(floor)} />
           <span className="hidden text-xs text-muted-foreground sm:inline">{floor.rooms.length} rooms</span>
         </div>
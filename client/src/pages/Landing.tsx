@@ -16,7 +16,8 @@ import { useQuery } from "@tanstack/react-query";
 
 interface TabAuthStatus {
   construction: boolean;
-  management: boolean;
+  budget: boolean;
+  timeline: boolean;
   anyAuthenticated: boolean;
 }
 
@@ -45,7 +46,7 @@ const tabs = [
     bgColor: "bg-green-400/10",
     borderColor: "hover:border-green-400/30",
     description: "Project budget tracking, vendor spend, and cost analysis",
-    authKey: "management" as const,
+    authKey: "budget" as const,
   },
   {
     title: "Timeline",
@@ -55,7 +56,7 @@ const tabs = [
     bgColor: "bg-amber-400/10",
     borderColor: "hover:border-amber-400/30",
     description: "Project schedule, milestones, and event tracking",
-    authKey: "management" as const,
+    authKey: "timeline" as const,
   },
   {
     title: "Weekly Goals",
@@ -65,7 +66,7 @@ const tabs = [
     bgColor: "bg-orange-400/10",
     borderColor: "hover:border-orange-400/30",
     description: "Track weekly sprint goals, assignees, and completion status",
-    authKey: "management" as const,
+    authKey: "budget" as const,
   },
   {
     title: "Container Schedule",
@@ -75,7 +76,7 @@ const tabs = [
     bgColor: "bg-cyan-400/10",
     borderColor: "hover:border-cyan-400/30",
     description: "Track shipments from factory to warehouse with delivery status",
-    authKey: "management" as const,
+    authKey: "budget" as const,
   },
   {
     title: "Room Specs",
@@ -85,7 +86,7 @@ const tabs = [
     bgColor: "bg-rose-400/10",
     borderColor: "hover:border-rose-400/30",
     description: "Room specifications, features, and fact sheet for all hotel units",
-    authKey: "management" as const,
+    authKey: "budget" as const,
   },
   {
     title: "Vendor Invoices",
@@ -95,7 +96,7 @@ const tabs = [
     bgColor: "bg-yellow-400/10",
     borderColor: "hover:border-yellow-400/30",
     description: "Browse vendor documents, invoices, and contracts from Google Drive",
-    authKey: "management" as const,
+    authKey: "budget" as const,
   },
 ];
 
@@ -0,0 +1,166 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { DashboardLayout } from "@/components/dashboard/DashboardLayout";
+import { fetchManualPctMismatches, MISMATCHES_CSV_URL, type PackageMismatch } from "@/lib/api";
+import { useDocumentTitle } from "@/hooks/use-document-title";
+import { toastSuccess, toastError } from "@/hooks/use-toast";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { AlertCircle, AlertTriangle, CheckCircle2, Download, Loader2 } from "lucide-react";
+
+// One punch list for whoever keeps the Tracking Detail sheet: every PACKAGE-summary
+// cell whose % no longer matches its parts, with the cell to correct. The dashboard
+// itself never uses these cells (it recomputes), but people reading the sheet do.
+
+/** "HR Containers Distribution" → "HR Containers". */
+function shortTab(tab: string): string {
+  return tab.replace(/\s*(Distribution|Progress)$/i, "").replace(/-/, " ");
+}
+
+function gapClass(m: PackageMismatch): string {
+  const gap = Math.abs(m.recomputedPct - m.manualPct);
+  if (gap >= 50) return "text-red-300";
+  if (gap >= 20) return "text-amber-200";
+  return "text-muted-foreground";
+}
+
+export default function ManualPctMismatches() {
+  useDocumentTitle("Stale Sheet %");
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ["expansion-mismatches"],
+    queryFn: fetchManualPctMismatches,
+    retry: false,
+    staleTime: 1000 * 60 * 2,
+  });
+
+  const [tabFilter, setTabFilter] = useState<"all" | string>("all");
+
+  const handleRefresh = async () => {
+    try {
+      await refetch();
+      toastSuccess("Refreshed", "Re-checked every package % against its parts.");
+    } catch {
+      toastError("Refresh Failed", "Could not refresh. Please try again.");
+    }
+  };
+
+  const items = useMemo(
+    () => (data?.items ?? []).filter((m) => tabFilter === "all" || m.tab === tabFilter),
+    [data, tabFilter],
+  );
+
+  const lastUpdated = data?.generatedAt ? new Date(data.generatedAt).toLocaleTimeString() : null;
+
+  return (
+    <DashboardLayout
+      title="Stale Sheet %"
+      subtitle={lastUpdated ? `Package %s that disagree with their parts · synced ${lastUpdated}` : "Package %s that disagree with their parts"}
+      onRefresh={handleRefresh}
+      isLoading={isLoading}
+    >
+      {error && (
+        <Card className="mb-6 border-red-500/30 bg-red-500/10">
+          <CardContent className="flex items-center gap-3 p-4">
+            <AlertCircle className="h-5 w-5 text-red-400" />
+            <div>
+              <p className="font-medium text-white">Couldn't load the mismatch list</p>
+              <p className="text-sm text-muted-foreground">{(error as Error).message}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {isLoading && !data && (
+        <div className="flex items-center justify-center gap-3 py-24 text-muted-foreground">
+          <Loader2 className="h-5 w-5 animate-spin" />
+          Checking all 4 room tabs…
+        </div>
+      )}
+
+      {data && (
+        <>
+          {data.missingTabs.length > 0 && (
+            <Card className="mb-5 border-amber-500/30 bg-amber-500/10">
+              <CardContent className="flex items-center gap-3 p-3 text-sm">
+                <AlertTriangle className="h-4 w-4 text-amber-300" />
+                <span className="text-amber-100">Could not read: {data.missingTabs.join(", ")}. Those tabs are excluded.</span>
+              </CardContent>
+            </Card>
+          )}
+
+          <div className="mb-5 flex flex-wrap items-center gap-2">
+            <FilterButton active={tabFilter === "all"} onClick={() => setTabFilter("all")}>
+              All <span className="ml-1 tabular-nums opacity-70">{data.count}</span>
+            </FilterButton>
+            {data.tabs.map((t) => (
+              <FilterButton key={t.tab} active={tabFilter === t.tab} onClick={() => setTabFilter(t.tab)}>
+                {shortTab(t.tab)} <span className="ml-1 tabular-nums opacity-70">{t.count}</span>
+              </FilterButton>
+            ))}
+            <Button asChild variant="outline" size="sm" className="ml-auto h-8 border-white/10 bg-white/5 text-xs">
+              <a href={MISMATCHES_CSV_URL} download>
+                <Download className="mr-1.5 h-3.5 w-3.5" /> Download CSV
+              </a>
+            </Button>
+          </div>
+
+          {data.count === 0 ? (
+            <div className="flex flex-col items-center gap-2 py-20 text-center">
+              <CheckCircle2 className="h-10 w-10 text-emerald-400" />
+              <p className="font-medium text-white">Every package % matches its parts</p>
+              <p className="text-sm text-muted-foreground">Nothing to correct on the sheet.</p>
+            </div>
+          ) : (
+            <Card className="overflow-hidden border-white/10">
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-white/10 bg-white/[0.03] text-left text-[11px] uppercase tracking-wider text-muted-foreground">
+                      <th className="px-4 py-2 font-semibold">Tab</th>
+                      <th className="px-4 py-2 font-semibold">Cell</th>
+                      <th className="px-4 py-2 font-semibold">Floor</th>
+                      <th className="px-4 py-2 font-semibold">Room</th>
+                      <th className="px-4 py-2 font-semibold">Package</th>
+                      <th className="px-4 py-2 text-right font-semibold">Sheet says</th>
+                      <th className="px-4 py-2 text-right font-semibold">Parts say</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {items.map((m) => (
+                      <tr key={`${m.tab}!${m.cell}`} className="border-b border-white/[0.05] hover:bg-white/[0.02]">
+                        <td className="px-4 py-2 text-muted-foreground">{shortTab(m.tab)}</td>
+                        <td className="px-4 py-2 font-mono text-white">{m.cell}</td>
+                        <td className="px-4 py-2 text-muted-foreground">{m.floor}</td>
+                        <td className="px-4 py-2 font-medium text-white">{m.roomNo}</td>
+                        <td className="px-4 py-2 text-slate-200">{m.package}</td>
+                        <td className="px-4 py-2 text-right tabular-nums text-amber-200" title={`Cell reads "${m.manualRaw}"`}>
+                          {m.manualPct}%
+                        </td>
+                        <td className={cn("px-4 py-2 text-right font-semibold tabular-nums", gapClass(m))}>{m.recomputedPct}%</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </Card>
+          )}
+        </>
+      )}
+    </DashboardLayout>
+  );
+}
+
+function FilterButton({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={onClick}
+      className={cn("h-8 border-white/10 px-3 text-xs", active ? "bg-white/15 text-white" : "bg-white/5 text-muted-foreground hover:bg-white/10 hover:text-white")}
+    >
+      {children}
+    </Button>
+  );
+}
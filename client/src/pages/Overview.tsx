@@ -12,6 +12,7 @@ import {
   fetchBudgetData,
   fetchTimelineData,
   fetchExpansionRollup,
+  fetchCompletionForecast,
   fetchExpansionExceptions,
   fetchCommonArea,
   fetchLobby,
@@ -28,6 +29,7 @@ import {
 } from "@/components/construction-progress/utils";
 // Reuse the Common Areas tab's EXACT completion math (no independent recompute).
 import { tallyFloors } from "@/pages/CommonAreas";
+import { ForecastChip } from "@/pages/FloorRoomRollup";
 import { TaskDetailModal } from "@/components/construction-progress/TaskDetailModal";
 import { RoomDetailModal } from "@/components/construction-progress/RoomDetailModal";
 import { useDocumentTitle } from "@/hooks/use-document-title";
@@ -48,6 +50,7 @@ import {
   Package,
   ShieldAlert,
   LayoutGrid,
+  CalendarClock,
 } from "lucide-react";
 import {
   BarChart,
@@ -148,6 +151,14 @@ export default function Overview() {
     staleTime: 1000 * 60 * 2,
   });
 
+  // Installation forecast — same query key as the Delivery & Installation tab.
+  const forecastQuery = useQuery({
+    queryKey: ["expansion-forecast"],
+    queryFn: () => fetchCompletionForecast(),
+    retry: false,
+    staleTime: 1000 * 60 * 10,
+  });
+
   // Procurement Issues + Common Areas glance tiles — gated to management tier (like
   // Budget/Timeline). Query keys MATCH those tabs' own queries, so the cache is shared
   // and the numbers are guaranteed identical to the detail tabs (no independent
@@ -182,7 +193,7 @@ export default function Overview() {
   });
 
   const handleRefresh = async () => {
-    const promises: Promise<any>[] = [constructionProgressQuery.refetch(), rollupQuery.refetch()];
+    const promises: Promise<any>[] = [constructionProgressQuery.refetch(), rollupQuery.refetch(), forecastQuery.refetch()];
     if (isManagement) {
       promises.push(
         budgetQuery.refetch(),
@@ -504,6 +515,64 @@ export default function Overview() {
         )}
       </div>
 
+      {/* ═══ INSTALLATION FORECAST — "when is floor 19 done?" from the daily snapshots ═══ */}
+      {forecastQuery.data && forecastQuery.data.towers.length > 0 && (
+        <Card className="mb-4 sm:mb-6 border-white/10">
+          <CardHeader className="border-b border-white/10">
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2 text-white">
+                <CalendarClock className="h-5 w-5 text-sky-400" />
+                Installation Forecast
+              </CardTitle>
+              <Link href="/rollup">
+                <Button variant="ghost" size="sm" className="text-muted-foreground hover:text-white">
+                  By Floor <ChevronRight className="ml-1 h-4 w-4" />
+                </Button>
+              </Link>
+            </div>
+          </CardHeader>
+          <CardContent className="pt-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              {forecastQuery.data.towers.map((t) => {
+                const upcoming = t.floors
+                  .filter((f) => f.status === "projected")
+                  .sort((a, b) => a.projectedDate!.localeCompare(b.projectedDate!))
+                  .slice(0, 3);
+                const stalled = t.floors.filter((f) => f.status === "stalled").length;
+                return (
+                  <div key={t.tower} className="space-y-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium text-white">{t.tower} Tower</span>
+                      <span className="text-sm tabular-nums text-sky-300">{t.currentPct ?? "—"}%</span>
+                      <ForecastChip forecast={t} />
+                      {t.ratePerWeek !== null && t.status !== "complete" && (
+                        <span className="text-xs text-muted-foreground">{t.ratePerWeek} pts/week</span>
+                      )}
+                    </div>
+                    {upcoming.length > 0 && (
+                      <div className="flex flex-wrap items-center gap-1.5 text-xs text-muted-foreground">
+                        <span>Next floors:</span>
+                        {upcoming.map((f) => (
+                          <span key={f.floor} className="inline-flex items-center gap-1">
+                            <span className="text-white">F{f.floor}</span>
+                            <ForecastChip forecast={f} compact />
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    {stalled > 0 && (
+                      <p className="text-xs text-amber-200/80">
+                        {stalled} floor{stalled === 1 ? "" : "s"} not progressing over the last {forecastQuery.data!.windowDays} days
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* ═══ 1. CONSTRUCTION COMPLETION + 2. TASKS NEEDING ATTENTION ═══ */}
       <div className="grid gap-4 sm:gap-6 lg:grid-cols-2 mb-4 sm:mb-6">
         {/* Construction Completion Summary */}
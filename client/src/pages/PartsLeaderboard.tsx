@@ -0,0 +1,348 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { DashboardLayout } from "@/components/dashboard/DashboardLayout";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  fetchPartsLeaderboard,
+  fetchPartRooms,
+  type PartCounts,
+  type PartLeaderboardEntry,
+  type UrgencyBucket,
+} from "@/lib/api";
+import { useDocumentTitle } from "@/hooks/use-document-title";
+import { toastSuccess, toastError } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { LABELS } from "@/lib/labels";
+import { AlertCircle, ChevronRight, Loader2, Search } from "lucide-react";
+
+// Every part across the four room tabs, ranked by how many rooms still lack it —
+// so procurement sees "Headboard Niche Door is holding up 60 rooms" without
+// scanning room by room. Delivery (Containers tabs) and installs (Installation
+// tabs) are ranked separately; towers are merged, with a per-tower/floor split.
+
+type Stage = "installation" | "containers";
+type TowerFilter = "all" | "HR" | "LR";
+
+/** Not-yet-received buckets, in the order the bar stacks them. */
+const WAITING: { bucket: Exclude<UrgencyBucket, "received" | "excluded">; label: string; bar: string; text: string }[] = [
+  { bucket: "problem", label: "problem", bar: "bg-red-500", text: "text-red-300" },
+  { bucket: "attention", label: "attention", bar: "bg-orange-500", text: "text-orange-200" },
+  { bucket: "upstream", label: "upstream", bar: "bg-amber-500", text: "text-amber-200" },
+  { bucket: "incoming", label: "incoming", bar: "bg-sky-500", text: "text-sky-300" },
+  { bucket: "unrecorded", label: LABELS.noStatusShort, bar: "bg-fuchsia-500/60", text: "text-fuchsia-300/80" },
+  { bucket: "other", label: "other", bar: "bg-slate-500", text: "text-slate-300" },
+];
+
+const RECEIVED_LABEL: Record<Stage, string> = { installation: "installed", containers: "delivered" };
+
+function countsFor(entry: PartLeaderboardEntry, tower: TowerFilter): PartCounts | null {
+  if (tower === "all") return entry.counts;
+  return entry.byTower.find((t) => t.tower === tower)?.counts ?? null;
+}
+
+export default function PartsLeaderboard() {
+  useDocumentTitle("Most-Missing Parts");
+
+  const [stage, setStage] = useState<Stage>("installation");
+  const [tower, setTower] = useState<TowerFilter>("all");
+  const [search, setSearch] = useState("");
+  const [open, setOpen] = useState<string | null>(null);
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ["expansion-parts"],
+    queryFn: fetchPartsLeaderboard,
+    retry: false,
+    staleTime: 1000 * 60 * 2,
+  });
+
+  const handleRefresh = async () => {
+    try {
+      await refetch();
+      toastSuccess("Refreshed", "Parts re-counted from all four room tabs.");
+    } catch {
+      toastError("Refresh Failed", "Could not refresh. Please try again.");
+    }
+  };
+
+  const rows = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    return (data?.parts ?? [])
+      .filter((e) => e.type === stage)
+      .filter((e) => !q || e.part.toLowerCase().includes(q) || e.package.toLowerCase().includes(q))
+      .map((e) => ({ entry: e, counts: countsFor(e, tower) }))
+      .filter((r): r is { entry: PartLeaderboardEntry; counts: PartCounts } => r.counts !== null && r.counts.applicable > 0)
+      .sort((a, b) => b.counts.missing - a.counts.missing || b.counts.problem - a.counts.problem);
+  }, [data, stage, tower, search]);
+
+  const lastUpdated = data?.generatedAt ? new Date(data.generatedAt).toLocaleTimeString() : null;
+  const rowKey = (e: PartLeaderboardEntry) => `${e.type}|${e.package}|${e.part}`;
+
+  return (
+    <DashboardLayout
+      title="Most-Missing Parts"
+      subtitle={lastUpdated ? `Every part, ranked by rooms still waiting · synced ${lastUpdated}` : "Every part, ranked by rooms still waiting"}
+      onRefresh={handleRefresh}
+      isLoading={isLoading}
+    >
+      {error && (
+        <Card className="mb-6 border-red-500/30 bg-red-500/10">
+          <CardContent className="flex items-center gap-3 p-4">
+            <AlertCircle className="h-5 w-5 text-red-400" />
+            <div>
+              <p className="font-medium text-white">Couldn't load parts</p>
+              <p className="text-sm text-muted-foreground">{(error as Error).message}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {isLoading && !data && (
+        <div className="flex items-center justify-center gap-3 py-24 text-muted-foreground">
+          <Loader2 className="h-5 w-5 animate-spin" />
+          Counting parts across the room tabs…
+        </div>
+      )}
+
+      {data && (
+        <>
+          {data.missingTabs.length > 0 && (
+            <Card className="mb-5 border-amber-500/30 bg-amber-500/10">
+              <CardContent className="flex items-center gap-3 p-3 text-sm">
+                <AlertCircle className="h-4 w-4 text-amber-300" />
+                <span className="text-amber-100">Could not read: {data.missingTabs.join(", ")}.</span>
+              </CardContent>
+            </Card>
+          )}
+
+          <div className="mb-4 flex flex-wrap items-center gap-2">
+            <FilterButton active={stage === "installation"} onClick={() => setStage("installation")}>Installation</FilterButton>
+            <FilterButton active={stage === "containers"} onClick={() => setStage("containers")}>Delivery</FilterButton>
+            <span className="mx-1 h-5 w-px bg-white/10" />
+            {(["all", "HR", "LR"] as const).map((t) => (
+              <FilterButton key={t} active={tower === t} onClick={() => setTower(t)}>
+                {t === "all" ? "Both towers" : t}
+              </FilterButton>
+            ))}
+            <div className="relative ml-auto min-w-[200px]">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                placeholder="Search parts…"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="h-8 border-white/10 bg-white/5 pl-9 text-xs"
+              />
+            </div>
+          </div>
+
+          <div className="mb-4 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+            <span>
+              <span className="font-semibold text-white">Waiting</span> = rooms the part applies to that don't have it {RECEIVED_LABEL[stage]} yet (N/A rooms are left out).
+            </span>
+            {WAITING.map((w) => (
+              <span key={w.bucket} className="inline-flex items-center gap-1">
+                <span className={cn("h-2 w-2 rounded-sm", w.bar)} /> {w.label}
+              </span>
+            ))}
+          </div>
+
+          <Card className="border-white/10">
+            <CardContent className="p-0">
+              {rows.length === 0 ? (
+                <p className="py-12 text-center text-sm text-muted-foreground">No parts match.</p>
+              ) : (
+                <ul className="divide-y divide-white/5">
+                  {rows.map(({ entry, counts }, i) => (
+                    <PartRow
+                      key={rowKey(entry)}
+                      rank={i + 1}
+                      entry={entry}
+                      counts={counts}
+                      tower={tower}
+                      open={open === rowKey(entry)}
+                      onToggle={() => setOpen(open === rowKey(entry) ? null : rowKey(entry))}
+                    />
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </DashboardLayout>
+  );
+}
+
+function FilterButton({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={onClick}
+      className={cn("h-8 border-white/10 px-3 text-xs", active ? "bg-white/15 text-white" : "bg-white/5 text-muted-foreground hover:bg-white/10 hover:text-white")}
+    >
+      {children}
+    </Button>
+  );
+}
+
+function WaitingBar({ counts }: { counts: PartCounts }) {
+  if (counts.applicable === 0) return null;
+  return (
+    <div className="flex h-2 w-full overflow-hidden rounded-full bg-emerald-500/30" title={`${counts.received} of ${counts.applicable} done`}>
+      {WAITING.map((w) =>
+        counts[w.bucket] > 0 ? (
+          <div key={w.bucket} className={w.bar} style={{ width: `${(counts[w.bucket] / counts.applicable) * 100}%` }} />
+        ) : null,
+      )}
+    </div>
+  );
+}
+
+function CountChips({ counts }: { counts: PartCounts }) {
+  return (
+    <span className="flex flex-wrap gap-x-2 gap-y-0.5 text-[11px]">
+      {WAITING.filter((w) => counts[w.bucket] > 0).map((w) => (
+        <span key={w.bucket} className={w.text}>
+          {counts[w.bucket]} {w.label}
+        </span>
+      ))}
+    </span>
+  );
+}
+
+function PartRow({
+  rank,
+  entry,
+  counts,
+  tower,
+  open,
+  onToggle,
+}: {
+  rank: number;
+  entry: PartLeaderboardEntry;
+  counts: PartCounts;
+  tower: TowerFilter;
+  open: boolean;
+  onToggle: () => void;
+}) {
+  const [where, setWhere] = useState<{ tower?: "HR" | "LR"; floor?: string }>({});
+  const floors = entry.byFloor.filter((f) => tower === "all" || f.tower === tower);
+  const roomsWhere = { tower: where.tower ?? (tower === "all" ? undefined : tower), floor: where.floor };
+
+  return (
+    <li>
+      <button onClick={onToggle} className="flex w-full items-center gap-3 px-4 py-2.5 text-left hover:bg-white/[0.03]">
+        <ChevronRight className={cn("h-4 w-4 flex-shrink-0 text-muted-foreground transition-transform", open && "rotate-90")} />
+        <span className="w-8 text-right text-xs tabular-nums text-muted-foreground">{rank}</span>
+        <span className="min-w-0 flex-1">
+          <span className="block truncate text-sm font-medium text-white">{entry.part}</span>
+          <span className="block text-[11px] text-muted-foreground">{entry.package}</span>
+        </span>
+        <span className="hidden w-56 sm:block">
+          <WaitingBar counts={counts} />
+          <span className="mt-1 block">
+            <CountChips counts={counts} />
+          </span>
+        </span>
+        <span className="w-28 text-right">
+          <span className={cn("text-sm font-semibold tabular-nums", counts.missing > 0 ? "text-white" : "text-emerald-300")}>{counts.missing}</span>
+          <span className="text-xs text-muted-foreground"> / {counts.applicable} waiting</span>
+        </span>
+      </button>
+
+      {open && (
+        <div className="grid gap-4 border-t border-white/5 bg-white/[0.02] px-4 py-3 lg:grid-cols-[minmax(0,1fr)_minmax(0,1fr)]">
+          <div>
+            <p className="mb-1.5 text-xs font-semibold uppercase tracking-wide text-muted-foreground">By floor</p>
+            <ul className="space-y-1 text-xs">
+              <li>
+                <button
+                  onClick={() => setWhere({})}
+                  className={cn("w-full rounded px-2 py-1 text-left hover:bg-white/5", !where.floor && "bg-white/10 text-white")}
+                >
+                  All floors
+                </button>
+              </li>
+              {floors.map((f) => (
+                <li key={`${f.tower}|${f.floor}`}>
+                  <button
+                    onClick={() => setWhere({ tower: f.tower, floor: f.floor })}
+                    className={cn(
+                      "flex w-full items-center gap-3 rounded px-2 py-1 text-left hover:bg-white/5",
+                      where.tower === f.tower && where.floor === f.floor && "bg-white/10",
+                    )}
+                  >
+                    <span className="w-20 text-white">{f.tower} · {f.floor}</span>
+                    <span className="flex-1"><WaitingBar counts={f.counts} /></span>
+                    <span className="w-20 text-right tabular-nums text-muted-foreground">
+                      {f.counts.missing} / {f.counts.applicable}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <RoomList entry={entry} where={roomsWhere} receivedLabel={RECEIVED_LABEL[entry.type]} />
+        </div>
+      )}
+    </li>
+  );
+}
+
+function RoomList({
+  entry,
+  where,
+  receivedLabel,
+}: {
+  entry: PartLeaderboardEntry;
+  where: { tower?: "HR" | "LR"; floor?: string };
+  receivedLabel: string;
+}) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["expansion-part-rooms", entry.type, entry.package, entry.part, where.tower ?? null, where.floor ?? null],
+    queryFn: () => fetchPartRooms(entry, where),
+    retry: false,
+    staleTime: 1000 * 60 * 2,
+  });
+
+  const waiting = data?.rooms.filter((r) => r.bucket !== "received") ?? [];
+  const done = (data?.rooms.length ?? 0) - waiting.length;
+
+  return (
+    <div>
+      <p className="mb-1.5 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+        Rooms waiting{where.floor ? ` · ${where.tower} floor ${where.floor}` : ""}
+      </p>
+      {isLoading && (
+        <p className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" /> Loading rooms…
+        </p>
+      )}
+      {error && <p className="text-xs text-red-300">{(error as Error).message}</p>}
+      {data && (
+        <>
+          {waiting.length === 0 ? (
+            <p className="text-xs text-emerald-300/90">None — every room has it {receivedLabel}.</p>
+          ) : (
+            <ul className="max-h-72 space-y-0.5 overflow-y-auto pr-1 text-xs">
+              {waiting.map((r) => {
+                const tone = WAITING.find((w) => w.bucket === r.bucket);
+                return (
+                  <li key={`${r.tab}|${r.roomNo}|${r.floor}`} className="flex items-center gap-3 rounded px-2 py-0.5 hover:bg-white/5">
+                    <span className="w-16 font-medium text-white">{r.roomNo}</span>
+                    <span className="w-16 text-muted-foreground">{r.tower} · {r.floor}</span>
+                    <span className="w-24 truncate text-muted-foreground">{r.roomType}</span>
+                    <span className={cn("flex-1 truncate", tone?.text)}>{r.rawValue || LABELS.noStatusShort}</span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          {done > 0 && <p className="mt-1.5 text-[11px] text-muted-foreground">+ {done} room{done === 1 ? "" : "s"} already {receivedLabel}</p>}
+        </>
+      )}
+    </div>
+  );
+}
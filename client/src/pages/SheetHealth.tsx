@@ -0,0 +1,184 @@
+import { useQuery } from "@tanstack/react-query";
+import { DashboardLayout } from "@/components/dashboard/DashboardLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { fetchSheetHealth, type TabHealth, type TaxonomyDrift } from "@/lib/api";
+import { useDocumentTitle } from "@/hooks/use-document-title";
+import { toastSuccess, toastError } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { AlertCircle, AlertTriangle, CheckCircle2, History, Loader2 } from "lucide-react";
+
+// Admin view of how the Tracking Detail room tabs line up with the taxonomy the
+// engine expects, and when their column layout last changed. Discovery keeps
+// working through most drift; this is where it becomes visible.
+
+function formatWhen(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+}
+
+/** One line per drift finding, in plain language. */
+function driftLines(d: TaxonomyDrift): { tone: "red" | "amber" | "slate"; text: string }[] {
+  return [
+    ...d.packagesRemoved.map((p) => ({ tone: "red" as const, text: `Package ${p.name} is missing (${p.partCount} parts expected)` })),
+    ...d.headerlessColumns.map((c) => ({
+      tone: "red" as const,
+      text: `Column ${c.column} (in ${c.package}) has no header but ${c.filledCells} room${c.filledCells === 1 ? "" : "s"} filled in — not counted`,
+    })),
+    ...d.packagesRenamed.map((p) => ({ tone: "amber" as const, text: `Package ${p.from} now reads "${p.to}" (column ${p.column})` })),
+    ...d.packagesAdded.map((p) => ({ tone: "amber" as const, text: `New package ${p.name} at column ${p.column} (${p.partCount} parts)` })),
+    ...d.partsMoved.map((p) => ({ tone: "amber" as const, text: `${p.part} moved from ${p.from} to ${p.to} (column ${p.column})` })),
+    ...d.partsRemoved.map((p) => ({ tone: "amber" as const, text: `${p.package}: "${p.part}" is missing` })),
+    ...d.partsAdded.map((p) => ({ tone: "slate" as const, text: `${p.package}: new part "${p.part}" (column ${p.column})` })),
+  ];
+}
+
+const TONE_CLASS = { red: "text-red-300", amber: "text-amber-200", slate: "text-slate-300" };
+
+export default function SheetHealth() {
+  useDocumentTitle("Sheet Health");
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ["expansion-sheet-health"],
+    queryFn: fetchSheetHealth,
+    retry: false,
+    staleTime: 1000 * 60 * 2,
+  });
+
+  const handleRefresh = async () => {
+    try {
+      await refetch();
+      toastSuccess("Refreshed", "Re-read every room tab's headers.");
+    } catch {
+      toastError("Refresh Failed", "Could not refresh. Please try again.");
+    }
+  };
+
+  const lastUpdated = data?.generatedAt ? new Date(data.generatedAt).toLocaleTimeString() : null;
+  const tabNames = new Map(data?.tabs.map((t) => [t.tab, t.resolvedTitle ?? t.tab]) ?? []);
+
+  return (
+    <DashboardLayout
+      title="Sheet Health"
+      subtitle={lastUpdated ? `Room-tab layout vs the expected taxonomy · checked ${lastUpdated}` : "Room-tab layout vs the expected taxonomy"}
+      onRefresh={handleRefresh}
+      isLoading={isLoading}
+    >
+      {error && (
+        <Card className="mb-6 border-red-500/30 bg-red-500/10">
+          <CardContent className="flex items-center gap-3 p-4">
+            <AlertCircle className="h-5 w-5 text-red-400" />
+            <div>
+              <p className="font-medium text-white">Couldn't check the sheet</p>
+              <p className="text-sm text-muted-foreground">{(error as Error).message}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {isLoading && !data && (
+        <div className="flex items-center justify-center gap-3 py-24 text-muted-foreground">
+          <Loader2 className="h-5 w-5 animate-spin" />
+          Reading the room tabs' headers…
+        </div>
+      )}
+
+      {data && (
+        <div className="space-y-6">
+          <div className="grid gap-4 lg:grid-cols-2">
+            {data.tabs.map((t) => (
+              <TabCard key={t.tab} health={t} />
+            ))}
+          </div>
+
+          <Card className="border-white/10">
+            <CardHeader className="border-b border-white/10">
+              <CardTitle className="flex items-center gap-2 text-white">
+                <History className="h-5 w-5 text-sky-400" />
+                Layout changes
+              </CardTitle>
+              <CardDescription>Recorded whenever a tab's packages, parts or their columns change (checked hourly).</CardDescription>
+            </CardHeader>
+            <CardContent className="p-0">
+              {!data.historyAvailable ? (
+                <p className="px-4 py-6 text-sm text-muted-foreground">Layout history is unavailable right now (database not reachable).</p>
+              ) : data.history.length === 0 ? (
+                <p className="px-4 py-6 text-sm text-muted-foreground">Nothing recorded yet.</p>
+              ) : (
+                <ul className="divide-y divide-white/10">
+                  {data.history.map((h) => (
+                    <li key={h.id} className="px-4 py-3">
+                      <div className="flex flex-wrap items-center gap-2 text-sm">
+                        <span className="font-medium text-white">{tabNames.get(h.tab) ?? h.tab}</span>
+                        <span className="text-xs text-muted-foreground">{formatWhen(h.observedAt)}</span>
+                        {h.issueCount > 0 && (
+                          <span className="rounded border border-amber-500/30 bg-amber-500/10 px-1.5 py-0.5 text-[10px] text-amber-200">
+                            {h.issueCount} drift issue{h.issueCount === 1 ? "" : "s"}
+                          </span>
+                        )}
+                      </div>
+                      {h.changes.length === 0 ? (
+                        <p className="mt-1 text-xs text-muted-foreground">First recorded layout</p>
+                      ) : (
+                        <ul className="mt-1 list-disc space-y-0.5 pl-5 text-xs text-slate-300">
+                          {h.changes.map((c, i) => (
+                            <li key={i}>{c}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </DashboardLayout>
+  );
+}
+
+function TabCard({ health: t }: { health: TabHealth }) {
+  const lines = t.drift ? driftLines(t.drift) : [];
+  const ok = t.drift !== null && t.drift.issueCount === 0;
+  return (
+    <Card className="border-white/10">
+      <CardHeader className="border-b border-white/10 pb-3">
+        <div className="flex items-center gap-2">
+          {!t.drift ? (
+            <AlertCircle className="h-4 w-4 flex-shrink-0 text-red-400" />
+          ) : ok ? (
+            <CheckCircle2 className="h-4 w-4 flex-shrink-0 text-emerald-400" />
+          ) : (
+            <AlertTriangle className="h-4 w-4 flex-shrink-0 text-amber-400" />
+          )}
+          <CardTitle className="text-base text-white">{t.tab}</CardTitle>
+          {t.resolvedTitle && t.resolvedTitle !== t.tab && <span className="text-xs text-muted-foreground">as "{t.resolvedTitle}"</span>}
+        </div>
+        {t.drift && (
+          <CardDescription>
+            {t.drift.discovered.packageCount} packages / {t.drift.discovered.partCount} parts
+            {t.drift.expected && ` (expected ${t.drift.expected.packageCount} / ${t.drift.expected.partCount})`}
+            {t.layout && ` · header row ${t.layout.headerRow}`}
+            {t.layoutSince && ` · layout unchanged since ${formatWhen(t.layoutSince)}`}
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent className="pt-3 text-sm">
+        {!t.drift ? (
+          <p className="text-red-300">{t.warnings[0] ?? "Tab not found."}</p>
+        ) : !t.drift.hasExpected ? (
+          <p className="text-muted-foreground">No expected taxonomy registered for this tab.</p>
+        ) : ok ? (
+          <p className="text-emerald-300/90">Matches the expected taxonomy.</p>
+        ) : (
+          <ul className="space-y-1">
+            {lines.map((l, i) => (
+              <li key={i} className={cn("leading-snug", TONE_CLASS[l.tone])}>
+                {l.text}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,273 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { DashboardLayout } from "@/components/dashboard/DashboardLayout";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  fetchSpecRollup,
+  type SpecDisagreement,
+  type SpecRollupQuery,
+  type SpecRollupRoom,
+  type SpecRollupTower,
+} from "@/lib/api";
+import { useDocumentTitle } from "@/hooks/use-document-title";
+import { toastSuccess, toastError } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { SPEC_ATTRIBUTES, SPEC_FEATURES } from "@shared/config/roomSpecs";
+import type { SpecAttribute, SpecFeature } from "@shared/types/dashboard";
+import { AlertCircle, AlertTriangle, Loader2 } from "lucide-react";
+
+// The Floor → Room rollup joined to Room Specs by Room #: progress for just the
+// rooms with a given spec ("ADA rooms on floors 20–27"), plus every room whose
+// spec and part cells disagree (a speakeasy room with its Speak Easy parts N/A).
+
+type YesNo = "any" | "yes" | "no";
+
+const FILTERED_ATTRIBUTES: SpecAttribute[] = ["roomType", "sizeCategory", "bedSize", "tvSize"];
+
+function pctText(pct: number | null): string {
+  return pct === null ? "—" : `${pct}%`;
+}
+
+function disagreementText(d: SpecDisagreement): string {
+  const tab = d.side === "installed" ? "Installation" : "Containers";
+  return d.kind === "spec-not-tracked"
+    ? `${d.label} per spec, but ${tab} marks ${d.parts.join(", ")} N/A`
+    : `No ${d.label.toLowerCase()} per spec, but ${tab} tracks ${d.parts.join(", ")}`;
+}
+
+export default function SpecRollup() {
+  useDocumentTitle("Specs vs Progress");
+
+  const [tower, setTower] = useState<"all" | "HR" | "LR">("all");
+  const [floors, setFloors] = useState("");
+  const [features, setFeatures] = useState<Partial<Record<SpecFeature, YesNo>>>({});
+  const [attributes, setAttributes] = useState<Partial<Record<SpecAttribute, string>>>({});
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+
+  const query: SpecRollupQuery = {
+    tower: tower === "all" ? undefined : tower,
+    floors: floors.trim() || undefined,
+    features: Object.fromEntries(Object.entries(features).filter(([, v]) => v !== "any")) as SpecRollupQuery["features"],
+    attributes,
+    flagged: flaggedOnly,
+  };
+
+  const { data, isLoading, isFetching, error, refetch } = useQuery({
+    queryKey: ["expansion-spec-rollup", query],
+    queryFn: () => fetchSpecRollup(query),
+    retry: false,
+    staleTime: 1000 * 60 * 2,
+    placeholderData: (previous) => previous,
+  });
+
+  const handleRefresh = async () => {
+    try {
+      await refetch();
+      toastSuccess("Refreshed", "Rollup re-joined with Room Specs.");
+    } catch {
+      toastError("Refresh Failed", "Could not refresh. Please try again.");
+    }
+  };
+
+  const clearFilters = () => {
+    setTower("all");
+    setFloors("");
+    setFeatures({});
+    setAttributes({});
+    setFlaggedOnly(false);
+  };
+
+  const lastUpdated = data?.generatedAt ? new Date(data.generatedAt).toLocaleTimeString() : null;
+  const roomCount = data?.towers.reduce((n, t) => n + t.roomCount, 0) ?? 0;
+
+  return (
+    <DashboardLayout
+      title="Specs vs Progress"
+      subtitle={lastUpdated ? `Room Specs joined to installation progress · synced ${lastUpdated}` : "Room Specs joined to installation progress"}
+      onRefresh={handleRefresh}
+      isLoading={isLoading}
+    >
+      {error && (
+        <Card className="mb-6 border-red-500/30 bg-red-500/10">
+          <CardContent className="flex items-center gap-3 p-4">
+            <AlertCircle className="h-5 w-5 text-red-400" />
+            <div>
+              <p className="font-medium text-white">Couldn't join Room Specs</p>
+              <p className="text-sm text-muted-foreground">{(error as Error).message}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Filters */}
+      <Card className="mb-5 border-white/10">
+        <CardContent className="space-y-3 p-4 text-xs">
+          <div className="flex flex-wrap items-center gap-2">
+            {(["all", "HR", "LR"] as const).map((t) => (
+              <FilterButton key={t} active={tower === t} onClick={() => setTower(t)}>
+                {t === "all" ? "Both towers" : t}
+              </FilterButton>
+            ))}
+            <label className="ml-2 flex items-center gap-1.5 text-muted-foreground">
+              Floors
+              <Input
+                value={floors}
+                onChange={(e) => setFloors(e.target.value)}
+                placeholder="e.g. 20-27"
+                className="h-8 w-24 border-white/10 bg-white/5 text-xs"
+              />
+            </label>
+            {FILTERED_ATTRIBUTES.map((key) => (
+              <label key={key} className="flex items-center gap-1.5 text-muted-foreground">
+                {SPEC_ATTRIBUTES.find((a) => a.key === key)?.label}
+                <select
+                  value={attributes[key] ?? ""}
+                  onChange={(e) => setAttributes((prev) => ({ ...prev, [key]: e.target.value || undefined }))}
+                  className="rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-white focus:border-teal-500/50 focus:outline-none"
+                >
+                  <option value="" className="bg-zinc-900">All</option>
+                  {(data?.attributeValues[key] ?? []).map((v) => (
+                    <option key={v} value={v} className="bg-zinc-900">{v}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+            {SPEC_FEATURES.map(({ key, label }) => (
+              <div key={key} className="flex items-center gap-1">
+                <span className="text-muted-foreground">{label}</span>
+                {(["any", "yes", "no"] as const).map((v) => (
+                  <FilterButton key={v} active={(features[key] ?? "any") === v} onClick={() => setFeatures((prev) => ({ ...prev, [key]: v }))}>
+                    {v === "any" ? "Any" : v === "yes" ? "Yes" : "No"}
+                  </FilterButton>
+                ))}
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <FilterButton active={flaggedOnly} onClick={() => setFlaggedOnly((v) => !v)}>
+              Disagreements only
+            </FilterButton>
+            <Button variant="ghost" size="sm" onClick={clearFilters} className="h-8 px-3 text-xs text-muted-foreground hover:text-white">
+              Clear filters
+            </Button>
+            {isFetching && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading && !data && (
+        <div className="flex items-center justify-center gap-3 py-24 text-muted-foreground">
+          <Loader2 className="h-5 w-5 animate-spin" />
+          Joining Room Specs to the rollup…
+        </div>
+      )}
+
+      {data && (
+        <>
+          <div className="mb-5 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+            <span><span className="font-semibold text-white">{roomCount}</span> room row{roomCount === 1 ? "" : "s"} shown</span>
+            <span><span className="font-semibold text-white">{data.matchedRooms}</span> rooms matched to a spec</span>
+            {data.disagreementCount > 0 && (
+              <span className="text-amber-200">
+                <AlertTriangle className="mr-1 inline h-3 w-3" />
+                {data.disagreementCount} spec disagreement{data.disagreementCount === 1 ? "" : "s"}
+              </span>
+            )}
+            {data.roomsWithoutSpec.length > 0 && (
+              <span title={data.roomsWithoutSpec.join(", ")}>{data.roomsWithoutSpec.length} tracked rooms have no Room Specs row</span>
+            )}
+            {data.specsWithoutRoom.length > 0 && (
+              <span title={data.specsWithoutRoom.join(", ")}>{data.specsWithoutRoom.length} Room Specs rows aren't on the tracking tabs</span>
+            )}
+            {data.missingTabs.length > 0 && <span className="text-amber-200">Could not read: {data.missingTabs.join(", ")}</span>}
+          </div>
+
+          {roomCount === 0 ? (
+            <Card className="border-white/10">
+              <CardContent className="py-12 text-center text-sm text-muted-foreground">No rooms match these filters.</CardContent>
+            </Card>
+          ) : (
+            <div className="space-y-6">
+              {data.towers.filter((t) => t.roomCount > 0).map((t) => (
+                <TowerCard key={t.tower} tower={t} />
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </DashboardLayout>
+  );
+}
+
+function FilterButton({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={onClick}
+      className={cn("h-8 border-white/10 px-3 text-xs", active ? "bg-white/15 text-white" : "bg-white/5 text-muted-foreground hover:bg-white/10 hover:text-white")}
+    >
+      {children}
+    </Button>
+  );
+}
+
+function TowerCard({ tower }: { tower: SpecRollupTower }) {
+  return (
+    <Card className="border-white/10">
+      <div className="flex items-center gap-3 border-b border-white/10 px-4 py-3">
+        <h2 className="text-base font-semibold text-white">{tower.tower === "HR" ? "High Rise" : "Low Rise"}</h2>
+        <span className="text-xs text-muted-foreground">{tower.roomCount} rooms</span>
+        <span className="ml-auto text-sm font-semibold text-sky-300">{pctText(tower.installedPct)} installed</span>
+      </div>
+      <CardContent className="p-0">
+        {tower.floors.map((floor) => (
+          <div key={floor.floor} className="border-b border-white/5 last:border-b-0">
+            <div className="flex items-center gap-3 bg-white/[0.02] px-4 py-2 text-xs">
+              <span className="font-semibold text-white">Floor {floor.floor}</span>
+              <span className="text-muted-foreground">{floor.rooms.length} rooms</span>
+              <span className="ml-auto font-medium text-sky-300">{pctText(floor.installedPct)}</span>
+            </div>
+            <ul className="divide-y divide-white/5">
+              {floor.rooms.map((room) => (
+                <RoomLine key={room.key} room={room} />
+              ))}
+            </ul>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function RoomLine({ room }: { room: SpecRollupRoom }) {
+  const features = room.spec ? SPEC_FEATURES.filter(({ key }) => (room.spec![key] || "").toLowerCase() === "yes") : [];
+  return (
+    <li className="px-4 py-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-14 font-medium text-white">{room.roomNo}</span>
+        <span className="text-xs text-muted-foreground">{room.spec?.roomType || room.type}</span>
+        {features.map((f) => (
+          <span key={f.key} className="rounded border border-white/10 bg-white/5 px-1.5 py-0.5 text-[10px] text-slate-300">
+            {f.label}
+          </span>
+        ))}
+        {!room.spec && <span className="text-[10px] text-muted-foreground/70">no spec row</span>}
+        <span className="ml-auto tabular-nums text-sky-300">{pctText(room.installedPct)}</span>
+      </div>
+      {room.disagreements.length > 0 && (
+        <ul className="mt-1 space-y-0.5 pl-16 text-xs text-amber-200">
+          {room.disagreements.map((d, i) => (
+            <li key={i} className={cn(d.kind === "spec-not-tracked" && "text-red-300")}>
+              {disagreementText(d)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
@@ -0,0 +1,318 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { DashboardLayout } from "@/components/dashboard/DashboardLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  fetchUsers,
+  inviteUser,
+  updateUser,
+  reinviteUser,
+  type UserAccount,
+  type UserRole,
+  type DashboardTab,
+  type InviteResult,
+} from "@/lib/api";
+import { useDocumentTitle } from "@/hooks/use-document-title";
+import { toastSuccess, toastError } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { USER_ROLES, DASHBOARD_TABS, ROLE_LABELS, ROLE_DEFAULT_TABS } from "@shared/config/access";
+import { AlertCircle, Copy, Loader2, UserPlus, Ban, RotateCcw, Link2 } from "lucide-react";
+
+const TAB_LABELS: Record<DashboardTab, string> = {
+  construction: "Construction",
+  budget: "Budget & management",
+  timeline: "Timeline",
+};
+
+const STATUS_CHIP: Record<UserAccount["status"], string> = {
+  active: "border-emerald-500/30 bg-emerald-500/15 text-emerald-300",
+  invited: "border-amber-500/30 bg-amber-500/15 text-amber-200",
+  disabled: "border-white/10 bg-white/5 text-muted-foreground",
+};
+
+function inviteUrl(result: InviteResult): string {
+  return `${window.location.origin}${result.invitePath}`;
+}
+
+export default function Users() {
+  useDocumentTitle("Users");
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ["users"],
+    queryFn: fetchUsers,
+    retry: false,
+  });
+
+  const [email, setEmail] = useState("");
+  const [name, setName] = useState("");
+  const [role, setRole] = useState<UserRole>("construction");
+  const [grants, setGrants] = useState<DashboardTab[]>([]);
+  const [lastInvite, setLastInvite] = useState<{ email: string; url: string } | null>(null);
+
+  const onInvited = (result: InviteResult) => {
+    queryClient.invalidateQueries({ queryKey: ["users"] });
+    setLastInvite({ email: result.user.email, url: inviteUrl(result) });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: inviteUser,
+    onSuccess: (result) => {
+      onInvited(result);
+      setEmail("");
+      setName("");
+      setGrants([]);
+      toastSuccess("User Invited", `Share the invite link with ${result.user.name}.`);
+    },
+    onError: (err: Error) => toastError("Invite Failed", err.message),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: number; data: Parameters<typeof updateUser>[1] }) => updateUser(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["users"] });
+      queryClient.invalidateQueries({ queryKey: ["tab-auth"] });
+    },
+    onError: (err: Error) => toastError("Update Failed", err.message),
+  });
+
+  const reinviteMutation = useMutation({
+    mutationFn: reinviteUser,
+    onSuccess: (result) => {
+      onInvited(result);
+      toastSuccess("New Invite Link", `The previous link and password for ${result.user.email} no longer work.`);
+    },
+    onError: (err: Error) => toastError("Re-invite Failed", err.message),
+  });
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim() || !name.trim()) {
+      toastError("Missing Details", "Enter a name and an email address.");
+      return;
+    }
+    inviteMutation.mutate({ email, name, role, tabGrants: grants });
+  };
+
+  const copyInvite = async () => {
+    if (!lastInvite) return;
+    try {
+      await navigator.clipboard.writeText(lastInvite.url);
+      toastSuccess("Copied", "Invite link copied to clipboard.");
+    } catch {
+      toastError("Copy Failed", "Select the link and copy it manually.");
+    }
+  };
+
+  const users = data?.users ?? [];
+
+  return (
+    <DashboardLayout
+      title="Users"
+      subtitle="Named accounts, roles and per-tab access"
+      onRefresh={() => refetch()}
+      isLoading={isLoading}
+    >
+      {error && (
+        <Card className="mb-6 border-red-500/30 bg-red-500/10">
+          <CardContent className="flex items-center gap-3 p-4">
+            <AlertCircle className="h-5 w-5 text-red-400" />
+            <div>
+              <p className="font-medium text-white">Couldn't load users</p>
+              <p className="text-sm text-muted-foreground">{(error as Error).message}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* Invite form */}
+        <Card className="border-white/10 lg:col-span-1">
+          <CardHeader className="border-b border-white/10">
+            <CardTitle className="flex items-center gap-2 text-white">
+              <UserPlus className="h-5 w-5 text-sky-400" />
+              Invite someone
+            </CardTitle>
+            <CardDescription>
+              They get a one-week link to set their own password. Shared passwords stop working once the first invite is accepted.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-6">
+            <form onSubmit={handleInvite} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="invite-name">Name</Label>
+                <Input id="invite-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Jane Smith" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="invite-email">Email</Label>
+                <Input id="invite-email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder="jane@example.com" />
+              </div>
+              <div className="space-y-2">
+                <Label>Role</Label>
+                <Select value={role} onValueChange={(v) => setRole(v as UserRole)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {USER_ROLES.map((r) => (
+                      <SelectItem key={r} value={r}>{ROLE_LABELS[r]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Opens: {ROLE_DEFAULT_TABS[role].map((t) => TAB_LABELS[t]).join(", ")}
+                  {role === "field" && " (view only)"}
+                  {role === "admin" && " + user management"}
+                </p>
+              </div>
+              <TabGrantPicker role={role} grants={grants} onChange={setGrants} />
+              <Button type="submit" className="w-full bg-sky-500 text-white hover:bg-sky-600" disabled={inviteMutation.isPending}>
+                {inviteMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <UserPlus className="mr-2 h-4 w-4" />}
+                Create invite
+              </Button>
+            </form>
+
+            {lastInvite && (
+              <div className="mt-4 rounded-lg border border-sky-500/30 bg-sky-500/10 p-3">
+                <p className="mb-2 flex items-center gap-1.5 text-xs text-sky-200">
+                  <Link2 className="h-3.5 w-3.5" />
+                  Invite link for {lastInvite.email}
+                </p>
+                <div className="flex items-center gap-2">
+                  <Input readOnly value={lastInvite.url} className="h-8 text-xs" onFocus={(e) => e.target.select()} />
+                  <Button type="button" size="sm" variant="outline" className="h-8 border-white/10" onClick={copyInvite}>
+                    <Copy className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Account list */}
+        <Card className="border-white/10 lg:col-span-2">
+          <CardHeader className="border-b border-white/10">
+            <CardTitle className="text-white">Accounts</CardTitle>
+            <CardDescription>Disabling an account signs that person out on their next request.</CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoading && !data ? (
+              <div className="flex items-center justify-center gap-3 py-16 text-muted-foreground">
+                <Loader2 className="h-5 w-5 animate-spin" />
+                Loading accounts…
+              </div>
+            ) : users.length === 0 ? (
+              <p className="py-16 text-center text-sm text-muted-foreground">No accounts yet. Invite the first admin to retire the shared passwords.</p>
+            ) : (
+              <ul className="divide-y divide-white/10">
+                {users.map((u) => (
+                  <UserRow
+                    key={u.id}
+                    user={u}
+                    busy={updateMutation.isPending || reinviteMutation.isPending}
+                    onUpdate={(data) => updateMutation.mutate({ id: u.id, data })}
+                    onReinvite={() => reinviteMutation.mutate(u.id)}
+                  />
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Sub-components
+// ---------------------------------------------------------------------------
+
+/** Extra tabs on top of the role's defaults (defaults are shown checked + locked). */
+function TabGrantPicker({ role, grants, onChange }: { role: UserRole; grants: DashboardTab[]; onChange: (g: DashboardTab[]) => void }) {
+  const defaults = ROLE_DEFAULT_TABS[role];
+  return (
+    <div className="space-y-2">
+      <Label>Extra tabs</Label>
+      <div className="space-y-1.5">
+        {DASHBOARD_TABS.map((t) => {
+          const fromRole = defaults.includes(t);
+          return (
+            <label key={t} className={cn("flex items-center gap-2 text-sm", fromRole ? "text-muted-foreground" : "text-white")}>
+              <Checkbox
+                checked={fromRole || grants.includes(t)}
+                disabled={fromRole}
+                onCheckedChange={(checked) => onChange(checked ? [...grants, t] : grants.filter((g) => g !== t))}
+              />
+              {TAB_LABELS[t]}
+              {fromRole && <span className="text-[10px] uppercase tracking-wide">via role</span>}
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function UserRow({
+  user,
+  busy,
+  onUpdate,
+  onReinvite,
+}: {
+  user: UserAccount;
+  busy: boolean;
+  onUpdate: (data: { role?: UserRole; tabGrants?: DashboardTab[]; disabled?: boolean }) => void;
+  onReinvite: () => void;
+}) {
+  const lastLogin = user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleDateString() : "never";
+  const extraGrants = user.tabGrants.filter((t) => !ROLE_DEFAULT_TABS[user.role].includes(t));
+
+  return (
+    <li className={cn("flex flex-wrap items-center gap-3 px-4 py-3", user.disabled && "opacity-60")}>
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center gap-2">
+          <span className="truncate font-medium text-white">{user.name}</span>
+          <span className={cn("rounded border px-1.5 py-0.5 text-[10px] font-medium uppercase", STATUS_CHIP[user.status])}>{user.status}</span>
+        </div>
+        <p className="truncate text-xs text-muted-foreground">
+          {user.email} · last sign-in {lastLogin}
+          {extraGrants.length > 0 && ` · +${extraGrants.map((t) => TAB_LABELS[t]).join(", ")}`}
+        </p>
+      </div>
+
+      <Select value={user.role} onValueChange={(v) => onUpdate({ role: v as UserRole })} disabled={busy}>
+        <SelectTrigger className="h-8 w-36 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {USER_ROLES.map((r) => (
+            <SelectItem key={r} value={r}>{ROLE_LABELS[r]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {user.status === "invited" && (
+        <Button size="sm" variant="outline" className="h-8 border-white/10 text-xs" onClick={onReinvite} disabled={busy}>
+          <RotateCcw className="mr-1.5 h-3.5 w-3.5" />
+          New link
+        </Button>
+      )}
+
+      <Button
+        size="sm"
+        variant="outline"
+        className={cn("h-8 border-white/10 text-xs", !user.disabled && "text-red-300 hover:text-red-200")}
+        onClick={() => onUpdate({ disabled: !user.disabled })}
+        disabled={busy}
+      >
+        <Ban className="mr-1.5 h-3.5 w-3.5" />
+        {user.disabled ? "Enable" : "Disable"}
+      </Button>
+    </li>
+  );
+}
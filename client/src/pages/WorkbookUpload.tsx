@@ -0,0 +1,452 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { DashboardLayout } from "@/components/dashboard/DashboardLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  fetchWorkbookUploads,
+  uploadWorkbook,
+  fetchUploadPreview,
+  publishWorkbookUpload,
+  revertToLiveSheet,
+  fetchSheetCacheStatus,
+  refreshSheetCache,
+  type UploadPreview,
+  type UploadPreviewResponse,
+} from "@/lib/api";
+import { useDocumentTitle } from "@/hooks/use-document-title";
+import { toastSuccess, toastError } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { AlertCircle, AlertTriangle, CheckCircle2, Database, FileUp, Loader2, Radio, RefreshCw, Undo2, Upload } from "lucide-react";
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function pct(value: number | null): string {
+  return value === null ? "—" : `${Math.round(value)}%`;
+}
+
+function formatAge(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+}
+
+/** The shared server cache in front of Google: per-source age, and "refresh now". */
+function SheetCacheCard() {
+  const queryClient = useQueryClient();
+  const cacheQuery = useQuery({
+    queryKey: ["sheet-cache"],
+    queryFn: fetchSheetCacheStatus,
+    refetchInterval: 30000,
+    retry: false,
+  });
+
+  const refreshMutation = useMutation({
+    mutationFn: refreshSheetCache,
+    onSuccess: (result) => {
+      // Everything on screen came through the cache — refetch it all
+      queryClient.invalidateQueries();
+      toastSuccess("Cache Cleared", `Dropped ${result.dropped} cached reads. Pages reload from Google on next view.`);
+    },
+    onError: (err: Error) => toastError("Refresh Failed", err.message),
+  });
+
+  const sources = cacheQuery.data?.sources ?? [];
+
+  return (
+    <Card className="mb-6 border-white/10">
+      <CardHeader className="flex flex-row items-start justify-between gap-3 border-b border-white/10">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-white">
+            <Database className="h-5 w-5 text-teal-400" />
+            Sheet cache
+          </CardTitle>
+          <CardDescription>
+            Sheet reads are shared across users and refreshed in the background once they pass their TTL.
+          </CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          className="border-white/10"
+          onClick={() => refreshMutation.mutate()}
+          disabled={refreshMutation.isPending}
+        >
+          {refreshMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+          Refresh now
+        </Button>
+      </CardHeader>
+      <CardContent className="p-4">
+        {cacheQuery.isError ? (
+          <p className="text-sm text-red-400">{(cacheQuery.error as Error).message}</p>
+        ) : sources.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing cached yet.</p>
+        ) : (
+          <div className="space-y-1.5 text-sm">
+            {sources.map((s) => (
+              <div key={s.sourceId} className="flex items-center justify-between gap-3">
+                <span className="truncate text-white" title={s.sourceId}>{s.source ?? s.sourceId}</span>
+                <span className={cn("shrink-0 text-xs", s.oldestAgeSeconds > s.ttlSeconds ? "text-amber-400" : "text-muted-foreground")}>
+                  {s.entries} reads · oldest {formatAge(s.oldestAgeSeconds)} · TTL {formatAge(s.ttlSeconds)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function WorkbookUpload() {
+  useDocumentTitle("Workbook Upload");
+  const queryClient = useQueryClient();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [current, setCurrent] = useState<UploadPreviewResponse | null>(null);
+
+  const uploadsQuery = useQuery({
+    queryKey: ["workbook-uploads"],
+    queryFn: fetchWorkbookUploads,
+    retry: false,
+  });
+
+  const afterSwitch = () => {
+    queryClient.invalidateQueries({ queryKey: ["workbook-uploads"] });
+    // Every Tracking Detail query ("expansion-*") reads whatever is live
+    queryClient.invalidateQueries({ predicate: (q) => String(q.queryKey[0]).startsWith("expansion-") });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: uploadWorkbook,
+    onSuccess: (result) => {
+      setCurrent(result);
+      queryClient.invalidateQueries({ queryKey: ["workbook-uploads"] });
+      toastSuccess("Workbook Staged", "Review the preview below before publishing.");
+    },
+    onError: (err: Error) => toastError("Upload Failed", err.message),
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: fetchUploadPreview,
+    onSuccess: setCurrent,
+    onError: (err: Error) => toastError("Preview Failed", err.message),
+  });
+
+  const publishMutation = useMutation({
+    mutationFn: publishWorkbookUpload,
+    onSuccess: () => {
+      afterSwitch();
+      toastSuccess("Workbook Live", "Every Tracking Detail view now reads the uploaded workbook.");
+    },
+    onError: (err: Error) => toastError("Publish Failed", err.message),
+  });
+
+  const revertMutation = useMutation({
+    mutationFn: revertToLiveSheet,
+    onSuccess: () => {
+      afterSwitch();
+      toastSuccess("Back to Live Sheet", "Tracking Detail views read Google Sheets again.");
+    },
+    onError: (err: Error) => toastError("Revert Failed", err.message),
+  });
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    if (!file.name.toLowerCase().endsWith(".xlsx")) {
+      toastError("Wrong File Type", "Export the workbook as .xlsx (File → Download → Microsoft Excel).");
+      return;
+    }
+    uploadMutation.mutate(file);
+  };
+
+  const live = uploadsQuery.data?.live ?? null;
+  const uploads = uploadsQuery.data?.uploads ?? [];
+
+  return (
+    <DashboardLayout
+      title="Workbook Upload"
+      subtitle="Preview an exported Construction Progress workbook, then serve it in place of the live sheet"
+      onRefresh={() => uploadsQuery.refetch()}
+      isLoading={uploadsQuery.isLoading}
+    >
+      {/* What's live right now */}
+      <Card className={cn("mb-6", live ? "border-amber-500/30 bg-amber-500/10" : "border-white/10")}>
+        <CardContent className="flex flex-wrap items-center gap-3 p-4">
+          <Radio className={cn("h-5 w-5", live ? "text-amber-400" : "text-emerald-400")} />
+          <div className="min-w-0 flex-1">
+            {live ? (
+              <>
+                <p className="font-medium text-white">Serving uploaded workbook: {live.filename}</p>
+                <p className="text-sm text-muted-foreground">
+                  Published {new Date(live.publishedAt).toLocaleString()}
+                  {live.publishedBy && ` by ${live.publishedBy}`}. Held in server memory — a restart goes back to the live sheet. Daily snapshots and sheet-health history pause until it is cleared.
+                </p>
+              </>
+            ) : (
+              <p className="font-medium text-white">Reading the live Google Sheet</p>
+            )}
+          </div>
+          {live && (
+            <Button
+              variant="outline"
+              className="border-white/10"
+              onClick={() => revertMutation.mutate()}
+              disabled={revertMutation.isPending}
+            >
+              {revertMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Undo2 className="mr-2 h-4 w-4" />}
+              Back to live sheet
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      <SheetCacheCard />
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card className="border-white/10 lg:col-span-1">
+          <CardHeader className="border-b border-white/10">
+            <CardTitle className="flex items-center gap-2 text-white">
+              <FileUp className="h-5 w-5 text-sky-400" />
+              Upload
+            </CardTitle>
+            <CardDescription>Nothing goes live until you publish it.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4 pt-6">
+            <input ref={fileInput} type="file" accept=".xlsx" className="hidden" onChange={handleFile} />
+            <Button
+              className="w-full bg-sky-500 text-white hover:bg-sky-600"
+              onClick={() => fileInput.current?.click()}
+              disabled={uploadMutation.isPending}
+            >
+              {uploadMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              Choose .xlsx export
+            </Button>
+
+            {uploads.length > 0 && (
+              <div>
+                <p className="mb-2 text-xs uppercase tracking-wide text-muted-foreground">Recent uploads</p>
+                <ul className="space-y-1.5">
+                  {uploads.map((u) => (
+                    <li key={u.id}>
+                      <button
+                        type="button"
+                        onClick={() => previewMutation.mutate(u.id)}
+                        className={cn(
+                          "w-full rounded-md border px-3 py-2 text-left text-sm transition-colors",
+                          current?.upload.id === u.id ? "border-sky-500/40 bg-sky-500/10" : "border-white/10 hover:bg-white/5",
+                        )}
+                      >
+                        <span className="flex items-center gap-2 text-white">
+                          <span className="truncate">{u.filename}</span>
+                          {u.live && <span className="rounded bg-amber-500/20 px-1.5 text-[10px] uppercase text-amber-200">live</span>}
+                        </span>
+                        <span className="text-xs text-muted-foreground">
+                          {new Date(u.uploadedAt).toLocaleString()} · {formatSize(u.size)}
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="lg:col-span-2">
+          {previewMutation.isPending ? (
+            <div className="flex items-center justify-center gap-3 py-16 text-muted-foreground">
+              <Loader2 className="h-5 w-5 animate-spin" />
+              Building preview…
+            </div>
+          ) : current ? (
+            <PreviewPanel
+              result={current}
+              onPublish={() => publishMutation.mutate(current.upload.id)}
+              publishing={publishMutation.isPending}
+              isLive={live?.id === current.upload.id}
+            />
+          ) : (
+            <Card className="border-white/10">
+              <CardContent className="py-16 text-center text-sm text-muted-foreground">
+                Upload a workbook, or pick a recent upload, to see its numbers.
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Preview
+// ---------------------------------------------------------------------------
+
+function PreviewPanel({
+  result,
+  onPublish,
+  publishing,
+  isLive,
+}: {
+  result: UploadPreviewResponse;
+  onPublish: () => void;
+  publishing: boolean;
+  isLive: boolean;
+}) {
+  const { upload, preview } = result;
+  const missing = preview.tabs.filter((t) => !t.ok);
+  const warningCount = preview.tabs.reduce((n, t) => n + (t.ok ? t.warnings.length : 0), 0);
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-white/10">
+        <CardContent className="flex flex-wrap items-center gap-3 p-4">
+          <div className="min-w-0 flex-1">
+            <p className="truncate font-medium text-white">{upload.filename}</p>
+            <p className="text-sm text-muted-foreground">
+              {preview.tabs.length - missing.length}/{preview.tabs.length} tabs found · {warningCount} taxonomy warning
+              {warningCount === 1 ? "" : "s"} · {preview.exceptions.counts.loud} loud exceptions
+            </p>
+          </div>
+          <Button className="bg-amber-500 text-white hover:bg-amber-600" onClick={onPublish} disabled={publishing || isLive}>
+            {publishing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Radio className="mr-2 h-4 w-4" />}
+            {isLive ? "Live" : "Publish as live data"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <TabsCard preview={preview} />
+      <RollupCard preview={preview} />
+      <ExceptionsCard preview={preview} />
+    </div>
+  );
+}
+
+function TabsCard({ preview }: { preview: UploadPreview }) {
+  return (
+    <Card className="border-white/10">
+      <CardHeader className="border-b border-white/10">
+        <CardTitle className="text-white">Tabs &amp; taxonomy</CardTitle>
+        <CardDescription>Discovered packages/parts against the expected taxonomy for each tab.</CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        <ul className="divide-y divide-white/10">
+          {preview.tabs.map((t) => (
+            <li key={t.tab} className="px-4 py-3">
+              <div className="flex items-center gap-2">
+                {!t.ok ? (
+                  <AlertCircle className="h-4 w-4 flex-shrink-0 text-red-400" />
+                ) : t.warnings.length > 0 ? (
+                  <AlertTriangle className="h-4 w-4 flex-shrink-0 text-amber-400" />
+                ) : (
+                  <CheckCircle2 className="h-4 w-4 flex-shrink-0 text-emerald-400" />
+                )}
+                <span className="font-medium text-white">{t.tab}</span>
+                {t.ok && t.resolvedTitle !== t.tab && <span className="text-xs text-muted-foreground">as "{t.resolvedTitle}"</span>}
+              </div>
+              {!t.ok ? (
+                <p className="mt-1 pl-6 text-sm text-red-300">{t.message}</p>
+              ) : (
+                <div className="mt-1 pl-6 text-sm text-muted-foreground">
+                  {t.kind === "room" ? `${t.count} rooms` : `${t.count} rows`}
+                  {t.discovered && (
+                    <>
+                      {" · "}
+                      {t.discovered.packageCount} packages / {t.discovered.partCount} parts
+                      {t.expected && ` (expected ${t.expected.packageCount} / ${t.expected.partCount})`}
+                    </>
+                  )}
+                  {t.warnings.length > 0 && (
+                    <ul className="mt-1 list-disc space-y-0.5 pl-4 text-amber-200/90">
+                      {t.warnings.map((w, i) => (
+                        <li key={i}>{w}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
+
+function RollupCard({ preview }: { preview: UploadPreview }) {
+  return (
+    <Card className="border-white/10">
+      <CardHeader className="border-b border-white/10">
+        <CardTitle className="text-white">Installation rollup</CardTitle>
+        <CardDescription>Tower and floor installation % as the Delivery &amp; Installation view would show them.</CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 pt-6 sm:grid-cols-2">
+        {preview.rollup.towers.map((t) => (
+          <div key={t.tower}>
+            <p className="mb-2 flex items-baseline justify-between">
+              <span className="font-medium text-white">{t.tower} tower</span>
+              <span className="text-lg font-semibold text-white">{pct(t.installedPct)}</span>
+            </p>
+            <ul className="max-h-64 space-y-1 overflow-y-auto pr-1 text-sm">
+              {t.floors.map((f) => (
+                <li key={f.floor} className="flex justify-between text-muted-foreground">
+                  <span>
+                    Floor {f.floor} <span className="text-xs">({f.roomCount} rooms)</span>
+                  </span>
+                  <span className="text-white">{pct(f.installedPct)}</span>
+                </li>
+              ))}
+            </ul>
+            {t.duplicateRooms.length > 0 && (
+              <p className="mt-2 text-xs text-muted-foreground">Multi-row rooms: {t.duplicateRooms.join(", ")}</p>
+            )}
+          </div>
+        ))}
+        {preview.rollup.missingTabs.length > 0 && (
+          <p className="text-sm text-red-300 sm:col-span-2">Missing: {preview.rollup.missingTabs.join(", ")}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const EXCEPTION_PREVIEW_LIMIT = 50;
+
+function ExceptionsCard({ preview }: { preview: UploadPreview }) {
+  const { counts, items } = preview.exceptions;
+  const shown = [...items].sort((a, b) => (a.severity === b.severity ? 0 : a.severity === "loud" ? -1 : 1)).slice(0, EXCEPTION_PREVIEW_LIMIT);
+
+  return (
+    <Card className="border-white/10">
+      <CardHeader className="border-b border-white/10">
+        <CardTitle className="text-white">Exceptions</CardTitle>
+        <CardDescription>
+          {counts.loud} loud · {counts.attention} attention
+          {items.length > EXCEPTION_PREVIEW_LIMIT && ` — first ${EXCEPTION_PREVIEW_LIMIT} shown`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        {shown.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No exceptions in this workbook.</p>
+        ) : (
+          <ul className="divide-y divide-white/10 text-sm">
+            {shown.map((item, i) => (
+              <li key={i} className="flex items-center gap-3 px-4 py-2">
+                <span className={cn("h-2 w-2 flex-shrink-0 rounded-full", item.severity === "loud" ? "bg-red-400" : "bg-amber-400")} />
+                <span className="w-14 flex-shrink-0 text-white">{item.roomNo}</span>
+                <span className="min-w-0 flex-1 truncate text-muted-foreground">
+                  {item.package} · {item.part}
+                </span>
+                <span className="flex-shrink-0 text-white">{item.reason}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,284 @@
+// Server-side tab authorization. TabPasswordGate only hides pages in the browser;
+// this enforces the same tabs on every /api route so budget, invoice and
+// timeline data can't be read (or written) without a session.
+//
+// Two ways a session unlocks tabs:
+//  • Named accounts (users table) — role + per-tab grants. Once any account can
+//    sign in, the shared gate passwords are retired.
+//  • Legacy shared passwords (PASSWORD_GATE / MANAGEMENT_PASSWORD_GATE) — only
+//    while no account exists yet, so the first admin can be invited.
+
+import type { Request, Response, NextFunction } from "express";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { and, eq, isNotNull } from "drizzle-orm";
+import { db } from "./db";
+import { users, type User } from "@shared/schema";
+import { effectiveTabs, isUserRole, roleCanWrite, type DashboardTab, type UserRole } from "@shared/config/access";
+
+export type AccessTier = "public" | DashboardTab | "admin";
+
+export interface SessionUser {
+  id: number;
+  name: string;
+  email: string;
+  role: UserRole;
+}
+
+export interface TabAccess {
+  construction: boolean;
+  budget: boolean;
+  timeline: boolean;
+  /** Every management tab (budget + timeline) — the old management tier. */
+  management: boolean;
+  /** May manage user accounts. */
+  admin: boolean;
+  anyAuthenticated: boolean;
+  /** True once named accounts are in use (the client shows email + password). */
+  accounts: boolean;
+  user: SessionUser | null;
+}
+
+// ---------------------------------------------------------------------------
+// Passwords
+// ---------------------------------------------------------------------------
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+const KEY_LENGTH = 64;
+
+/** "scrypt:<salt>:<hash>" — salt and hash hex-encoded. */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt:${salt}:${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string | null): Promise<boolean> {
+  if (!stored) return false;
+  const [scheme, salt, hashHex] = stored.split(":");
+  if (scheme !== "scrypt" || !salt || !hashHex) return false;
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = await scryptAsync(password, salt, expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export function newInviteToken(): string {
+  return randomBytes(24).toString("hex");
+}
+
+// ---------------------------------------------------------------------------
+// Accounts mode
+// ---------------------------------------------------------------------------
+
+// Whether at least one enabled account has a password. Cached in-process and
+// refreshed at startup and whenever an account changes.
+let accountsActive = false;
+
+export async function refreshAccountsActive(): Promise<boolean> {
+  const [row] = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(and(eq(users.disabled, false), isNotNull(users.passwordHash)))
+    .limit(1);
+  accountsActive = !!row;
+  return accountsActive;
+}
+
+export function accountsInUse(): boolean {
+  return accountsActive;
+}
+
+/** Copy a user's identity and tabs onto the session (login + every request). */
+export function applyUserToSession(req: Request, user: User) {
+  const role: UserRole = isUserRole(user.role) ? user.role : "field";
+  req.session.userId = user.id;
+  req.session.userName = user.name;
+  req.session.userEmail = user.email;
+  req.session.userRole = role;
+  req.session.userTabs = effectiveTabs(role, user.tabGrants);
+  req.session.authenticated = true;
+}
+
+/** Issue a fresh session id before signing someone in (no session fixation). */
+export function regenerateSession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((err) => (err ? reject(err) : resolve()));
+  });
+}
+
+function clearSessionUser(req: Request) {
+  delete req.session.userId;
+  delete req.session.userName;
+  delete req.session.userEmail;
+  delete req.session.userRole;
+  delete req.session.userTabs;
+}
+
+/**
+ * Re-read the signed-in user on every request so role changes and disabling
+ * take effect immediately rather than at session expiry.
+ */
+export async function loadSessionUser(req: Request, _res: Response, next: NextFunction) {
+  if (!req.session?.userId) return next();
+  try {
+    const [user] = await db.select().from(users).where(eq(users.id, req.session.userId));
+    if (!user || user.disabled) {
+      clearSessionUser(req);
+    } else {
+      applyUserToSession(req, user);
+    }
+    next();
+  } catch (err) {
+    next(err);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Access resolution
+// ---------------------------------------------------------------------------
+
+/**
+ * Which tabs the current session has unlocked. This is the single source of
+ * truth for both /api/auth/tab-check and the route guard below.
+ */
+export function resolveTabAccess(req: Request): TabAccess {
+  const s = req.session;
+
+  if (s.userId && s.userRole) {
+    const tabs = new Set(s.userTabs ?? []);
+    const budget = tabs.has("budget");
+    const timeline = tabs.has("timeline");
+    return {
+      construction: tabs.has("construction"),
+      budget,
+      timeline,
+      management: budget && timeline,
+      admin: s.userRole === "admin",
+      anyAuthenticated: tabs.size > 0,
+      accounts: accountsActive,
+      user: { id: s.userId, name: s.userName ?? "", email: s.userEmail ?? "", role: s.userRole },
+    };
+  }
+
+  if (accountsActive) {
+    return {
+      construction: false,
+      budget: false,
+      timeline: false,
+      management: false,
+      admin: false,
+      anyAuthenticated: false,
+      accounts: true,
+      user: null,
+    };
+  }
+
+  // Legacy shared passwords. A tier with no password configured is open;
+  // management implies construction. Management may invite the first admin.
+  const gatePassword = process.env.PASSWORD_GATE;
+  const managementPassword = process.env.MANAGEMENT_PASSWORD_GATE;
+
+  const management = !managementPassword || !!s.managementAuthenticated;
+  const construction = !gatePassword || !!s.constructionAuthenticated || management;
+
+  return {
+    construction,
+    budget: management,
+    timeline: management,
+    management,
+    admin: management,
+    anyAuthenticated: construction || management,
+    accounts: false,
+    user: null,
+  };
+}
+
+interface ApiAccessRule {
+  /** Matched against the path below /api, e.g. "/sheets/budget". */
+  path: RegExp;
+  /** Only this HTTP method; any method when omitted. */
+  method?: string;
+  tier: AccessTier;
+}
+
+// First match wins, so specific paths sit above their router's catch-all.
+// Anything not listed falls through to DEFAULT_TIER (deny by default).
+export const API_ACCESS_RULES: ApiAccessRule[] = [
+  { path: /^\/auth\//, tier: "public" },
+  { path: /^\/health$/, tier: "public" },
+
+  // Construction Progress page + its room photos. The Drive proxies are also used
+  // by Vendor Invoices; below the budget tier the routes only serve the room
+  // photo folders linked from Construction Progress (services/roomPhotos).
+  { path: /^\/sheets\/construction-progress$/, tier: "construction" },
+  { path: /^\/sheets\/drive-files$/, tier: "construction" },
+  { path: /^\/sheets\/drive-file\/[^/]+$/, tier: "construction" },
+  { path: /^\/sheets\/useful-links$/, tier: "construction" },
+  // Budget, weekly goals, container schedule, room specs, vendor invoices, the
+  // invoice audit (/construction) and the raw sheet/info/batch proxies — all of
+  // which sit behind the client's "budget" gate.
+  { path: /^\/sheets(\/|$)/, tier: "budget" },
+
+  // Workbook uploads replace what every expansion view reads — admins only.
+  { path: /^\/expansion\/uploads(\/|$)/, tier: "admin" },
+  // Which containers count as arrived changes every % received — admins only.
+  { path: /^\/expansion\/arrived-containers(\/|$)/, tier: "admin" },
+  // Sheet layout / taxonomy drift — for whoever maintains the sheet and the engine.
+  { path: /^\/expansion\/sheet-health(\/|$)/, tier: "admin" },
+  // "Capture now" writes a full snapshot of every room tab — admins only.
+  { path: /^\/expansion\/snapshots$/, method: "POST", tier: "admin" },
+  // Tracking Detail tabs (exceptions, rollup, containers, common areas).
+  { path: /^\/expansion(\/|$)/, tier: "construction" },
+
+  // Timeline reads and writes alike.
+  { path: /^\/timeline(\/|$)/, tier: "timeline" },
+
+  // Account administration and the shared sheet cache's "refresh now".
+  { path: /^\/users(\/|$)/, tier: "admin" },
+  { path: /^\/cache(\/|$)/, tier: "admin" },
+
+  { path: /^\/messages$/, tier: "construction" },
+];
+
+const DEFAULT_TIER: AccessTier = "admin";
+
+/** The tier a given /api-relative path (and method) requires. */
+export function tierForPath(path: string, method = "GET"): AccessTier {
+  return API_ACCESS_RULES.find((rule) => rule.path.test(path) && (!rule.method || rule.method === method))?.tier ?? DEFAULT_TIER;
+}
+
+function hasTier(access: TabAccess, tier: AccessTier): boolean {
+  if (tier === "public") return true;
+  return access[tier];
+}
+
+/**
+ * Mount at "/api". 401 when the session has unlocked nothing, 403 when it is
+ * signed in but lacks the tab the path needs — or is a read-only (field)
+ * account attempting a write.
+ */
+export function enforceApiAccess(req: Request, res: Response, next: NextFunction) {
+  const tier = tierForPath(req.path, req.method);
+  if (tier === "public") return next();
+
+  const access = resolveTabAccess(req);
+  if (!access.anyAuthenticated) {
+    return res.status(401).json({
+      error: "unauthenticated",
+      message: "Sign in to access this data",
+    });
+  }
+  if (!hasTier(access, tier)) {
+    return res.status(403).json({
+      error: "forbidden",
+      message: `This data requires ${tier} access`,
+    });
+  }
+  if (req.method !== "GET" && req.method !== "HEAD" && access.user && !roleCanWrite(access.user.role)) {
+    return res.status(403).json({
+      error: "read_only",
+      message: "Your account can view but not change data",
+    });
+  }
+  return next();
+}
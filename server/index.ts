@@ -3,8 +3,22 @@ import session from "express-session";
 import connectPgSimple from "connect-pg-simple";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
+import { startExpansionSnapshotJob } from "./services/expansionSnapshots";
 import { createServer } from "http";
-import { pool } from "./db";
+import { pool, db } from "./db";
+import { users } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import type { DashboardTab, UserRole } from "@shared/config/access";
+import {
+  resolveTabAccess,
+  loadSessionUser,
+  applyUserToSession,
+  regenerateSession,
+  accountsInUse,
+  refreshAccountsActive,
+  hashPassword,
+  verifyPassword,
+} from "./auth";
 
 const app = express();
 const httpServer = createServer(app);
@@ -21,6 +35,12 @@ declare module "express-session" {
     role: "management" | "default";
     constructionAuthenticated: boolean;
     managementAuthenticated: boolean;
+    // Named account (users table) — set on login, refreshed every request
+    userId: number;
+    userName: string;
+    userEmail: string;
+    userRole: UserRole;
+    userTabs: DashboardTab[];
   }
 }
 
@@ -54,6 +74,9 @@ app.use(
   }),
 );
 
+// Re-validate the signed-in account (disabled / role changes apply immediately)
+app.use(loadSessionUser);
+
 // Auth endpoints
 app.post("/api/auth/login", (req: Request, res: Response) => {
   const { password, requestedRole } = req.body;
@@ -108,6 +131,9 @@ app.get("/api/auth/check", (req: Request, res: Response) => {
 // Per-tab auth endpoints
 app.post("/api/auth/tab-login", (req: Request, res: Response) => {
   const { password, tab } = req.body;
+  if (accountsInUse()) {
+    return res.status(403).json({ message: "Shared passwords are retired. Sign in with your account." });
+  }
   const gatePassword = process.env.PASSWORD_GATE;
   const managementPassword = process.env.MANAGEMENT_PASSWORD_GATE;
   if (tab === "construction") {
@@ -135,18 +161,79 @@ app.post("/api/auth/tab-login", (req: Request, res: Response) => {
 });
 
 app.get("/api/auth/tab-check", (req: Request, res: Response) => {
-  const gatePassword = process.env.PASSWORD_GATE;
-  const managementPassword = process.env.MANAGEMENT_PASSWORD_GATE;
+  return res.json(resolveTabAccess(req));
+});
 
-  const management = !managementPassword || !!req.session.managementAuthenticated;
-  const construction = !gatePassword || !!req.session.constructionAuthenticated || management;
-  const anyAuthenticated = construction || management;
+// Named-account login (email + password)
+app.post("/api/auth/user-login", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const email = String(req.body?.email || "").trim().toLowerCase();
+    const password = String(req.body?.password || "");
+    if (!email || !password) {
+      return res.status(400).json({ message: "Email and password are required" });
+    }
 
-  return res.json({
-    construction,
-    management,
-    anyAuthenticated,
-  });
+    const [user] = await db.select().from(users).where(eq(users.email, email));
+    if (!user || user.disabled || !(await verifyPassword(password, user.passwordHash))) {
+      return res.status(401).json({ message: "Incorrect email or password" });
+    }
+
+    await db.update(users).set({ lastLoginAt: new Date() }).where(eq(users.id, user.id));
+    await regenerateSession(req);
+    applyUserToSession(req, user);
+    return res.json({ success: true, access: resolveTabAccess(req) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Invite acceptance — look up who the invite is for, then set a password
+app.get("/api/auth/invite/:token", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const [user] = await db.select().from(users).where(eq(users.inviteToken, req.params.token as string));
+    if (!user || user.disabled || !user.inviteExpiresAt || user.inviteExpiresAt < new Date()) {
+      return res.status(404).json({ message: "This invite link is invalid or has expired" });
+    }
+    return res.json({ email: user.email, name: user.name, role: user.role });
+  } catch (err) {
+    next(err);
+  }
+});
+
+app.post("/api/auth/accept-invite", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const token = String(req.body?.token || "");
+    const password = String(req.body?.password || "");
+    if (password.length < 8) {
+      return res.status(400).json({ message: "Password must be at least 8 characters" });
+    }
+
+    const [user] = token ? await db.select().from(users).where(eq(users.inviteToken, token)) : [];
+    if (!user || user.disabled || !user.inviteExpiresAt || user.inviteExpiresAt < new Date()) {
+      return res.status(404).json({ message: "This invite link is invalid or has expired" });
+    }
+
+    const [updated] = await db
+      .update(users)
+      .set({
+        passwordHash: await hashPassword(password),
+        inviteToken: null,
+        inviteExpiresAt: null,
+        lastLoginAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, user.id))
+      .returning();
+
+    // The first accepted invite switches the dashboard over from shared passwords.
+    // A fresh session also drops any shared-password unlocks.
+    await refreshAccountsActive();
+    await regenerateSession(req);
+    applyUserToSession(req, updated);
+    return res.json({ success: true, access: resolveTabAccess(req) });
+  } catch (err) {
+    next(err);
+  }
 });
 
 app.post("/api/auth/logout", (req: Request, res: Response) => {
@@ -169,6 +256,13 @@ export function log(message: string, source = "express") {
   console.log(`${formattedTime} [${source}] ${message}`);
 }
 
+// Invite tokens double as password resets — keep them out of the request log.
+function redactForLog(path: string, body: Record<string, any> | undefined) {
+  const safePath = path.replace(/^(\/api\/auth\/invite\/)[^/]+/, "$1[redacted]");
+  const safeBody = body && typeof body.invitePath === "string" ? { ...body, invitePath: "[redacted]" } : body;
+  return { safePath, safeBody };
+}
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -183,9 +277,13 @@ app.use((req, res, next) => {
   res.on("finish", () => {
     const duration = Date.now() - start;
     if (path.startsWith("/api")) {
-      let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+      const { safePath, safeBody } = redactForLog(path, capturedJsonResponse);
+      let logLine = `${req.method} ${safePath} ${res.statusCode} in ${duration}ms`;
+      if (req.session?.userEmail) {
+        logLine += ` [${req.session.userEmail}]`;
+      }
+      if (safeBody) {
+        logLine += ` :: ${JSON.stringify(safeBody)}`;
       }
 
       log(logLine);
@@ -196,7 +294,11 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await refreshAccountsActive().catch((err) => {
+    console.error("[auth] Could not read users table; staying on shared passwords:", err.message);
+  });
   await registerRoutes(httpServer, app);
+  startExpansionSnapshotJob();
 
   app.use((err: any, _req: Request, res: Response, next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -5,11 +5,22 @@ import { api } from "@shared/routes";
 import sheetsRouter from "./routes/sheets";
 import timelineRouter from "./routes/timeline";
 import expansionRouter from "./routes/expansion";
+import usersRouter from "./routes/users";
+import { enforceApiAccess } from "./auth";
+import { getSheetProvider } from "./services/sheetProvider";
+import { trackDataAge, invalidateCache, describeCache } from "./services/sheetCache";
+import { getGoogleApiStats } from "./services/googleSheets";
 
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
+  // Tier check for every /api path (see API_ACCESS_RULES) — runs before any router
+  app.use("/api", enforceApiAccess);
+
+  // Shared sheet cache context: ?refresh=true bypass + X-Data-Age response header
+  app.use("/api", trackDataAge);
+
   // Google Sheets API proxy routes
   app.use("/api/sheets", sheetsRouter);
 
@@ -19,12 +30,31 @@ export async function registerRoutes(
   // Dashboard expansion routes (7 new tabs — additive, read-only)
   app.use("/api/expansion", expansionRouter);
 
+  // Named user accounts (admin only — see API_ACCESS_RULES)
+  app.use("/api/users", usersRouter);
+
+  // Sheet cache status and "refresh now" (admin only — see API_ACCESS_RULES)
+  app.get("/api/cache", (_req, res) => {
+    res.json(describeCache());
+  });
+
+  app.post("/api/cache/refresh", (req, res) => {
+    const dropped = invalidateCache();
+    console.log(`[cache] Cleared ${dropped} entries (by ${req.session.userEmail ?? "shared-password session"})`);
+    res.json({ dropped, ...describeCache() });
+  });
+
   // Health check endpoint
   app.get("/api/health", (req, res) => {
     res.json({
       status: "ok",
       timestamp: new Date().toISOString(),
-      sheetsConfigured: !!(process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL || process.env.GOOGLE_API_KEY)
+      sheetsProvider: getSheetProvider().name,
+      sheetsConfigured: getSheetProvider().name === "file"
+        ? !!process.env.SHEETS_FIXTURE_PATH
+        : !!(process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL || process.env.GOOGLE_API_KEY),
+      // Per-endpoint calls/retries/failures and the Sheets read token bucket
+      googleApi: getGoogleApiStats(),
     });
   });
 
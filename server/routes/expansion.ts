@@ -5,12 +5,53 @@
 // All structure discovery + recompute lives in the pure engine (shared/lib);
 // this router only fetches values and shapes the normalized JSON response.
 
-import { Router } from 'express';
-import { fetchSheetData, getSpreadsheetInfo } from '../services/googleSheets';
+import express, { Router } from 'express';
+import {
+  getSpreadsheetId,
+  readSpreadsheetTitles,
+  resolveActualTitle,
+  readGrid,
+  readRoomTabRows,
+  readRoomTabMismatches,
+  collectExceptions,
+} from '../services/expansionSheets';
+import {
+  captureExpansionSnapshot,
+  listExpansionSnapshots,
+  loadExpansionSnapshot,
+  isSnapshotDate,
+} from '../services/expansionSnapshots';
+import {
+  stageUpload,
+  getUpload,
+  publishUpload,
+  clearLiveUpload,
+  describeUploads,
+  toPublicUpload,
+  uploadSpreadsheetId,
+  hasLiveUpload,
+} from '../services/uploadedWorkbooks';
+import { invalidateCache } from '../services/sheetCache';
+import { triageOverlay, saveTriage, triageHistory } from '../services/exceptionTriage';
+import {
+  getArrivedContainers,
+  resolveArrivedContainers,
+  describeArrivedContainers,
+  setArrivedMode,
+  markContainersArrived,
+  unmarkContainersArrived,
+  setArrivalOverride,
+  clearArrivalOverride,
+} from '../services/arrivedContainers';
+import { getContainerScheduleSheetId, readContainerSchedule } from '../services/containerSchedule';
+import { recordEtaObservations } from '../services/etaHistory';
+import { completionForecast, MAX_FORECAST_WINDOW_DAYS } from '../services/completionForecast';
+import { checkSheetHealth, layoutHistory } from '../services/sheetHealth';
+import { getRoomOverviewSheetId, readRoomSpecs } from '../services/roomSpecs';
+import { upsertExceptionTriageSchema } from '@shared/schema';
 import { ALL_TABS, ROOM_TABS, recomputeModeFor, isRoomTab, slugifyTab, resolveTab } from '@shared/config/tabs';
 import { getExpectedTaxonomy } from '@shared/config/expectedTaxonomies';
 import { TEMP_LOBBY_CONFIG } from '@shared/config/commonAreas';
-import { ARRIVED_CONTAINERS } from '@shared/config/runtime';
 import type { Tab } from '@shared/types/dashboard';
 import {
   discoverRoomTabStructure,
@@ -18,76 +59,31 @@ import {
   discoverCommonAreaFloors,
   discoverLobbyTasks,
   commonAreaCompletion,
-  exceptionSeverityForValue,
-  exceptionReason,
   buildTowerRollup,
   buildContainerIndex,
+  joinContainerEtas,
   buildOutstanding,
-  type ExceptionSeverity,
+  diffRoomRows,
+  triageKey,
+  mismatchesToCsv,
+  buildSpecRollup,
+  parseSpecFilter,
+  floorNumber,
+  buildPartLeaderboard,
+  partRoomCells,
+  type PartLeaderboardInput,
+  DEFAULT_FORECAST_WINDOW_DAYS,
   type ContainerIndexInput,
   type OutstandingInput,
 } from '@shared/lib';
-import type { RoomRow, RoomTab, Tower } from '@shared/types/dashboard';
+import type { Tower } from '@shared/types/dashboard';
 
 const router = Router();
 
-/** One problem item surfaced in the Exceptions Panel (§9.1). */
-interface ExceptionItem {
-  severity: ExceptionSeverity;
-  tab: string;
-  tower: 'HR' | 'LR';
-  roomNo: string;
-  line: string;
-  type: string;
-  package: string;
-  part: string;
-  rawValue: string;
-  reason: string;
-}
-
-// Wide enough to cover every part column on the room tabs (97 parts + summaries
-// + leading/trailing), including hidden/grouped columns. values.get returns
-// hidden columns; over-wide ranges are harmless (ragged rows are fine).
-const WIDE_RANGE = 'A1:GZ1000';
-
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
-/** Significant lowercase tokens of a name (length ≥ 2). */
-function tokens(name: string): string[] {
-  return name
-    .toLowerCase()
-    .split(/[^a-z0-9]+/)
-    .filter((t) => t.length >= 2);
-}
-
-/**
- * Resolve a registered tab's expected sheetName to the actual title present in
- * the spreadsheet — tolerant of renames/inserted words (the lesson from the
- * "A.I Rooms WB Progress" break): exact match first, then "all expected tokens
- * present in the title".
- */
-function resolveActualTitle(expected: string, available: string[]): string | undefined {
-  const exact = available.find((t) => t.toLowerCase().trim() === expected.toLowerCase().trim());
-  if (exact) return exact;
-  const want = tokens(expected);
-  return available.find((t) => {
-    const have = new Set(tokens(t));
-    return want.every((w) => have.has(w));
-  });
-}
-
-function getSpreadsheetId(): string | undefined {
-  return process.env.CONSTRUCTION_PROGRESS_SHEET_ID;
-}
-
-/** Read a tab's full grid (rawValues) by its actual title. */
-async function readGrid(spreadsheetId: string, actualTitle: string): Promise<string[][]> {
-  const data = await fetchSheetData(spreadsheetId, `'${actualTitle}'!${WIDE_RANGE}`);
-  return data.rawValues as string[][];
-}
-
 /** Build the normalized payload for one tab. */
 async function buildTabPayload(tab: Tab, spreadsheetId: string, availableTitles: string[]) {
   const resolvedTitle = resolveActualTitle(tab.sheetName, availableTitles);
@@ -105,7 +101,7 @@ async function buildTabPayload(tab: Tab, spreadsheetId: string, availableTitles:
   if (isRoomTab(tab)) {
     const expected = getExpectedTaxonomy(tab.sheetName);
     const structure = discoverRoomTabStructure(grid, expected);
-    const rooms = buildRoomRows(grid, structure, tab);
+    const rooms = buildRoomRows(grid, structure, tab, { arrivedContainers: await getArrivedContainers() });
     return {
       ok: true as const,
       tab: tab.sheetName,
@@ -184,26 +180,116 @@ router.get('/', async (_req, res) => {
     return res.status(400).json({ error: 'CONSTRUCTION_PROGRESS_SHEET_ID not configured' });
   }
   try {
-    const info = await getSpreadsheetInfo(spreadsheetId);
-    const availableTitles = (info.sheets?.map((s) => s.title).filter(Boolean) as string[]) || [];
+    const { spreadsheetTitle, availableTitles } = await readSpreadsheetTitles(spreadsheetId);
     const tabs = ALL_TABS.map((t) => ({
       tab: t.sheetName,
       slug: slugifyTab(t.sheetName),
       kind: t.kind,
       resolvedTitle: resolveActualTitle(t.sheetName, availableTitles) ?? null,
     }));
-    res.json({ spreadsheetTitle: info.title, availableTitles, tabs });
+    res.json({ spreadsheetTitle, availableTitles, tabs });
   } catch (err) {
     console.error('[expansion] list error:', err);
     res.status(500).json({ error: 'Failed to read spreadsheet info', message: String(err) });
   }
 });
 
+/**
+ * Tower → Floor → Room → package{received, installed} for both towers (§9
+ * item 2). Shared by /rollup and the upload preview.
+ */
+async function collectRollup(spreadsheetId: string, availableTitles: string[]) {
+  const towers: Tower[] = ['HR', 'LR'];
+  const missingTabs: string[] = [];
+
+  const built = await Promise.all(
+    towers.map(async (tower) => {
+      const containersTab = ROOM_TABS.find((t) => t.tower === tower && t.type === 'containers')!;
+      const installationTab = ROOM_TABS.find((t) => t.tower === tower && t.type === 'installation')!;
+
+      const [c, i] = await Promise.all([
+        readRoomTabRows(containersTab, spreadsheetId, availableTitles),
+        readRoomTabRows(installationTab, spreadsheetId, availableTitles),
+      ]);
+      if (!c) missingTabs.push(containersTab.sheetName);
+      if (!i) missingTabs.push(installationTab.sheetName);
+
+      return buildTowerRollup(
+        tower,
+        containersTab.sheetName,
+        installationTab.sheetName,
+        c?.rows ?? [],
+        i?.rows ?? [],
+      );
+    }),
+  );
+
+  return { towers: built, missingTabs };
+}
+
+/**
+ * Everything a PM needs to judge an uploaded workbook before it goes live: per-tab
+ * discovery (counts vs expected taxonomy + warnings), the exceptions counts/items,
+ * and a tower → floor rollup summary — all computed exactly as the live views do.
+ */
+async function buildUploadPreview(spreadsheetId: string) {
+  const { spreadsheetTitle, availableTitles } = await readSpreadsheetTitles(spreadsheetId);
+
+  const payloads = await Promise.all(ALL_TABS.map((t) => buildTabPayload(t, spreadsheetId, availableTitles)));
+  const tabs = payloads.map((p) => {
+    if (!p.ok) return { tab: p.tab, ok: false as const, error: p.error, message: p.message };
+    if (p.kind === 'room') {
+      return {
+        tab: p.tab,
+        ok: true as const,
+        kind: p.kind,
+        resolvedTitle: p.resolvedTitle,
+        count: p.roomCount,
+        discovered: p.discovered,
+        expected: p.expected,
+        warnings: p.warnings,
+      };
+    }
+    return {
+      tab: p.tab,
+      ok: true as const,
+      kind: p.kind,
+      resolvedTitle: p.resolvedTitle,
+      count: 'floorCount' in p ? p.floorCount : p.taskCount,
+      discovered: null,
+      expected: null,
+      warnings: p.warnings,
+    };
+  });
+
+  const [exceptions, rollup] = await Promise.all([
+    collectExceptions(spreadsheetId, availableTitles),
+    collectRollup(spreadsheetId, availableTitles),
+  ]);
+
+  return {
+    spreadsheetTitle,
+    availableTitles,
+    tabs,
+    exceptions,
+    rollup: {
+      missingTabs: rollup.missingTabs,
+      towers: rollup.towers.map((t) => ({
+        tower: t.tower,
+        installedPct: t.installedPct,
+        duplicateRooms: t.duplicateRooms,
+        floors: t.floors.map((f) => ({ floor: f.floor, installedPct: f.installedPct, roomCount: f.rooms.length })),
+      })),
+    },
+  };
+}
+
 /**
  * GET /api/expansion/exceptions — the LEAD view (§9 item 1). Scans ALL 4 room
  * tabs and returns the flat list of problem items (LOUD + Attention) plus
- * per-severity counts. Defined BEFORE /:tab so the literal path wins over the
- * param route.
+ * per-severity counts. Each item carries its triage record (null if nobody has
+ * triaged it); records whose cell is no longer flagged are auto-closed by the
+ * hourly job, not here. Defined BEFORE /:tab so the literal path wins over the param route.
  */
 router.get('/exceptions', async (_req, res) => {
   const spreadsheetId = getSpreadsheetId();
@@ -212,76 +298,200 @@ router.get('/exceptions', async (_req, res) => {
   }
 
   try {
-    const info = await getSpreadsheetInfo(spreadsheetId);
-    const availableTitles = (info.sheets?.map((s) => s.title).filter(Boolean) as string[]) || [];
+    const { availableTitles } = await readSpreadsheetTitles(spreadsheetId);
+    const exceptions = await collectExceptions(spreadsheetId, availableTitles);
+
+    // Triage is an overlay — a database hiccup must not take the feed down.
+    let triage: Awaited<ReturnType<typeof triageOverlay>> | null = null;
+    try {
+      triage = await triageOverlay(exceptions.items);
+    } catch (err) {
+      console.error('[expansion] exception triage read error:', err);
+    }
+
+    res.json({
+      generatedAt: new Date().toISOString(),
+      ...exceptions,
+      items: exceptions.items.map((item) => ({ ...item, triage: triage?.byKey.get(triageKey(item)) ?? null })),
+      triageAvailable: triage !== null,
+      recentlyClosed: triage?.recentlyClosed ?? [],
+    });
+  } catch (err) {
+    console.error('[expansion] exceptions error:', err);
+    res.status(500).json({ error: 'Failed to build exceptions', message: String(err) });
+  }
+});
 
+/**
+ * PUT /api/expansion/exceptions/triage — create or edit the triage record for
+ * one flagged cell, identified by { tab, roomNo, package, part }. Only the
+ * fields sent (assignee, status, notes, dueDate) change; each edit is logged.
+ */
+router.put('/exceptions/triage', async (req, res) => {
+  const parsed = upsertExceptionTriageSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid triage update',
+      message: parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; '),
+    });
+  }
+
+  try {
+    res.json({ triage: await saveTriage(parsed.data, req.session.userEmail ?? null) });
+  } catch (err) {
+    console.error('[expansion] triage save error:', err);
+    res.status(500).json({ error: 'Failed to save triage', message: String(err) });
+  }
+});
+
+/** GET /api/expansion/exceptions/triage/:id/history — every change to one record, newest first. */
+router.get('/exceptions/triage/:id/history', async (req, res) => {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id) || id <= 0) {
+    return res.status(400).json({ error: 'invalid_id', message: 'Triage id must be a positive integer.' });
+  }
+
+  try {
+    res.json({ events: await triageHistory(id) });
+  } catch (err) {
+    console.error('[expansion] triage history error:', err);
+    res.status(500).json({ error: 'Failed to load triage history', message: String(err) });
+  }
+});
+
+/**
+ * GET /api/expansion/sheet-health — per room tab: the live structure diffed
+ * against its expected taxonomy (packages added / removed / renamed, parts
+ * added / removed / moved, headerless columns with data) plus the history of
+ * recorded layout changes. Reading it also records any new layout. Admin only.
+ */
+router.get('/sheet-health', async (_req, res) => {
+  if (!getSpreadsheetId()) {
+    return res.status(400).json({ error: 'CONSTRUCTION_PROGRESS_SHEET_ID not configured' });
+  }
+
+  try {
+    const health = await checkSheetHealth();
+    let history: Awaited<ReturnType<typeof layoutHistory>> = [];
+    if (health.historyAvailable) {
+      try {
+        history = await layoutHistory();
+      } catch (err) {
+        console.error('[expansion] layout history error:', err);
+      }
+    }
+    res.json({ generatedAt: new Date().toISOString(), ...health, history });
+  } catch (err) {
+    console.error('[expansion] sheet health error:', err);
+    res.status(500).json({ error: 'Failed to check sheet health', message: String(err) });
+  }
+});
+
+/**
+ * GET /api/expansion/mismatches — punch list of every package whose manual %
+ * (the PACKAGE-summary cell) disagrees with the % recomputed from its parts,
+ * across all 4 room tabs in sheet order, with the cell to fix.
+ * `?format=csv` downloads the same list. Ordered before /:tab.
+ */
+router.get('/mismatches', async (req, res) => {
+  const spreadsheetId = getSpreadsheetId();
+  if (!spreadsheetId) {
+    return res.status(400).json({ error: 'CONSTRUCTION_PROGRESS_SHEET_ID not configured' });
+  }
+
+  try {
+    const { availableTitles } = await readSpreadsheetTitles(spreadsheetId);
     const perTab = await Promise.all(
-      ROOM_TABS.map(async (tab) => {
-        const resolvedTitle = resolveActualTitle(tab.sheetName, availableTitles);
-        if (!resolvedTitle) return { tab, items: [] as ExceptionItem[], missing: true };
-
-        const grid = await readGrid(spreadsheetId, resolvedTitle);
-        const structure = discoverRoomTabStructure(grid, getExpectedTaxonomy(tab.sheetName));
-        const rooms = buildRoomRows(grid, structure, tab);
-
-        const items: ExceptionItem[] = [];
-        for (const room of rooms) {
-          for (const pkg of room.packages) {
-            for (const part of pkg.parts) {
-              const severity = exceptionSeverityForValue(part.rawValue, tab);
-              if (!severity) continue;
-              items.push({
-                severity,
-                tab: tab.sheetName,
-                tower: tab.tower,
-                roomNo: room.roomNo,
-                line: room.line,
-                type: room.type,
-                package: pkg.name,
-                part: part.header,
-                rawValue: part.rawValue,
-                reason: exceptionReason(part.rawValue),
-              });
-            }
-          }
-        }
-        return { tab, items, missing: false };
-      }),
+      ROOM_TABS.map(async (tab) => ({ tab, read: await readRoomTabMismatches(tab, spreadsheetId, availableTitles) })),
     );
+    const items = perTab.flatMap((t) => t.read?.items ?? []);
 
-    const items = perTab.flatMap((t) => t.items);
-    const counts = {
-      loud: items.filter((i) => i.severity === 'loud').length,
-      attention: items.filter((i) => i.severity === 'attention').length,
-      total: items.length,
-    };
+    if (req.query.format === 'csv') {
+      const date = new Date().toISOString().slice(0, 10);
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="manual-pct-mismatches-${date}.csv"`);
+      return res.send(mismatchesToCsv(items));
+    }
 
     res.json({
       generatedAt: new Date().toISOString(),
-      counts,
+      count: items.length,
+      tabs: perTab.map((t) => ({
+        tab: t.tab.sheetName,
+        resolvedTitle: t.read?.resolvedTitle ?? null,
+        count: t.read?.items.length ?? 0,
+      })),
       items,
-      tabsScanned: ROOM_TABS.map((t) => t.sheetName),
-      missingTabs: perTab.filter((t) => t.missing).map((t) => t.tab.sheetName),
+      missingTabs: perTab.filter((t) => !t.read).map((t) => t.tab.sheetName),
     });
   } catch (err) {
-    console.error('[expansion] exceptions error:', err);
-    res.status(500).json({ error: 'Failed to build exceptions', message: String(err) });
+    console.error('[expansion] mismatches error:', err);
+    res.status(500).json({ error: 'Failed to build mismatch list', message: String(err) });
   }
 });
 
-/** Read + recompute one room tab's rows, or null if the tab can't be resolved. */
-async function readRoomTabRows(
-  tab: RoomTab,
-  spreadsheetId: string,
-  availableTitles: string[],
-): Promise<{ rows: RoomRow[]; resolvedTitle: string } | null> {
-  const resolvedTitle = resolveActualTitle(tab.sheetName, availableTitles);
-  if (!resolvedTitle) return null;
-  const grid = await readGrid(spreadsheetId, resolvedTitle);
-  const structure = discoverRoomTabStructure(grid, getExpectedTaxonomy(tab.sheetName));
-  return { rows: buildRoomRows(grid, structure, tab), resolvedTitle };
+/** All 4 room tabs' rows for the parts leaderboard, plus the tabs that couldn't be read. */
+async function collectPartInputs(spreadsheetId: string) {
+  const { availableTitles } = await readSpreadsheetTitles(spreadsheetId);
+  const perTab = await Promise.all(
+    ROOM_TABS.map(async (tab) => ({ tab, read: await readRoomTabRows(tab, spreadsheetId, availableTitles) })),
+  );
+  const inputs: PartLeaderboardInput[] = perTab.flatMap((t) => (t.read ? [{ tab: t.tab, rows: t.read.rows }] : []));
+  return { inputs, missingTabs: perTab.filter((t) => !t.read).map((t) => t.tab.sheetName) };
 }
 
+/**
+ * GET /api/expansion/parts — most-missing parts leaderboard: every part across
+ * the 4 room tabs (towers merged, Containers and Installation kept apart),
+ * ranked by rooms still missing it, with bucket counts per tower and floor.
+ * Ordered before /:tab.
+ */
+router.get('/parts', async (_req, res) => {
+  const spreadsheetId = getSpreadsheetId();
+  if (!spreadsheetId) {
+    return res.status(400).json({ error: 'CONSTRUCTION_PROGRESS_SHEET_ID not configured' });
+  }
+
+  try {
+    const { inputs, missingTabs } = await collectPartInputs(spreadsheetId);
+    res.json({ generatedAt: new Date().toISOString(), parts: buildPartLeaderboard(inputs), missingTabs });
+  } catch (err) {
+    console.error('[expansion] parts leaderboard error:', err);
+    res.status(500).json({ error: 'Failed to build parts leaderboard', message: String(err) });
+  }
+});
+
+/**
+ * GET /api/expansion/parts/rooms?type=installation&package=HEADBOARD&part=…
+ * [&tower=HR&floor=27] — the leaderboard's drill-down: each room's cell for one
+ * part, rooms still waiting first.
+ */
+router.get('/parts/rooms', async (req, res) => {
+  const spreadsheetId = getSpreadsheetId();
+  if (!spreadsheetId) {
+    return res.status(400).json({ error: 'CONSTRUCTION_PROGRESS_SHEET_ID not configured' });
+  }
+  const { type, package: pkg, part, tower, floor } = req.query;
+  if ((type !== 'containers' && type !== 'installation') || typeof pkg !== 'string' || typeof part !== 'string') {
+    return res.status(400).json({ error: 'invalid_part', message: 'type must be "containers" or "installation"; package and part are required.' });
+  }
+  if (tower !== undefined && tower !== 'HR' && tower !== 'LR') {
+    return res.status(400).json({ error: 'invalid_tower', message: 'tower must be "HR" or "LR".' });
+  }
+
+  try {
+    const { inputs, missingTabs } = await collectPartInputs(spreadsheetId);
+    const rooms = partRoomCells(inputs, type, pkg, part, {
+      tower: tower as Tower | undefined,
+      floor: typeof floor === 'string' ? floor : undefined,
+    });
+    res.json({ generatedAt: new Date().toISOString(), type, package: pkg, part, rooms, missingTabs });
+  } catch (err) {
+    console.error('[expansion] part rooms error:', err);
+    res.status(500).json({ error: 'Failed to list rooms for part', message: String(err) });
+  }
+});
+
 /**
  * GET /api/expansion/rollup — Floor → Room rollup (§9 item 2). For each tower,
  * JOINs the Containers + Installation tabs by Room # + package name and returns
@@ -295,38 +505,61 @@ router.get('/rollup', async (_req, res) => {
   }
 
   try {
-    const info = await getSpreadsheetInfo(spreadsheetId);
-    const availableTitles = (info.sheets?.map((s) => s.title).filter(Boolean) as string[]) || [];
+    const { availableTitles } = await readSpreadsheetTitles(spreadsheetId);
+    res.json({ generatedAt: new Date().toISOString(), ...(await collectRollup(spreadsheetId, availableTitles)) });
+  } catch (err) {
+    console.error('[expansion] rollup error:', err);
+    res.status(500).json({ error: 'Failed to build rollup', message: String(err) });
+  }
+});
 
-    const towers: Tower[] = ['HR', 'LR'];
-    const missingTabs: string[] = [];
+/**
+ * GET /api/expansion/rollup/specs — the rollup joined to the Room Specs sheet by
+ * Room #: every room's spec, the spec ↔ part-cell disagreements, and per-floor %s
+ * over just the rooms that match. Filters (all optional): tower=HR|LR,
+ * floors=20-27, a feature param each (ada=yes, speakeasy=no, …), an attribute
+ * param each (roomType=King, tvSize=55", …), flagged=true.
+ */
+router.get('/rollup/specs', async (req, res) => {
+  const spreadsheetId = getSpreadsheetId();
+  if (!spreadsheetId) {
+    return res.status(400).json({ error: 'CONSTRUCTION_PROGRESS_SHEET_ID not configured' });
+  }
+  const specsSheetId = getRoomOverviewSheetId();
+  if (!specsSheetId) {
+    return res.status(400).json({ error: 'ROOM_OVERVIEW_SHEET_ID not configured' });
+  }
 
-    const built = await Promise.all(
-      towers.map(async (tower) => {
-        const containersTab = ROOM_TABS.find((t) => t.tower === tower && t.type === 'containers')!;
-        const installationTab = ROOM_TABS.find((t) => t.tower === tower && t.type === 'installation')!;
-
-        const [c, i] = await Promise.all([
-          readRoomTabRows(containersTab, spreadsheetId, availableTitles),
-          readRoomTabRows(installationTab, spreadsheetId, availableTitles),
-        ]);
-        if (!c) missingTabs.push(containersTab.sheetName);
-        if (!i) missingTabs.push(installationTab.sheetName);
-
-        return buildTowerRollup(
-          tower,
-          containersTab.sheetName,
-          installationTab.sheetName,
-          c?.rows ?? [],
-          i?.rows ?? [],
-        );
-      }),
-    );
+  try {
+    const filter = parseSpecFilter(req.query as Record<string, unknown>);
+    const { availableTitles } = await readSpreadsheetTitles(spreadsheetId);
+    const [{ towers, missingTabs }, specs] = await Promise.all([
+      collectRollup(spreadsheetId, availableTitles),
+      readRoomSpecs(specsSheetId),
+    ]);
+    res.json({ generatedAt: new Date().toISOString(), filter, missingTabs, ...buildSpecRollup(towers, specs, filter) });
+  } catch (err) {
+    console.error('[expansion] spec rollup error:', err);
+    res.status(500).json({ error: 'Failed to build spec rollup', message: String(err) });
+  }
+});
+
+/**
+ * GET /api/expansion/forecast?days=28 — projected completion date per tower and
+ * floor, fitted over the installed %s in the last `days` of daily snapshots
+ * (max 90), with an 80% confidence band. Ordered before /:tab.
+ */
+router.get('/forecast', async (req, res) => {
+  const requested = Number(req.query.days);
+  const days = Number.isInteger(requested) && requested > 0
+    ? Math.min(Math.max(requested, 7), MAX_FORECAST_WINDOW_DAYS)
+    : DEFAULT_FORECAST_WINDOW_DAYS;
 
-    res.json({ generatedAt: new Date().toISOString(), towers: built, missingTabs });
+  try {
+    res.json({ generatedAt: new Date().toISOString(), ...(await completionForecast(days)) });
   } catch (err) {
-    console.error('[expansion] rollup error:', err);
-    res.status(500).json({ error: 'Failed to build rollup', message: String(err) });
+    console.error('[expansion] forecast error:', err);
+    res.status(500).json({ error: 'Failed to build completion forecast', message: String(err) });
   }
 });
 
@@ -335,7 +568,9 @@ router.get('/rollup', async (_req, res) => {
  * PRIMARY: outstanding parts grouped by delivery stage (location vocab §6.1) from
  * the Containers tabs — the data-backed "what's still incoming" signal, with no
  * dependence on a per-container arrived flag. SECONDARY: the container lens
- * (container # → rooms/parts it covers). Ordered before /:tab.
+ * (container # → rooms/parts it covers), joined to the Container Schedule's
+ * ETAs so rooms can be planned by date. The schedule is optional: if it is not
+ * configured or fails to read, `etas.scheduleAvailable` is false. Ordered before /:tab.
  */
 router.get('/containers', async (_req, res) => {
   const spreadsheetId = getSpreadsheetId();
@@ -344,8 +579,7 @@ router.get('/containers', async (_req, res) => {
   }
 
   try {
-    const info = await getSpreadsheetInfo(spreadsheetId);
-    const availableTitles = (info.sheets?.map((s) => s.title).filter(Boolean) as string[]) || [];
+    const { availableTitles } = await readSpreadsheetTitles(spreadsheetId);
 
     // Read all 4 room tabs (preserve ROOM_TABS order: Containers tabs first).
     const results = await Promise.all(
@@ -375,12 +609,27 @@ router.get('/containers', async (_req, res) => {
     // PRIMARY: outstanding parts by delivery stage (data-backed, no arrived flag).
     const outstanding = buildOutstanding(outstandingInputs);
     // SECONDARY: the container lens (which rooms/parts each container covers).
-    const containers = buildContainerIndex(indexInputs, ARRIVED_CONTAINERS);
-    const arrivedConfig = ARRIVED_CONTAINERS === 'ALL' ? 'ALL' : [...ARRIVED_CONTAINERS].sort((a, b) => a - b);
+    const { value: arrived, mode: arrivedMode } = await resolveArrivedContainers();
+    const containers = buildContainerIndex(indexInputs, arrived);
+    const arrivedConfig = arrived === 'ALL' ? 'ALL' : [...arrived].sort((a, b) => a - b);
+
+    // ETAs come from a separate spreadsheet — never let it break the container view.
+    const scheduleId = getContainerScheduleSheetId();
+    let schedule: Awaited<ReturnType<typeof readContainerSchedule>> | null = null;
+    if (scheduleId) {
+      try {
+        schedule = await readContainerSchedule(scheduleId);
+      } catch (err) {
+        console.error('[expansion] container schedule unavailable:', err);
+      }
+      if (schedule) recordEtaObservations(schedule).catch((err) => console.error('[expansion] ETA history not recorded:', err));
+    }
+    const etas = joinContainerEtas(containers, schedule ?? []);
 
     res.json({
       generatedAt: new Date().toISOString(),
       arrivedConfig,
+      arrivedMode, // null = the runtime.ts default (nothing configured or readable)
       summary: {
         incoming: outstanding.summary.incoming,
         received: outstanding.summary.received,
@@ -390,6 +639,7 @@ router.get('/containers', async (_req, res) => {
       },
       stages: outstanding.stages,
       containers,
+      etas: { scheduleAvailable: schedule !== null, ...etas },
       missingTabs,
     });
   } catch (err) {
@@ -398,6 +648,350 @@ router.get('/containers', async (_req, res) => {
   }
 });
 
+/**
+ * GET /api/expansion/arrived-containers — the live ARRIVED_CONTAINERS setting:
+ * mode ('schedule' | 'all' | 'list'), the marked numbers and schedule overrides
+ * with who/when, and in schedule mode the derived arrival per container. Admin only, like
+ * the edits below (see API_ACCESS_RULES).
+ */
+router.get('/arrived-containers', async (_req, res) => {
+  try {
+    res.json(await describeArrivedContainers());
+  } catch (err) {
+    console.error('[expansion] arrived containers error:', err);
+    res.status(500).json({ error: 'Failed to load arrived containers', message: String(err) });
+  }
+});
+
+/** Parse `numbers` from a request body: positive integers, deduplicated. */
+function containerNumbersFrom(body: unknown): number[] | null {
+  const raw = (body as { numbers?: unknown })?.numbers;
+  if (!Array.isArray(raw) || raw.length === 0) return null;
+  const numbers = raw.map(Number);
+  if (numbers.some((n) => !Number.isInteger(n) || n <= 0)) return null;
+  return [...new Set(numbers)];
+}
+
+/** PUT /api/expansion/arrived-containers/mode — { mode: 'schedule' | 'all' | 'list' }. */
+router.put('/arrived-containers/mode', async (req, res) => {
+  const mode = req.body?.mode;
+  if (mode !== 'schedule' && mode !== 'all' && mode !== 'list') {
+    return res.status(400).json({ error: 'invalid_mode', message: 'mode must be "schedule", "all" or "list".' });
+  }
+  try {
+    const by = req.session.userEmail ?? null;
+    await setArrivedMode(mode, by);
+    console.log(`[expansion] ${by ?? 'shared-password session'} set arrived containers mode to ${mode}`);
+    res.json(await describeArrivedContainers());
+  } catch (err) {
+    console.error('[expansion] arrived containers mode error:', err);
+    res.status(500).json({ error: 'Failed to set arrived containers mode', message: String(err) });
+  }
+});
+
+/** POST /api/expansion/arrived-containers — { numbers: number[] } marks them arrived. */
+router.post('/arrived-containers', async (req, res) => {
+  const numbers = containerNumbersFrom(req.body);
+  if (!numbers) {
+    return res.status(400).json({ error: 'invalid_numbers', message: 'numbers must be a non-empty array of container numbers.' });
+  }
+  try {
+    const by = req.session.userEmail ?? null;
+    await markContainersArrived(numbers, by);
+    console.log(`[expansion] ${by ?? 'shared-password session'} marked containers arrived: ${numbers.join(', ')}`);
+    res.json(await describeArrivedContainers());
+  } catch (err) {
+    console.error('[expansion] mark arrived error:', err);
+    res.status(500).json({ error: 'Failed to mark containers arrived', message: String(err) });
+  }
+});
+
+/** DELETE /api/expansion/arrived-containers/:number — back to not-yet-arrived. */
+router.delete('/arrived-containers/:number', async (req, res) => {
+  const number = Number(req.params.number);
+  if (!Number.isInteger(number) || number <= 0) {
+    return res.status(400).json({ error: 'invalid_number', message: 'Container number must be a positive integer.' });
+  }
+  try {
+    const by = req.session.userEmail ?? null;
+    await unmarkContainersArrived([number], by);
+    console.log(`[expansion] ${by ?? 'shared-password session'} unmarked container ${number}`);
+    res.json(await describeArrivedContainers());
+  } catch (err) {
+    console.error('[expansion] unmark arrived error:', err);
+    res.status(500).json({ error: 'Failed to unmark container', message: String(err) });
+  }
+});
+
+/**
+ * PUT /api/expansion/arrived-containers/overrides/:number — { arrived: boolean,
+ * reason?: string }. Schedule mode: the container counts as arrived (or not)
+ * whatever its Container Schedule status says.
+ */
+router.put('/arrived-containers/overrides/:number', async (req, res) => {
+  const number = Number(req.params.number);
+  if (!Number.isInteger(number) || number <= 0) {
+    return res.status(400).json({ error: 'invalid_number', message: 'Container number must be a positive integer.' });
+  }
+  const arrived = req.body?.arrived;
+  if (typeof arrived !== 'boolean') {
+    return res.status(400).json({ error: 'invalid_override', message: 'arrived must be true or false.' });
+  }
+  const reason = typeof req.body?.reason === 'string' && req.body.reason.trim() ? req.body.reason.trim() : null;
+  try {
+    const by = req.session.userEmail ?? null;
+    await setArrivalOverride(number, arrived, reason, by);
+    console.log(`[expansion] ${by ?? 'shared-password session'} overrode container ${number} as ${arrived ? 'arrived' : 'not arrived'}`);
+    res.json(await describeArrivedContainers());
+  } catch (err) {
+    console.error('[expansion] arrival override error:', err);
+    res.status(500).json({ error: 'Failed to override container arrival', message: String(err) });
+  }
+});
+
+/** DELETE /api/expansion/arrived-containers/overrides/:number — follow the schedule again. */
+router.delete('/arrived-containers/overrides/:number', async (req, res) => {
+  const number = Number(req.params.number);
+  if (!Number.isInteger(number) || number <= 0) {
+    return res.status(400).json({ error: 'invalid_number', message: 'Container number must be a positive integer.' });
+  }
+  try {
+    const by = req.session.userEmail ?? null;
+    await clearArrivalOverride(number);
+    console.log(`[expansion] ${by ?? 'shared-password session'} cleared the arrival override for container ${number}`);
+    res.json(await describeArrivedContainers());
+  } catch (err) {
+    console.error('[expansion] clear arrival override error:', err);
+    res.status(500).json({ error: 'Failed to clear container override', message: String(err) });
+  }
+});
+
+/**
+ * GET /api/expansion/snapshots — every captured day (newest first) and the tabs
+ * it holds. Row data is omitted; load a day to get it. Ordered before /:tab.
+ */
+router.get('/snapshots', async (_req, res) => {
+  try {
+    res.json({ snapshots: await listExpansionSnapshots() });
+  } catch (err) {
+    console.error('[expansion] snapshot list error:', err);
+    res.status(500).json({ error: 'Failed to list snapshots', message: String(err) });
+  }
+});
+
+/** POST /api/expansion/snapshots — capture today's snapshot now (same as the hourly job). */
+router.post('/snapshots', async (_req, res) => {
+  const spreadsheetId = getSpreadsheetId();
+  if (spreadsheetId && hasLiveUpload(spreadsheetId)) {
+    return res.status(409).json({ error: 'upload_live', message: 'An uploaded workbook is live; clear it before capturing a snapshot.' });
+  }
+  try {
+    res.json(await captureExpansionSnapshot());
+  } catch (err) {
+    console.error('[expansion] snapshot capture error:', err);
+    res.status(500).json({ error: 'Failed to capture snapshot', message: String(err) });
+  }
+});
+
+/**
+ * GET /api/expansion/snapshots/:date — one day's snapshot (YYYY-MM-DD): RoomRow[]
+ * per room tab, floors per common-area tab. `?tab=` (slug or name) narrows it
+ * to a single tab.
+ */
+router.get('/snapshots/:date', async (req, res) => {
+  const { date } = req.params;
+  if (!isSnapshotDate(date)) {
+    return res.status(400).json({ error: 'invalid_date', message: `Expected YYYY-MM-DD, got "${date}".` });
+  }
+
+  let tabName: string | undefined;
+  if (typeof req.query.tab === 'string' && req.query.tab) {
+    const tab = resolveTab(req.query.tab);
+    if (!tab) {
+      return res.status(404).json({ error: 'unknown_tab', message: `No registered tab for "${req.query.tab}".` });
+    }
+    tabName = tab.sheetName;
+  }
+
+  try {
+    const snapshot = await loadExpansionSnapshot(date, tabName);
+    if (!snapshot) {
+      return res.status(404).json({ error: 'snapshot_not_found', message: `No snapshot captured on ${date}.` });
+    }
+    res.json(snapshot);
+  } catch (err) {
+    console.error(`[expansion] snapshot load error for ${date}:`, err);
+    res.status(500).json({ error: 'Failed to load snapshot', message: String(err) });
+  }
+});
+
+/**
+ * GET /api/expansion/changes?from=YYYY-MM-DD&to=YYYY-MM-DD — cell-level change
+ * feed between two daily snapshots of the room tabs: every part cell whose
+ * rawValue or bucket changed, plus package recomputedPct deltas. `to` defaults
+ * to the latest snapshot; `tab` (slug or name) and `floor` narrow the feed.
+ */
+router.get('/changes', async (req, res) => {
+  const from = typeof req.query.from === 'string' ? req.query.from : '';
+  let to = typeof req.query.to === 'string' ? req.query.to : '';
+  const floor = typeof req.query.floor === 'string' ? req.query.floor.trim() : '';
+
+  if (!isSnapshotDate(from) || (to && !isSnapshotDate(to))) {
+    return res.status(400).json({ error: 'invalid_date', message: 'Pass from (and optionally to) as YYYY-MM-DD.' });
+  }
+
+  let tabs = ROOM_TABS;
+  if (typeof req.query.tab === 'string' && req.query.tab) {
+    const tab = resolveTab(req.query.tab);
+    if (!tab || !isRoomTab(tab)) {
+      return res.status(404).json({ error: 'unknown_tab', message: `No registered room tab for "${req.query.tab}".` });
+    }
+    tabs = [tab];
+  }
+
+  try {
+    if (!to) {
+      const [latest] = await listExpansionSnapshots();
+      if (!latest) {
+        return res.status(404).json({ error: 'snapshot_not_found', message: 'No snapshots captured yet.' });
+      }
+      to = latest.date;
+    }
+
+    const [before, after] = await Promise.all([loadExpansionSnapshot(from), loadExpansionSnapshot(to)]);
+    if (!before || !after) {
+      return res.status(404).json({
+        error: 'snapshot_not_found',
+        message: `No snapshot captured on ${!before ? from : to}.`,
+      });
+    }
+
+    const missingTabs: string[] = [];
+    // Sheet labels read "22ND"/"27TH", so floor=22 matches on the digits.
+    const wantFloor = floorNumber(floor);
+    const isFloor = (label: string) =>
+      wantFloor !== null ? floorNumber(label) === wantFloor : label.trim().toUpperCase() === floor.toUpperCase();
+    const onFloor = <T extends { floor: string }>(items: T[]) => (floor ? items.filter((i) => isFloor(i.floor)) : items);
+    const roomsOf = (snapshot: typeof before, sheetName: string) => {
+      const t = snapshot.tabs.find((x) => x.tab === sheetName);
+      return t && t.kind === 'room' ? t.rooms : null;
+    };
+
+    const perTab = tabs.flatMap((tab) => {
+      const oldRows = roomsOf(before, tab.sheetName);
+      const newRows = roomsOf(after, tab.sheetName);
+      if (!oldRows || !newRows) {
+        missingTabs.push(tab.sheetName);
+        return [];
+      }
+      const diff = diffRoomRows(onFloor(oldRows), onFloor(newRows));
+      const where = { tab: tab.sheetName, tower: tab.tower };
+      return [{
+        cells: diff.cells.map((c) => ({ ...where, ...c })),
+        packages: diff.packages.map((p) => ({ ...where, ...p })),
+        addedRooms: diff.addedRooms.map((roomNo) => ({ ...where, roomNo })),
+        removedRooms: diff.removedRooms.map((roomNo) => ({ ...where, roomNo })),
+      }];
+    });
+
+    const cells = perTab.flatMap((t) => t.cells);
+    const packages = perTab.flatMap((t) => t.packages);
+
+    res.json({
+      from,
+      to,
+      floor: floor || null,
+      counts: { cells: cells.length, packages: packages.length },
+      cells,
+      packages,
+      addedRooms: perTab.flatMap((t) => t.addedRooms),
+      removedRooms: perTab.flatMap((t) => t.removedRooms),
+      missingTabs,
+    });
+  } catch (err) {
+    console.error('[expansion] changes error:', err);
+    res.status(500).json({ error: 'Failed to build change feed', message: String(err) });
+  }
+});
+
+/** GET /api/expansion/uploads — staged workbook uploads and which one (if any) is live. */
+router.get('/uploads', (_req, res) => {
+  res.json(describeUploads());
+});
+
+/**
+ * POST /api/expansion/uploads — stage an .xlsx export (raw request body; file
+ * name in X-Filename) and return its preview. Nothing goes live until publish.
+ */
+router.post('/uploads', express.raw({ type: () => true, limit: '25mb' }), async (req, res) => {
+  let filename: string;
+  try {
+    filename = decodeURIComponent(String(req.headers['x-filename'] || 'workbook.xlsx'));
+  } catch {
+    return res.status(400).json({ error: 'invalid_filename', message: 'X-Filename must be URI-encoded.' });
+  }
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    return res.status(400).json({ error: 'empty_upload', message: 'Send the .xlsx file as the request body.' });
+  }
+
+  let upload;
+  try {
+    upload = stageUpload(req.body, filename, req.session.userEmail ?? null);
+  } catch (err: any) {
+    return res.status(400).json({ error: 'invalid_workbook', message: err.message });
+  }
+
+  try {
+    console.log(`[expansion] ${req.session.userEmail ?? 'shared-password session'} staged upload ${upload.id} (${filename})`);
+    res.json({ upload: toPublicUpload(upload), preview: await buildUploadPreview(uploadSpreadsheetId(upload.id)) });
+  } catch (err) {
+    console.error('[expansion] upload preview error:', err);
+    res.status(500).json({ error: 'Failed to build preview', message: String(err) });
+  }
+});
+
+/** GET /api/expansion/uploads/:id/preview — re-run the preview for a staged upload. */
+router.get('/uploads/:id/preview', async (req, res) => {
+  const upload = getUpload(req.params.id);
+  if (!upload) {
+    return res.status(404).json({ error: 'upload_not_found', message: 'That upload has expired. Upload the workbook again.' });
+  }
+  try {
+    res.json({ upload: toPublicUpload(upload), preview: await buildUploadPreview(uploadSpreadsheetId(upload.id)) });
+  } catch (err) {
+    console.error('[expansion] upload preview error:', err);
+    res.status(500).json({ error: 'Failed to build preview', message: String(err) });
+  }
+});
+
+/**
+ * POST /api/expansion/uploads/:id/publish — serve this upload in place of the
+ * live Construction Progress sheet for every expansion view.
+ */
+router.post('/uploads/:id/publish', (req, res) => {
+  const spreadsheetId = getSpreadsheetId();
+  if (!spreadsheetId) {
+    return res.status(400).json({ error: 'CONSTRUCTION_PROGRESS_SHEET_ID not configured' });
+  }
+  const published = publishUpload(req.params.id, spreadsheetId, req.session.userEmail ?? null);
+  if (!published) {
+    return res.status(404).json({ error: 'upload_not_found', message: 'That upload has expired. Upload the workbook again.' });
+  }
+  console.log(`[expansion] ${req.session.userEmail ?? 'shared-password session'} published upload ${req.params.id} (${published.upload.filename})`);
+  res.json(describeUploads());
+});
+
+/** DELETE /api/expansion/uploads/live — go back to reading the live sheet. */
+router.delete('/uploads/live', (req, res) => {
+  if (clearLiveUpload()) {
+    // Whatever was cached before the upload went live is out of date by now.
+    const spreadsheetId = getSpreadsheetId();
+    if (spreadsheetId) invalidateCache(spreadsheetId);
+    console.log(`[expansion] ${req.session.userEmail ?? 'shared-password session'} reverted to the live sheet`);
+  }
+  res.json(describeUploads());
+});
+
 /** GET /api/expansion/:tab — normalized data for one tab (slug or exact name). */
 router.get('/:tab', async (req, res) => {
   const spreadsheetId = getSpreadsheetId();
@@ -416,8 +1010,7 @@ router.get('/:tab', async (req, res) => {
   }
 
   try {
-    const info = await getSpreadsheetInfo(spreadsheetId);
-    const availableTitles = (info.sheets?.map((s) => s.title).filter(Boolean) as string[]) || [];
+    const { availableTitles } = await readSpreadsheetTitles(spreadsheetId);
     const payload = await buildTabPayload(tab, spreadsheetId, availableTitles);
     res.status(payload.ok ? 200 : 404).json(payload);
   } catch (err) {
@@ -1,9 +1,22 @@
 import { Router } from 'express';
-import { fetchSheetData, fetchSheetDataWithHyperlinks, fetchMultipleRanges, getSpreadsheetInfo, listDriveFiles, listDriveSubfolders, getDriveFileStream, SheetRow as GoogleSheetRow } from '../services/googleSheets';
+import { fetchSheetData, fetchSheetDataWithHyperlinks, fetchMultipleRanges, getSpreadsheetInfo } from '../services/sheetProvider';
+import { listDriveFiles, listDriveSubfolders, getDriveFileStream, SheetRow as GoogleSheetRow } from '../services/googleSheets';
+import { cachedRead } from '../services/sheetCache';
+import { driveFolderIdFromUrl, noteRoomFolders, noteRoomFiles, isRoomFolder, isRoomFile } from '../services/roomPhotos';
+import { resolveTabAccess } from '../auth';
+import { readContainerSchedule, getContainerScheduleSheetId } from '../services/containerSchedule';
+import { recordEtaObservations, etaSlippageReport } from '../services/etaHistory';
+import { auditScheduleDocuments } from '../services/containerDocuments';
+import { readRoomSpecs, getRoomOverviewSheetId } from '../services/roomSpecs';
+import { recordBudgetSnapshot, budgetVarianceReport } from '../services/budgetHistory';
+import { listContingencyDrawdowns, addContingencyDrawdown, deleteContingencyDrawdown } from '../services/contingencyLedger';
+import { getBudgetSheetId, findScheduleSummaryTab, readBudgetSummary } from '../services/budgetSheet';
+import { cashFlowReport, savePaymentSchedule, deletePaymentSchedule } from '../services/cashFlow';
+import { listChangeOrders, changeOrderNumberTaken, addChangeOrder, updateChangeOrder, deleteChangeOrder } from '../services/changeOrders';
+import { getConstructionSheetId, reconciliationReport, saveVendorMapping, deleteVendorMapping } from '../services/invoiceReconciliation';
 import { db } from '../db';
-import { sheetRows } from '@shared/schema';
+import { sheetRows, insertContingencyDrawdownSchema, upsertBudgetPaymentScheduleSchema, upsertChangeOrderSchema, upsertVendorBudgetMappingSchema } from '@shared/schema';
 import { eq, and, inArray } from 'drizzle-orm';
-import { buildScheduleSummaryBudget } from '@shared/lib/budget';
 
 const router = Router();
 
@@ -306,6 +319,7 @@ router.get('/construction-progress', async (req, res) => {
         }
       }
       console.log(`[construction-progress] Found ${roomDriveFolderMap.size} room Drive folder links`);
+      noteRoomFolders(roomDriveFolderMap.values());
     }
 
     // Process Rooms Progress data (roomsData already fetched above for hyperlink matching)
@@ -629,7 +643,8 @@ router.get('/construction-progress', async (req, res) => {
   }
 });
 
-// Get files from a Google Drive folder (for room progress photos)
+// Get files from a Google Drive folder (for room progress photos). Without the
+// budget tier only room folders linked from Construction Progress can be listed.
 router.get('/drive-files', async (req, res) => {
   try {
     const folderUrl = req.query.folderUrl as string;
@@ -638,28 +653,18 @@ router.get('/drive-files', async (req, res) => {
       return res.status(400).json({ error: 'folderUrl query parameter is required' });
     }
 
-    // Extract folder ID from various Google Drive URL formats
-    let folderId: string | null = null;
-    // Format: https://drive.google.com/drive/folders/FOLDER_ID
-    const folderMatch = folderUrl.match(/\/folders\/([a-zA-Z0-9_-]+)/);
-    if (folderMatch) {
-      folderId = folderMatch[1];
-    }
-    // Format: https://drive.google.com/open?id=FOLDER_ID
-    if (!folderId) {
-      const openMatch = folderUrl.match(/[?&]id=([a-zA-Z0-9_-]+)/);
-      if (openMatch) {
-        folderId = openMatch[1];
-      }
-    }
-
+    const folderId = driveFolderIdFromUrl(folderUrl);
     if (!folderId) {
       return res.status(400).json({ error: 'Could not extract folder ID from URL', url: folderUrl });
     }
+    if (!resolveTabAccess(req).budget && !isRoomFolder(folderId)) {
+      return res.status(403).json({ error: 'forbidden', message: 'This folder requires budget access' });
+    }
 
     console.log(`[drive-files] Listing files from folder: ${folderId}`);
     const files = await listDriveFiles(folderId);
     console.log(`[drive-files] Found ${files.length} files`);
+    if (isRoomFolder(folderId)) noteRoomFiles(files);
 
     res.json({ files, folderId });
   } catch (error: any) {
@@ -671,13 +676,17 @@ router.get('/drive-files', async (req, res) => {
   }
 });
 
-// Proxy a Google Drive file (stream content through our server for authenticated access)
+// Proxy a Google Drive file (stream content through our server for authenticated access).
+// Without the budget tier only files listed out of a room folder can be fetched.
 router.get('/drive-file/:fileId', async (req, res) => {
   try {
     const { fileId } = req.params;
     if (!fileId) {
       return res.status(400).json({ error: 'fileId is required' });
     }
+    if (!resolveTabAccess(req).budget && !isRoomFile(fileId)) {
+      return res.status(403).json({ error: 'forbidden', message: 'This file requires budget access' });
+    }
 
     const { stream, mimeType, size, name } = await getDriveFileStream(fileId);
 
@@ -687,7 +696,7 @@ router.get('/drive-file/:fileId', async (req, res) => {
     }
     res.setHeader('Content-Disposition', `inline; filename="${encodeURIComponent(name)}"`);
     res.setHeader('Accept-Ranges', 'bytes');
-    res.setHeader('Cache-Control', 'public, max-age=3600');
+    res.setHeader('Cache-Control', 'private, max-age=3600');
 
     (stream as any).pipe(res);
   } catch (error: any) {
@@ -704,10 +713,13 @@ router.get('/budget', async (req, res) => {
   // Budget tab — sourced from the "Schedule Summary" tab of the Master Budget sheet.
   // Reads line items (cols A name / C Estimated Cost / D Paid / F Category), then the pure
   // engine (shared/lib/budget) applies the boundary rule + recomputes the category rollup
-  // and money-first totals. Read-only; never writes.
+  // and money-first totals, with the contingency ledger and approved change orders
+  // (both Postgres) applied. Never writes the
+  // sheet; each read is kept as that day's snapshot for the variance / burn history
+  // (GET /budget/history).
   console.log('[budget] Endpoint called');
   try {
-    const spreadsheetId = process.env.BUDGET_SHEET_ID;
+    const spreadsheetId = getBudgetSheetId();
     if (!spreadsheetId) {
       console.error('[budget] BUDGET_SHEET_ID not set');
       return res.status(400).json({
@@ -716,14 +728,7 @@ router.get('/budget', async (req, res) => {
       });
     }
 
-    // Resolve the "Schedule Summary" tab. Its real title has a TRAILING SPACE, so match by
-    // exact string first, then trimmed equality — never fuzzy/substring, so we can't grab a
-    // different tab (e.g. "Consolidated Payment Schedule ").
-    const info = await getSpreadsheetInfo(spreadsheetId);
-    const titles = (info.sheets?.map((s) => s.title).filter(Boolean) as string[]) || [];
-    const tab =
-      titles.find((t) => t === 'Schedule Summary ') ||
-      titles.find((t) => t.trim().toLowerCase() === 'schedule summary');
+    const { tab, titles } = await findScheduleSummaryTab(spreadsheetId);
     if (!tab) {
       console.error('[budget] "Schedule Summary" tab not found. Tabs:', titles);
       return res.status(404).json({
@@ -732,18 +737,20 @@ router.get('/budget', async (req, res) => {
       });
     }
 
-    // UNFORMATTED so money sums to the cent (numbers, not "$1,234"). Cols A..U cover
-    // everything we use (A/C/D/E/F); the engine stops at the first "TOTAL" row anyway.
-    const data = await fetchSheetData(spreadsheetId, `'${tab}'!A1:U430`, 'UNFORMATTED_VALUE');
-    const grid = (data.rawValues || []) as (string | number | boolean | null)[][];
-
-    const summary = buildScheduleSummaryBudget(grid);
+    const summary = await readBudgetSummary(spreadsheetId, tab);
     console.log(
       `[budget] tab="${tab}" items=${summary.meta.lineItemCount} ` +
         `ΣC=${summary.totals.estimatedBeforeContingency} ΣD=${summary.totals.paid} ` +
         `rows ${summary.meta.firstItemRow}..${summary.meta.lastItemRow} totalRow=${summary.meta.totalRow}`,
     );
 
+    // Keep the snapshot history (variance / burn) — never fail the budget over it
+    try {
+      await recordBudgetSnapshot(summary);
+    } catch (historyErr: any) {
+      console.error('[budget] Could not record budget history:', historyErr.message);
+    }
+
     res.json({
       tab,
       totals: summary.totals,
@@ -758,6 +765,355 @@ router.get('/budget', async (req, res) => {
   }
 });
 
+// Get the budget history: estimate movement per line item and cumulative paid vs
+// total budget, from the daily snapshots. ?from=YYYY-MM-DD narrows the range.
+router.get('/budget/history', async (req, res) => {
+  try {
+    const from = typeof req.query.from === 'string' && req.query.from ? req.query.from : undefined;
+    if (from && !/^\d{4}-\d{2}-\d{2}$/.test(from)) {
+      return res.status(400).json({ error: 'invalid_from', message: 'from must be YYYY-MM-DD' });
+    }
+    const report = await budgetVarianceReport(from);
+    res.json({ ...report, generatedAt: new Date().toISOString() });
+  } catch (error: any) {
+    console.error('Error building budget history:', error);
+    res.status(500).json({
+      error: 'Failed to build budget history',
+      message: error.message
+    });
+  }
+});
+
+// Get the contingency ledger: every drawdown from contingency into a category, newest first
+router.get('/budget/contingency', async (req, res) => {
+  try {
+    res.json({ drawdowns: await listContingencyDrawdowns() });
+  } catch (error: any) {
+    console.error('Error reading contingency ledger:', error);
+    res.status(500).json({
+      error: 'Failed to read contingency ledger',
+      message: error.message
+    });
+  }
+});
+
+// Record a drawdown — { category, amount, reason, approver, drawdownDate }
+router.post('/budget/contingency', async (req, res) => {
+  const parsed = insertContingencyDrawdownSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid contingency drawdown',
+      message: parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; '),
+    });
+  }
+
+  try {
+    const by = req.session.userEmail ?? null;
+    const drawdown = await addContingencyDrawdown(parsed.data, by);
+    console.log(`[budget] ${by ?? 'shared-password session'} recorded contingency drawdown #${drawdown.id}: ${drawdown.amount} → ${drawdown.category}`);
+    res.json(drawdown);
+  } catch (error: any) {
+    console.error('Error recording contingency drawdown:', error);
+    res.status(500).json({
+      error: 'Failed to record contingency drawdown',
+      message: error.message
+    });
+  }
+});
+
+// Delete a drawdown entered by mistake
+router.delete('/budget/contingency/:id', async (req, res) => {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id) || id <= 0) {
+    return res.status(400).json({ error: 'invalid_id', message: 'Drawdown id must be a positive integer.' });
+  }
+
+  try {
+    if (!(await deleteContingencyDrawdown(id))) {
+      return res.status(404).json({
+        error: 'Drawdown not found',
+        message: `No contingency drawdown with id ${id}`
+      });
+    }
+    console.log(`[budget] ${req.session.userEmail ?? 'shared-password session'} deleted contingency drawdown #${id}`);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting contingency drawdown:', error);
+    res.status(500).json({
+      error: 'Failed to delete contingency drawdown',
+      message: error.message
+    });
+  }
+});
+
+// Get the cash-flow projection: each scheduled line item's unpaid balance placed on
+// months by its payment schedule, dated from its timeline task or container ETAs
+router.get('/budget/cash-flow', async (req, res) => {
+  try {
+    const spreadsheetId = getBudgetSheetId();
+    if (!spreadsheetId) {
+      return res.status(400).json({
+        error: 'Budget sheet ID not configured',
+        message: 'Please set BUDGET_SHEET_ID in environment variables',
+      });
+    }
+    const { tab, titles } = await findScheduleSummaryTab(spreadsheetId);
+    if (!tab) {
+      return res.status(404).json({
+        error: 'Schedule Summary tab not found',
+        message: `No "Schedule Summary" tab in the budget sheet. Available: ${titles.join(', ')}`,
+      });
+    }
+
+    const summary = await readBudgetSummary(spreadsheetId, tab);
+    res.json({ ...(await cashFlowReport(summary)), generatedAt: new Date().toISOString() });
+  } catch (error: any) {
+    console.error('Error building cash-flow projection:', error);
+    res.status(500).json({
+      error: 'Failed to build cash-flow projection',
+      message: error.message
+    });
+  }
+});
+
+// Create or replace one line item's payment schedule —
+// { itemKey, itemName, depositPct, onShipPct, onDeliveryPct, retainagePct, linkType, timelineTaskId, container }
+router.put('/budget/payment-schedules', async (req, res) => {
+  const parsed = upsertBudgetPaymentScheduleSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid payment schedule',
+      message: parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; '),
+    });
+  }
+
+  try {
+    const by = req.session.userEmail ?? null;
+    await savePaymentSchedule(parsed.data, by);
+    console.log(`[budget] ${by ?? 'shared-password session'} saved payment schedule for "${parsed.data.itemName}"`);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error saving payment schedule:', error);
+    res.status(500).json({
+      error: 'Failed to save payment schedule',
+      message: error.message
+    });
+  }
+});
+
+// Remove a line item's payment schedule (it drops out of the projection)
+router.delete('/budget/payment-schedules/:id', async (req, res) => {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id) || id <= 0) {
+    return res.status(400).json({ error: 'invalid_id', message: 'Schedule id must be a positive integer.' });
+  }
+
+  try {
+    if (!(await deletePaymentSchedule(id))) {
+      return res.status(404).json({
+        error: 'Payment schedule not found',
+        message: `No payment schedule with id ${id}`
+      });
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting payment schedule:', error);
+    res.status(500).json({
+      error: 'Failed to delete payment schedule',
+      message: error.message
+    });
+  }
+});
+
+// Get every change order (all statuses), by number
+router.get('/budget/change-orders', async (req, res) => {
+  try {
+    res.json({ changeOrders: await listChangeOrders() });
+  } catch (error: any) {
+    console.error('Error reading change orders:', error);
+    res.status(500).json({
+      error: 'Failed to read change orders',
+      message: error.message
+    });
+  }
+});
+
+// Record a change order —
+// { number, vendor, description, amount, category | itemKey + itemName, status, documents }
+router.post('/budget/change-orders', async (req, res) => {
+  const parsed = upsertChangeOrderSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid change order',
+      message: parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; '),
+    });
+  }
+
+  try {
+    if (await changeOrderNumberTaken(parsed.data.number)) {
+      return res.status(409).json({
+        error: 'Change order exists',
+        message: `Change order ${parsed.data.number} is already recorded`
+      });
+    }
+    const by = req.session.userEmail ?? null;
+    const changeOrder = await addChangeOrder(parsed.data, by);
+    console.log(`[budget] ${by ?? 'shared-password session'} recorded change order ${changeOrder.number} (${changeOrder.status}): ${changeOrder.amount} from ${changeOrder.vendor}`);
+    res.json(changeOrder);
+  } catch (error: any) {
+    console.error('Error recording change order:', error);
+    res.status(500).json({
+      error: 'Failed to record change order',
+      message: error.message
+    });
+  }
+});
+
+// Edit a change order — same body as POST; approving / rejecting is a status change here
+router.put('/budget/change-orders/:id', async (req, res) => {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id) || id <= 0) {
+    return res.status(400).json({ error: 'invalid_id', message: 'Change order id must be a positive integer.' });
+  }
+  const parsed = upsertChangeOrderSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid change order',
+      message: parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; '),
+    });
+  }
+
+  try {
+    if (await changeOrderNumberTaken(parsed.data.number, id)) {
+      return res.status(409).json({
+        error: 'Change order exists',
+        message: `Change order ${parsed.data.number} is already recorded`
+      });
+    }
+    const by = req.session.userEmail ?? null;
+    const changeOrder = await updateChangeOrder(id, parsed.data, by);
+    if (!changeOrder) {
+      return res.status(404).json({
+        error: 'Change order not found',
+        message: `No change order with id ${id}`
+      });
+    }
+    console.log(`[budget] ${by ?? 'shared-password session'} updated change order ${changeOrder.number} (${changeOrder.status})`);
+    res.json(changeOrder);
+  } catch (error: any) {
+    console.error('Error updating change order:', error);
+    res.status(500).json({
+      error: 'Failed to update change order',
+      message: error.message
+    });
+  }
+});
+
+// Delete a change order entered by mistake (reject it instead to keep the record)
+router.delete('/budget/change-orders/:id', async (req, res) => {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id) || id <= 0) {
+    return res.status(400).json({ error: 'invalid_id', message: 'Change order id must be a positive integer.' });
+  }
+
+  try {
+    if (!(await deleteChangeOrder(id))) {
+      return res.status(404).json({
+        error: 'Change order not found',
+        message: `No change order with id ${id}`
+      });
+    }
+    console.log(`[budget] ${req.session.userEmail ?? 'shared-password session'} deleted change order #${id}`);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting change order:', error);
+    res.status(500).json({
+      error: 'Failed to delete change order',
+      message: error.message
+    });
+  }
+});
+
+// Get the invoice reconciliation: audited invoices counted against the budget line
+// their vendor is mapped to — invoiced vs paid vs estimated, and overcharge by category
+router.get('/budget/reconciliation', async (req, res) => {
+  try {
+    const spreadsheetId = getBudgetSheetId();
+    const auditSheetId = getConstructionSheetId();
+    if (!spreadsheetId || !auditSheetId) {
+      return res.status(400).json({
+        error: 'Budget or invoice audit sheet ID not configured',
+        message: 'Please set BUDGET_SHEET_ID and CONSTRUCTION_SHEET_ID in environment variables',
+      });
+    }
+    const { tab, titles } = await findScheduleSummaryTab(spreadsheetId);
+    if (!tab) {
+      return res.status(404).json({
+        error: 'Schedule Summary tab not found',
+        message: `No "Schedule Summary" tab in the budget sheet. Available: ${titles.join(', ')}`,
+      });
+    }
+
+    const summary = await readBudgetSummary(spreadsheetId, tab);
+    res.json({ ...(await reconciliationReport(auditSheetId, summary)), generatedAt: new Date().toISOString() });
+  } catch (error: any) {
+    console.error('Error building invoice reconciliation:', error);
+    res.status(500).json({
+      error: 'Failed to build invoice reconciliation',
+      message: error.message
+    });
+  }
+});
+
+// Map an audited vendor to a budget line — { vendor, itemKey + itemName | category }.
+// Replaces the vendor's existing mapping.
+router.put('/budget/vendor-mappings', async (req, res) => {
+  const parsed = upsertVendorBudgetMappingSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid vendor mapping',
+      message: parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; '),
+    });
+  }
+
+  try {
+    const by = req.session.userEmail ?? null;
+    await saveVendorMapping(parsed.data, by);
+    console.log(`[budget] ${by ?? 'shared-password session'} mapped vendor "${parsed.data.vendor}" → ${parsed.data.itemName ?? parsed.data.category}`);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error saving vendor mapping:', error);
+    res.status(500).json({
+      error: 'Failed to save vendor mapping',
+      message: error.message
+    });
+  }
+});
+
+// Remove a vendor's mapping (its invoices go back to Unmapped)
+router.delete('/budget/vendor-mappings/:id', async (req, res) => {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id) || id <= 0) {
+    return res.status(400).json({ error: 'invalid_id', message: 'Mapping id must be a positive integer.' });
+  }
+
+  try {
+    if (!(await deleteVendorMapping(id))) {
+      return res.status(404).json({
+        error: 'Vendor mapping not found',
+        message: `No vendor mapping with id ${id}`
+      });
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting vendor mapping:', error);
+    res.status(500).json({
+      error: 'Failed to delete vendor mapping',
+      message: error.message
+    });
+  }
+});
+
 // Get Weekly Goals data
 router.get('/weekly-goals', async (req, res) => {
   console.log('[weekly-goals] Endpoint called');
@@ -870,7 +1226,7 @@ router.get('/weekly-goals', async (req, res) => {
 router.get('/container-schedule', async (req, res) => {
   console.log('[container-schedule] Endpoint called');
   try {
-    const spreadsheetId = process.env.CONTAINER_SCHEDULE_SHEET_ID;
+    const spreadsheetId = getContainerScheduleSheetId();
     console.log('[container-schedule] Sheet ID configured:', spreadsheetId ? 'YES' : 'NO');
 
     if (!spreadsheetId) {
@@ -881,90 +1237,13 @@ router.get('/container-schedule', async (req, res) => {
       });
     }
 
-    // Fetch tab info to get exact tab name
-    let tabName = 'Summary';
-    try {
-      const info = await getSpreadsheetInfo(spreadsheetId);
-      const matchingSheet = info.sheets?.find(
-        (s: any) => s.title?.toLowerCase().trim() === 'summary'
-      );
-      if (matchingSheet?.title) {
-        tabName = matchingSheet.title;
-        console.log('[container-schedule] Found exact tab name:', JSON.stringify(tabName));
-      } else {
-        console.log('[container-schedule] Available tabs:', info.sheets?.map((s: any) => s.title));
-      }
-    } catch (infoErr: any) {
-      console.warn('[container-schedule] Could not fetch sheet info:', infoErr.message);
-    }
-
-    // Row 1 is a title/note row, Row 2 has headers, Row 3+ has data
-    // Use hyperlink-aware fetch to extract actual URLs from cells that display "Link"
-    console.log('[container-schedule] Fetching data with hyperlinks from sheet:', spreadsheetId);
-    const data = await fetchSheetDataWithHyperlinks(spreadsheetId, tabName, 2, 500, 'P');
-    console.log('[container-schedule] Data fetched successfully with hyperlinks');
-
-    let containers: GoogleSheetRow[] = [];
-
-    if (data && data.rawValues && data.rawValues.length > 0) {
-      const headers = data.rawValues[0] as string[];
-      const dataRows = data.rawValues.slice(1);
-
-      // Map column indices by header name (case-insensitive)
-      const findCol = (keyword: string) => headers.findIndex(h =>
-        h?.toLowerCase().trim().includes(keyword.toLowerCase())
-      );
-
-      const factoryIdx = findCol('factory');
-      const containerLoadedIdx = findCol('container loaded');
-      const shipmentIdx = findCol('shipment');
-      const containerNumIdx = findCol('container #');
-      const deliveryIdx = findCol('delivery');
-      const loadingDateIdx = findCol('loading date');
-      const vesselIdx = findCol('vessel');
-      const etaNYIdx = findCol('eta to ny');
-      const etaWarehouseIdx = findCol('eta to warehouse');
-      const statusIdx = findCol('status');
-      const bolIdx = findCol('bol');
-      const insuranceIdx = findCol('insurance');
-      const productListIdx = findCol('product list');
-      const packingIdx = findCol('packing');
-      const productDetailsIdx = findCol('product detail');
-      const warehouseProofIdx = findCol('warehouse proof');
-
-      console.log('[container-schedule] Column indices:', {
-        factoryIdx, containerLoadedIdx, shipmentIdx, containerNumIdx,
-        deliveryIdx, loadingDateIdx, vesselIdx, etaNYIdx, etaWarehouseIdx,
-        statusIdx, bolIdx, insuranceIdx, productListIdx, packingIdx,
-        productDetailsIdx, warehouseProofIdx
-      });
+    const containers = await readContainerSchedule(spreadsheetId);
 
-      containers = dataRows.map((row, index) => {
-        const getValue = (idx: number) => {
-          if (idx < 0 || idx >= row.length) return '';
-          return (row[idx] || '').toString().trim();
-        };
-
-        return {
-          id: index + 3, // Excel row number (row 3 is first data row)
-          factory: getValue(factoryIdx),
-          containerLoaded: getValue(containerLoadedIdx),
-          shipmentNumber: getValue(shipmentIdx),
-          containerNumber: getValue(containerNumIdx),
-          delivery: getValue(deliveryIdx),
-          loadingDate: getValue(loadingDateIdx),
-          vesselDepartureDate: getValue(vesselIdx),
-          etaNYPort: getValue(etaNYIdx),
-          etaWarehouse: getValue(etaWarehouseIdx),
-          status: getValue(statusIdx),
-          bolCopy: getValue(bolIdx),
-          insurance: getValue(insuranceIdx),
-          productListWithPhotos: getValue(productListIdx),
-          packingList: getValue(packingIdx),
-          productDetails: getValue(productDetailsIdx),
-          warehouseProofOfDelivery: getValue(warehouseProofIdx),
-        };
-      }).filter(c => c.factory !== '' || c.containerLoaded !== ''); // Filter out empty rows
+    // Keep the ETA history (slippage report) — never fail the schedule over it
+    try {
+      await recordEtaObservations(containers);
+    } catch (historyErr: any) {
+      console.error('[container-schedule] Could not record ETA history:', historyErr.message);
     }
 
     // Compute summary stats
@@ -972,10 +1251,10 @@ router.get('/container-schedule', async (req, res) => {
     const byFactory: Record<string, number> = {};
 
     for (const container of containers) {
-      const status = (container.status as string) || 'No status';
+      const status = container.status || 'No status';
       byStatus[status] = (byStatus[status] || 0) + 1;
 
-      const factory = (container.factory as string) || 'Unknown';
+      const factory = container.factory || 'Unknown';
       byFactory[factory] = (byFactory[factory] || 0) + 1;
     }
 
@@ -999,11 +1278,48 @@ router.get('/container-schedule', async (req, res) => {
   }
 });
 
+// Get ETA slippage per container, from every ETA recorded off the schedule
+router.get('/container-schedule/slippage', async (req, res) => {
+  try {
+    const containers = await etaSlippageReport();
+    res.json({ containers, generatedAt: new Date().toISOString() });
+  } catch (error: any) {
+    console.error('Error building ETA slippage report:', error);
+    res.status(500).json({
+      error: 'Failed to build ETA slippage report',
+      message: error.message
+    });
+  }
+});
+
+// Get the document audit: every schedule link checked against Drive, per container
+router.get('/container-schedule/documents', async (req, res) => {
+  try {
+    const spreadsheetId = getContainerScheduleSheetId();
+    if (!spreadsheetId) {
+      return res.status(400).json({
+        error: 'Container Schedule sheet ID not configured',
+        message: 'Please set CONTAINER_SCHEDULE_SHEET_ID in environment variables'
+      });
+    }
+
+    const audit = await auditScheduleDocuments(spreadsheetId);
+    console.log(`[container-schedule] Document audit: ${audit.summary.flagged} flagged of ${audit.summary.containers}`);
+    res.json({ ...audit, generatedAt: new Date().toISOString() });
+  } catch (error: any) {
+    console.error('Error auditing container documents:', error);
+    res.status(500).json({
+      error: 'Failed to audit container documents',
+      message: error.message
+    });
+  }
+});
+
 // Get Room Overview / Fact Sheet data
 router.get('/room-overview', async (req, res) => {
   console.log('[room-overview] Endpoint called');
   try {
-    const spreadsheetId = process.env.ROOM_OVERVIEW_SHEET_ID;
+    const spreadsheetId = getRoomOverviewSheetId();
     console.log('[room-overview] Sheet ID configured:', spreadsheetId ? 'YES' : 'NO');
 
     if (!spreadsheetId) {
@@ -1014,105 +1330,11 @@ router.get('/room-overview', async (req, res) => {
       });
     }
 
-    // Fetch sheet info to find exact tab name
-    let tabName = 'ROOM FEATURES';
-    try {
-      const info = await getSpreadsheetInfo(spreadsheetId);
-      const matchingSheet = info.sheets?.find(
-        (s: any) => s.title?.toLowerCase().trim() === 'room features'
-      );
-      if (matchingSheet?.title) {
-        tabName = matchingSheet.title;
-        console.log('[room-overview] Found exact tab name:', JSON.stringify(tabName));
-      } else {
-        console.log('[room-overview] "ROOM FEATURES" tab not found, available tabs:', info.sheets?.map((s: any) => s.title));
-      }
-    } catch (infoErr: any) {
-      console.warn('[room-overview] Could not fetch sheet info:', infoErr.message);
-    }
-
-    // Row 1 has headers, Row 2+ has data
-    // Fetch starting from row 2 (data only) to avoid header-parsing issues.
-    // We use fixed column positions since we know the exact layout:
-    // A(0)=FLOOR, B(1)=ROOM#, C(2)=AREA, D(3)=SIZE CATEGORY, E(4)=ROOM TYPE,
-    // F(5)=BED SIZE, G(6)=ADA, H(7)=Connecting Door, I(8)=Sink Style, J(9)=Sink Size,
-    // K(10)=Shower With Glass Door, L(11)=Shower Window, M(12)=Moss Wall,
-    // N(13)=Mirror Sliding Door, O(14)=Moxy Bar, P(15)=Mini Bar Size,
-    // Q(16)=Speakeasy, R(17)=Party Box Headboard, S(18)=Curtain Type,
-    // T(19)=NIGHT STANDS, U(20)=TV Size
-    const range = `'${tabName}'!A2:U500`;
-    console.log('[room-overview] Fetching range:', range);
-    const data = await fetchSheetData(spreadsheetId, range);
-
-    // rawValues contains ALL rows from the API response (including the first row
-    // which fetchSheetData treats as headers). We need ALL rows as data.
-    const allRows = data?.rawValues || [];
-    console.log('[room-overview] Total raw rows returned:', allRows.length);
-    if (allRows[0]) {
-      console.log('[room-overview] First row sample:', JSON.stringify(allRows[0].slice(0, 6)));
-    }
-
-    const getValue = (row: any[], idx: number): string => {
-      if (idx < 0 || idx >= row.length) return '';
-      return (row[idx] || '').toString().trim();
-    };
-
-    let rooms: GoogleSheetRow[] = allRows.map((row, index) => ({
-      id: index + 2,
-      floor: parseInt(getValue(row, 0)) || 0,       // A - FLOOR
-      roomNumber: parseInt(getValue(row, 1)) || 0,   // B - ROOM #
-      area: parseInt(getValue(row, 2)) || 0,         // C - AREA (Sq ft)
-      sizeCategory: getValue(row, 3),                // D - SIZE CATEGORY
-      roomType: getValue(row, 4),                    // E - ROOM TYPE
-      bedSize: getValue(row, 5),                     // F - BED SIZE
-      ada: getValue(row, 6),                         // G - ADA
-      connectingDoor: getValue(row, 7),              // H - Connecting Door
-      sinkStyle: getValue(row, 8),                   // I - Sink Style
-      sinkSize: getValue(row, 9),                    // J - Sink Size
-      showerWithGlassDoor: getValue(row, 10),        // K - Shower With Glass Door
-      showerWindow: getValue(row, 11),               // L - Shower Window
-      mossWall: getValue(row, 12),                   // M - Moss Wall
-      mirrorSlidingDoor: getValue(row, 13),          // N - Mirror Sliding Door
-      moxyBar: getValue(row, 14),                    // O - Moxy Bar
-      miniBarSize: getValue(row, 15),                // P - Mini Bar Size
-      speakeasy: getValue(row, 16),                  // Q - Speakeasy
-      partyBoxHeadboard: getValue(row, 17),          // R - Party Box Headboard
-      curtainType: getValue(row, 18),                // S - Curtain Type
-      nightStands: getValue(row, 19),                // T - NIGHT STANDS
-      tvSize: getValue(row, 20),                     // U - TV Size
-    }));
-
-    console.log('[room-overview] Mapped rows before filter:', rooms.length);
-    if (rooms.length > 0) {
-      console.log('[room-overview] First mapped room:', JSON.stringify(rooms[0]));
-    }
-
-    // Forward-fill FLOOR column: Google Sheets merged cells only return a value
-    // for the first cell in the merge. Subsequent rows get empty strings.
-    // We carry the last non-zero floor value forward to fill the gaps.
-    let lastFloor = 0;
-    for (const room of rooms) {
-      if ((room.floor as number) > 0) {
-        lastFloor = room.floor as number;
-      } else {
-        room.floor = lastFloor;
-      }
-    }
-
-    // Fallback: derive floor from room number (401→4, 502→5, 612→6).
-    // Handles cases where the merged cell anchor is outside our fetch range.
-    for (const room of rooms) {
-      if ((room.floor as number) === 0 && (room.roomNumber as number) > 0) {
-        room.floor = Math.floor((room.roomNumber as number) / 100);
-      }
-    }
-
-    rooms = rooms.filter(r => (r.roomNumber as number) > 0);
-    console.log('[room-overview] Rooms after filter (roomNumber > 0):', rooms.length);
+    const rooms = await readRoomSpecs(spreadsheetId);
 
     // Compute summary statistics
-    const floors = [...new Set(rooms.map(r => r.floor as number))].sort((a, b) => a - b);
-    const adaCount = rooms.filter(r => (r.ada as string).toLowerCase() === 'yes').length;
+    const floors = [...new Set(rooms.map(r => r.floor))].sort((a, b) => a - b);
+    const adaCount = rooms.filter(r => r.ada.toLowerCase() === 'yes').length;
 
     const byFloor: Record<number, number> = {};
     const byRoomType: Record<string, number> = {};
@@ -1120,16 +1342,16 @@ router.get('/room-overview', async (req, res) => {
     const byBedSize: Record<string, number> = {};
 
     for (const room of rooms) {
-      const floor = room.floor as number;
+      const floor = room.floor;
       byFloor[floor] = (byFloor[floor] || 0) + 1;
 
-      const type = (room.roomType as string) || 'Unknown';
+      const type = room.roomType || 'Unknown';
       byRoomType[type] = (byRoomType[type] || 0) + 1;
 
-      const size = (room.sizeCategory as string) || 'Unknown';
+      const size = room.sizeCategory || 'Unknown';
       bySizeCategory[size] = (bySizeCategory[size] || 0) + 1;
 
-      const bed = (room.bedSize as string) || 'Unknown';
+      const bed = room.bedSize || 'Unknown';
       byBedSize[bed] = (byBedSize[bed] || 0) + 1;
     }
 
@@ -1159,10 +1381,6 @@ router.get('/room-overview', async (req, res) => {
 });
 
 // ── Vendor Invoices ──────────────────────────────────────────────────────────
-// In-memory cache for vendor invoices (5-minute TTL)
-let vendorInvoicesCache: { data: any; timestamp: number } | null = null;
-const VENDOR_INVOICES_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
-
 router.get('/vendor-invoices', async (req, res) => {
   console.log('[vendor-invoices] Endpoint called');
   try {
@@ -1176,65 +1394,54 @@ router.get('/vendor-invoices', async (req, res) => {
       });
     }
 
-    // Check cache
-    const forceRefresh = req.query.refresh === 'true';
-    if (!forceRefresh && vendorInvoicesCache && Date.now() - vendorInvoicesCache.timestamp < VENDOR_INVOICES_CACHE_TTL) {
-      console.log('[vendor-invoices] Returning cached data');
-      return res.json(vendorInvoicesCache.data);
-    }
-
-    console.log('[vendor-invoices] Fetching vendor folders from root:', rootFolderId);
-
-    // List top-level vendor folders
-    const vendorFolders = await listDriveSubfolders(rootFolderId);
-    console.log(`[vendor-invoices] Found ${vendorFolders.length} vendor folders`);
-
-    // Fetch files for each vendor folder in parallel
-    const vendorResults = await Promise.all(
-      vendorFolders.map(async (folder) => {
-        try {
-          const files = await listDriveFiles(folder.id);
+    // Cached with the sheet reads (see sheetCache.ts); ?refresh=true bypasses it
+    const responseData = await cachedRead(rootFolderId, `drive:vendor-invoices:${rootFolderId}`, async () => {
+      console.log('[vendor-invoices] Fetching vendor folders from root:', rootFolderId);
+
+      // List top-level vendor folders
+      const vendorFolders = await listDriveSubfolders(rootFolderId);
+      console.log(`[vendor-invoices] Found ${vendorFolders.length} vendor folders`);
+
+      // Fetch files for each vendor folder in parallel. One folder failing fails
+      // the whole read: a partial list would be cached and served as complete,
+      // whereas a failed refresh keeps serving the last complete one.
+      const vendorResults = await Promise.all(
+        vendorFolders.map(async (folder) => {
+          const files = await listDriveFiles(folder.id).catch((err: any) => {
+            throw new Error(`Listing files for "${folder.name}" failed: ${err.message}`);
+          });
           return {
             name: folder.name,
             folderId: folder.id,
             files,
             fileCount: files.length,
           };
-        } catch (err: any) {
-          console.error(`[vendor-invoices] Error listing files for "${folder.name}":`, err.message);
-          return {
-            name: folder.name,
-            folderId: folder.id,
-            files: [],
-            fileCount: 0,
-          };
-        }
-      })
-    );
+        })
+      );
 
-    // Compute summary
-    const totalFiles = vendorResults.reduce((sum, v) => sum + v.fileCount, 0);
-    const byMimeType: Record<string, number> = {};
-    for (const vendor of vendorResults) {
-      for (const file of vendor.files) {
-        byMimeType[file.mimeType] = (byMimeType[file.mimeType] || 0) + 1;
+      // Compute summary
+      const totalFiles = vendorResults.reduce((sum, v) => sum + v.fileCount, 0);
+      const byMimeType: Record<string, number> = {};
+      for (const vendor of vendorResults) {
+        for (const file of vendor.files) {
+          byMimeType[file.mimeType] = (byMimeType[file.mimeType] || 0) + 1;
+        }
       }
-    }
 
-    const responseData = {
-      vendors: vendorResults,
-      summary: {
-        totalVendors: vendorResults.length,
-        totalFiles,
-        byMimeType,
-      },
-      lastUpdated: new Date().toISOString(),
-    };
+      const result = {
+        vendors: vendorResults,
+        summary: {
+          totalVendors: vendorResults.length,
+          totalFiles,
+          byMimeType,
+        },
+        lastUpdated: new Date().toISOString(),
+      };
 
-    // Cache the result
-    vendorInvoicesCache = { data: responseData, timestamp: Date.now() };
+      console.log(`[vendor-invoices] Fetched ${vendorResults.length} vendors with ${totalFiles} total files`);
+      return result;
+    });
 
-    console.log(`[vendor-invoices] Returning ${vendorResults.length} vendors with ${totalFiles} total files`);
     res.json(responseData);
   } catch (error: any) {
     console.error('Error fetching vendor invoices:', error);
@@ -2,7 +2,7 @@ import { Router } from 'express';
 import { db } from '../db';
 import { timelineTasks, timelineEvents, customEventTypes } from '@shared/schema';
 import { eq, asc } from 'drizzle-orm';
-import { fetchSheetData, getSpreadsheetInfo } from '../services/googleSheets';
+import { fetchSheetData, getSpreadsheetInfo } from '../services/sheetProvider';
 
 const router = Router();
 
@@ -0,0 +1,185 @@
+import { Router, type Response } from 'express';
+import { db } from '../db';
+import { users, insertUserSchema, updateUserSchema, type User } from '@shared/schema';
+import { asc, eq } from 'drizzle-orm';
+import { newInviteToken, refreshAccountsActive } from '../auth';
+
+const router = Router();
+
+// Invites stay valid for a week; re-inviting issues a fresh link.
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Never send password hashes or live invite tokens to the client.
+function toPublicUser(user: User) {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    tabGrants: user.tabGrants,
+    disabled: user.disabled,
+    status: user.disabled ? 'disabled' : user.passwordHash ? 'active' : 'invited',
+    inviteExpiresAt: user.inviteExpiresAt,
+    lastLoginAt: user.lastLoginAt,
+    createdAt: user.createdAt,
+  };
+}
+
+function invitePath(token: string): string {
+  return `/invite/${token}`;
+}
+
+// Null unless the :id param is a positive integer.
+function userIdParam(raw: string): number | null {
+  const id = Number(raw);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+function invalidUserId(res: Response) {
+  return res.status(400).json({
+    error: 'Invalid user id',
+    message: 'User id must be a positive integer'
+  });
+}
+
+// GET /api/users - List all accounts
+router.get('/', async (_req, res) => {
+  try {
+    const rows = await db.select().from(users).orderBy(asc(users.name));
+    res.json({ users: rows.map(toPublicUser) });
+  } catch (error: any) {
+    console.error('Error listing users:', error);
+    res.status(500).json({
+      error: 'Failed to list users',
+      message: error.message
+    });
+  }
+});
+
+// POST /api/users - Invite a new user (returns the invite link to share)
+router.post('/', async (req, res) => {
+  try {
+    const parsed = insertUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: 'Invalid user',
+        message: parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')
+      });
+    }
+
+    const [existing] = await db.select({ id: users.id }).from(users).where(eq(users.email, parsed.data.email));
+    if (existing) {
+      return res.status(409).json({
+        error: 'User exists',
+        message: `An account for ${parsed.data.email} already exists`
+      });
+    }
+
+    const token = newInviteToken();
+    const [created] = await db
+      .insert(users)
+      .values({
+        ...parsed.data,
+        inviteToken: token,
+        inviteExpiresAt: new Date(Date.now() + INVITE_TTL_MS),
+        invitedBy: req.session.userId ?? null,
+      })
+      .returning();
+
+    console.log(`[users] ${req.session.userEmail ?? 'shared-password session'} invited ${created.email} as ${created.role}`);
+    res.json({ user: toPublicUser(created), invitePath: invitePath(token) });
+  } catch (error: any) {
+    console.error('Error inviting user:', error);
+    res.status(500).json({
+      error: 'Failed to invite user',
+      message: error.message
+    });
+  }
+});
+
+// PUT /api/users/:id - Update name, role, tab grants, or disable/enable
+router.put('/:id', async (req, res) => {
+  const id = userIdParam(req.params.id);
+  if (id === null) return invalidUserId(res);
+
+  try {
+    const parsed = updateUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: 'Invalid update',
+        message: parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')
+      });
+    }
+
+    // Don't let an admin lock themselves out mid-session.
+    if (id === req.session.userId && (parsed.data.disabled || (parsed.data.role && parsed.data.role !== 'admin'))) {
+      return res.status(400).json({
+        error: 'Cannot change own access',
+        message: 'Ask another admin to disable you or change your role'
+      });
+    }
+
+    const [updated] = await db
+      .update(users)
+      .set({ ...parsed.data, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+
+    if (!updated) {
+      return res.status(404).json({
+        error: 'User not found',
+        message: `No user found with id ${id}`
+      });
+    }
+
+    await refreshAccountsActive();
+    console.log(`[users] ${req.session.userEmail ?? 'shared-password session'} updated ${updated.email}: ${JSON.stringify(parsed.data)}`);
+    res.json({ user: toPublicUser(updated) });
+  } catch (error: any) {
+    console.error('Error updating user:', error);
+    res.status(500).json({
+      error: 'Failed to update user',
+      message: error.message
+    });
+  }
+});
+
+// POST /api/users/:id/reinvite - Issue a fresh invite link. Also serves as a
+// password reset, so the current password stops working straight away.
+router.post('/:id/reinvite', async (req, res) => {
+  const id = userIdParam(req.params.id);
+  if (id === null) return invalidUserId(res);
+
+  try {
+    const token = newInviteToken();
+    const [updated] = await db
+      .update(users)
+      .set({
+        passwordHash: null,
+        inviteToken: token,
+        inviteExpiresAt: new Date(Date.now() + INVITE_TTL_MS),
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, id))
+      .returning();
+
+    if (!updated) {
+      return res.status(404).json({
+        error: 'User not found',
+        message: `No user found with id ${id}`
+      });
+    }
+
+    await refreshAccountsActive();
+    console.log(`[users] ${req.session.userEmail ?? 'shared-password session'} re-invited ${updated.email}`);
+    res.json({ user: toPublicUser(updated), invitePath: invitePath(token) });
+  } catch (error: any) {
+    console.error('Error re-inviting user:', error);
+    res.status(500).json({
+      error: 'Failed to re-invite user',
+      message: error.message
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,215 @@
+// Aya Dashboard Expansion — the live ARRIVED_CONTAINERS set.
+// Admins mark container numbers as arrived on the Containers page; every
+// recompute (buckets, received weight, the container index) reads the set from
+// here instead of the shared/config/runtime.ts constant, so a container landing
+// no longer needs a deploy.
+//
+// Three modes, kept in runtime_settings under MODE_KEY:
+//  • 'schedule' — derived from the Container Schedule status (see
+//    shared/lib/containerArrival.ts), with per-container overrides from
+//    container_arrival_overrides for the exceptions;
+//  • 'all'  — every container number counts as arrived (the constant's 'ALL');
+//  • 'list' — only numbers in arrived_containers count.
+// With no setting stored yet the constant applies; 'schedule' is an explicit
+// admin choice. In schedule mode a schedule read failure falls back to the last
+// schedule rows read (in-process), so % received doesn't flip with Google's uptime.
+
+import { asc, eq, inArray } from 'drizzle-orm';
+import { db } from '../db';
+import { arrivedContainers, containerArrivalOverrides, runtimeSettings } from '@shared/schema';
+import { ARRIVED_CONTAINERS, CONTAINER_ARRIVED_FROM } from '@shared/config/runtime';
+import { deriveContainerArrivals, arrivedSetFrom } from '@shared/lib';
+import type { ArrivalState, ContainerArrival } from '@shared/types/dashboard';
+import { getContainerScheduleSheetId, readContainerSchedule, type ContainerScheduleRow } from './containerSchedule';
+
+export type ArrivedMode = 'all' | 'list' | 'schedule';
+
+const MODE_KEY = 'arrivedContainersMode';
+const CACHE_TTL_MS = 30 * 1000;
+
+let cached: { value: Set<number> | 'ALL'; mode: ArrivedMode | null; at: number } | null = null;
+/** The last schedule rows read, for when it can't be read. Overrides are applied per use. */
+let lastScheduleRows: ContainerScheduleRow[] | null = null;
+
+export interface ArrivedContainersState {
+  mode: ArrivedMode;
+  /** False while the shared/config/runtime.ts default is still in effect. */
+  configured: boolean;
+  modeUpdatedBy: string | null;
+  modeUpdatedAt: string | null;
+  containers: { number: number; markedBy: string | null; markedAt: string }[];
+  overrides: { number: number; arrived: boolean; reason: string | null; setBy: string | null; setAt: string }[];
+  /** Schedule mode only: arrival per container (`available` false if the sheet couldn't be read). */
+  schedule: { available: boolean; arrivedFrom: ArrivalState; containers: ContainerArrival[] } | null;
+}
+
+function defaultMode(): ArrivedMode {
+  return ARRIVED_CONTAINERS === 'ALL' ? 'all' : 'list';
+}
+
+/** Arrival per container from the schedule + overrides, or null if the schedule can't be read. */
+async function scheduleArrivals(overrides: { number: number; arrived: boolean }[]): Promise<ContainerArrival[] | null> {
+  const scheduleId = getContainerScheduleSheetId();
+  if (!scheduleId) return null;
+  try {
+    const rows = await readContainerSchedule(scheduleId);
+    lastScheduleRows = rows;
+    return deriveContainerArrivals(rows, overrides, CONTAINER_ARRIVED_FROM);
+  } catch (err) {
+    console.error('[arrived-containers] container schedule unavailable:', err);
+    return null;
+  }
+}
+
+/**
+ * The set to pass as `arrivedContainers` to the engine, and the mode it came
+ * from (null = the runtime.ts constant, used as the fallback). Cached briefly
+ * (every room tab read calls this) and cleared on every edit. An unreadable
+ * schedule falls back to its last rows read, with today's overrides; the
+ * constant applies if there are none yet or the database can't be read, so the
+ * expansion views stay up.
+ */
+export async function resolveArrivedContainers(): Promise<{ value: Set<number> | 'ALL'; mode: ArrivedMode | null }> {
+  if (cached && Date.now() - cached.at < CACHE_TTL_MS) return cached;
+  let resolved: { value: Set<number> | 'ALL'; mode: ArrivedMode | null };
+  try {
+    const state = await describeArrivedContainers();
+    if (state.mode === 'schedule') {
+      if (state.schedule?.available) {
+        resolved = { value: arrivedSetFrom(state.schedule.containers), mode: 'schedule' };
+      } else if (lastScheduleRows) {
+        // Overrides are in the database, so edits made during the outage (set or cleared) still apply.
+        const arrivals = deriveContainerArrivals(lastScheduleRows, state.overrides, CONTAINER_ARRIVED_FROM);
+        resolved = { value: arrivedSetFrom(arrivals), mode: 'schedule' };
+      } else {
+        resolved = { value: ARRIVED_CONTAINERS, mode: null };
+      }
+    } else if (!state.configured) {
+      resolved = { value: ARRIVED_CONTAINERS, mode: null };
+    } else {
+      resolved = { value: state.mode === 'all' ? 'ALL' : new Set(state.containers.map((c) => c.number)), mode: state.mode };
+    }
+  } catch (err) {
+    console.error('[arrived-containers] read failed, using the runtime.ts default:', err);
+    return { value: ARRIVED_CONTAINERS, mode: null };
+  }
+  cached = { ...resolved, at: Date.now() };
+  return resolved;
+}
+
+export async function getArrivedContainers(): Promise<Set<number> | 'ALL'> {
+  return (await resolveArrivedContainers()).value;
+}
+
+export async function describeArrivedContainers(): Promise<ArrivedContainersState> {
+  const [[setting], rows, overrideRows] = await Promise.all([
+    db.select().from(runtimeSettings).where(eq(runtimeSettings.key, MODE_KEY)),
+    db.select().from(arrivedContainers).orderBy(asc(arrivedContainers.containerNumber)),
+    db.select().from(containerArrivalOverrides).orderBy(asc(containerArrivalOverrides.containerNumber)),
+  ]);
+  const containers = rows.map((r) => ({
+    number: r.containerNumber,
+    markedBy: r.markedBy,
+    markedAt: r.markedAt.toISOString(),
+  }));
+  const overrides = overrideRows.map((r) => ({
+    number: r.containerNumber,
+    arrived: r.arrived,
+    reason: r.reason,
+    setBy: r.setBy,
+    setAt: r.setAt.toISOString(),
+  }));
+
+  const mode: ArrivedMode =
+    setting?.value === 'all' || setting?.value === 'list' || setting?.value === 'schedule' ? setting.value : defaultMode();
+  let schedule: ArrivedContainersState['schedule'] = null;
+  if (mode === 'schedule') {
+    const arrivals = await scheduleArrivals(overrides);
+    schedule = { available: arrivals !== null, arrivedFrom: CONTAINER_ARRIVED_FROM, containers: arrivals ?? [] };
+  }
+
+  if (!setting) {
+    return {
+      mode,
+      configured: false,
+      modeUpdatedBy: null,
+      modeUpdatedAt: null,
+      // Before anyone edits, show what the constant says.
+      containers:
+        ARRIVED_CONTAINERS === 'ALL'
+          ? containers
+          : [...ARRIVED_CONTAINERS].sort((a, b) => a - b).map((number) => ({ number, markedBy: null, markedAt: '' })),
+      overrides,
+      schedule,
+    };
+  }
+  return {
+    mode,
+    configured: true,
+    modeUpdatedBy: setting.updatedBy,
+    modeUpdatedAt: setting.updatedAt.toISOString(),
+    containers,
+    overrides,
+    schedule,
+  };
+}
+
+/** Store the mode explicitly the first time anything is edited, so the constant stops applying. */
+async function ensureConfigured(by: string | null) {
+  const [setting] = await db.select().from(runtimeSettings).where(eq(runtimeSettings.key, MODE_KEY));
+  if (setting) return;
+  await db.insert(runtimeSettings).values({ key: MODE_KEY, value: defaultMode(), updatedBy: by });
+  if (ARRIVED_CONTAINERS !== 'ALL' && ARRIVED_CONTAINERS.size > 0) {
+    await db
+      .insert(arrivedContainers)
+      .values([...ARRIVED_CONTAINERS].map((containerNumber) => ({ containerNumber, markedBy: by })))
+      .onConflictDoNothing();
+  }
+}
+
+export async function setArrivedMode(mode: ArrivedMode, by: string | null): Promise<void> {
+  await ensureConfigured(by);
+  await db
+    .insert(runtimeSettings)
+    .values({ key: MODE_KEY, value: mode, updatedBy: by })
+    .onConflictDoUpdate({ target: runtimeSettings.key, set: { value: mode, updatedBy: by, updatedAt: new Date() } });
+  cached = null;
+}
+
+/** Mark container numbers as arrived. Already-marked numbers keep their original who/when. */
+export async function markContainersArrived(numbers: number[], by: string | null): Promise<void> {
+  await ensureConfigured(by);
+  if (numbers.length > 0) {
+    await db
+      .insert(arrivedContainers)
+      .values(numbers.map((containerNumber) => ({ containerNumber, markedBy: by })))
+      .onConflictDoNothing();
+  }
+  cached = null;
+}
+
+export async function unmarkContainersArrived(numbers: number[], by: string | null): Promise<void> {
+  await ensureConfigured(by);
+  if (numbers.length > 0) {
+    await db.delete(arrivedContainers).where(inArray(arrivedContainers.containerNumber, numbers));
+  }
+  cached = null;
+}
+
+/** Schedule mode: force one container arrived (or not), whatever its status says. */
+export async function setArrivalOverride(number: number, arrived: boolean, reason: string | null, by: string | null): Promise<void> {
+  await db
+    .insert(containerArrivalOverrides)
+    .values({ containerNumber: number, arrived, reason, setBy: by })
+    .onConflictDoUpdate({
+      target: containerArrivalOverrides.containerNumber,
+      set: { arrived, reason, setBy: by, setAt: new Date() },
+    });
+  cached = null;
+}
+
+/** Schedule mode: drop an override so the container follows its status again. */
+export async function clearArrivalOverride(number: number): Promise<void> {
+  await db.delete(containerArrivalOverrides).where(eq(containerArrivalOverrides.containerNumber, number));
+  cached = null;
+}
@@ -0,0 +1,69 @@
+// Budget snapshot history.
+// Every Schedule Summary read is stored as that day's snapshot (a later read the
+// same day overwrites it). A read identical to today's stored snapshot is not
+// written again, so the budget page can be reloaded freely. The variance and
+// burn views are rebuilt from the stored days.
+
+import { asc, desc } from 'drizzle-orm';
+import { db } from '../db';
+import { budgetSnapshots } from '@shared/schema';
+import {
+  buildBudgetVariance,
+  budgetSnapshotSignature,
+  snapshotItems,
+  type BudgetSummary,
+  type BudgetVarianceReport,
+} from '@shared/lib';
+import { localDateString } from './expansionSnapshots';
+
+/** Date + signature of the last stored snapshot — loaded once, then kept in step. */
+let lastStored: { date: string; signature: string } | null = null;
+/** Reads can overlap; recording runs one at a time so a day is written once. */
+let recording: Promise<unknown> = Promise.resolve();
+
+async function loadLast(): Promise<{ date: string; signature: string } | null> {
+  if (lastStored) return lastStored;
+  const [row] = await db.select().from(budgetSnapshots).orderBy(desc(budgetSnapshots.snapshotDate)).limit(1);
+  if (row) lastStored = { date: row.snapshotDate, signature: budgetSnapshotSignature(row) };
+  return lastStored;
+}
+
+/**
+ * Store one budget read as today's snapshot unless it matches the snapshot
+ * already stored for today. Resolves true when a row was written.
+ */
+export function recordBudgetSnapshot(summary: BudgetSummary, date: string = localDateString()): Promise<boolean> {
+  const run = recording.then(async () => {
+    const signature = budgetSnapshotSignature(summary);
+    const last = await loadLast();
+    if (last && last.date === date && last.signature === signature) return false;
+
+    const row = {
+      snapshotDate: date,
+      totals: summary.totals,
+      items: snapshotItems(summary.items),
+      lineItemCount: summary.items.length,
+    };
+    await db
+      .insert(budgetSnapshots)
+      .values(row)
+      .onConflictDoUpdate({
+        target: budgetSnapshots.snapshotDate,
+        set: { totals: row.totals, items: row.items, lineItemCount: row.lineItemCount, capturedAt: new Date() },
+      });
+    lastStored = { date, signature };
+    console.log(`[budget-history] stored snapshot for ${date} (${row.lineItemCount} line items)`);
+    return true;
+  });
+  recording = run.catch(() => undefined);
+  return run;
+}
+
+/** Estimate movement per line item and the paid burn, from `from` (YYYY-MM-DD) on. */
+export async function budgetVarianceReport(from?: string): Promise<BudgetVarianceReport> {
+  const rows = await db.select().from(budgetSnapshots).orderBy(asc(budgetSnapshots.snapshotDate));
+  return buildBudgetVariance(
+    rows.map((r) => ({ date: r.snapshotDate, totals: r.totals, items: r.items })),
+    from,
+  );
+}
@@ -0,0 +1,54 @@
+// Master Budget sheet — the "Schedule Summary" tab read into a BudgetSummary.
+// Shared by /api/sheets/budget and the budget views built on top of it (cash
+// flow), so every one of them sees the same line items, keys and totals.
+
+import { fetchSheetData, getSpreadsheetInfo } from './sheetProvider';
+import { listContingencyDrawdowns, type ContingencyDrawdownEntry } from './contingencyLedger';
+import { listChangeOrders, type ChangeOrderEntry } from './changeOrders';
+import { buildScheduleSummaryBudget, type BudgetSummary } from '@shared/lib/budget';
+
+export function getBudgetSheetId(): string | undefined {
+  return process.env.BUDGET_SHEET_ID;
+}
+
+/**
+ * Resolve the "Schedule Summary" tab. Its real title has a TRAILING SPACE, so match by
+ * exact string first, then trimmed equality — never fuzzy/substring, so we can't grab a
+ * different tab (e.g. "Consolidated Payment Schedule "). `tab` is null when not found.
+ */
+export async function findScheduleSummaryTab(spreadsheetId: string): Promise<{ tab: string | null; titles: string[] }> {
+  const info = await getSpreadsheetInfo(spreadsheetId);
+  const titles = (info.sheets?.map((s) => s.title).filter(Boolean) as string[]) || [];
+  const tab =
+    titles.find((t) => t === 'Schedule Summary ') ||
+    titles.find((t) => t.trim().toLowerCase() === 'schedule summary') ||
+    null;
+  return { tab, titles };
+}
+
+/** Read the tab and run the budget engine over it, with the contingency ledger and change orders. */
+export async function readBudgetSummary(spreadsheetId: string, tab: string): Promise<BudgetSummary> {
+  // UNFORMATTED so money sums to the cent (numbers, not "$1,234"). Cols A..U cover
+  // everything we use (A/C/D/E/F); the engine stops at the first "TOTAL" row anyway.
+  const data = await fetchSheetData(spreadsheetId, `'${tab}'!A1:U430`, 'UNFORMATTED_VALUE');
+  const grid = (data.rawValues || []) as (string | number | boolean | null)[][];
+
+  // The contingency ledger only adjusts contingency used / remaining — a DB hiccup
+  // shouldn't take the whole budget down, so fall back to no drawdowns.
+  let drawdowns: ContingencyDrawdownEntry[] = [];
+  try {
+    drawdowns = await listContingencyDrawdowns();
+  } catch (ledgerErr: any) {
+    console.error('[budget] Could not read contingency ledger:', ledgerErr.message);
+  }
+
+  // Same for change orders: without them the view is the bare sheet estimate.
+  let changeOrders: ChangeOrderEntry[] = [];
+  try {
+    changeOrders = await listChangeOrders();
+  } catch (coErr: any) {
+    console.error('[budget] Could not read change orders:', coErr.message);
+  }
+
+  return buildScheduleSummaryBudget(grid, drawdowns, changeOrders);
+}
@@ -0,0 +1,122 @@
+// Cash-flow projection — payment schedules per budget line item
+// (budget_payment_schedules) joined to the live dates they hang off: timeline
+// task spans from Postgres and the Container Schedule sheet. The projection itself
+// isn't cached: timeline moves show up on the next read, and a changed ETA once
+// the Container Schedule's sheetCache entry (5 min TTL) refreshes — or right away
+// with ?refresh=true.
+
+import { asc, eq, max, min } from 'drizzle-orm';
+import { db } from '../db';
+import { budgetPaymentSchedules, timelineEvents, timelineTasks, type UpsertBudgetPaymentSchedule } from '@shared/schema';
+import {
+  buildCashFlowProjection,
+  scheduleContainerKey,
+  type BudgetSummary,
+  type CashFlowContainerInput,
+  type CashFlowProjection,
+  type CashFlowTaskInput,
+  type PaymentScheduleInput,
+} from '@shared/lib';
+import type { PaymentLinkType } from '@shared/config/cashFlow';
+import { getContainerScheduleSheetId, readContainerSchedule } from './containerSchedule';
+import { localDateString } from './expansionSnapshots';
+
+export interface PaymentScheduleEntry extends PaymentScheduleInput {
+  id: number;
+  itemName: string;
+  updatedBy: string | null;
+  updatedAt: string;
+}
+
+export interface CashFlowReport extends CashFlowProjection {
+  schedules: PaymentScheduleEntry[];
+  /** What a schedule can link to. */
+  tasks: CashFlowTaskInput[];
+  containers: string[];
+  /** False when the Container Schedule couldn't be read — container-linked milestones are undated. */
+  containersAvailable: boolean;
+}
+
+export async function listPaymentSchedules(): Promise<PaymentScheduleEntry[]> {
+  const rows = await db.select().from(budgetPaymentSchedules).orderBy(asc(budgetPaymentSchedules.itemName));
+  return rows.map((r) => ({
+    id: r.id,
+    itemKey: r.itemKey,
+    itemName: r.itemName,
+    depositPct: r.depositPct,
+    onShipPct: r.onShipPct,
+    onDeliveryPct: r.onDeliveryPct,
+    retainagePct: r.retainagePct,
+    linkType: r.linkType as PaymentLinkType,
+    timelineTaskId: r.timelineTaskId,
+    container: r.container,
+    updatedBy: r.updatedBy,
+    updatedAt: r.updatedAt.toISOString(),
+  }));
+}
+
+/** Create or replace the schedule for one line item. Only the chosen link is kept. */
+export async function savePaymentSchedule(input: UpsertBudgetPaymentSchedule, by: string | null): Promise<void> {
+  const values = {
+    ...input,
+    timelineTaskId: input.linkType === 'task' ? input.timelineTaskId : null,
+    container: input.linkType === 'container' ? input.container : null,
+    updatedBy: by,
+    updatedAt: new Date(),
+  };
+  await db
+    .insert(budgetPaymentSchedules)
+    .values(values)
+    .onConflictDoUpdate({ target: budgetPaymentSchedules.itemKey, set: values });
+}
+
+/** Resolves false when no schedule has that id. */
+export async function deletePaymentSchedule(id: number): Promise<boolean> {
+  const deleted = await db.delete(budgetPaymentSchedules).where(eq(budgetPaymentSchedules.id, id)).returning();
+  return deleted.length > 0;
+}
+
+/** Every timeline task with the span of its events (null when it has none). */
+async function timelineTaskSpans(): Promise<CashFlowTaskInput[]> {
+  const rows = await db
+    .select({
+      id: timelineTasks.id,
+      category: timelineTasks.category,
+      task: timelineTasks.task,
+      start: min(timelineEvents.startDate),
+      end: max(timelineEvents.endDate),
+    })
+    .from(timelineTasks)
+    .leftJoin(timelineEvents, eq(timelineEvents.taskId, timelineTasks.id))
+    .groupBy(timelineTasks.id)
+    .orderBy(asc(timelineTasks.category), asc(timelineTasks.sortOrder), asc(timelineTasks.id));
+  return rows.map((r) => ({ id: r.id, label: `${r.category} · ${r.task}`, start: r.start, end: r.end }));
+}
+
+/** Monthly outflow for `summary`'s unpaid balances, plus the schedules and link options behind it. */
+export async function cashFlowReport(summary: BudgetSummary): Promise<CashFlowReport> {
+  const [schedules, tasks] = await Promise.all([listPaymentSchedules(), timelineTaskSpans()]);
+
+  let containers: CashFlowContainerInput[] = [];
+  let containersAvailable = false;
+  const scheduleSheetId = getContainerScheduleSheetId();
+  if (scheduleSheetId) {
+    try {
+      containers = await readContainerSchedule(scheduleSheetId);
+      containersAvailable = true;
+    } catch (err: any) {
+      console.error('[cash-flow] Could not read the Container Schedule:', err.message);
+    }
+  }
+
+  // Approved change orders on a line item get paid on its schedule too.
+  const items = summary.items.map((it) => ({ ...it, estimatedCost: it.adjustedEstimate }));
+  const projection = buildCashFlowProjection(items, schedules, tasks, containers, localDateString());
+  return {
+    ...projection,
+    schedules,
+    tasks,
+    containers: [...new Set(containers.map((c) => scheduleContainerKey(c.containerNumber)).filter(Boolean))],
+    containersAvailable,
+  };
+}
@@ -0,0 +1,91 @@
+// Change orders — vendor change orders against the budget, kept in change_orders
+// with the Drive documents behind them. Like the contingency ledger, the sheet
+// has no place for them: readBudgetSummary passes them to the engine, which adds
+// the approved ones to the estimate ("estimate + approved COs").
+
+import { asc, eq } from 'drizzle-orm';
+import { db } from '../db';
+import { changeOrders, type ChangeOrderDocument, type ChangeOrderRow, type UpsertChangeOrder } from '@shared/schema';
+import type { ChangeOrderStatus } from '@shared/config/changeOrders';
+
+export interface ChangeOrderEntry {
+  id: number;
+  number: string;
+  vendor: string;
+  description: string;
+  amount: number;
+  category: string | null;
+  itemKey: string | null;
+  itemName: string | null;
+  status: ChangeOrderStatus;
+  documents: ChangeOrderDocument[];
+  createdBy: string | null;
+  updatedBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+function toEntry(row: ChangeOrderRow): ChangeOrderEntry {
+  return {
+    id: row.id,
+    number: row.number,
+    vendor: row.vendor,
+    description: row.description,
+    amount: Number(row.amount),
+    category: row.category,
+    itemKey: row.itemKey,
+    itemName: row.itemName,
+    status: row.status as ChangeOrderStatus,
+    documents: row.documents,
+    createdBy: row.createdBy,
+    updatedBy: row.updatedBy,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+// Only the chosen link is kept; itemName only travels with an item link.
+function toValues(input: UpsertChangeOrder) {
+  return {
+    ...input,
+    amount: input.amount.toFixed(2),
+    category: input.itemKey === null ? input.category : null,
+    itemName: input.itemKey === null ? null : input.itemName,
+  };
+}
+
+/** Every change order, by number. */
+export async function listChangeOrders(): Promise<ChangeOrderEntry[]> {
+  const rows = await db.select().from(changeOrders).orderBy(asc(changeOrders.number));
+  return rows.map(toEntry);
+}
+
+/** Resolves true when another change order (not `exceptId`) already has `number`. */
+export async function changeOrderNumberTaken(number: string, exceptId?: number): Promise<boolean> {
+  const rows = await db.select({ id: changeOrders.id }).from(changeOrders).where(eq(changeOrders.number, number));
+  return rows.some((r) => r.id !== exceptId);
+}
+
+export async function addChangeOrder(input: UpsertChangeOrder, by: string | null): Promise<ChangeOrderEntry> {
+  const [row] = await db
+    .insert(changeOrders)
+    .values({ ...toValues(input), createdBy: by, updatedBy: by })
+    .returning();
+  return toEntry(row);
+}
+
+/** Resolves null when no change order has that id. */
+export async function updateChangeOrder(id: number, input: UpsertChangeOrder, by: string | null): Promise<ChangeOrderEntry | null> {
+  const [row] = await db
+    .update(changeOrders)
+    .set({ ...toValues(input), updatedBy: by, updatedAt: new Date() })
+    .where(eq(changeOrders.id, id))
+    .returning();
+  return row ? toEntry(row) : null;
+}
+
+/** Resolves false when no change order has that id. */
+export async function deleteChangeOrder(id: number): Promise<boolean> {
+  const deleted = await db.delete(changeOrders).where(eq(changeOrders.id, id)).returning();
+  return deleted.length > 0;
+}
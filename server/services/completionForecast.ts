@@ -0,0 +1,83 @@
+// Aya Dashboard Expansion — completion forecast.
+// Reads the Installation tabs' daily snapshots, reduces each captured day to
+// the rollup's tower / floor installed %s and fits them (shared/lib/forecast.ts).
+// A day's reduction is kept in memory until that day is re-captured, so only
+// today's snapshot is re-read on each request.
+
+import { and, gte, inArray } from 'drizzle-orm';
+import { db } from '../db';
+import { expansionSnapshots } from '@shared/schema';
+import { ROOM_TABS } from '@shared/config/tabs';
+import { buildCompletionForecasts, buildTowerRollup, DEFAULT_FORECAST_WINDOW_DAYS, type RollupSnapshot } from '@shared/lib';
+import type { RollupTower, RoomRow, Tower, TowerForecast } from '@shared/types/dashboard';
+import { localDateString } from './expansionSnapshots';
+
+export const MAX_FORECAST_WINDOW_DAYS = 90;
+
+const TOWERS: Tower[] = ['HR', 'LR'];
+
+/** Rollup of one tab-day with the rooms dropped, by "tab|date|capturedAt". */
+const reduced = new Map<string, RollupTower>();
+
+function installationTab(tower: Tower) {
+  return ROOM_TABS.find((t) => t.tower === tower && t.type === 'installation')!;
+}
+
+export interface ForecastResult {
+  windowDays: number;
+  /** Snapshot days found in the window. */
+  snapshotDays: number;
+  towers: TowerForecast[];
+}
+
+export async function completionForecast(windowDays: number = DEFAULT_FORECAST_WINDOW_DAYS): Promise<ForecastResult> {
+  const from = localDateString(new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000));
+  const tabs = TOWERS.map(installationTab);
+
+  const index = await db
+    .select({
+      id: expansionSnapshots.id,
+      snapshotDate: expansionSnapshots.snapshotDate,
+      tab: expansionSnapshots.tab,
+      capturedAt: expansionSnapshots.capturedAt,
+    })
+    .from(expansionSnapshots)
+    .where(and(gte(expansionSnapshots.snapshotDate, from), inArray(expansionSnapshots.tab, tabs.map((t) => t.sheetName))));
+
+  const keyOf = (r: (typeof index)[number]) => `${r.tab}|${r.snapshotDate}|${r.capturedAt.getTime()}`;
+  const toLoad = index.filter((r) => !reduced.has(keyOf(r)));
+  if (toLoad.length > 0) {
+    const rows = await db
+      .select({ id: expansionSnapshots.id, data: expansionSnapshots.data })
+      .from(expansionSnapshots)
+      .where(inArray(expansionSnapshots.id, toLoad.map((r) => r.id)));
+    const dataById = new Map(rows.map((r) => [r.id, r.data as RoomRow[]]));
+    for (const r of toLoad) {
+      const tab = tabs.find((t) => t.sheetName === r.tab)!;
+      const containersTab = ROOM_TABS.find((t) => t.tower === tab.tower && t.type === 'containers')!;
+      // Installed %s come from the Installation tab alone; the Containers side isn't needed.
+      const rollup = buildTowerRollup(tab.tower, containersTab.sheetName, tab.sheetName, [], dataById.get(r.id) ?? []);
+      reduced.set(keyOf(r), { ...rollup, floors: rollup.floors.map((f) => ({ ...f, rooms: [] })) });
+    }
+  }
+
+  // Re-captured days (and days that left the window) leave stale keys behind.
+  const live = new Set(index.map(keyOf));
+  for (const key of reduced.keys()) if (!live.has(key)) reduced.delete(key);
+
+  const byDate = new Map<string, RollupSnapshot>();
+  for (const r of index) {
+    const day = byDate.get(r.snapshotDate) ?? { date: r.snapshotDate, towers: [] };
+    day.towers.push(reduced.get(keyOf(r))!);
+    byDate.set(r.snapshotDate, day);
+  }
+  for (const day of byDate.values()) {
+    day.towers.sort((a, b) => TOWERS.indexOf(a.tower) - TOWERS.indexOf(b.tower));
+  }
+
+  return {
+    windowDays,
+    snapshotDays: byDate.size,
+    towers: buildCompletionForecasts([...byDate.values()], windowDays),
+  };
+}
@@ -0,0 +1,80 @@
+// Container Schedule document audit — looks every Drive link on the schedule up
+// (existence, mime type, last modified) and builds the per-container compliance
+// rows (shared/lib/documentAudit.ts). Lookups go through the sheet cache under
+// the schedule's ID, so they share its TTL and "refresh now".
+
+import { getDriveFileMetadata } from './googleSheets';
+import { cachedRead } from './sheetCache';
+import { readContainerSchedule } from './containerSchedule';
+import {
+  auditContainerDocuments,
+  driveIdsToLookUp,
+  CONTAINER_DOC_FIELDS,
+  DOC_PRESENT_STATES,
+  type ContainerDocAudit,
+  type ContainerDocField,
+  type DriveLookup,
+} from '@shared/lib';
+
+const LOOKUP_CONCURRENCY = 4;
+
+export interface DocumentAuditResult {
+  containers: ContainerDocAudit[];
+  summary: {
+    containers: number;
+    delivered: number;
+    flagged: number; // delivered without a usable BOL or POD
+    complete: number; // every document present
+    lookupErrors: number; // Drive lookups that failed (shown as unverified)
+    byField: Record<ContainerDocField, { present: number; missing: number; broken: number }>;
+  };
+}
+
+async function lookUpDriveFiles(sourceId: string, ids: string[]): Promise<Map<string, DriveLookup>> {
+  const lookups = new Map<string, DriveLookup>();
+  let next = 0;
+  const worker = async () => {
+    while (next < ids.length) {
+      const id = ids[next++];
+      try {
+        lookups.set(id, await cachedRead(sourceId, `drive:file-meta:${id}`, () => getDriveFileMetadata(id)));
+      } catch (err: any) {
+        console.error(`[container-documents] Drive lookup failed for ${id}:`, err?.message ?? err);
+        lookups.set(id, 'error');
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(LOOKUP_CONCURRENCY, ids.length) }, worker));
+  return lookups;
+}
+
+export async function auditScheduleDocuments(spreadsheetId: string): Promise<DocumentAuditResult> {
+  const rows = await readContainerSchedule(spreadsheetId);
+  const lookups = await lookUpDriveFiles(spreadsheetId, driveIdsToLookUp(rows));
+  const containers = auditContainerDocuments(rows, lookups);
+
+  const byField = Object.fromEntries(
+    CONTAINER_DOC_FIELDS.map((spec) => {
+      let present = 0, missing = 0, broken = 0;
+      for (const c of containers) {
+        const state = c.docs[spec.field].state;
+        if (DOC_PRESENT_STATES.includes(state)) present++;
+        else if (state === 'missing') missing++;
+        else broken++;
+      }
+      return [spec.field, { present, missing, broken }];
+    }),
+  ) as DocumentAuditResult['summary']['byField'];
+
+  return {
+    containers,
+    summary: {
+      containers: containers.length,
+      delivered: containers.filter((c) => c.delivered).length,
+      flagged: containers.filter((c) => c.flagged).length,
+      complete: containers.filter((c) => c.presentCount === CONTAINER_DOC_FIELDS.length).length,
+      lookupErrors: [...lookups.values()].filter((l) => l === 'error').length,
+      byField,
+    },
+  };
+}
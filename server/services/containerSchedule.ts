@@ -0,0 +1,106 @@
+// Container Schedule sheet — one row per shipped container (factory, container
+// #, ETAs, status, document links). Read by /api/sheets/container-schedule and
+// joined onto the Tracking Detail container index by /api/expansion/containers.
+
+import { fetchSheetDataWithHyperlinks, getSpreadsheetInfo } from './sheetProvider';
+
+export interface ContainerScheduleRow {
+  id: number; // sheet row number (row 3 is the first data row)
+  factory: string;
+  containerLoaded: string;
+  shipmentNumber: string;
+  containerNumber: string;
+  delivery: string;
+  loadingDate: string;
+  vesselDepartureDate: string;
+  etaNYPort: string;
+  etaWarehouse: string;
+  status: string;
+  bolCopy: string;
+  insurance: string;
+  productListWithPhotos: string;
+  packingList: string;
+  productDetails: string;
+  warehouseProofOfDelivery: string;
+}
+
+export function getContainerScheduleSheetId(): string | undefined {
+  return process.env.CONTAINER_SCHEDULE_SHEET_ID;
+}
+
+/** Read and parse the "Summary" tab. Link cells resolve to their URLs. */
+export async function readContainerSchedule(spreadsheetId: string): Promise<ContainerScheduleRow[]> {
+  // Fetch tab info to get exact tab name
+  let tabName = 'Summary';
+  try {
+    const info = await getSpreadsheetInfo(spreadsheetId);
+    const matchingSheet = info.sheets?.find(
+      (s: any) => s.title?.toLowerCase().trim() === 'summary'
+    );
+    if (matchingSheet?.title) {
+      tabName = matchingSheet.title;
+    } else {
+      console.warn('[container-schedule] "Summary" tab not found, available tabs:', info.sheets?.map((s: any) => s.title));
+    }
+  } catch (infoErr: any) {
+    console.warn('[container-schedule] Could not fetch sheet info:', infoErr.message);
+  }
+
+  // Row 1 is a title/note row, Row 2 has headers, Row 3+ has data
+  // Use hyperlink-aware fetch to extract actual URLs from cells that display "Link"
+  const data = await fetchSheetDataWithHyperlinks(spreadsheetId, tabName, 2, 500, 'P');
+
+  if (!data || !data.rawValues || data.rawValues.length === 0) return [];
+
+  const headers = data.rawValues[0] as string[];
+  const dataRows = data.rawValues.slice(1);
+
+  // Map column indices by header name (case-insensitive)
+  const findCol = (keyword: string) => headers.findIndex(h =>
+    h?.toLowerCase().trim().includes(keyword.toLowerCase())
+  );
+
+  const factoryIdx = findCol('factory');
+  const containerLoadedIdx = findCol('container loaded');
+  const shipmentIdx = findCol('shipment');
+  const containerNumIdx = findCol('container #');
+  const deliveryIdx = findCol('delivery');
+  const loadingDateIdx = findCol('loading date');
+  const vesselIdx = findCol('vessel');
+  const etaNYIdx = findCol('eta to ny');
+  const etaWarehouseIdx = findCol('eta to warehouse');
+  const statusIdx = findCol('status');
+  const bolIdx = findCol('bol');
+  const insuranceIdx = findCol('insurance');
+  const productListIdx = findCol('product list');
+  const packingIdx = findCol('packing');
+  const productDetailsIdx = findCol('product detail');
+  const warehouseProofIdx = findCol('warehouse proof');
+
+  return dataRows.map((row, index) => {
+    const getValue = (idx: number) => {
+      if (idx < 0 || idx >= row.length) return '';
+      return (row[idx] || '').toString().trim();
+    };
+
+    return {
+      id: index + 3, // Excel row number (row 3 is first data row)
+      factory: getValue(factoryIdx),
+      containerLoaded: getValue(containerLoadedIdx),
+      shipmentNumber: getValue(shipmentIdx),
+      containerNumber: getValue(containerNumIdx),
+      delivery: getValue(deliveryIdx),
+      loadingDate: getValue(loadingDateIdx),
+      vesselDepartureDate: getValue(vesselIdx),
+      etaNYPort: getValue(etaNYIdx),
+      etaWarehouse: getValue(etaWarehouseIdx),
+      status: getValue(statusIdx),
+      bolCopy: getValue(bolIdx),
+      insurance: getValue(insuranceIdx),
+      productListWithPhotos: getValue(productListIdx),
+      packingList: getValue(packingIdx),
+      productDetails: getValue(productDetailsIdx),
+      warehouseProofOfDelivery: getValue(warehouseProofIdx),
+    };
+  }).filter(c => c.factory !== '' || c.containerLoaded !== ''); // Filter out empty rows
+}
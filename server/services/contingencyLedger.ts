@@ -0,0 +1,55 @@
+// Contingency ledger — approved drawdowns from the budget's fixed contingency
+// into a category, kept in contingency_drawdowns. The Schedule Summary has no
+// place for them, so the budget route reads the ledger on every request and
+// passes it to the engine (BudgetTotals.contingencyUsed / contingencyRemaining).
+
+import { desc, eq } from 'drizzle-orm';
+import { db } from '../db';
+import { contingencyDrawdowns, type ContingencyDrawdownRow, type InsertContingencyDrawdown } from '@shared/schema';
+
+export interface ContingencyDrawdownEntry {
+  id: number;
+  category: string;
+  amount: number;
+  reason: string;
+  approver: string;
+  drawdownDate: string; // YYYY-MM-DD
+  createdBy: string | null;
+  createdAt: string;
+}
+
+function toEntry(row: ContingencyDrawdownRow): ContingencyDrawdownEntry {
+  return {
+    id: row.id,
+    category: row.category,
+    amount: Number(row.amount),
+    reason: row.reason,
+    approver: row.approver,
+    drawdownDate: row.drawdownDate,
+    createdBy: row.createdBy,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+/** Every drawdown, newest first. */
+export async function listContingencyDrawdowns(): Promise<ContingencyDrawdownEntry[]> {
+  const rows = await db
+    .select()
+    .from(contingencyDrawdowns)
+    .orderBy(desc(contingencyDrawdowns.drawdownDate), desc(contingencyDrawdowns.id));
+  return rows.map(toEntry);
+}
+
+export async function addContingencyDrawdown(input: InsertContingencyDrawdown, by: string | null): Promise<ContingencyDrawdownEntry> {
+  const [row] = await db
+    .insert(contingencyDrawdowns)
+    .values({ ...input, amount: input.amount.toFixed(2), createdBy: by })
+    .returning();
+  return toEntry(row);
+}
+
+/** Resolves false when no drawdown has that id. */
+export async function deleteContingencyDrawdown(id: number): Promise<boolean> {
+  const deleted = await db.delete(contingencyDrawdowns).where(eq(contingencyDrawdowns.id, id)).returning();
+  return deleted.length > 0;
+}
@@ -0,0 +1,76 @@
+// Container Schedule ETA history.
+// The sheet only ever shows today's ETAs, so every read of it is compared with
+// the last pair stored per container and a new container_eta_observations row is
+// written when they differ. The slippage report is built from that history.
+
+import { asc } from 'drizzle-orm';
+import { db } from '../db';
+import { containerEtaObservations } from '@shared/schema';
+import { buildSlippageReport, etaChanged, parseSheetDate, scheduleContainerKey, type EtaObservation } from '@shared/lib';
+import type { ContainerSlippage } from '@shared/types/dashboard';
+import type { ContainerScheduleRow } from './containerSchedule';
+
+type EtaPair = Pick<EtaObservation, 'etaNYPort' | 'etaWarehouse'>;
+
+/** Last stored pair per container — loaded from the table once, then kept in step. */
+let lastByContainer: Map<string, EtaPair> | null = null;
+/** Reads can overlap; recording runs one at a time so a change is stored once. */
+let recording: Promise<unknown> = Promise.resolve();
+
+async function loadLast(): Promise<Map<string, EtaPair>> {
+  if (lastByContainer) return lastByContainer;
+  const rows = await db.select().from(containerEtaObservations).orderBy(asc(containerEtaObservations.observedAt));
+  const map = new Map<string, EtaPair>();
+  for (const r of rows) map.set(r.container, { etaNYPort: r.etaNYPort, etaWarehouse: r.etaWarehouse });
+  lastByContainer = map;
+  return map;
+}
+
+function laterOf(a: string | null, b: string | null): string | null {
+  if (!a) return b;
+  if (!b) return a;
+  return a > b ? a : b;
+}
+
+/**
+ * Store the ETAs from one schedule read where they changed. Rows without a
+ * container # are skipped; a container on several rows takes its latest dates.
+ * Returns how many observations were written.
+ */
+export function recordEtaObservations(rows: ContainerScheduleRow[]): Promise<number> {
+  const run = recording.then(async () => {
+    const seen = new Map<string, EtaPair>();
+    for (const row of rows) {
+      const container = scheduleContainerKey(row.containerNumber);
+      if (!container) continue;
+      const prev = seen.get(container);
+      seen.set(container, {
+        etaNYPort: laterOf(prev?.etaNYPort ?? null, parseSheetDate(row.etaNYPort)),
+        etaWarehouse: laterOf(prev?.etaWarehouse ?? null, parseSheetDate(row.etaWarehouse)),
+      });
+    }
+
+    const last = await loadLast();
+    const changed = [...seen].filter(([container, pair]) => etaChanged(last.get(container), pair));
+    if (changed.length === 0) return 0;
+
+    await db.insert(containerEtaObservations).values(changed.map(([container, pair]) => ({ container, ...pair })));
+    for (const [container, pair] of changed) last.set(container, pair);
+    console.log(`[eta-history] recorded ${changed.length} ETA change(s)`);
+    return changed.length;
+  });
+  recording = run.catch(() => undefined);
+  return run;
+}
+
+export async function etaSlippageReport(): Promise<ContainerSlippage[]> {
+  const rows = await db.select().from(containerEtaObservations);
+  return buildSlippageReport(
+    rows.map((r) => ({
+      container: r.container,
+      etaNYPort: r.etaNYPort,
+      etaWarehouse: r.etaWarehouse,
+      observedAt: r.observedAt.toISOString(),
+    })),
+  );
+}
@@ -0,0 +1,156 @@
+// Aya Dashboard Expansion — exception triage store.
+// Procurement's follow-up on flagged part cells (assignee, status, notes, due
+// date), persisted so it survives the exceptions feed being recomputed from the
+// sheet on every request. Reconciliation (auto-close / reopen) runs with the
+// hourly snapshot job; reading the feed never writes. Every change — by a
+// person or by reconciliation — is written to exception_triage_events.
+
+import { and, desc, eq, getTableColumns, sql } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  exceptionTriage,
+  exceptionTriageEvents,
+  type ExceptionTriage,
+  type ExceptionTriageEvent,
+  type UpsertExceptionTriage,
+} from '@shared/schema';
+import { normalizeTriageCell, reconcileTriage, triageKey, type TriageKeyFields } from '@shared/lib';
+
+const RECENTLY_CLOSED_DAYS = 14;
+
+const EDITABLE_FIELDS = ['assignee', 'status', 'notes', 'dueDate'] as const;
+
+export interface TriageOverlay {
+  /** Every record whose cell is flagged right now, by triageKey(). */
+  byKey: Map<string, ExceptionTriage>;
+  /** Records auto-closed within the last RECENTLY_CLOSED_DAYS days. */
+  recentlyClosed: ExceptionTriage[];
+}
+
+/**
+ * Reconcile stored records against one exceptions scan: close records whose
+ * cell is no longer flagged, reopen auto-closed ones that are flagged again.
+ * `scannedTabs` must only list tabs that were actually read. Run by the hourly
+ * job, never by a read of the feed.
+ */
+export async function reconcileTriageRecords(flagged: TriageKeyFields[], scannedTabs: string[]): Promise<{ closed: number; reopened: number }> {
+  const records = await db.select().from(exceptionTriage);
+  const { close, reopen } = reconcileTriage(records, flagged, scannedTabs);
+  const now = new Date();
+
+  for (const record of close) {
+    await db
+      .update(exceptionTriage)
+      .set({ status: 'resolved', autoClosedAt: now, updatedAt: now })
+      .where(eq(exceptionTriage.id, record.id));
+    await db.insert(exceptionTriageEvents).values({
+      triageId: record.id,
+      kind: 'auto-closed',
+      changes: { status: { from: record.status, to: 'resolved' } },
+    });
+  }
+  for (const record of reopen) {
+    await db
+      .update(exceptionTriage)
+      .set({ status: 'new', autoClosedAt: null, updatedAt: now })
+      .where(eq(exceptionTriage.id, record.id));
+    await db.insert(exceptionTriageEvents).values({
+      triageId: record.id,
+      kind: 'reopened',
+      changes: { status: { from: 'resolved', to: 'new' } },
+    });
+  }
+  if (close.length || reopen.length) {
+    console.log(`[triage] auto-closed ${close.length}, reopened ${reopen.length}`);
+  }
+  return { closed: close.length, reopened: reopen.length };
+}
+
+/** The stored records for the cells flagged in one scan. Read-only. */
+export async function triageOverlay(flagged: TriageKeyFields[]): Promise<TriageOverlay> {
+  const records = await db.select().from(exceptionTriage);
+
+  const flaggedKeys = new Set(flagged.map(triageKey));
+  const byKey = new Map<string, ExceptionTriage>();
+  for (const record of records) {
+    const key = triageKey(record);
+    if (flaggedKeys.has(key)) byKey.set(key, record);
+  }
+
+  const cutoff = Date.now() - RECENTLY_CLOSED_DAYS * 24 * 60 * 60 * 1000;
+  const recentlyClosed = records
+    .filter((r) => r.autoClosedAt !== null && r.autoClosedAt.getTime() >= cutoff)
+    .sort((a, b) => b.autoClosedAt!.getTime() - a.autoClosedAt!.getTime());
+
+  return { byKey, recentlyClosed };
+}
+
+/**
+ * Create or edit the record for one cell, logging what changed. The cell is
+ * matched the way triageKey() matches it, so a header whose case or spacing
+ * changed on the sheet still finds its record; concurrent first saves of one
+ * cell meet on the unique index instead of failing.
+ */
+export async function saveTriage(input: UpsertExceptionTriage, actor: string | null): Promise<ExceptionTriage> {
+  const cell = normalizeTriageCell(input);
+  const [existing] = await db
+    .select()
+    .from(exceptionTriage)
+    .where(
+      and(
+        eq(exceptionTriage.tab, cell.tab),
+        sql`trim(${exceptionTriage.roomNo}) = ${cell.roomNo}`,
+        sql`upper(trim(${exceptionTriage.package})) = ${cell.package}`,
+        sql`upper(trim(${exceptionTriage.part})) = ${cell.part}`,
+      ),
+    )
+    .limit(1);
+
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  for (const field of EDITABLE_FIELDS) {
+    const to = input[field];
+    if (to === undefined) continue;
+    const from = existing ? existing[field] : field === 'status' ? 'new' : null;
+    if (from !== to) changes[field] = { from, to };
+  }
+
+  if (!existing) {
+    const edited = Object.fromEntries(Object.entries(changes).map(([field, c]) => [field, c.to]));
+    const [saved] = await db
+      .insert(exceptionTriage)
+      .values({ ...input, ...cell, updatedBy: actor })
+      .onConflictDoUpdate({
+        target: [exceptionTriage.tab, exceptionTriage.roomNo, exceptionTriage.package, exceptionTriage.part],
+        set: { ...edited, ...(changes.status ? { autoClosedAt: null } : {}), updatedBy: actor, updatedAt: new Date() },
+      })
+      .returning({ ...getTableColumns(exceptionTriage), inserted: sql<boolean>`(xmax = 0)` });
+    const { inserted, ...record } = saved;
+    await db.insert(exceptionTriageEvents).values({ triageId: record.id, kind: inserted ? 'created' : 'edited', actor, changes });
+    return record;
+  }
+
+  if (Object.keys(changes).length === 0) return existing;
+
+  const [updated] = await db
+    .update(exceptionTriage)
+    .set({
+      ...Object.fromEntries(Object.entries(changes).map(([field, c]) => [field, c.to])),
+      // Any manual status change takes the record out of auto-closed.
+      ...(changes.status ? { autoClosedAt: null } : {}),
+      updatedBy: actor,
+      updatedAt: new Date(),
+    })
+    .where(eq(exceptionTriage.id, existing.id))
+    .returning();
+  await db.insert(exceptionTriageEvents).values({ triageId: existing.id, kind: 'edited', actor, changes });
+  return updated;
+}
+
+/** Full change history for one record, newest first. */
+export async function triageHistory(id: number): Promise<ExceptionTriageEvent[]> {
+  return db
+    .select()
+    .from(exceptionTriageEvents)
+    .where(eq(exceptionTriageEvents.triageId, id))
+    .orderBy(desc(exceptionTriageEvents.createdAt), desc(exceptionTriageEvents.id));
+}
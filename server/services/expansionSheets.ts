@@ -0,0 +1,182 @@
+// Aya Dashboard Expansion — shared read path for the Tracking Detail spreadsheet.
+// READ-ONLY: fetches raw grids and hands them to the pure engine (shared/lib).
+// Used by the /api/expansion router and the hourly snapshot job.
+
+import { fetchSheetData, getSpreadsheetInfo } from './sheetProvider';
+import { getArrivedContainers } from './arrivedContainers';
+import { getExpectedTaxonomy } from '@shared/config/expectedTaxonomies';
+import {
+  discoverRoomTabStructure,
+  buildRoomRows,
+  discoverCommonAreaFloors,
+  findPackageMismatches,
+  exceptionSeverityForValue,
+  exceptionReason,
+  type ExceptionSeverity,
+  type PackageMismatch,
+} from '@shared/lib';
+import { ROOM_TABS } from '@shared/config/tabs';
+import type { CommonAreaFloor, CommonAreaTab, RoomRow, RoomTab } from '@shared/types/dashboard';
+
+// Wide enough to cover every part column on the room tabs (97 parts + summaries
+// + leading/trailing), including hidden/grouped columns. values.get returns
+// hidden columns; over-wide ranges are harmless (ragged rows are fine).
+export const WIDE_RANGE = 'A1:GZ1000';
+
+/** Significant lowercase tokens of a name (length ≥ 2). */
+function tokens(name: string): string[] {
+  return name
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t.length >= 2);
+}
+
+/**
+ * Resolve a registered tab's expected sheetName to the actual title present in
+ * the spreadsheet — tolerant of renames/inserted words (the lesson from the
+ * "A.I Rooms WB Progress" break): exact match first, then "all expected tokens
+ * present in the title".
+ */
+export function resolveActualTitle(expected: string, available: string[]): string | undefined {
+  const exact = available.find((t) => t.toLowerCase().trim() === expected.toLowerCase().trim());
+  if (exact) return exact;
+  const want = tokens(expected);
+  return available.find((t) => {
+    const have = new Set(tokens(t));
+    return want.every((w) => have.has(w));
+  });
+}
+
+export function getSpreadsheetId(): string | undefined {
+  return process.env.CONSTRUCTION_PROGRESS_SHEET_ID;
+}
+
+/** Spreadsheet title + the titles of every tab in it. */
+export async function readSpreadsheetTitles(
+  spreadsheetId: string,
+): Promise<{ spreadsheetTitle: string | null | undefined; availableTitles: string[] }> {
+  const info = await getSpreadsheetInfo(spreadsheetId);
+  const availableTitles = (info.sheets?.map((s) => s.title).filter(Boolean) as string[]) || [];
+  return { spreadsheetTitle: info.title, availableTitles };
+}
+
+/** Read a tab's full grid (rawValues) by its actual title. */
+export async function readGrid(spreadsheetId: string, actualTitle: string): Promise<string[][]> {
+  const data = await fetchSheetData(spreadsheetId, `'${actualTitle}'!${WIDE_RANGE}`);
+  return data.rawValues as string[][];
+}
+
+/** Read + recompute one room tab's rows, or null if the tab can't be resolved. */
+export async function readRoomTabRows(
+  tab: RoomTab,
+  spreadsheetId: string,
+  availableTitles: string[],
+): Promise<{ rows: RoomRow[]; resolvedTitle: string } | null> {
+  const read = await readRoomTab(tab, spreadsheetId, availableTitles);
+  return read && { rows: read.rows, resolvedTitle: read.resolvedTitle };
+}
+
+/**
+ * Every package on one room tab whose manual % disagrees with the recomputed
+ * one, with the summary cell's address — or null if the tab can't be resolved.
+ */
+export async function readRoomTabMismatches(
+  tab: RoomTab,
+  spreadsheetId: string,
+  availableTitles: string[],
+): Promise<{ items: PackageMismatch[]; resolvedTitle: string } | null> {
+  const read = await readRoomTab(tab, spreadsheetId, availableTitles);
+  if (!read) return null;
+  return { items: findPackageMismatches(read.grid, read.structure, tab, read.rows), resolvedTitle: read.resolvedTitle };
+}
+
+async function readRoomTab(tab: RoomTab, spreadsheetId: string, availableTitles: string[]) {
+  const resolvedTitle = resolveActualTitle(tab.sheetName, availableTitles);
+  if (!resolvedTitle) return null;
+  const grid = await readGrid(spreadsheetId, resolvedTitle);
+  const structure = discoverRoomTabStructure(grid, getExpectedTaxonomy(tab.sheetName));
+  const arrivedContainers = await getArrivedContainers();
+  return { grid, structure, rows: buildRoomRows(grid, structure, tab, { arrivedContainers }), resolvedTitle };
+}
+
+/**
+ * Read one floor-based common-area tab (Corridors / Staircase), or null if the
+ * tab can't be resolved. Temp/Lobby is a flat task list, not floors → null.
+ */
+export async function readCommonAreaFloors(
+  tab: CommonAreaTab,
+  spreadsheetId: string,
+  availableTitles: string[],
+): Promise<{ floors: CommonAreaFloor[]; warnings: string[]; resolvedTitle: string } | null> {
+  if (tab.area === 'lobby') return null;
+  const resolvedTitle = resolveActualTitle(tab.sheetName, availableTitles);
+  if (!resolvedTitle) return null;
+  const grid = await readGrid(spreadsheetId, resolvedTitle);
+  const { floors, warnings } = discoverCommonAreaFloors(grid, tab.area);
+  return { floors, warnings, resolvedTitle };
+}
+
+/** One problem item surfaced in the Exceptions Panel (§9.1). */
+export interface ExceptionItem {
+  severity: ExceptionSeverity;
+  tab: string;
+  tower: 'HR' | 'LR';
+  roomNo: string;
+  line: string;
+  type: string;
+  package: string;
+  part: string;
+  rawValue: string;
+  reason: string;
+}
+
+/**
+ * Every LOUD + Attention part across ALL 4 room tabs, plus per-severity counts
+ * (§9 item 1). Shared by /exceptions, the upload preview and the hourly triage
+ * reconciliation.
+ */
+export async function collectExceptions(spreadsheetId: string, availableTitles: string[]) {
+  const perTab = await Promise.all(
+    ROOM_TABS.map(async (tab) => {
+      const read = await readRoomTabRows(tab, spreadsheetId, availableTitles);
+      if (!read) return { tab, items: [] as ExceptionItem[], missing: true };
+
+      const items: ExceptionItem[] = [];
+      for (const room of read.rows) {
+        for (const pkg of room.packages) {
+          for (const part of pkg.parts) {
+            const severity = exceptionSeverityForValue(part.rawValue, tab);
+            if (!severity) continue;
+            items.push({
+              severity,
+              tab: tab.sheetName,
+              tower: tab.tower,
+              roomNo: room.roomNo,
+              line: room.line,
+              type: room.type,
+              package: pkg.name,
+              part: part.header,
+              rawValue: part.rawValue,
+              reason: exceptionReason(part.rawValue),
+            });
+          }
+        }
+      }
+      return { tab, items, missing: false };
+    }),
+  );
+
+  const items = perTab.flatMap((t) => t.items);
+  const counts = {
+    loud: items.filter((i) => i.severity === 'loud').length,
+    attention: items.filter((i) => i.severity === 'attention').length,
+    total: items.length,
+  };
+
+  return {
+    counts,
+    items,
+    tabsScanned: ROOM_TABS.map((t) => t.sheetName),
+    missingTabs: perTab.filter((t) => t.missing).map((t) => t.tab.sheetName),
+  };
+}
@@ -0,0 +1,259 @@
+// Aya Dashboard Expansion — daily snapshot store.
+// The live endpoints recompute from the sheet on every request and keep no
+// history; this job saves each tab's normalized rows (RoomRow[] / common-area
+// floors) once per day so trend and "what changed" views have something to
+// compare against.
+//
+// The job re-captures TODAY on every run, so a day's snapshot ends up holding
+// the last state seen that day, and a restart never leaves a gap. Each run also
+// checks sheet health and reconciles exception triage.
+
+import { and, asc, desc, eq } from 'drizzle-orm';
+import { db } from '../db';
+import { expansionSnapshots, type ExpansionSnapshot } from '@shared/schema';
+import { ROOM_TABS, COMMON_AREA_TABS } from '@shared/config/tabs';
+import type { CommonAreaFloor, RoomRow } from '@shared/types/dashboard';
+import {
+  getSpreadsheetId,
+  readSpreadsheetTitles,
+  readRoomTabRows,
+  readCommonAreaFloors,
+  collectExceptions,
+} from './expansionSheets';
+import { checkSheetHealth } from './sheetHealth';
+import { reconcileTriageRecords } from './exceptionTriage';
+import { hasLiveUpload } from './uploadedWorkbooks';
+
+const SNAPSHOT_INTERVAL_MS = 60 * 60 * 1000; // hourly
+const FIRST_RUN_DELAY_MS = 60 * 1000; // let the server finish starting first
+
+export interface SnapshotTabSummary {
+  tab: string;
+  kind: 'room' | 'commonArea';
+  itemCount: number;
+}
+
+export interface SnapshotSummary {
+  date: string;
+  capturedAt: string;
+  tabs: SnapshotTabSummary[];
+}
+
+export type SnapshotTab =
+  | (SnapshotTabSummary & { kind: 'room'; resolvedTitle: string | null; rooms: RoomRow[] })
+  | (SnapshotTabSummary & { kind: 'commonArea'; resolvedTitle: string | null; floors: CommonAreaFloor[] });
+
+export interface LoadedSnapshot {
+  date: string;
+  capturedAt: string;
+  tabs: SnapshotTab[];
+}
+
+export interface CaptureResult {
+  date: string;
+  tabs: SnapshotTabSummary[];
+  missingTabs: string[];
+}
+
+/** YYYY-MM-DD in the server's local time zone (TZ env). */
+export function localDateString(d: Date = new Date()): string {
+  const mm = String(d.getMonth() + 1).padStart(2, '0');
+  const dd = String(d.getDate()).padStart(2, '0');
+  return `${d.getFullYear()}-${mm}-${dd}`;
+}
+
+export function isSnapshotDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+// ---------------------------------------------------------------------------
+// Capture
+// ---------------------------------------------------------------------------
+
+/**
+ * Read every room tab and floor-based common-area tab from the live sheet and
+ * upsert them as the snapshot for `date`. Tabs that can't be resolved are
+ * skipped (and reported) — their previous snapshot for the day, if any, stays.
+ */
+export async function captureExpansionSnapshot(date: string = localDateString()): Promise<CaptureResult> {
+  const spreadsheetId = getSpreadsheetId();
+  if (!spreadsheetId) throw new Error('CONSTRUCTION_PROGRESS_SHEET_ID not configured');
+  if (hasLiveUpload(spreadsheetId)) throw new Error('An uploaded workbook is live; snapshots resume once it is cleared');
+
+  const { availableTitles } = await readSpreadsheetTitles(spreadsheetId);
+  const capturedAt = new Date();
+  const missingTabs: string[] = [];
+  const values: (typeof expansionSnapshots.$inferInsert)[] = [];
+
+  for (const tab of ROOM_TABS) {
+    const read = await readRoomTabRows(tab, spreadsheetId, availableTitles);
+    if (!read) {
+      missingTabs.push(tab.sheetName);
+      continue;
+    }
+    values.push({
+      snapshotDate: date,
+      tab: tab.sheetName,
+      kind: 'room',
+      resolvedTitle: read.resolvedTitle,
+      itemCount: read.rows.length,
+      data: read.rows,
+      capturedAt,
+    });
+  }
+
+  for (const tab of COMMON_AREA_TABS) {
+    if (tab.area === 'lobby') continue; // flat task list, no floors to snapshot
+    const read = await readCommonAreaFloors(tab, spreadsheetId, availableTitles);
+    if (!read) {
+      missingTabs.push(tab.sheetName);
+      continue;
+    }
+    values.push({
+      snapshotDate: date,
+      tab: tab.sheetName,
+      kind: 'commonArea',
+      resolvedTitle: read.resolvedTitle,
+      itemCount: read.floors.length,
+      data: read.floors,
+      capturedAt,
+    });
+  }
+
+  for (const row of values) {
+    await db
+      .insert(expansionSnapshots)
+      .values(row)
+      .onConflictDoUpdate({
+        target: [expansionSnapshots.snapshotDate, expansionSnapshots.tab],
+        set: {
+          kind: row.kind,
+          resolvedTitle: row.resolvedTitle,
+          itemCount: row.itemCount,
+          data: row.data,
+          capturedAt: row.capturedAt,
+        },
+      });
+  }
+
+  return {
+    date,
+    tabs: values.map((v) => ({ tab: v.tab, kind: v.kind as SnapshotTabSummary['kind'], itemCount: v.itemCount })),
+    missingTabs,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Read
+// ---------------------------------------------------------------------------
+
+/** Every captured day (newest first) with the tabs it holds — no row data. */
+export async function listExpansionSnapshots(): Promise<SnapshotSummary[]> {
+  const rows = await db
+    .select({
+      snapshotDate: expansionSnapshots.snapshotDate,
+      tab: expansionSnapshots.tab,
+      kind: expansionSnapshots.kind,
+      itemCount: expansionSnapshots.itemCount,
+      capturedAt: expansionSnapshots.capturedAt,
+    })
+    .from(expansionSnapshots)
+    .orderBy(desc(expansionSnapshots.snapshotDate), asc(expansionSnapshots.id));
+
+  const byDate = new Map<string, SnapshotSummary>();
+  for (const row of rows) {
+    let day = byDate.get(row.snapshotDate);
+    if (!day) {
+      day = { date: row.snapshotDate, capturedAt: row.capturedAt.toISOString(), tabs: [] };
+      byDate.set(row.snapshotDate, day);
+    }
+    if (row.capturedAt.toISOString() > day.capturedAt) day.capturedAt = row.capturedAt.toISOString();
+    day.tabs.push({ tab: row.tab, kind: row.kind as SnapshotTabSummary['kind'], itemCount: row.itemCount });
+  }
+  return [...byDate.values()];
+}
+
+function toSnapshotTab(row: ExpansionSnapshot): SnapshotTab {
+  const base = { tab: row.tab, itemCount: row.itemCount, resolvedTitle: row.resolvedTitle };
+  return row.kind === 'room'
+    ? { ...base, kind: 'room', rooms: row.data as RoomRow[] }
+    : { ...base, kind: 'commonArea', floors: row.data as CommonAreaFloor[] };
+}
+
+/**
+ * Load the snapshot for one date, optionally limited to one tab (registered
+ * sheetName). Returns null when nothing was captured that day.
+ */
+export async function loadExpansionSnapshot(date: string, tab?: string): Promise<LoadedSnapshot | null> {
+  const rows = await db
+    .select()
+    .from(expansionSnapshots)
+    .where(
+      tab
+        ? and(eq(expansionSnapshots.snapshotDate, date), eq(expansionSnapshots.tab, tab))
+        : eq(expansionSnapshots.snapshotDate, date),
+    )
+    .orderBy(asc(expansionSnapshots.id));
+  if (rows.length === 0) return null;
+
+  const capturedAt = rows.reduce((latest, r) => (r.capturedAt > latest ? r.capturedAt : latest), rows[0].capturedAt);
+  return { date, capturedAt: capturedAt.toISOString(), tabs: rows.map(toSnapshotTab) };
+}
+
+// ---------------------------------------------------------------------------
+// Schedule
+// ---------------------------------------------------------------------------
+
+let running = false;
+
+async function runScheduledCapture() {
+  if (running) return;
+  // A published upload is a PM's local copy, not the day's sheet — record nothing.
+  const spreadsheetId = getSpreadsheetId();
+  if (spreadsheetId && hasLiveUpload(spreadsheetId)) {
+    console.log('[snapshots] uploaded workbook is live; skipping capture, sheet health and triage');
+    return;
+  }
+  running = true;
+  try {
+    const result = await captureExpansionSnapshot();
+    const missing = result.missingTabs.length ? ` (missing: ${result.missingTabs.join(', ')})` : '';
+    console.log(`[snapshots] captured ${result.tabs.length} tabs for ${result.date}${missing}`);
+  } catch (err: any) {
+    console.error('[snapshots] capture failed:', err?.message ?? err);
+  }
+  try {
+    // Same (cached) reads as the capture — catches a restructured sheet within the
+    // hour even if nobody opens Sheet health.
+    await checkSheetHealth();
+  } catch (err: any) {
+    console.error('[snapshots] sheet health check failed:', err?.message ?? err);
+  }
+  try {
+    // Auto-close / reopen exception triage against the current flags.
+    await reconcileExceptionTriage();
+  } catch (err: any) {
+    console.error('[snapshots] triage reconciliation failed:', err?.message ?? err);
+  } finally {
+    running = false;
+  }
+}
+
+async function reconcileExceptionTriage() {
+  const spreadsheetId = getSpreadsheetId();
+  if (!spreadsheetId) return;
+  const { availableTitles } = await readSpreadsheetTitles(spreadsheetId);
+  const exceptions = await collectExceptions(spreadsheetId, availableTitles);
+  const readTabs = exceptions.tabsScanned.filter((t) => !exceptions.missingTabs.includes(t));
+  await reconcileTriageRecords(exceptions.items, readTabs);
+}
+
+/** Start the hourly capture loop. No-op when the Tracking Detail sheet isn't configured. */
+export function startExpansionSnapshotJob() {
+  if (!getSpreadsheetId()) {
+    console.log('[snapshots] CONSTRUCTION_PROGRESS_SHEET_ID not set; daily snapshots disabled');
+    return;
+  }
+  setTimeout(runScheduledCapture, FIRST_RUN_DELAY_MS).unref();
+  setInterval(runScheduledCapture, SNAPSHOT_INTERVAL_MS).unref();
+}
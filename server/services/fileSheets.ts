@@ -0,0 +1,374 @@
+import fs from 'fs';
+import path from 'path';
+import * as XLSX from 'xlsx';
+import type { SheetData, SheetRow } from './googleSheets';
+
+// File-backed stand-in for the Google Sheets API. Reads an exported .xlsx
+// workbook, or a folder of CSVs named after the tabs ("Budget.csv"), and answers
+// the same calls with the same shapes — so the dashboard runs with no Google
+// credentials and no network.
+//
+// SHEETS_FIXTURE_PATH may point at:
+//  • an .xlsx file — used for every spreadsheet ID
+//  • a folder holding "<spreadsheetId>.xlsx" or "<spreadsheetId>/*.csv" per ID
+//  • a folder of CSVs — used for every spreadsheet ID without its own entry
+
+interface Cell {
+  text: string; // what FORMATTED_VALUE would return
+  value: string | number | boolean; // what UNFORMATTED_VALUE would return
+  link?: string;
+}
+
+export interface Workbook {
+  title: string;
+  tabs: Map<string, Cell[][]>;
+}
+
+// Parsed workbooks, re-read when the file/folder changes on disk.
+const workbookCache = new Map<string, { mtimeMs: number; workbook: Workbook }>();
+
+function getFixtureRoot(): string {
+  const root = process.env.SHEETS_FIXTURE_PATH;
+  if (!root) {
+    throw new Error('SHEETS_FIXTURE_PATH not configured. Point it at an .xlsx workbook or a folder of CSVs.');
+  }
+  return path.resolve(root);
+}
+
+/** Whether `target` sits inside `root` (not the root itself, not outside it). */
+function isInside(root: string, target: string): boolean {
+  const rel = path.relative(root, target);
+  return rel !== '' && !rel.startsWith('..') && !path.isAbsolute(rel);
+}
+
+/**
+ * The .xlsx file or CSV folder that stands in for one spreadsheet ID. IDs come
+ * straight from the URL (/api/sheets/sheet/:spreadsheetId), so anything that
+ * could step out of the fixtures folder is refused.
+ */
+function resolveSource(spreadsheetId: string): string {
+  if (spreadsheetId === '' || /[\\/]/.test(spreadsheetId) || spreadsheetId.includes('..')) {
+    throw new Error(`Invalid spreadsheet ID: ${JSON.stringify(spreadsheetId)}`);
+  }
+  const root = getFixtureRoot();
+  if (!fs.existsSync(root)) throw new Error(`SHEETS_FIXTURE_PATH does not exist: ${root}`);
+  if (fs.statSync(root).isFile()) return root;
+
+  const perIdWorkbook = path.resolve(root, `${spreadsheetId}.xlsx`);
+  if (isInside(root, perIdWorkbook) && fs.existsSync(perIdWorkbook)) return perIdWorkbook;
+  const perIdFolder = path.resolve(root, spreadsheetId);
+  if (isInside(root, perIdFolder) && fs.existsSync(perIdFolder) && fs.statSync(perIdFolder).isDirectory()) return perIdFolder;
+  return root;
+}
+
+/** Latest mtime of a file, or of a folder's CSVs. */
+function sourceMtime(source: string): number {
+  const stat = fs.statSync(source);
+  if (stat.isFile()) return stat.mtimeMs;
+  return fs
+    .readdirSync(source)
+    .filter((f) => f.toLowerCase().endsWith('.csv'))
+    .reduce((latest, f) => Math.max(latest, fs.statSync(path.join(source, f)).mtimeMs), stat.mtimeMs);
+}
+
+function loadWorkbook(spreadsheetId: string): Workbook {
+  const source = resolveSource(spreadsheetId);
+  const mtimeMs = sourceMtime(source);
+  const cached = workbookCache.get(source);
+  if (cached && cached.mtimeMs === mtimeMs) return cached.workbook;
+
+  const workbook = fs.statSync(source).isFile() ? readXlsx(source) : readCsvFolder(source);
+  workbookCache.set(source, { mtimeMs, workbook });
+  return workbook;
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+function readXlsx(file: string): Workbook {
+  return parseXlsxBuffer(fs.readFileSync(file), path.basename(file, path.extname(file)));
+}
+
+// A tab's declared extent ("!ref") is taken from the file, so an upload could
+// claim millions of cells. Nothing reads past the expansion views' WIDE_RANGE
+// (A1:GZ1000), so nothing past it is parsed.
+const MAX_ROWS = 1000;
+const MAX_COLS = 208; // GZ
+const EMPTY_CELL: Cell = Object.freeze({ text: '', value: '' });
+
+/** Parse an .xlsx export (file contents or an upload) into a workbook. */
+export function parseXlsxBuffer(buffer: Buffer, title: string): Workbook {
+  const wb = XLSX.read(buffer, { type: 'buffer', cellDates: false });
+  const tabs = new Map<string, Cell[][]>();
+  for (const name of wb.SheetNames) {
+    const ws = wb.Sheets[name];
+    const grid: Cell[][] = [];
+    if (ws['!ref']) {
+      const range = XLSX.utils.decode_range(ws['!ref']);
+      const lastRow = Math.min(range.e.r, MAX_ROWS - 1);
+      const lastCol = Math.min(range.e.c, MAX_COLS - 1);
+      if (lastRow < range.e.r || lastCol < range.e.c) {
+        console.warn(`[file-sheets] ${title} / ${name}: only A1:GZ1000 of ${ws['!ref']} is read`);
+      }
+      for (let r = 0; r <= lastRow; r++) {
+        const row: Cell[] = [];
+        for (let c = 0; c <= lastCol; c++) {
+          const cell: XLSX.CellObject | undefined = ws[XLSX.utils.encode_cell({ r, c })];
+          if (!cell || cell.v === undefined || cell.v === null) {
+            row.push(EMPTY_CELL);
+            continue;
+          }
+          const value = cell.v instanceof Date ? cell.v.toISOString() : (cell.v as string | number | boolean);
+          const text = cell.w ?? (typeof value === 'boolean' ? (value ? 'TRUE' : 'FALSE') : String(value));
+          row.push({ text, value, link: cell.l?.Target });
+        }
+        grid.push(row);
+      }
+    }
+    tabs.set(name, grid);
+  }
+  return { title, tabs };
+}
+
+/** RFC 4180 CSV → rows of strings (quoted fields, "" escapes, CRLF/LF). */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * A CSV export holds formatted text only. Recover what UNFORMATTED_VALUE would
+ * give for the common cases: plain numbers, "$1,234.50" and "45%".
+ */
+function unformat(text: string): string | number {
+  const trimmed = text.trim();
+  if (trimmed === '') return '';
+  const negative = /^\(.*\)$/.test(trimmed) || trimmed.startsWith('-');
+  const stripped = trimmed.replace(/^\(|\)$/g, '').replace(/^-/, '').replace(/[$,\s]/g, '');
+  if (/^\d+(\.\d+)?%$/.test(stripped)) {
+    const n = Number(stripped.slice(0, -1)) / 100;
+    return negative ? -n : n;
+  }
+  if (/^\d+(\.\d+)?$/.test(stripped)) {
+    const n = Number(stripped);
+    return negative ? -n : n;
+  }
+  return text;
+}
+
+function readCsvFolder(folder: string): Workbook {
+  const tabs = new Map<string, Cell[][]>();
+  const files = fs
+    .readdirSync(folder)
+    .filter((f) => f.toLowerCase().endsWith('.csv'))
+    .sort();
+  for (const file of files) {
+    const text = fs.readFileSync(path.join(folder, file), 'utf-8').replace(/^\uFEFF/, '');
+    const grid = parseCsv(text).map((row) => row.map((t) => ({ text: t, value: unformat(t) })));
+    tabs.set(path.basename(file, path.extname(file)), grid);
+  }
+  return { title: path.basename(folder), tabs };
+}
+
+// ---------------------------------------------------------------------------
+// A1 ranges
+// ---------------------------------------------------------------------------
+
+interface ParsedRange {
+  sheet?: string;
+  startRow: number; // 0-based, inclusive
+  startCol: number;
+  endRow: number; // 0-based, inclusive (Infinity = open)
+  endCol: number;
+}
+
+function colIndex(letters: string): number {
+  let n = 0;
+  for (const ch of letters.toUpperCase()) n = n * 26 + (ch.charCodeAt(0) - 64);
+  return n - 1;
+}
+
+/** "'My Tab'!A1:GZ1000", "Tab!A:Z", "Tab", "A2:D" → sheet + 0-based bounds. */
+function parseRange(range: string): ParsedRange {
+  let sheet: string | undefined;
+  let cells = range;
+  const bang = range.lastIndexOf('!');
+  if (bang >= 0) {
+    sheet = range.slice(0, bang);
+    cells = range.slice(bang + 1);
+  } else if (!/^[A-Za-z]{1,3}\d*(:[A-Za-z]{1,3}\d*)?$/.test(range)) {
+    // A bare tab name, no cell reference
+    sheet = range;
+    cells = '';
+  }
+  if (sheet && sheet.startsWith("'") && sheet.endsWith("'")) sheet = sheet.slice(1, -1).replace(/''/g, "'");
+
+  const open: ParsedRange = { sheet, startRow: 0, startCol: 0, endRow: Infinity, endCol: Infinity };
+  if (!cells) return open;
+
+  const [from, to] = cells.split(':');
+  const parse = (ref: string) => {
+    const m = /^([A-Za-z]*)(\d*)$/.exec(ref);
+    if (!m) throw new Error(`Unsupported range "${range}"`);
+    return { col: m[1] ? colIndex(m[1]) : undefined, row: m[2] ? Number(m[2]) - 1 : undefined };
+  };
+  const a = parse(from);
+  const b = to ? parse(to) : a;
+  return {
+    sheet,
+    startRow: a.row ?? 0,
+    startCol: a.col ?? 0,
+    endRow: b.row ?? Infinity,
+    endCol: b.col ?? Infinity,
+  };
+}
+
+function findTab(workbook: Workbook, sheet: string | undefined): Cell[][] {
+  if (sheet === undefined) {
+    const first = workbook.tabs.values().next();
+    return first.done ? [] : first.value;
+  }
+  const exact = workbook.tabs.get(sheet);
+  if (exact) return exact;
+  const lower = sheet.toLowerCase().trim();
+  for (const [name, grid] of workbook.tabs) if (name.toLowerCase().trim() === lower) return grid;
+  throw new Error(`Unable to parse range: ${sheet} (no such tab in ${workbook.title})`);
+}
+
+/** Slice a range, then drop trailing blanks the way values.get does. */
+function sliceRange(workbook: Workbook, range: string): Cell[][] {
+  const r = parseRange(range);
+  const grid = findTab(workbook, r.sheet);
+  const rows = grid
+    .slice(r.startRow, r.endRow === Infinity ? undefined : r.endRow + 1)
+    .map((row) => {
+      const cells = row.slice(r.startCol, r.endCol === Infinity ? undefined : r.endCol + 1);
+      let last = cells.length;
+      while (last > 0 && cells[last - 1].text === '' && !cells[last - 1].link) last--;
+      return cells.slice(0, last);
+    });
+  let lastRow = rows.length;
+  while (lastRow > 0 && rows[lastRow - 1].length === 0) lastRow--;
+  return rows.slice(0, lastRow);
+}
+
+function toSheetData(values: (string | number | boolean)[][]): SheetData {
+  if (values.length === 0) return { headers: [], rows: [], rawValues: [] };
+  const headers = values[0].map(String);
+  const rows = values.slice(1).map((row) => {
+    const obj: SheetRow = {};
+    headers.forEach((header, index) => {
+      const value = row[index];
+      if (value !== undefined && value !== '') {
+        const num = Number(value);
+        obj[header] = isNaN(num) ? value : num;
+      } else {
+        obj[header] = null;
+      }
+    });
+    return obj;
+  });
+  return { headers, rows, rawValues: values as string[][] };
+}
+
+// ---------------------------------------------------------------------------
+// Reads over one parsed workbook
+// ---------------------------------------------------------------------------
+
+export function readWorkbookRange(
+  workbook: Workbook,
+  range: string,
+  valueRenderOption?: 'FORMATTED_VALUE' | 'UNFORMATTED_VALUE'
+): SheetData {
+  const cells = sliceRange(workbook, range);
+  const unformatted = valueRenderOption === 'UNFORMATTED_VALUE';
+  return toSheetData(cells.map((row) => row.map((c) => (unformatted ? c.value : c.text))));
+}
+
+export function readWorkbookHyperlinks(
+  workbook: Workbook,
+  sheetTitle: string,
+  startRow: number,
+  endRow: number,
+  endCol: string
+): SheetData {
+  const cells = sliceRange(workbook, `'${sheetTitle}'!A${startRow}:${endCol}${endRow}`);
+  // Hyperlinks take priority over display text, as with the Sheets API
+  return toSheetData(cells.map((row) => row.map((c) => c.link || c.text)));
+}
+
+export function workbookInfo(workbook: Workbook) {
+  return {
+    title: workbook.title,
+    sheets: [...workbook.tabs.keys()].map((title, index) => ({ id: index, title, index })),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Provider surface (mirrors googleSheets.ts)
+// ---------------------------------------------------------------------------
+
+export async function fetchSheetData(
+  spreadsheetId: string,
+  range: string,
+  valueRenderOption?: 'FORMATTED_VALUE' | 'UNFORMATTED_VALUE'
+): Promise<SheetData> {
+  return readWorkbookRange(loadWorkbook(spreadsheetId), range, valueRenderOption);
+}
+
+export async function fetchMultipleRanges(
+  spreadsheetId: string,
+  ranges: string[]
+): Promise<Map<string, SheetData>> {
+  const workbook = loadWorkbook(spreadsheetId);
+  return new Map(ranges.map((range) => [range, readWorkbookRange(workbook, range)]));
+}
+
+export async function fetchSheetDataWithHyperlinks(
+  spreadsheetId: string,
+  sheetTitle: string,
+  startRow: number,
+  endRow: number,
+  endCol: string
+): Promise<SheetData> {
+  return readWorkbookHyperlinks(loadWorkbook(spreadsheetId), sheetTitle, startRow, endRow, endCol);
+}
+
+export async function getSpreadsheetInfo(spreadsheetId: string) {
+  return workbookInfo(loadWorkbook(spreadsheetId));
+}
@@ -23,6 +23,14 @@ export interface DriveFile {
   modifiedTime: string | null;
 }
 
+export interface DriveFileMeta {
+  id: string;
+  name: string;
+  mimeType: string;
+  modifiedTime: string | null;
+  trashed: boolean;
+}
+
 // Shared auth instance for both Sheets and Drive
 function getGoogleAuth() {
   if (process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL && process.env.GOOGLE_PRIVATE_KEY) {
@@ -75,6 +83,126 @@ function getGoogleDriveClient(): drive_v3.Drive {
   throw new Error('Google Drive credentials not configured. Set either GOOGLE_SERVICE_ACCOUNT_EMAIL + GOOGLE_PRIVATE_KEY or GOOGLE_API_KEY');
 }
 
+// ── Quota, retries and call accounting ──────────────────────────────────────
+// Every Google call goes through callGoogle(): Sheets reads first take a token
+// from a per-process bucket sized to the Sheets read quota (60 reads/min per
+// user by default — the service account is one user), then 429/5xx and network
+// errors are retried with exponential backoff and full jitter. Per-endpoint
+// counters are exposed on /api/health.
+
+const SHEETS_READS_PER_MINUTE = Number(process.env.SHEETS_READ_QUOTA_PER_MIN) || 60;
+const MAX_ATTEMPTS = 5;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 30_000;
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
+const RETRYABLE_CODES = new Set(['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EAI_AGAIN', 'ENOTFOUND']);
+
+type GoogleEndpoint =
+  | 'sheets.values.get'
+  | 'sheets.values.batchGet'
+  | 'sheets.spreadsheets.get'
+  | 'drive.files.list'
+  | 'drive.files.get'
+  | 'drive.files.export';
+
+interface EndpointStats {
+  calls: number;
+  retries: number;
+  failures: number;
+  lastError: string | null;
+  lastErrorAt: string | null;
+}
+
+const endpointStats = new Map<GoogleEndpoint, EndpointStats>();
+
+// Token bucket: starts full, refills continuously. Waiters are served in order.
+const bucketCapacity = SHEETS_READS_PER_MINUTE;
+const refillPerMs = SHEETS_READS_PER_MINUTE / 60_000;
+let bucketTokens = bucketCapacity;
+let bucketRefilledAt = Date.now();
+let bucketQueue: Promise<void> = Promise.resolve();
+let bucketWaits = 0;
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+function refillBucket() {
+  const now = Date.now();
+  bucketTokens = Math.min(bucketCapacity, bucketTokens + (now - bucketRefilledAt) * refillPerMs);
+  bucketRefilledAt = now;
+}
+
+function takeSheetsReadToken(): Promise<void> {
+  const turn = bucketQueue.then(async () => {
+    refillBucket();
+    if (bucketTokens < 1) {
+      bucketWaits++;
+      await sleep(Math.ceil((1 - bucketTokens) / refillPerMs));
+      refillBucket();
+    }
+    bucketTokens -= 1;
+  });
+  bucketQueue = turn.catch(() => {});
+  return turn;
+}
+
+function statusOf(err: any): number | undefined {
+  const status = err?.response?.status ?? err?.status ?? err?.code;
+  return typeof status === 'number' ? status : undefined;
+}
+
+function isRetryable(err: any): boolean {
+  const status = statusOf(err);
+  if (status !== undefined) return RETRYABLE_STATUS.has(status);
+  return typeof err?.code === 'string' && RETRYABLE_CODES.has(err.code);
+}
+
+/** Delay before retry `attempt` (1-based): Retry-After when Google sends one, else full jitter. */
+function backoffDelay(err: any, attempt: number): number {
+  const retryAfter = Number(err?.response?.headers?.['retry-after']);
+  if (Number.isFinite(retryAfter) && retryAfter > 0) return Math.min(retryAfter * 1000, MAX_DELAY_MS);
+  return Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+}
+
+async function callGoogle<T>(endpoint: GoogleEndpoint, request: () => Promise<T>): Promise<T> {
+  let stats = endpointStats.get(endpoint);
+  if (!stats) {
+    stats = { calls: 0, retries: 0, failures: 0, lastError: null, lastErrorAt: null };
+    endpointStats.set(endpoint, stats);
+  }
+  stats.calls++;
+
+  for (let attempt = 1; ; attempt++) {
+    if (endpoint.startsWith('sheets.')) await takeSheetsReadToken();
+    try {
+      return await request();
+    } catch (err: any) {
+      if (attempt >= MAX_ATTEMPTS || !isRetryable(err)) {
+        stats.failures++;
+        stats.lastError = `${statusOf(err) ?? err?.code ?? 'error'}: ${err?.message ?? String(err)}`;
+        stats.lastErrorAt = new Date().toISOString();
+        throw err;
+      }
+      stats.retries++;
+      const delay = backoffDelay(err, attempt);
+      console.warn(`[google] ${endpoint} failed (${statusOf(err) ?? err?.code}), retry ${attempt}/${MAX_ATTEMPTS - 1} in ${Math.round(delay)}ms`);
+      await sleep(delay);
+    }
+  }
+}
+
+/** Call/retry/failure counters per endpoint and the Sheets read bucket, for /api/health. */
+export function getGoogleApiStats() {
+  refillBucket();
+  return {
+    sheetsReadBucket: {
+      capacityPerMinute: bucketCapacity,
+      available: Math.floor(bucketTokens),
+      waits: bucketWaits,
+    },
+    endpoints: Object.fromEntries(endpointStats),
+  };
+}
+
 // List only immediate subfolders of a Drive folder (no recursion, folders only)
 export async function listDriveSubfolders(parentId: string): Promise<Array<{ id: string; name: string }>> {
   const drive = getGoogleDriveClient();
@@ -82,13 +210,13 @@ export async function listDriveSubfolders(parentId: string): Promise<Array<{ id:
   let pageToken: string | undefined;
 
   do {
-    const response = await drive.files.list({
+    const response = await callGoogle('drive.files.list', () => drive.files.list({
       q: `'${parentId}' in parents and trashed = false and mimeType = 'application/vnd.google-apps.folder'`,
       fields: 'nextPageToken, files(id, name)',
       pageSize: 100,
       pageToken,
       orderBy: 'name',
-    });
+    }));
     const files = response.data.files || [];
     folders.push(...files.map(f => ({ id: f.id!, name: f.name! })));
     pageToken = response.data.nextPageToken || undefined;
@@ -105,13 +233,13 @@ export async function listDriveFiles(folderId: string): Promise<DriveFile[]> {
   async function listFolder(parentId: string) {
     let pageToken: string | undefined;
     do {
-      const response = await drive.files.list({
+      const response = await callGoogle('drive.files.list', () => drive.files.list({
         q: `'${parentId}' in parents and trashed = false`,
         fields: 'nextPageToken, files(id, name, mimeType, thumbnailLink, webViewLink, size, createdTime, modifiedTime)',
         pageSize: 100,
         pageToken,
         orderBy: 'name',
-      });
+      }));
 
       const files = response.data.files || [];
       for (const file of files) {
@@ -145,10 +273,10 @@ export async function getDriveFileStream(fileId: string): Promise<{ stream: Node
   const drive = getGoogleDriveClient();
 
   // Get file metadata first
-  const meta = await drive.files.get({
+  const meta = await callGoogle('drive.files.get', () => drive.files.get({
     fileId,
     fields: 'name, mimeType, size',
-  });
+  }));
 
   const originalMimeType = meta.data.mimeType || 'application/octet-stream';
   const fileName = meta.data.name || 'file';
@@ -156,10 +284,10 @@ export async function getDriveFileStream(fileId: string): Promise<{ stream: Node
   // Google Docs Editor files (Sheets, Docs, Slides, Drawings, etc.) cannot be downloaded
   // directly — they must be exported to a standard format.
   if (originalMimeType.startsWith('application/vnd.google-apps.')) {
-    const response = await drive.files.export(
+    const response = await callGoogle('drive.files.export', () => drive.files.export(
       { fileId, mimeType: 'application/pdf' },
       { responseType: 'stream' }
-    );
+    ));
 
     return {
       stream: response.data as unknown as NodeJS.ReadableStream,
@@ -170,10 +298,10 @@ export async function getDriveFileStream(fileId: string): Promise<{ stream: Node
   }
 
   // Regular binary files (PDFs, images, etc.) — download directly
-  const response = await drive.files.get(
+  const response = await callGoogle('drive.files.get', () => drive.files.get(
     { fileId, alt: 'media' },
     { responseType: 'stream' }
-  );
+  ));
 
   return {
     stream: response.data as unknown as NodeJS.ReadableStream,
@@ -183,6 +311,28 @@ export async function getDriveFileStream(fileId: string): Promise<{ stream: Node
   };
 }
 
+// Metadata for one Drive file (for link audits). Null when the file doesn't
+// exist or isn't shared with the service account — Drive answers 404 for both.
+export async function getDriveFileMetadata(fileId: string): Promise<DriveFileMeta | null> {
+  const drive = getGoogleDriveClient();
+  try {
+    const response = await callGoogle('drive.files.get', () => drive.files.get({
+      fileId,
+      fields: 'id, name, mimeType, modifiedTime, trashed',
+    }));
+    return {
+      id: response.data.id || fileId,
+      name: response.data.name || 'Unknown',
+      mimeType: response.data.mimeType || 'application/octet-stream',
+      modifiedTime: response.data.modifiedTime || null,
+      trashed: response.data.trashed ?? false,
+    };
+  } catch (err: any) {
+    if (statusOf(err) === 404) return null;
+    throw err;
+  }
+}
+
 // Fetch data from a Google Sheet
 export async function fetchSheetData(
   spreadsheetId: string,
@@ -193,11 +343,11 @@ export async function fetchSheetData(
 ): Promise<SheetData> {
   const sheets = getGoogleSheetsClient();
 
-  const response = await sheets.spreadsheets.values.get({
+  const response = await callGoogle('sheets.values.get', () => sheets.spreadsheets.values.get({
     spreadsheetId,
     range,
     ...(valueRenderOption ? { valueRenderOption } : {}),
-  });
+  }));
 
   const values = response.data.values || [];
 
@@ -231,10 +381,10 @@ export async function fetchMultipleRanges(
 ): Promise<Map<string, SheetData>> {
   const sheets = getGoogleSheetsClient();
 
-  const response = await sheets.spreadsheets.values.batchGet({
+  const response = await callGoogle('sheets.values.batchGet', () => sheets.spreadsheets.values.batchGet({
     spreadsheetId,
     ranges,
-  });
+  }));
 
   const result = new Map<string, SheetData>();
 
@@ -280,11 +430,11 @@ export async function fetchSheetDataWithHyperlinks(
   const sheets = getGoogleSheetsClient();
   const range = `'${sheetTitle}'!A${startRow}:${endCol}${endRow}`;
 
-  const response = await sheets.spreadsheets.get({
+  const response = await callGoogle('sheets.spreadsheets.get', () => sheets.spreadsheets.get({
     spreadsheetId,
     ranges: [range],
     fields: 'sheets.data.rowData.values(formattedValue,hyperlink)',
-  });
+  }));
 
   const rowData = response.data.sheets?.[0]?.data?.[0]?.rowData || [];
   if (rowData.length === 0) {
@@ -326,10 +476,10 @@ export async function fetchSheetDataWithHyperlinks(
 export async function getSpreadsheetInfo(spreadsheetId: string) {
   const sheets = getGoogleSheetsClient();
 
-  const response = await sheets.spreadsheets.get({
+  const response = await callGoogle('sheets.spreadsheets.get', () => sheets.spreadsheets.get({
     spreadsheetId,
     fields: 'properties.title,sheets.properties',
-  });
+  }));
 
   return {
     title: response.data.properties?.title,
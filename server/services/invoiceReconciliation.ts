@@ -0,0 +1,85 @@
+// Invoice reconciliation — the invoice audit (CONSTRUCTION_SHEET_ID, the same
+// rows /api/sheets/construction serves) joined to the budget through
+// vendor_budget_mappings. Read live on every request, like the cash flow, so a
+// newly audited invoice shows up against its line straight away.
+
+import { asc, eq } from 'drizzle-orm';
+import { db } from '../db';
+import { vendorBudgetMappings, type UpsertVendorBudgetMapping } from '@shared/schema';
+import {
+  auditInvoicesFromRows,
+  buildInvoiceReconciliation,
+  vendorKey,
+  type BudgetSummary,
+  type InvoiceReconciliation,
+  type VendorMappingInput,
+} from '@shared/lib';
+import { fetchSheetData } from './sheetProvider';
+
+export interface VendorMappingEntry extends VendorMappingInput {
+  id: number;
+  itemName: string | null;
+  updatedBy: string | null;
+  updatedAt: string;
+}
+
+export interface ReconciliationReport extends InvoiceReconciliation {
+  mappings: VendorMappingEntry[];
+  /** Every vendor on the audit, for the mapping picker. */
+  auditVendors: string[];
+}
+
+export function getConstructionSheetId(): string | undefined {
+  return process.env.CONSTRUCTION_SHEET_ID;
+}
+
+export async function listVendorMappings(): Promise<VendorMappingEntry[]> {
+  const rows = await db.select().from(vendorBudgetMappings).orderBy(asc(vendorBudgetMappings.vendorKey));
+  return rows.map((r) => ({
+    id: r.id,
+    vendor: r.vendor,
+    itemKey: r.itemKey,
+    itemName: r.itemName,
+    category: r.category,
+    updatedBy: r.updatedBy,
+    updatedAt: r.updatedAt.toISOString(),
+  }));
+}
+
+/** Create or replace a vendor's mapping. Only the chosen target is kept. */
+export async function saveVendorMapping(input: UpsertVendorBudgetMapping, by: string | null): Promise<void> {
+  const values = {
+    vendor: input.vendor,
+    vendorKey: vendorKey(input.vendor),
+    itemKey: input.itemKey,
+    itemName: input.itemKey === null ? null : input.itemName,
+    category: input.itemKey === null ? input.category : null,
+    updatedBy: by,
+    updatedAt: new Date(),
+  };
+  await db
+    .insert(vendorBudgetMappings)
+    .values(values)
+    .onConflictDoUpdate({ target: vendorBudgetMappings.vendorKey, set: values });
+}
+
+/** Resolves false when no mapping has that id. */
+export async function deleteVendorMapping(id: number): Promise<boolean> {
+  const deleted = await db.delete(vendorBudgetMappings).where(eq(vendorBudgetMappings.id, id)).returning();
+  return deleted.length > 0;
+}
+
+/** Reconcile the audit in `spreadsheetId` against `summary`'s line items and categories. */
+export async function reconciliationReport(spreadsheetId: string, summary: BudgetSummary): Promise<ReconciliationReport> {
+  const [data, mappings] = await Promise.all([fetchSheetData(spreadsheetId, 'Sheet1!A:Z'), listVendorMappings()]);
+  const invoices = auditInvoicesFromRows(data.rows);
+
+  const auditVendors = new Map<string, string>();
+  for (const inv of invoices) if (!auditVendors.has(vendorKey(inv.vendor))) auditVendors.set(vendorKey(inv.vendor), inv.vendor);
+
+  return {
+    ...buildInvoiceReconciliation(summary.items, summary.categories, invoices, mappings),
+    mappings,
+    auditVendors: [...auditVendors.values()].sort((a, b) => a.localeCompare(b)),
+  };
+}
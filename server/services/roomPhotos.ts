@@ -0,0 +1,40 @@
+// Which Drive folders and files the construction tier may reach through the
+// /sheets/drive-files and /sheets/drive-file proxies: the room photo folders
+// linked from the Construction Progress sheet, and the files listed out of
+// them. Anything else in Drive — the vendor invoices above all — needs the
+// budget tier. In-process only: filled as construction-progress is read and as
+// room folders are listed, so a restart just means reopening the page.
+
+import type { DriveFile } from './googleSheets';
+
+const roomFolderIds = new Set<string>();
+const roomFileIds = new Set<string>();
+
+/** The folder id in a Drive folder link (/folders/<id> or ?id=<id>), or null. */
+export function driveFolderIdFromUrl(url: string): string | null {
+  const folderMatch = url.match(/\/folders\/([a-zA-Z0-9_-]+)/);
+  if (folderMatch) return folderMatch[1];
+  const openMatch = url.match(/[?&]id=([a-zA-Z0-9_-]+)/);
+  return openMatch ? openMatch[1] : null;
+}
+
+/** Record the room folder links read from the Construction Progress sheet. */
+export function noteRoomFolders(urls: Iterable<string>) {
+  for (const url of urls) {
+    const id = driveFolderIdFromUrl(url);
+    if (id) roomFolderIds.add(id);
+  }
+}
+
+/** Record the files listed out of a room folder. */
+export function noteRoomFiles(files: readonly DriveFile[]) {
+  for (const f of files) roomFileIds.add(f.id);
+}
+
+export function isRoomFolder(folderId: string): boolean {
+  return roomFolderIds.has(folderId);
+}
+
+export function isRoomFile(fileId: string): boolean {
+  return roomFileIds.has(fileId);
+}
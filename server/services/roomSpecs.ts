@@ -0,0 +1,97 @@
+// Room Specs sheet ("ROOM FEATURES" tab) — one row per room with its type,
+// size and Yes/No features. Read by /api/sheets/room-overview and joined onto
+// the Floor → Room rollup by /api/expansion/rollup/specs.
+
+import { fetchSheetData, getSpreadsheetInfo } from './sheetProvider';
+import type { RoomSpec } from '@shared/types/dashboard';
+
+export function getRoomOverviewSheetId(): string | undefined {
+  return process.env.ROOM_OVERVIEW_SHEET_ID;
+}
+
+/** Read and parse the "ROOM FEATURES" tab. Rooms without a Room # are dropped. */
+export async function readRoomSpecs(spreadsheetId: string): Promise<RoomSpec[]> {
+  // Fetch sheet info to find exact tab name
+  let tabName = 'ROOM FEATURES';
+  try {
+    const info = await getSpreadsheetInfo(spreadsheetId);
+    const matchingSheet = info.sheets?.find(
+      (s: any) => s.title?.toLowerCase().trim() === 'room features'
+    );
+    if (matchingSheet?.title) {
+      tabName = matchingSheet.title;
+    } else {
+      console.warn('[room-overview] "ROOM FEATURES" tab not found, available tabs:', info.sheets?.map((s: any) => s.title));
+    }
+  } catch (infoErr: any) {
+    console.warn('[room-overview] Could not fetch sheet info:', infoErr.message);
+  }
+
+  // Row 1 has headers, Row 2+ has data
+  // Fetch starting from row 2 (data only) to avoid header-parsing issues.
+  // We use fixed column positions since we know the exact layout:
+  // A(0)=FLOOR, B(1)=ROOM#, C(2)=AREA, D(3)=SIZE CATEGORY, E(4)=ROOM TYPE,
+  // F(5)=BED SIZE, G(6)=ADA, H(7)=Connecting Door, I(8)=Sink Style, J(9)=Sink Size,
+  // K(10)=Shower With Glass Door, L(11)=Shower Window, M(12)=Moss Wall,
+  // N(13)=Mirror Sliding Door, O(14)=Moxy Bar, P(15)=Mini Bar Size,
+  // Q(16)=Speakeasy, R(17)=Party Box Headboard, S(18)=Curtain Type,
+  // T(19)=NIGHT STANDS, U(20)=TV Size
+  const range = `'${tabName}'!A2:U500`;
+  const data = await fetchSheetData(spreadsheetId, range);
+
+  // rawValues contains ALL rows from the API response (including the first row
+  // which fetchSheetData treats as headers). We need ALL rows as data.
+  const allRows = data?.rawValues || [];
+
+  const getValue = (row: any[], idx: number): string => {
+    if (idx < 0 || idx >= row.length) return '';
+    return (row[idx] || '').toString().trim();
+  };
+
+  const rooms: RoomSpec[] = allRows.map((row, index) => ({
+    id: index + 2,
+    floor: parseInt(getValue(row, 0)) || 0,       // A - FLOOR
+    roomNumber: parseInt(getValue(row, 1)) || 0,   // B - ROOM #
+    area: parseInt(getValue(row, 2)) || 0,         // C - AREA (Sq ft)
+    sizeCategory: getValue(row, 3),                // D - SIZE CATEGORY
+    roomType: getValue(row, 4),                    // E - ROOM TYPE
+    bedSize: getValue(row, 5),                     // F - BED SIZE
+    ada: getValue(row, 6),                         // G - ADA
+    connectingDoor: getValue(row, 7),              // H - Connecting Door
+    sinkStyle: getValue(row, 8),                   // I - Sink Style
+    sinkSize: getValue(row, 9),                    // J - Sink Size
+    showerWithGlassDoor: getValue(row, 10),        // K - Shower With Glass Door
+    showerWindow: getValue(row, 11),               // L - Shower Window
+    mossWall: getValue(row, 12),                   // M - Moss Wall
+    mirrorSlidingDoor: getValue(row, 13),          // N - Mirror Sliding Door
+    moxyBar: getValue(row, 14),                    // O - Moxy Bar
+    miniBarSize: getValue(row, 15),                // P - Mini Bar Size
+    speakeasy: getValue(row, 16),                  // Q - Speakeasy
+    partyBoxHeadboard: getValue(row, 17),          // R - Party Box Headboard
+    curtainType: getValue(row, 18),                // S - Curtain Type
+    nightStands: getValue(row, 19),                // T - NIGHT STANDS
+    tvSize: getValue(row, 20),                     // U - TV Size
+  }));
+
+  // Forward-fill FLOOR column: Google Sheets merged cells only return a value
+  // for the first cell in the merge. Subsequent rows get empty strings.
+  // We carry the last non-zero floor value forward to fill the gaps.
+  let lastFloor = 0;
+  for (const room of rooms) {
+    if (room.floor > 0) {
+      lastFloor = room.floor;
+    } else {
+      room.floor = lastFloor;
+    }
+  }
+
+  // Fallback: derive floor from room number (401→4, 502→5, 612→6).
+  // Handles cases where the merged cell anchor is outside our fetch range.
+  for (const room of rooms) {
+    if (room.floor === 0 && room.roomNumber > 0) {
+      room.floor = Math.floor(room.roomNumber / 100);
+    }
+  }
+
+  return rooms.filter(r => r.roomNumber > 0);
+}
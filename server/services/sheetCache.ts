@@ -0,0 +1,168 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Request, Response, NextFunction } from 'express';
+
+// One in-process cache for everything read from Google (sheet ranges, sheet
+// metadata, the Vendor Invoices Drive listing), keyed by spreadsheet + range.
+// Per-folder room photo listings (/sheets/drive-files) are not cached.
+//
+//  • Fresh (younger than the source's TTL) → served from memory.
+//  • Stale (older than TTL, younger than MAX_STALE_MS) → served immediately while
+//    one background refresh runs (stale-while-revalidate).
+//  • Missing / too old → loaded; concurrent callers share the same in-flight load.
+//
+// Each /api request tracks the oldest entry it used and reports it in the
+// X-Data-Age response header (seconds), so the UI can say how fresh numbers are.
+// `?refresh=true` on any /api request bypasses the cache for that request.
+
+const DEFAULT_TTL_MS = 2 * 60 * 1000;
+const MAX_STALE_MS = 60 * 60 * 1000;
+
+/** Per-source TTLs, matched by the env var holding the spreadsheet/folder ID. */
+const SOURCE_TTLS: { envVar: string; ttlMs: number }[] = [
+  { envVar: 'CONSTRUCTION_PROGRESS_SHEET_ID', ttlMs: 2 * 60 * 1000 }, // edited all day on site
+  { envVar: 'CONSTRUCTION_SHEET_ID', ttlMs: 2 * 60 * 1000 },
+  { envVar: 'CONTAINER_SCHEDULE_SHEET_ID', ttlMs: 5 * 60 * 1000 },
+  { envVar: 'WEEKLY_GOALS_SHEET_ID', ttlMs: 5 * 60 * 1000 },
+  { envVar: 'BUDGET_SHEET_ID', ttlMs: 10 * 60 * 1000 },
+  { envVar: 'TIMELINE_SHEET_ID', ttlMs: 10 * 60 * 1000 },
+  { envVar: 'ROOM_OVERVIEW_SHEET_ID', ttlMs: 60 * 60 * 1000 }, // room specs rarely change
+  { envVar: 'VENDOR_INVOICES_DRIVE_ID', ttlMs: 5 * 60 * 1000 },
+];
+
+function ttlFor(sourceId: string): number {
+  return SOURCE_TTLS.find((s) => process.env[s.envVar] === sourceId)?.ttlMs ?? DEFAULT_TTL_MS;
+}
+
+interface Entry {
+  sourceId: string;
+  value: unknown;
+  fetchedAt: number;
+  /** In-flight load for this key, shared by every caller that needs it. */
+  pending?: Promise<unknown>;
+}
+
+const entries = new Map<string, Entry>();
+
+// ---------------------------------------------------------------------------
+// Per-request context
+// ---------------------------------------------------------------------------
+
+interface RequestContext {
+  bypass: boolean;
+  oldestFetchedAt: number | null;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+function noteFetchedAt(fetchedAt: number) {
+  const ctx = requestContext.getStore();
+  if (ctx && (ctx.oldestFetchedAt === null || fetchedAt < ctx.oldestFetchedAt)) ctx.oldestFetchedAt = fetchedAt;
+}
+
+/**
+ * Mount at "/api". Runs the request inside a cache context and stamps
+ * X-Data-Age (seconds since the oldest cached read it used) on the response.
+ */
+export function trackDataAge(req: Request, res: Response, next: NextFunction) {
+  const ctx: RequestContext = { bypass: req.query.refresh === 'true', oldestFetchedAt: null };
+
+  const originalWriteHead = res.writeHead;
+  res.writeHead = function (this: Response, ...args: any[]) {
+    if (ctx.oldestFetchedAt !== null && !this.headersSent) {
+      this.setHeader('X-Data-Age', String(Math.max(0, Math.round((Date.now() - ctx.oldestFetchedAt) / 1000))));
+    }
+    return (originalWriteHead as any).apply(this, args);
+  } as typeof res.writeHead;
+
+  requestContext.run(ctx, next);
+}
+
+// ---------------------------------------------------------------------------
+// Cache
+// ---------------------------------------------------------------------------
+
+function load<T>(key: string, sourceId: string, loader: () => Promise<T>): Promise<T> {
+  const existing = entries.get(key);
+  if (existing?.pending) return existing.pending as Promise<T>;
+
+  const pending = loader().then(
+    (value) => {
+      entries.set(key, { sourceId, value, fetchedAt: Date.now() });
+      return value;
+    },
+    (err) => {
+      const entry = entries.get(key);
+      if (entry) delete entry.pending;
+      else entries.delete(key);
+      throw err;
+    },
+  );
+
+  if (existing) existing.pending = pending;
+  else entries.set(key, { sourceId, value: undefined, fetchedAt: 0, pending });
+  return pending;
+}
+
+/**
+ * Read through the cache. `sourceId` is the spreadsheet (or Drive folder) ID —
+ * it picks the TTL and lets a whole source be invalidated; `key` must identify
+ * the exact read (source + range + options).
+ */
+export async function cachedRead<T>(sourceId: string, key: string, loader: () => Promise<T>): Promise<T> {
+  const ctx = requestContext.getStore();
+  const entry = entries.get(key);
+  const hasValue = entry !== undefined && entry.fetchedAt > 0;
+
+  if (ctx?.bypass || !hasValue) {
+    const value = await load(key, sourceId, loader);
+    noteFetchedAt(entries.get(key)?.fetchedAt ?? Date.now());
+    return value;
+  }
+
+  const age = Date.now() - entry.fetchedAt;
+  if (age >= MAX_STALE_MS) {
+    const value = await load(key, sourceId, loader);
+    noteFetchedAt(entries.get(key)?.fetchedAt ?? Date.now());
+    return value;
+  }
+  if (age >= ttlFor(sourceId) && !entry.pending) {
+    load(key, sourceId, loader).catch((err) => {
+      console.error(`[cache] background refresh failed for ${key}:`, err?.message ?? err);
+    });
+  }
+  noteFetchedAt(entry.fetchedAt);
+  return entry.value as T;
+}
+
+/** Drop cached reads — everything, or one source. Returns how many were dropped. */
+export function invalidateCache(sourceId?: string): number {
+  let dropped = 0;
+  for (const [key, entry] of entries) {
+    if (sourceId !== undefined && entry.sourceId !== sourceId) continue;
+    if (entry.pending) continue; // let in-flight loads land; they are fresh anyway
+    entries.delete(key);
+    dropped++;
+  }
+  return dropped;
+}
+
+/** Entry counts and oldest age per source, for the admin refresh action. */
+export function describeCache() {
+  const now = Date.now();
+  const bySource = new Map<string, { entries: number; oldestAgeSeconds: number; ttlSeconds: number }>();
+  for (const entry of entries.values()) {
+    if (entry.fetchedAt === 0) continue;
+    const ageSeconds = Math.round((now - entry.fetchedAt) / 1000);
+    const s = bySource.get(entry.sourceId) ?? { entries: 0, oldestAgeSeconds: 0, ttlSeconds: Math.round(ttlFor(entry.sourceId) / 1000) };
+    s.entries++;
+    s.oldestAgeSeconds = Math.max(s.oldestAgeSeconds, ageSeconds);
+    bySource.set(entry.sourceId, s);
+  }
+  return {
+    sources: [...bySource.entries()].map(([sourceId, s]) => ({
+      sourceId,
+      source: SOURCE_TTLS.find((x) => process.env[x.envVar] === sourceId)?.envVar ?? null,
+      ...s,
+    })),
+  };
+}
@@ -0,0 +1,149 @@
+// Aya Dashboard Expansion — sheet health.
+// Diffs each room tab's live structure against its expected taxonomy and keeps
+// a history of its column layout: a sheet_layout_observations row is written
+// only when a tab's layout differs from the last one stored, so column
+// insertions and renamed packages show up with a date instead of as a broken view.
+// Checked on every Sheet health read and after each hourly snapshot.
+
+import { asc, eq } from 'drizzle-orm';
+import { db } from '../db';
+import { sheetLayoutObservations } from '@shared/schema';
+import { ROOM_TABS } from '@shared/config/tabs';
+import { getExpectedTaxonomy } from '@shared/config/expectedTaxonomies';
+import {
+  describeLayout,
+  describeLayoutChange,
+  diffTaxonomy,
+  discoverRoomTabStructure,
+  layoutSignature,
+} from '@shared/lib';
+import type { RoomTab, TabLayout, TaxonomyDrift } from '@shared/types/dashboard';
+import { getSpreadsheetId, readGrid, readSpreadsheetTitles, resolveActualTitle } from './expansionSheets';
+import { hasLiveUpload } from './uploadedWorkbooks';
+
+export interface TabHealth {
+  tab: string;
+  tower: RoomTab['tower'];
+  type: RoomTab['type'];
+  resolvedTitle: string | null;
+  drift: TaxonomyDrift | null; // null when the tab can't be found
+  layout: TabLayout | null;
+  warnings: string[];
+  /** When the current layout was first recorded (null if it couldn't be stored). */
+  layoutSince: string | null;
+}
+
+export interface LayoutChange {
+  id: number;
+  tab: string;
+  observedAt: string;
+  issueCount: number;
+  /** What differs from the tab's previous layout; empty for the first one recorded. */
+  changes: string[];
+}
+
+/** Last stored signature per tab, with when it was recorded — loaded once, then kept in step. */
+let lastByTab: Map<string, { signature: string; observedAt: Date }> | null = null;
+let recording: Promise<unknown> = Promise.resolve();
+
+async function loadLast() {
+  if (lastByTab) return lastByTab;
+  const rows = await db
+    .select({ tab: sheetLayoutObservations.tab, signature: sheetLayoutObservations.signature, observedAt: sheetLayoutObservations.observedAt })
+    .from(sheetLayoutObservations)
+    .orderBy(asc(sheetLayoutObservations.observedAt), asc(sheetLayoutObservations.id));
+  const map = new Map<string, { signature: string; observedAt: Date }>();
+  for (const r of rows) map.set(r.tab, { signature: r.signature, observedAt: r.observedAt });
+  lastByTab = map;
+  return map;
+}
+
+/** Store the tabs whose layout changed; returns every tab's "layout since". */
+function recordLayouts(read: { tab: string; resolvedTitle: string; layout: TabLayout; drift: TaxonomyDrift }[]) {
+  const run = recording.then(async () => {
+    const last = await loadLast();
+    for (const r of read) {
+      const signature = layoutSignature(r.layout);
+      if (last.get(r.tab)?.signature === signature) continue;
+      const [row] = await db
+        .insert(sheetLayoutObservations)
+        .values({ tab: r.tab, resolvedTitle: r.resolvedTitle, signature, layout: r.layout, drift: r.drift })
+        .returning();
+      last.set(r.tab, { signature, observedAt: row.observedAt });
+      console.log(`[sheet-health] layout of ${r.tab} changed — recorded (${r.drift.issueCount} drift issue(s))`);
+    }
+    return new Map([...last].map(([tab, v]) => [tab, v.observedAt.toISOString()]));
+  });
+  recording = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Read every room tab, diff it against its expected taxonomy and record any
+ * layout change. History is an overlay: a database failure leaves layoutSince null.
+ * While an uploaded workbook is live its layout is shown but not recorded.
+ */
+export async function checkSheetHealth(): Promise<{ tabs: TabHealth[]; historyAvailable: boolean }> {
+  const spreadsheetId = getSpreadsheetId();
+  if (!spreadsheetId) throw new Error('CONSTRUCTION_PROGRESS_SHEET_ID not configured');
+  const { availableTitles } = await readSpreadsheetTitles(spreadsheetId);
+
+  const tabs = await Promise.all(
+    ROOM_TABS.map(async (tab): Promise<TabHealth> => {
+      const base = { tab: tab.sheetName, tower: tab.tower, type: tab.type, layoutSince: null };
+      const resolvedTitle = resolveActualTitle(tab.sheetName, availableTitles);
+      if (!resolvedTitle) {
+        return { ...base, resolvedTitle: null, drift: null, layout: null, warnings: [`No tab matching "${tab.sheetName}".`] };
+      }
+      const grid = await readGrid(spreadsheetId, resolvedTitle);
+      const expected = getExpectedTaxonomy(tab.sheetName);
+      const structure = discoverRoomTabStructure(grid, expected);
+      return {
+        ...base,
+        resolvedTitle,
+        drift: diffTaxonomy(grid, structure, expected),
+        layout: describeLayout(structure),
+        warnings: structure.warnings,
+      };
+    }),
+  );
+
+  let since: Map<string, string> | null = null;
+  if (hasLiveUpload(spreadsheetId)) {
+    return { tabs, historyAvailable: false };
+  }
+  try {
+    since = await recordLayouts(
+      tabs.flatMap((t) => (t.resolvedTitle && t.layout && t.drift ? [{ tab: t.tab, resolvedTitle: t.resolvedTitle, layout: t.layout, drift: t.drift }] : [])),
+    );
+  } catch (err: any) {
+    console.error('[sheet-health] recording layouts failed:', err?.message ?? err);
+  }
+  return {
+    tabs: tabs.map((t) => ({ ...t, layoutSince: t.layout ? since?.get(t.tab) ?? null : null })),
+    historyAvailable: since !== null,
+  };
+}
+
+/** Every recorded layout change (optionally for one tab), newest first. */
+export async function layoutHistory(tab?: string): Promise<LayoutChange[]> {
+  const rows = await db
+    .select()
+    .from(sheetLayoutObservations)
+    .where(tab ? eq(sheetLayoutObservations.tab, tab) : undefined)
+    .orderBy(asc(sheetLayoutObservations.observedAt), asc(sheetLayoutObservations.id));
+
+  const previous = new Map<string, TabLayout>();
+  const changes: LayoutChange[] = rows.map((r) => {
+    const prev = previous.get(r.tab);
+    previous.set(r.tab, r.layout);
+    return {
+      id: r.id,
+      tab: r.tab,
+      observedAt: r.observedAt.toISOString(),
+      issueCount: r.drift.issueCount,
+      changes: prev ? describeLayoutChange(prev, r.layout) : [],
+    };
+  });
+  return changes.reverse();
+}
@@ -0,0 +1,107 @@
+import * as googleSheets from './googleSheets';
+import * as fileSheets from './fileSheets';
+import { workbookFor } from './uploadedWorkbooks';
+import { cachedRead } from './sheetCache';
+import type { SheetData } from './googleSheets';
+
+// Where spreadsheet values come from. Routes import the functions below instead
+// of googleSheets.ts directly, so SHEETS_PROVIDER=file can swap in local
+// fixtures (see fileSheets.ts) for demos and credential-free runs.
+// Drive listing/streaming stays Google-only and is imported from googleSheets.ts.
+// An admin-uploaded workbook (uploadedWorkbooks.ts) takes precedence for the
+// spreadsheet it stands in for. Reads from the configured provider go through
+// the shared cache (sheetCache.ts); uploaded workbooks are already in memory.
+
+export interface SpreadsheetInfo {
+  title: string | null | undefined;
+  sheets: Array<{ id: number | null | undefined; title: string | null | undefined; index: number | null | undefined }> | undefined;
+}
+
+export interface SheetProvider {
+  name: 'google' | 'file' | 'upload';
+  fetchSheetData(
+    spreadsheetId: string,
+    range: string,
+    valueRenderOption?: 'FORMATTED_VALUE' | 'UNFORMATTED_VALUE'
+  ): Promise<SheetData>;
+  fetchMultipleRanges(spreadsheetId: string, ranges: string[]): Promise<Map<string, SheetData>>;
+  fetchSheetDataWithHyperlinks(
+    spreadsheetId: string,
+    sheetTitle: string,
+    startRow: number,
+    endRow: number,
+    endCol: string
+  ): Promise<SheetData>;
+  getSpreadsheetInfo(spreadsheetId: string): Promise<SpreadsheetInfo>;
+}
+
+const googleProvider: SheetProvider = {
+  name: 'google',
+  fetchSheetData: googleSheets.fetchSheetData,
+  fetchMultipleRanges: googleSheets.fetchMultipleRanges,
+  fetchSheetDataWithHyperlinks: googleSheets.fetchSheetDataWithHyperlinks,
+  getSpreadsheetInfo: googleSheets.getSpreadsheetInfo,
+};
+
+const fileProvider: SheetProvider = {
+  name: 'file',
+  fetchSheetData: fileSheets.fetchSheetData,
+  fetchMultipleRanges: fileSheets.fetchMultipleRanges,
+  fetchSheetDataWithHyperlinks: fileSheets.fetchSheetDataWithHyperlinks,
+  getSpreadsheetInfo: fileSheets.getSpreadsheetInfo,
+};
+
+function uploadProvider(workbook: fileSheets.Workbook): SheetProvider {
+  return {
+    name: 'upload',
+    fetchSheetData: async (_id, range, valueRenderOption) => fileSheets.readWorkbookRange(workbook, range, valueRenderOption),
+    fetchMultipleRanges: async (_id, ranges) =>
+      new Map(ranges.map((range) => [range, fileSheets.readWorkbookRange(workbook, range)])),
+    fetchSheetDataWithHyperlinks: async (_id, sheetTitle, startRow, endRow, endCol) =>
+      fileSheets.readWorkbookHyperlinks(workbook, sheetTitle, startRow, endRow, endCol),
+    getSpreadsheetInfo: async () => fileSheets.workbookInfo(workbook),
+  };
+}
+
+/** SHEETS_PROVIDER=file → local .xlsx/CSV fixtures; anything else → Google Sheets. */
+export function getSheetProvider(): SheetProvider {
+  return process.env.SHEETS_PROVIDER === 'file' ? fileProvider : googleProvider;
+}
+
+/** Serve a read from an uploaded workbook directly, otherwise through the cache. */
+function read<T>(spreadsheetId: string, key: string, load: (provider: SheetProvider) => Promise<T>): Promise<T> {
+  const uploaded = workbookFor(spreadsheetId);
+  if (uploaded) return load(uploadProvider(uploaded));
+  const provider = getSheetProvider();
+  return cachedRead(spreadsheetId, `${provider.name}:${spreadsheetId}:${key}`, () => load(provider));
+}
+
+export function fetchSheetData(
+  spreadsheetId: string,
+  range: string,
+  valueRenderOption?: 'FORMATTED_VALUE' | 'UNFORMATTED_VALUE'
+): Promise<SheetData> {
+  return read(spreadsheetId, `values:${range}:${valueRenderOption ?? ''}`, (p) =>
+    p.fetchSheetData(spreadsheetId, range, valueRenderOption)
+  );
+}
+
+export function fetchMultipleRanges(spreadsheetId: string, ranges: string[]): Promise<Map<string, SheetData>> {
+  return read(spreadsheetId, `batch:${ranges.join('|')}`, (p) => p.fetchMultipleRanges(spreadsheetId, ranges));
+}
+
+export function fetchSheetDataWithHyperlinks(
+  spreadsheetId: string,
+  sheetTitle: string,
+  startRow: number,
+  endRow: number,
+  endCol: string
+): Promise<SheetData> {
+  return read(spreadsheetId, `links:${sheetTitle}!A${startRow}:${endCol}${endRow}`, (p) =>
+    p.fetchSheetDataWithHyperlinks(spreadsheetId, sheetTitle, startRow, endRow, endCol)
+  );
+}
+
+export function getSpreadsheetInfo(spreadsheetId: string): Promise<SpreadsheetInfo> {
+  return read(spreadsheetId, 'info', (p) => p.getSpreadsheetInfo(spreadsheetId));
+}
@@ -0,0 +1,130 @@
+import { randomBytes } from 'crypto';
+import { parseXlsxBuffer, type Workbook } from './fileSheets';
+
+// Admin-uploaded .xlsx exports of the Construction Progress workbook.
+// An upload is first STAGED: it can be read through the sheet provider under its
+// own pseudo spreadsheet ID ("upload:<id>") so every /api/expansion view can be
+// previewed against it. PUBLISHING one makes it answer for the real spreadsheet
+// ID until it is cleared — for when Google access breaks on site, or a PM's
+// local copy has edits the live sheet doesn't yet.
+//
+// Held in memory: a restart drops staged uploads and reverts to the live sheet.
+
+const MAX_STAGED = 5;
+const UPLOAD_ID_PREFIX = 'upload:';
+
+export interface UploadedWorkbook {
+  id: string;
+  filename: string;
+  size: number;
+  uploadedAt: Date;
+  uploadedBy: string | null;
+  workbook: Workbook;
+}
+
+interface LiveUpload {
+  upload: UploadedWorkbook;
+  spreadsheetId: string;
+  publishedAt: Date;
+  publishedBy: string | null;
+}
+
+const staged = new Map<string, UploadedWorkbook>();
+let live: LiveUpload | null = null;
+
+/** .xlsx files are zip archives; reject anything else before parsing. */
+function isZip(buffer: Buffer): boolean {
+  return buffer.length > 4 && buffer[0] === 0x50 && buffer[1] === 0x4b; // "PK"
+}
+
+/** Parse and stage an upload. Throws on anything that isn't a readable .xlsx. */
+export function stageUpload(buffer: Buffer, filename: string, uploadedBy: string | null): UploadedWorkbook {
+  if (!isZip(buffer)) throw new Error('Expected an .xlsx workbook export');
+  const workbook = parseXlsxBuffer(buffer, filename.replace(/\.xlsx$/i, ''));
+  if (workbook.tabs.size === 0) throw new Error('Workbook has no tabs');
+
+  const upload: UploadedWorkbook = {
+    id: randomBytes(6).toString('hex'),
+    filename,
+    size: buffer.length,
+    uploadedAt: new Date(),
+    uploadedBy,
+    workbook,
+  };
+  staged.set(upload.id, upload);
+
+  // Drop the oldest staged uploads beyond the cap (never the live one).
+  for (const id of staged.keys()) {
+    if (staged.size <= MAX_STAGED) break;
+    if (live?.upload.id !== id) staged.delete(id);
+  }
+  return upload;
+}
+
+export function getUpload(id: string): UploadedWorkbook | undefined {
+  return staged.get(id);
+}
+
+/** The pseudo spreadsheet ID that reads a staged upload through the sheet provider. */
+export function uploadSpreadsheetId(id: string): string {
+  return `${UPLOAD_ID_PREFIX}${id}`;
+}
+
+export function publishUpload(id: string, spreadsheetId: string, publishedBy: string | null): LiveUpload | null {
+  const upload = staged.get(id);
+  if (!upload) return null;
+  live = { upload, spreadsheetId, publishedAt: new Date(), publishedBy };
+  return live;
+}
+
+export function clearLiveUpload(): boolean {
+  const wasLive = live !== null;
+  live = null;
+  return wasLive;
+}
+
+/**
+ * Whether a published upload is answering for `spreadsheetId`. The daily
+ * snapshots and the sheet-health history record the live sheet only, so they
+ * pause while a local copy stands in for it.
+ */
+export function hasLiveUpload(spreadsheetId: string): boolean {
+  return live !== null && live.spreadsheetId === spreadsheetId;
+}
+
+/**
+ * The workbook that should answer reads for `spreadsheetId`, if any: a staged
+ * upload by its pseudo ID, or the published upload for the real ID.
+ */
+export function workbookFor(spreadsheetId: string): Workbook | undefined {
+  if (spreadsheetId.startsWith(UPLOAD_ID_PREFIX)) {
+    return staged.get(spreadsheetId.slice(UPLOAD_ID_PREFIX.length))?.workbook;
+  }
+  return live && live.spreadsheetId === spreadsheetId ? live.upload.workbook : undefined;
+}
+
+export function toPublicUpload(upload: UploadedWorkbook) {
+  return {
+    id: upload.id,
+    filename: upload.filename,
+    size: upload.size,
+    uploadedAt: upload.uploadedAt.toISOString(),
+    uploadedBy: upload.uploadedBy,
+    tabs: [...upload.workbook.tabs.keys()],
+    live: live?.upload.id === upload.id,
+  };
+}
+
+/** Staged uploads (newest first) and what, if anything, is live. */
+export function describeUploads() {
+  return {
+    live: live
+      ? {
+          ...toPublicUpload(live.upload),
+          publishedAt: live.publishedAt.toISOString(),
+          publishedBy: live.publishedBy,
+        }
+      : null,
+    uploads: [...staged.values()].reverse().map(toPublicUpload),
+  };
+}
@@ -0,0 +1,44 @@
+// Named user accounts — roles and per-tab grants.
+// A "tab" here is one of the password-gated areas the client already knows
+// (TabPasswordGate's construction / budget / timeline). A role grants a default
+// set of tabs; per-user grants add tabs on top of the role, never remove them.
+
+export const USER_ROLES = ["field", "construction", "management", "admin"] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+export const DASHBOARD_TABS = ["construction", "budget", "timeline"] as const;
+export type DashboardTab = (typeof DASHBOARD_TABS)[number];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  field: "Field",
+  construction: "Construction",
+  management: "Management",
+  admin: "Admin",
+};
+
+/** Tabs each role can open without any extra grant. */
+export const ROLE_DEFAULT_TABS: Record<UserRole, DashboardTab[]> = {
+  field: ["construction"],
+  construction: ["construction"],
+  management: ["construction", "budget", "timeline"],
+  admin: ["construction", "budget", "timeline"],
+};
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === "string" && (USER_ROLES as readonly string[]).includes(value);
+}
+
+export function isDashboardTab(value: unknown): value is DashboardTab {
+  return typeof value === "string" && (DASHBOARD_TABS as readonly string[]).includes(value);
+}
+
+/** Role defaults ∪ explicit grants, in DASHBOARD_TABS order. Unknown grants are dropped. */
+export function effectiveTabs(role: UserRole, grants: readonly string[] = []): DashboardTab[] {
+  const set = new Set<string>([...ROLE_DEFAULT_TABS[role], ...grants]);
+  return DASHBOARD_TABS.filter((t) => set.has(t));
+}
+
+/** Field accounts are read-only: they can view their tabs but not change anything. */
+export function roleCanWrite(role: UserRole): boolean {
+  return role !== "field";
+}
@@ -0,0 +1,27 @@
+// Cash-flow projection — the payment milestones a budget line item's schedule
+// splits its estimate across, and what each one is dated from. See
+// shared/lib/cashFlow.ts for how unpaid amounts land on months.
+
+export const PAYMENT_MILESTONES = ["deposit", "onShip", "onDelivery", "retainage"] as const;
+export type PaymentMilestone = (typeof PAYMENT_MILESTONES)[number];
+
+export const PAYMENT_MILESTONE_LABELS: Record<PaymentMilestone, string> = {
+  deposit: "Deposit",
+  onShip: "On ship",
+  onDelivery: "On delivery",
+  retainage: "Retainage",
+};
+
+/** What a schedule is dated from: a timeline task or a Container Schedule row. */
+export const PAYMENT_LINK_TYPES = ["task", "container"] as const;
+export type PaymentLinkType = (typeof PAYMENT_LINK_TYPES)[number];
+
+/**
+ * Retainage is released this many days after the delivery milestone (the
+ * linked task's end, or the container's warehouse ETA).
+ */
+export const RETAINAGE_RELEASE_DAYS = 60;
+
+export function isPaymentLinkType(value: unknown): value is PaymentLinkType {
+  return typeof value === "string" && (PAYMENT_LINK_TYPES as readonly string[]).includes(value);
+}
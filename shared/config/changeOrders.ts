@@ -0,0 +1,16 @@
+// Change orders — the lifecycle a vendor change order moves through. Only
+// approved ones move the budget ("estimate + approved COs", see
+// shared/lib/budget.ts); proposed and rejected ones are tracked, never summed.
+
+export const CHANGE_ORDER_STATUSES = ["proposed", "approved", "rejected"] as const;
+export type ChangeOrderStatus = (typeof CHANGE_ORDER_STATUSES)[number];
+
+export const CHANGE_ORDER_STATUS_LABELS: Record<ChangeOrderStatus, string> = {
+  proposed: "Proposed",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+export function isChangeOrderStatus(value: unknown): value is ChangeOrderStatus {
+  return typeof value === "string" && (CHANGE_ORDER_STATUSES as readonly string[]).includes(value);
+}
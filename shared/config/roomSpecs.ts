@@ -0,0 +1,69 @@
+// Room Specs ↔ Tracking Detail — which tracked parts each Room Specs feature
+// implies. Used to check a room's spec against its part cells: a room that
+// has the feature should track these parts (not N/A), and a room without it
+// should not. Part headers differ by tab, so a rule lists every spelling;
+// headers a tab doesn't have are simply not checked on that tab.
+
+import type { SpecAttribute, SpecFeature } from '../types/dashboard';
+
+export interface SpecPartRule {
+  feature: SpecFeature;
+  label: string;
+  /** Whole packages implied by the feature (package names, case-insensitive). */
+  packages: string[];
+  /** Individual part headers implied by the feature (case-insensitive). */
+  parts: string[];
+}
+
+export const SPEC_PART_RULES: SpecPartRule[] = [
+  {
+    feature: 'speakeasy',
+    label: 'Speakeasy',
+    packages: ['SPEAK EASY'],
+    parts: ['Headboard Connecting Door To Speak Easy', 'Speak Easy Bar LED'],
+  },
+  {
+    feature: 'showerWindow',
+    label: 'Shower window',
+    packages: [],
+    parts: ['Shower Window Frame'],
+  },
+  {
+    feature: 'mossWall',
+    label: 'Moss wall',
+    packages: [],
+    parts: ['Green Wall', 'Green Wall Side Panel For Sliding Door', 'Green Wall Light and Art'],
+  },
+  {
+    feature: 'mirrorSlidingDoor',
+    label: 'Mirror sliding door',
+    packages: [],
+    parts: ['Bathroom Mirror Sliding Door', 'Mechanism Bathroom Sliding Door'],
+  },
+];
+
+/** Yes/No columns, in Room Specs sheet order, with display labels. */
+export const SPEC_FEATURES: { key: SpecFeature; label: string }[] = [
+  { key: 'ada', label: 'ADA' },
+  { key: 'connectingDoor', label: 'Connecting door' },
+  { key: 'showerWindow', label: 'Shower window' },
+  { key: 'mossWall', label: 'Moss wall' },
+  { key: 'mirrorSlidingDoor', label: 'Mirror sliding door' },
+  { key: 'moxyBar', label: 'Moxy bar' },
+  { key: 'speakeasy', label: 'Speakeasy' },
+  { key: 'partyBoxHeadboard', label: 'Party box headboard' },
+];
+
+/** Free-text columns that can be filtered on, with display labels. */
+export const SPEC_ATTRIBUTES: { key: SpecAttribute; label: string }[] = [
+  { key: 'roomType', label: 'Room type' },
+  { key: 'sizeCategory', label: 'Size' },
+  { key: 'bedSize', label: 'Bed' },
+  { key: 'sinkStyle', label: 'Sink style' },
+  { key: 'sinkSize', label: 'Sink size' },
+  { key: 'showerWithGlassDoor', label: 'Shower' },
+  { key: 'miniBarSize', label: 'Mini bar' },
+  { key: 'curtainType', label: 'Curtain' },
+  { key: 'nightStands', label: 'Night stands' },
+  { key: 'tvSize', label: 'TV size' },
+];
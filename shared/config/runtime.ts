@@ -1,19 +1,35 @@
 // Aya Dashboard Expansion — developer-edited runtime config (§3.3, §3.5, §10).
-// These are intentionally one-line knobs: edit + redeploy, no rebuild logic.
+// These are intentionally one-line knobs: edit + redeploy, no rebuild logic —
+// except ARRIVED_CONTAINERS, which is only the default until an admin picks a
+// mode on the Containers page (see below).
+
+import type { ArrivalState } from '../types/dashboard';
 
 /**
- * Which container numbers have physically arrived (§3.3).
+ * Which container numbers have physically arrived (§3.3) — the DEFAULT only.
  *
  * - `'ALL'` (default): every bare container number in the sheet counts as received.
  * - `Set<number>`: only the listed numbers count as arrived; all others are treated
  *   as not-yet-arrived (incoming) when recomputing "% received".
  *
- * Update this as containers land — no rebuild per container.
+ * This constant is the live value until an admin edits the arrived set on the
+ * Containers page; from then on the database holds it
+ * (server/services/arrivedContainers.ts): every number, a marked list, or —
+ * only if an admin chooses it — derived from the Container Schedule status (see
+ * CONTAINER_ARRIVED_FROM). It also applies whenever the database can't be read,
+ * or in schedule mode before the schedule has been read once.
  * Unconfirmed hint (verify, do NOT hardcode blindly): blue ~22–23 may = arrived,
  * orange ~24–25 may = incoming.
  */
 export const ARRIVED_CONTAINERS: Set<number> | 'ALL' = 'ALL';
 
+/**
+ * The first Container Schedule arrival state that counts as arrived when the
+ * arrived set is derived from the schedule (shared/lib/containerArrival.ts).
+ * Default 'at-warehouse': parts at the NY warehouse can be sent to site.
+ */
+export const CONTAINER_ARRIVED_FROM: ArrivalState = 'at-warehouse';
+
 /**
  * Whether the LR Installation "In-Room" (green) value counts as installed (§3.5).
  *
@@ -0,0 +1,17 @@
+// Exception triage — the follow-up state procurement records against a flagged
+// part cell (Not Found, Damaged, …). See shared/lib/triage.ts for how records
+// close and reopen as the sheet changes.
+
+export const TRIAGE_STATUSES = ["new", "investigating", "reordered", "resolved"] as const;
+export type TriageStatus = (typeof TRIAGE_STATUSES)[number];
+
+export const TRIAGE_STATUS_LABELS: Record<TriageStatus, string> = {
+  new: "New",
+  investigating: "Investigating",
+  reordered: "Re-ordered",
+  resolved: "Resolved",
+};
+
+export function isTriageStatus(value: unknown): value is TriageStatus {
+  return typeof value === "string" && (TRIAGE_STATUSES as readonly string[]).includes(value);
+}
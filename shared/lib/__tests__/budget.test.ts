@@ -2,7 +2,7 @@
 import { test } from 'node:test';
 import assert from 'node:assert/strict';
 
-import { buildScheduleSummaryBudget, parseBudgetNumber, CONTINGENCY_RATE, BUDGET_UNITS } from '../budget';
+import { buildScheduleSummaryBudget, parseBudgetNumber, CONTINGENCY_RATE, BUDGET_UNITS, UNASSIGNED_CATEGORY } from '../budget';
 
 // A fixture that mirrors the real tab's traps: a banner row, a header row with a SECOND
 // "Paid" column (must be ignored), spacer rows, "Total Demo"/"Total BOH" real line items,
@@ -80,6 +80,88 @@ test('totals math: contingency, total, remaining, costPerUnit, paidPct', () => {
   assert.equal(r.totals.contingencyRate, 0.1);
 });
 
+test('contingency ledger: drawdowns reduce contingency remaining, never the total', () => {
+  const r = buildScheduleSummaryBudget(GRID, [
+    { category: 'Labor', amount: 10000 },
+    { category: ' libarary ', amount: 2500 }, // raw key, matched trimmed + case-insensitive
+    { category: 'Gone From Sheet', amount: 500 },
+  ]);
+  assert.equal(r.totals.contingencyUsed, 13000);
+  close(r.totals.contingencyRemaining, EXPECTED_C * CONTINGENCY_RATE - 13000);
+  close(r.totals.total, EXPECTED_C * (1 + CONTINGENCY_RATE));
+  assert.equal(r.categories.find((c) => c.name === 'Labor')!.contingencyDrawn, 10000);
+  assert.equal(r.categories.find((c) => c.name === 'Libarary')!.contingencyDrawn, 2500);
+  assert.equal(r.categories.find((c) => c.name === 'Rooms')!.contingencyDrawn, 0);
+
+  const none = buildScheduleSummaryBudget(GRID);
+  assert.equal(none.totals.contingencyRemaining, none.totals.contingency);
+});
+
+test('contingency ledger: a drawdown moves money into the receiving category', () => {
+  const before = buildScheduleSummaryBudget(GRID);
+  const after = buildScheduleSummaryBudget(GRID, [{ category: 'Labor', amount: 10000 }]);
+  const laborBefore = before.categories.find((c) => c.name === 'Labor')!;
+  const laborAfter = after.categories.find((c) => c.name === 'Labor')!;
+  close(laborAfter.adjustedTotal, laborBefore.adjustedTotal + 10000);
+  close(laborAfter.total, laborBefore.total); // the sheet's estimate is untouched
+  close(after.totals.contingencyRemaining, before.totals.contingencyRemaining - 10000);
+  close(after.totals.adjustedTotal, before.totals.adjustedTotal);
+  close(after.categories.reduce((s, c) => s + c.pct, 0), 100);
+});
+
+test('change orders: approved ones add to item, category and totals; the sheet estimate stays', () => {
+  const r = buildScheduleSummaryBudget(GRID, [], [
+    { status: 'approved', amount: 4000, category: null, itemKey: 'labor|total demo' },
+    { status: 'approved', amount: -1500, category: ' LABOR ', itemKey: null }, // credit on the category
+    { status: 'approved', amount: 700, category: null, itemKey: 'rooms|gone from sheet' },
+    { status: 'proposed', amount: 90000, category: 'Labor', itemKey: null },
+    { status: 'rejected', amount: 90000, category: null, itemKey: 'labor|total demo' },
+  ]);
+  const demo = r.items.find((it) => it.key === 'labor|total demo')!;
+  assert.equal(demo.estimatedCost, 67603.05);
+  assert.equal(demo.approvedChangeOrders, 4000);
+  close(demo.adjustedEstimate, 71603.05);
+  const labor = r.categories.find((c) => c.name === 'Labor')!;
+  assert.equal(labor.approvedChangeOrders, 2500);
+  close(labor.adjustedTotal, 67603.05 + 2500);
+  assert.equal(r.categories.find((c) => c.name === 'Rooms')!.approvedChangeOrders, 0);
+  assert.equal(r.totals.approvedChangeOrders, 3200); // the orphaned one still counts
+  const unassigned = r.categories.find((c) => c.name === UNASSIGNED_CATEGORY)!;
+  assert.equal(unassigned.approvedChangeOrders, 700);
+  assert.equal(unassigned.adjustedTotal, 700);
+  assert.equal(r.categories[r.categories.length - 1], unassigned);
+  close(r.totals.adjustedEstimate, EXPECTED_C + 3200);
+  close(r.totals.adjustedTotal, EXPECTED_C * (1 + CONTINGENCY_RATE) + 3200);
+  close(r.totals.total, EXPECTED_C * (1 + CONTINGENCY_RATE));
+  close(r.totals.remaining, EXPECTED_C * 1.1 + 3200 - EXPECTED_D);
+
+  const none = buildScheduleSummaryBudget(GRID);
+  assert.equal(none.totals.adjustedTotal, none.totals.total);
+  assert.ok(none.items.every((it) => it.adjustedEstimate === it.estimatedCost));
+  assert.ok(!none.categories.some((c) => c.name === UNASSIGNED_CATEGORY));
+});
+
+test('category rollup: COs and drawdowns off the sheet go to Unassigned, shares sum to 100%', () => {
+  const r = buildScheduleSummaryBudget(
+    GRID,
+    [
+      { category: 'Labor', amount: 2000 },
+      { category: 'Gone From Sheet', amount: 500 },
+    ],
+    [
+      { status: 'approved', amount: 700, category: null, itemKey: 'rooms|gone from sheet' },
+      { status: 'approved', amount: 300, category: 'Retired Category', itemKey: null },
+      { status: 'approved', amount: 1200, category: 'labor', itemKey: null },
+    ],
+  );
+  const unassigned = r.categories.find((c) => c.name === UNASSIGNED_CATEGORY)!;
+  assert.equal(unassigned.approvedChangeOrders, 1000);
+  assert.equal(unassigned.contingencyDrawn, 500);
+  assert.equal(unassigned.count, 0);
+  close(r.categories.reduce((s, c) => s + c.pct, 0), 100);
+  close(r.categories.reduce((s, c) => s + c.adjustedTotal, 0), r.totals.adjustedEstimate + r.totals.contingencyUsed);
+});
+
 test('category rollup: groups on RAW value, ties to ΣC, sorted desc, blank → Uncategorized', () => {
   const r = buildScheduleSummaryBudget(GRID);
   const sum = r.categories.reduce((s, c) => s + c.total, 0);
@@ -132,3 +214,15 @@ test('case-insensitive boundary: lowercase "total" also stops; extra words do no
   assert.equal(r.meta.lineItemCount, 1);
   assert.equal(r.totals.estimatedBeforeContingency, 100);
 });
+
+test('line-item key: category + name, lowercased; a repeated pair gets #2', () => {
+  const g: (string | number)[][] = [
+    ['', '', '', '', '', ''],
+    ['', 'w', 'Estimated Cost', 'Paid', 'Required for low rise', 'Category'],
+    ['Paint  Touch-up', '', 100, 0, 'TRUE', 'Rooms'],
+    ['Paint Touch-up', '', 200, 0, 'TRUE', 'rooms'],
+    ['Elevator Fix', '', 300, 0, 'TRUE', 'Mechanical Elevetor'],
+  ];
+  const keys = buildScheduleSummaryBudget(g).items.map((it) => it.key);
+  assert.deepEqual(keys, ['rooms|paint touch-up', 'rooms|paint touch-up#2', 'mechanical elevetor|elevator fix']);
+});
@@ -0,0 +1,94 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { buildBudgetVariance, budgetSnapshotSignature } from '../budgetHistory';
+import type { BudgetSnapshotInput, BudgetSnapshotItem } from '../budgetHistory';
+import type { BudgetTotals } from '../budget';
+
+function item(key: string, estimatedCost: number, paid = 0): BudgetSnapshotItem {
+  return { key, name: key.split('|')[1], displayCategory: key.split('|')[0], estimatedCost, paid };
+}
+
+function snap(date: string, items: BudgetSnapshotItem[], approvedChangeOrders = 0): BudgetSnapshotInput {
+  const est = items.reduce((s, i) => s + i.estimatedCost, 0);
+  const paid = items.reduce((s, i) => s + i.paid, 0);
+  const totals: BudgetTotals = {
+    estimatedBeforeContingency: est,
+    contingencyRate: 0.1,
+    contingency: est * 0.1,
+    contingencyUsed: 0,
+    contingencyRemaining: est * 0.1,
+    total: est * 1.1,
+    approvedChangeOrders,
+    adjustedEstimate: est + approvedChangeOrders,
+    adjustedTotal: est * 1.1 + approvedChangeOrders,
+    paid,
+    paidPct: est > 0 ? (paid / (est * 1.1 + approvedChangeOrders)) * 100 : 0,
+    remaining: est * 1.1 + approvedChangeOrders - paid,
+    units: 166,
+    costPerUnit: (est * 1.1 + approvedChangeOrders) / 166,
+  };
+  return { date, totals, items };
+}
+
+const SNAPSHOTS = [
+  snap('2026-03-10', [item('rooms|paint', 1000, 0), item('labor|demo', 5000, 5000), item('rooms|carpet', 800)]),
+  snap('2026-03-01', [item('rooms|paint', 1000), item('labor|demo', 5000, 2000), item('rooms|carpet', 800)]),
+  snap('2026-03-20', [item('rooms|paint', 1500, 500), item('labor|demo', 5000, 5000), item('rooms|tile', 300)]),
+  snap('2026-03-25', [item('rooms|paint', 1200.004, 900), item('labor|demo', 5000, 5000), item('rooms|tile', 300)]),
+];
+
+test('buildBudgetVariance: grew / added / removed, with the dates each estimate moved', () => {
+  const r = buildBudgetVariance(SNAPSHOTS);
+  assert.equal(r.from, '2026-03-01');
+  assert.equal(r.to, '2026-03-25');
+  assert.equal(r.snapshotCount, 4);
+
+  // demo only moved on paid → not a variance row; sorted by |Δ estimate|
+  assert.deepEqual(r.items.map((i) => [i.key, i.movement]), [['rooms|carpet', 'removed'], ['rooms|tile', 'added'], ['rooms|paint', 'grew']]);
+
+  const paint = r.items.find((i) => i.key === 'rooms|paint')!;
+  assert.equal(paint.baselineEstimate, 1000);
+  assert.ok(Math.abs(paint.estimateDelta - 200) < 0.01);
+  assert.deepEqual(paint.changes.map((c) => [c.date, Math.round(c.estimateDelta)]), [['2026-03-20', 500], ['2026-03-25', -300]]);
+  assert.equal(paint.paidDelta, 900);
+
+  const carpet = r.items.find((i) => i.key === 'rooms|carpet')!;
+  assert.equal(carpet.currentEstimate, null);
+  assert.deepEqual(carpet.changes.map((c) => [c.date, c.estimatedCost]), [['2026-03-20', null]]);
+});
+
+test('buildBudgetVariance: burn follows paid vs total per snapshot; `from` narrows the range', () => {
+  const all = buildBudgetVariance(SNAPSHOTS);
+  assert.deepEqual(all.burn.map((p) => [p.date, p.paid]), [['2026-03-01', 2000], ['2026-03-10', 5000], ['2026-03-20', 5500], ['2026-03-25', 5900]]);
+  assert.ok(Math.abs(all.burn[0].total - 7480) < 0.01);
+
+  const late = buildBudgetVariance(SNAPSHOTS, '2026-03-20');
+  assert.equal(late.from, '2026-03-20');
+  assert.deepEqual(late.items.map((i) => [i.key, i.movement]), [['rooms|paint', 'shrank']]);
+
+  const none = buildBudgetVariance(SNAPSHOTS, '2027-01-01');
+  assert.deepEqual([none.snapshotCount, none.items.length, none.baseline], [0, 0, null]);
+});
+
+test('buildBudgetVariance: burn total includes approved change orders, like the budget headline', () => {
+  const items = [item('rooms|paint', 1000, 200)];
+  const { burn } = buildBudgetVariance([snap('2026-03-01', items), snap('2026-03-02', items, 400)]);
+  assert.ok(Math.abs(burn[0].total - 1100) < 0.01);
+  assert.ok(Math.abs(burn[1].total - 1500) < 0.01);
+
+  // A snapshot stored before change orders existed falls back to the sheet total.
+  const old = snap('2026-02-01', items);
+  const { adjustedTotal: _dropped, ...legacyTotals } = old.totals;
+  const legacy = buildBudgetVariance([{ ...old, totals: legacyTotals as BudgetTotals }]);
+  assert.ok(Math.abs(legacy.burn[0].total - 1100) < 0.01);
+});
+
+test('budgetSnapshotSignature: changes with estimate, paid, drawdowns or COs, not with names', () => {
+  const totals = { contingencyUsed: 0, approvedChangeOrders: 0 };
+  const a = budgetSnapshotSignature({ totals, items: [item('rooms|paint', 1000, 0)] });
+  assert.equal(budgetSnapshotSignature({ totals, items: [{ ...item('rooms|paint', 1000, 0), name: 'Paint (renamed)' }] }), a);
+  assert.notEqual(budgetSnapshotSignature({ totals, items: [item('rooms|paint', 1000, 10)] }), a);
+  assert.notEqual(budgetSnapshotSignature({ totals: { ...totals, contingencyUsed: 500 }, items: [item('rooms|paint', 1000, 0)] }), a);
+  assert.notEqual(budgetSnapshotSignature({ totals: { ...totals, approvedChangeOrders: 250 }, items: [item('rooms|paint', 1000, 0)] }), a);
+});
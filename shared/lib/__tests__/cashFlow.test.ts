@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { buildCashFlowProjection, type CashFlowItemInput, type PaymentScheduleInput } from '../cashFlow';
+
+function item(key: string, estimatedCost: number, paid = 0): CashFlowItemInput {
+  return { key, name: key, displayCategory: 'Rooms', estimatedCost, paid };
+}
+
+function schedule(itemKey: string, pcts: [number, number, number, number], link: Partial<PaymentScheduleInput>): PaymentScheduleInput {
+  const [depositPct, onShipPct, onDeliveryPct, retainagePct] = pcts;
+  return { itemKey, depositPct, onShipPct, onDeliveryPct, retainagePct, linkType: 'container', timelineTaskId: null, container: null, ...link };
+}
+
+const CONTAINERS = [
+  { containerNumber: 'C 12', loadingDate: '4/2/2026', vesselDepartureDate: '4/10/2026', etaNYPort: '5/20/2026', etaWarehouse: '5/28/2026' },
+  { containerNumber: '14', loadingDate: '', vesselDepartureDate: '', etaNYPort: '', etaWarehouse: '' },
+];
+const TASKS = [{ id: 7, label: 'Rooms · Paint', start: '2026-06-01', end: '2026-07-15' }];
+
+test('buildCashFlowProjection: milestones dated from container ETAs and task spans; paid covers the deposit first', () => {
+  const r = buildCashFlowProjection(
+    [item('furniture', 10000, 3000), item('paint', 2000), item('doors', 500)],
+    [
+      schedule('furniture', [30, 20, 40, 10], { container: 'c  12' }),
+      schedule('paint', [50, 0, 50, 0], { linkType: 'task', timelineTaskId: 7 }),
+    ],
+    TASKS,
+    CONTAINERS,
+    '2026-04-05',
+  );
+
+  // furniture: deposit (3000) already paid; on-ship Apr 10, delivery May 28, retainage May 28 + 60d → Jul 27
+  const april = r.months.find((m) => m.month === '2026-04')!;
+  assert.deepEqual(april.payments.map((p) => [p.itemKey, p.milestone, p.amount]), [['furniture', 'onShip', 2000]]);
+  assert.equal(r.months.find((m) => m.month === '2026-05')!.byMilestone.onDelivery, 4000);
+  const july = r.months.find((m) => m.month === '2026-07')!;
+  assert.deepEqual(july.payments.map((p) => [p.itemKey, p.milestone]), [['paint', 'onDelivery'], ['furniture', 'retainage']]);
+
+  assert.deepEqual(r.months.map((m) => m.month), ['2026-04', '2026-05', '2026-06', '2026-07']);
+  assert.equal(r.projectedTotal, 7000 + 2000);
+  assert.deepEqual([r.unscheduledCount, r.unscheduledAmount], [1, 500]);
+});
+
+test('buildCashFlowProjection: past-due milestones land in the current month; missing dates are undated', () => {
+  const r = buildCashFlowProjection(
+    [item('furniture', 1000), item('beds', 1000), item('lamps', 1000)],
+    [
+      schedule('furniture', [100, 0, 0, 0], { container: 'C 12' }),
+      schedule('beds', [0, 0, 100, 0], { container: '14' }),
+      schedule('lamps', [0, 0, 100, 0], { linkType: 'task', timelineTaskId: 99 }),
+      schedule('gone', [100, 0, 0, 0], { container: 'C 12' }),
+    ],
+    TASKS,
+    CONTAINERS,
+    '2026-06-10',
+  );
+
+  assert.equal(r.months[0].month, '2026-06');
+  assert.equal(r.overdueTotal, 1000);
+  assert.equal(r.months[0].payments[0].dueDate, '2026-04-02');
+  assert.deepEqual(r.undated.map((u) => u.itemKey).sort(), ['beds', 'lamps']);
+  assert.equal(r.undated.find((u) => u.itemKey === 'lamps')!.reason, 'Linked timeline task no longer exists');
+  assert.deepEqual(r.orphanKeys, ['gone']);
+});
@@ -0,0 +1,68 @@
+// Snapshot change-feed tests. Pure, no I/O.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { diffRoomRows } from '../index';
+import type { RoomRow, PackageResult, PartCell, UrgencyBucket } from '../../types/dashboard';
+
+function part(header: string, rawValue: string, bucket: UrgencyBucket = 'other'): PartCell {
+  return { header, rawValue, bucket, weight: bucket === 'received' ? 1 : 0, isBlank: rawValue === '' };
+}
+function pkg(name: string, recomputedPct: number, parts: PartCell[]): PackageResult {
+  return { name, recomputedPct, manualPct: null, mismatch: false, unrecordedCount: 0, naOnly: false, parts };
+}
+function room(roomNo: string, packages: PackageResult[]): RoomRow {
+  return { roomNo, floor: roomNo.slice(0, -2), floorPct: null, line: 'L', type: 'K', installedPct: null, packages };
+}
+
+test('diffRoomRows: lists changed cells with room, package, part, old → new', () => {
+  const before = [room('2201', [pkg('BED', 0, [part('Headboard', 'Incoming', 'incoming'), part('Base', 'Not Found', 'problem')])])];
+  const after = [room('2201', [pkg('BED', 50, [part('Headboard', 'Container 3', 'received'), part('Base', 'Not Found', 'problem')])])];
+
+  const d = diffRoomRows(before, after);
+  assert.equal(d.cells.length, 1); // Base unchanged
+  assert.deepEqual(
+    { ...d.cells[0] },
+    {
+      roomNo: '2201', floor: '22', line: 'L', type: 'K', package: 'BED', part: 'Headboard',
+      oldValue: 'Incoming', newValue: 'Container 3', oldBucket: 'incoming', newBucket: 'received',
+    },
+  );
+  assert.equal(d.packages.length, 1);
+  assert.equal(d.packages[0].delta, 50);
+});
+
+test('diffRoomRows: a bucket change with the same rawValue still counts (e.g. ARRIVED_CONTAINERS edit)', () => {
+  const before = [room('701', [pkg('PKG', 0, [part('Mirror', 'Container 24', 'incoming')])])];
+  const after = [room('701', [pkg('PKG', 100, [part('Mirror', 'Container 24', 'received')])])];
+  const d = diffRoomRows(before, after);
+  assert.equal(d.cells.length, 1);
+  assert.equal(d.cells[0].oldValue, d.cells[0].newValue);
+});
+
+test('diffRoomRows: duplicate room rows pair by occurrence, not by first match', () => {
+  const before = [room('2701', [pkg('PKG', 0, [part('A', 'Incoming')])]), room('2701', [pkg('PKG', 0, [part('A', 'Incoming')])])];
+  const after = [room('2701', [pkg('PKG', 0, [part('A', 'Incoming')])]), room('2701', [pkg('PKG', 0, [part('A', 'Damaged')])])];
+  const d = diffRoomRows(before, after);
+  assert.equal(d.cells.length, 1); // only the second (LV) row moved
+  assert.equal(d.cells[0].newValue, 'Damaged');
+});
+
+test('diffRoomRows: added/removed rooms are reported; one-sided packages and parts are skipped', () => {
+  const before = [room('701', [pkg('PKG', 0, [part('A', 'x')])]), room('702', [])];
+  const after = [
+    room('701', [pkg('PKG', 0, [part('A', 'x'), part('New Part', 'y')]), pkg('NEW PKG', 100, [part('B', 'z')])]),
+    room('703', []),
+  ];
+  const d = diffRoomRows(before, after);
+  assert.deepEqual(d.cells, []);
+  assert.deepEqual(d.packages, []);
+  assert.deepEqual(d.addedRooms, ['703']);
+  assert.deepEqual(d.removedRooms, ['702']);
+});
+
+test('diffRoomRows: identical snapshots → empty feed', () => {
+  const rows = [room('701', [pkg('PKG', 40, [part('A', 'Received', 'received')])])];
+  assert.deepEqual(diffRoomRows(rows, rows), { cells: [], packages: [], addedRooms: [], removedRooms: [] });
+});
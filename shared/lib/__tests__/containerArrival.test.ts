@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { arrivalState, deriveContainerArrivals, arrivedSetFrom } from '../containerArrival';
+
+function row(containerNumber: string, status: string, warehouseProofOfDelivery = '') {
+  return { containerNumber, status, warehouseProofOfDelivery };
+}
+
+test('arrivalState: the sheet lifecycle maps in order', () => {
+  assert.equal(arrivalState('Ready to be shipped'), 'loaded');
+  assert.equal(arrivalState('Passed inspection'), 'loaded');
+  assert.equal(arrivalState('Shipped'), 'departed');
+  assert.equal(arrivalState('Arrived NY Port'), 'at-port');
+  assert.equal(arrivalState('Warehouse'), 'at-warehouse');
+  assert.equal(arrivalState('Arrived to hotel'), 'delivered');
+  assert.equal(arrivalState(''), 'unknown');
+  assert.equal(arrivalState('see email'), 'unknown');
+});
+
+test('arrivalState: "port" only as a word', () => {
+  assert.equal(arrivalState('At port'), 'at-port');
+  assert.equal(arrivalState('Awaiting transport'), 'unknown');
+  assert.equal(arrivalState('Delay reported'), 'unknown');
+  assert.equal(arrivalState('Shipped, transport booked'), 'departed');
+});
+
+test('arrivalState: a proof-of-delivery link means delivered whatever the status', () => {
+  assert.equal(arrivalState('Shipped', 'https://drive.google.com/file/d/x'), 'delivered');
+});
+
+test('deriveContainerArrivals: arrived from the threshold state on', () => {
+  const arrivals = deriveContainerArrivals(
+    [row('Container 3', 'Arrived NY Port'), row('4', 'Warehouse'), row('5', 'Arrived to hotel')],
+    [],
+    'at-warehouse',
+  );
+  assert.deepEqual(arrivals.map((a) => [a.number, a.state, a.arrived]), [
+    [3, 'at-port', false],
+    [4, 'at-warehouse', true],
+    [5, 'delivered', true],
+  ]);
+  assert.deepEqual([...arrivedSetFrom(arrivals)], [4, 5]);
+});
+
+test('deriveContainerArrivals: overrides win both ways and may name unscheduled containers', () => {
+  const arrivals = deriveContainerArrivals(
+    [row('3', 'Shipped'), row('4', 'Warehouse')],
+    [{ number: 3, arrived: true }, { number: 4, arrived: false }, { number: 9, arrived: true }],
+    'at-warehouse',
+  );
+  assert.deepEqual(arrivals.map((a) => [a.number, a.derivedArrived, a.override, a.arrived]), [
+    [3, false, true, true],
+    [4, true, false, false],
+    [9, false, true, true],
+  ]);
+});
+
+test('deriveContainerArrivals: a number on several rows keeps its furthest state', () => {
+  const arrivals = deriveContainerArrivals([row('7', 'Warehouse'), row('Containers 7 & 8', 'Shipped')], [], 'at-warehouse');
+  assert.deepEqual(arrivals.map((a) => [a.number, a.state]), [[7, 'at-warehouse'], [8, 'departed']]);
+});
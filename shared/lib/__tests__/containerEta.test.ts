@@ -0,0 +1,89 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { parseSheetDate, joinContainerEtas, type ScheduleEtaInput } from '../containerEta';
+import type { ContainerBlockedPart, ContainerGroup } from '../../types/dashboard';
+
+function entry(roomNo: string, pkg: string, part: string, over: Partial<ContainerBlockedPart> = {}): ContainerBlockedPart {
+  return {
+    tower: 'LR', tab: 'LR-Installation Progress', sources: ['installation'], roomNo, floor: roomNo.slice(0, -2),
+    line: '', type: '', package: pkg, part, rawValue: '', partial: false, ...over,
+  };
+}
+
+function group(number: number, entries: ContainerBlockedPart[], arrived = false): ContainerGroup {
+  return {
+    number, arrived, entries,
+    roomCount: new Set(entries.map((e) => e.roomNo)).size,
+    partCount: entries.length,
+    partialCount: 0,
+  };
+}
+
+function sched(containerNumber: string, etaWarehouse: string, etaNYPort = ''): ScheduleEtaInput {
+  return { containerNumber, etaNYPort, etaWarehouse, status: '' };
+}
+
+test('parseSheetDate: common sheet formats, nothing guessed', () => {
+  assert.equal(parseSheetDate('2026-03-05'), '2026-03-05');
+  assert.equal(parseSheetDate('3/5/2026'), '2026-03-05');
+  assert.equal(parseSheetDate('3/5/26'), '2026-03-05');
+  assert.equal(parseSheetDate('Mar 5, 2026'), '2026-03-05');
+  assert.equal(parseSheetDate('5-Mar-26'), '2026-03-05');
+  assert.equal(parseSheetDate('TBD'), null);
+  assert.equal(parseSheetDate('3/5'), null);
+  assert.equal(parseSheetDate('2/30/2026'), null);
+});
+
+test('joinContainerEtas: warehouse ETA wins over port ETA; rooms list their packages', () => {
+  const { containers } = joinContainerEtas(
+    [group(7, [entry('701', 'CLOSET', 'Door'), entry('701', 'CLOSET', 'Shelf'), entry('702', 'BATH', 'Vanity')])],
+    [sched('Container 7', '4/20/2026', '4/10/2026')],
+  );
+  assert.equal(containers[0].projectedUnblock, '2026-04-20');
+  assert.equal(containers[0].etaNYPort, '2026-04-10');
+  assert.deepEqual(
+    containers[0].rooms.map((r) => [r.roomNo, r.packages, r.partCount]),
+    [['701', ['CLOSET'], 2], ['702', ['BATH'], 1]],
+  );
+});
+
+test('joinContainerEtas: falls back to port ETA; unscheduled containers sort last', () => {
+  const { containers } = joinContainerEtas(
+    [group(9, [entry('701', 'A', 'x')]), group(8, [entry('701', 'A', 'y')]), group(3, [entry('701', 'A', 'z')])],
+    [sched('8', '', '5/1/2026'), sched('3', '4/1/2026')],
+  );
+  assert.deepEqual(containers.map((c) => [c.number, c.projectedUnblock, c.scheduled]), [
+    [3, '2026-04-01', true],
+    [8, '2026-05-01', true],
+    [9, null, false],
+  ]);
+});
+
+test('joinContainerEtas: room takes the latest ETA among pending containers only', () => {
+  const { rooms } = joinContainerEtas(
+    [
+      group(1, [entry('701', 'A', 'x')], true), // arrived — ignored even with a later date
+      group(2, [entry('701', 'A', 'y')]),
+      group(3, [entry('701', 'B', 'z'), entry('701', 'B', 'w')]),
+      group(4, [entry('801', 'A', 'x')]),
+      group(5, [entry('901', 'A', 'x')], true),
+    ],
+    [sched('1', '9/1/2026'), sched('2', '4/1/2026'), sched('3', '5/1/2026')],
+  );
+  assert.deepEqual(
+    rooms.map((r) => [r.roomNo, r.latestEta, r.pendingContainers, r.undatedContainers, r.outstandingParts]),
+    [
+      ['701', '2026-05-01', [2, 3], [], 3],
+      ['801', null, [4], [4], 1],
+    ],
+  );
+});
+
+test('joinContainerEtas: a container on several schedule rows keeps the latest dates', () => {
+  const { containers } = joinContainerEtas(
+    [group(5, [entry('701', 'A', 'x')])],
+    [sched('5', '4/1/2026'), sched('Containers 5, 6', '4/15/2026')],
+  );
+  assert.equal(containers[0].projectedUnblock, '2026-04-15');
+});
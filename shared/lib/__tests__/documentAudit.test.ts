@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { auditContainerDocuments, driveIdsToLookUp, extractDriveFileId, type DocumentAuditInput, type DriveLookup } from '../documentAudit';
+
+const PDF_ID = '1AbCdEfGhIjKlMnOp';
+const GONE_ID = '1ZyXwVuTsRqPoNmLk';
+const SHEET_ID = '1SheetSheetSheet00';
+
+function row(over: Partial<DocumentAuditInput> = {}): DocumentAuditInput {
+  return {
+    id: 3, containerNumber: '7', factory: 'IDM', status: 'Shipped',
+    bolCopy: '', insurance: '', packingList: '', productListWithPhotos: '', productDetails: '', warehouseProofOfDelivery: '',
+    ...over,
+  };
+}
+
+const lookups = new Map<string, DriveLookup>([
+  [PDF_ID, { name: 'bol.pdf', mimeType: 'application/pdf', modifiedTime: '2026-03-01T00:00:00Z', trashed: false }],
+  [GONE_ID, null],
+  [SHEET_ID, { name: 'Packing', mimeType: 'application/vnd.google-apps.spreadsheet', modifiedTime: null, trashed: false }],
+]);
+
+test('extractDriveFileId: file, docs and open?id links; other URLs are not Drive files', () => {
+  assert.equal(extractDriveFileId(`https://drive.google.com/file/d/${PDF_ID}/view?usp=sharing`), PDF_ID);
+  assert.equal(extractDriveFileId(`https://docs.google.com/spreadsheets/d/${SHEET_ID}/edit#gid=0`), SHEET_ID);
+  assert.equal(extractDriveFileId(`https://drive.google.com/open?id=${PDF_ID}`), PDF_ID);
+  assert.equal(extractDriveFileId('https://photos.app.goo.gl/abc'), null);
+});
+
+test('driveIdsToLookUp: each linked Drive file once, text fields ignored', () => {
+  const link = `https://drive.google.com/file/d/${PDF_ID}/view`;
+  assert.deepEqual(driveIdsToLookUp([row({ bolCopy: link, insurance: link, productDetails: link })]), [PDF_ID]);
+});
+
+test('auditContainerDocuments: classifies each cell', () => {
+  const [a] = auditContainerDocuments(
+    [
+      row({
+        bolCopy: `https://drive.google.com/file/d/${PDF_ID}/view`,
+        insurance: `https://drive.google.com/file/d/${GONE_ID}/view`,
+        packingList: `https://docs.google.com/spreadsheets/d/${SHEET_ID}/edit`,
+        productListWithPhotos: 'see email',
+        productDetails: 'Closet doors',
+        warehouseProofOfDelivery: 'N/A',
+      }),
+    ],
+    lookups,
+  );
+  assert.equal(a.docs.bolCopy.state, 'ok');
+  assert.equal(a.docs.bolCopy.name, 'bol.pdf');
+  assert.equal(a.docs.insurance.state, 'not-found');
+  assert.equal(a.docs.packingList.state, 'ok');
+  assert.equal(a.docs.productListWithPhotos.state, 'not-a-link');
+  assert.equal(a.docs.productDetails.state, 'ok');
+  assert.equal(a.docs.warehouseProofOfDelivery.state, 'missing');
+  assert.equal(a.presentCount, 3);
+});
+
+test('auditContainerDocuments: a spreadsheet is the wrong type for a BOL; failed lookups are unverified', () => {
+  const [a] = auditContainerDocuments(
+    [row({ bolCopy: `https://docs.google.com/spreadsheets/d/${SHEET_ID}/edit`, insurance: `https://drive.google.com/file/d/${PDF_ID}x/view` })],
+    new Map([...lookups, [`${PDF_ID}x`, 'error']]),
+  );
+  assert.equal(a.docs.bolCopy.state, 'wrong-type');
+  assert.equal(a.docs.insurance.state, 'unverified');
+});
+
+test('auditContainerDocuments: delivered without BOL or POD is flagged; in transit is not', () => {
+  const audits = auditContainerDocuments(
+    [
+      row({ id: 1, status: 'Warehouse', bolCopy: `https://drive.google.com/file/d/${PDF_ID}/view` }),
+      row({ id: 2, status: 'Arrived to hotel', bolCopy: `https://drive.google.com/file/d/${GONE_ID}/view`, warehouseProofOfDelivery: `https://drive.google.com/file/d/${PDF_ID}/view` }),
+      row({ id: 3, status: 'Shipped' }),
+    ],
+    lookups,
+  );
+  assert.deepEqual(audits.map((a) => [a.id, a.delivered, a.missingRequired, a.flagged]), [
+    [1, true, ['warehouseProofOfDelivery'], true],
+    [2, true, ['bolCopy'], true],
+    [3, false, [], false],
+  ]);
+});
@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { buildSlippageReport, etaChanged, scheduleContainerKey, type EtaObservation } from '../etaSlippage';
+
+function obs(container: string, etaWarehouse: string | null, observedAt: string, etaNYPort: string | null = null): EtaObservation {
+  return { container, etaNYPort, etaWarehouse, observedAt };
+}
+
+test('scheduleContainerKey: collapses whitespace so re-typed cells match', () => {
+  assert.equal(scheduleContainerKey('  Container   5 '), 'Container 5');
+});
+
+test('etaChanged: only a different pair is a new observation; all-blank first read is not', () => {
+  assert.equal(etaChanged(undefined, { etaNYPort: null, etaWarehouse: null }), false);
+  assert.equal(etaChanged(undefined, { etaNYPort: null, etaWarehouse: '2026-04-01' }), true);
+  const last = { etaNYPort: '2026-03-20', etaWarehouse: '2026-04-01' };
+  assert.equal(etaChanged(last, { ...last }), false);
+  assert.equal(etaChanged(last, { ...last, etaWarehouse: '2026-04-08' }), true);
+});
+
+test('buildSlippageReport: original vs current, days slipped, revisions', () => {
+  const [c] = buildSlippageReport([
+    obs('5', '2026-04-15', '2026-03-10T00:00:00Z'),
+    obs('5', '2026-04-01', '2026-03-01T00:00:00Z'),
+    obs('5', '2026-04-20', '2026-03-20T00:00:00Z'),
+  ]);
+  assert.equal(c.warehouse?.original, '2026-04-01');
+  assert.equal(c.warehouse?.current, '2026-04-20');
+  assert.equal(c.daysSlipped, 19);
+  assert.equal(c.revisions, 2);
+  assert.equal(c.nyPort, null);
+});
+
+test('buildSlippageReport: blanks in between are not revisions; most slipped sorts first', () => {
+  const report = buildSlippageReport([
+    obs('3', '2026-04-01', '2026-03-01T00:00:00Z'),
+    obs('3', null, '2026-03-05T00:00:00Z'),
+    obs('3', '2026-04-01', '2026-03-09T00:00:00Z'),
+    obs('4', '2026-04-01', '2026-03-01T00:00:00Z'),
+    obs('4', '2026-04-03', '2026-03-02T00:00:00Z'),
+    obs('6', null, '2026-03-01T00:00:00Z'),
+  ]);
+  assert.deepEqual(report.map((r) => [r.container, r.daysSlipped, r.revisions]), [['4', 2, 1], ['3', 0, 0]]);
+});
+
+test('buildSlippageReport: headline slip is the larger of port and warehouse', () => {
+  const [c] = buildSlippageReport([
+    obs('7', '2026-05-01', '2026-03-01T00:00:00Z', '2026-04-20'),
+    obs('7', '2026-05-03', '2026-03-08T00:00:00Z', '2026-04-30'),
+  ]);
+  assert.equal(c.nyPort?.daysSlipped, 10);
+  assert.equal(c.warehouse?.daysSlipped, 2);
+  assert.equal(c.daysSlipped, 10);
+});
@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { fetchSheetData, getSpreadsheetInfo } from '../../../server/services/fileSheets';
+
+// A fixtures folder: shared CSVs at the root, plus one spreadsheet ID with its own.
+function fixtures(): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'sheets-fixtures-'));
+  fs.writeFileSync(path.join(root, 'Budget.csv'), 'Item,Cost,Share\n"Paint, exterior","$1,250.50",45%\nTile,(300),\n');
+  fs.mkdirSync(path.join(root, 'progress-sheet'));
+  fs.writeFileSync(path.join(root, 'progress-sheet', 'Rooms.csv'), 'ROOM #,Done\n101,TRUE\n');
+  process.env.SHEETS_FIXTURE_PATH = root;
+  return root;
+}
+
+test('file provider: CSV folders answer like the Sheets API, per ID or shared', async () => {
+  const root = fixtures();
+  try {
+    const formatted = await fetchSheetData('any-id', 'Budget!A:C');
+    assert.deepEqual(formatted.headers, ['Item', 'Cost', 'Share']);
+    assert.equal(formatted.rows[0].Item, 'Paint, exterior');
+    assert.equal(formatted.rows[0].Cost, '$1,250.50');
+
+    const raw = await fetchSheetData('any-id', 'Budget!A:C', 'UNFORMATTED_VALUE');
+    assert.equal(raw.rows[0].Cost, 1250.5);
+    assert.equal(raw.rows[0].Share, 0.45);
+    assert.equal(raw.rows[1].Cost, -300);
+
+    const info = await getSpreadsheetInfo('progress-sheet');
+    assert.deepEqual(info.sheets.map((s) => s.title), ['Rooms']);
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
+
+test('file provider: spreadsheet IDs cannot step outside the fixtures folder', async () => {
+  const root = fixtures();
+  try {
+    for (const id of ['..', '../secrets', 'progress-sheet/../..', '..\\secrets', '/etc']) {
+      await assert.rejects(fetchSheetData(id, 'Budget!A:C'), /Invalid spreadsheet ID/, id);
+    }
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { buildCompletionForecasts, forecastCompletion, type RollupSnapshot } from '../forecast';
+import type { RollupTower } from '../../types/dashboard';
+
+/** Daily points from `start`, one per `step` days. */
+function series(start: string, step: number, pcts: number[]) {
+  const t0 = Date.parse(`${start}T00:00:00Z`);
+  return pcts.map((pct, i) => ({ date: new Date(t0 + i * step * 86_400_000).toISOString().slice(0, 10), pct }));
+}
+
+test('forecastCompletion: a steady rate projects from the latest value, band collapses on a perfect fit', () => {
+  const f = forecastCompletion(series('2026-03-01', 7, [40, 50, 60, 70]));
+  assert.equal(f.status, 'projected');
+  assert.equal(f.currentPct, 70);
+  assert.equal(f.asOf, '2026-03-22');
+  assert.equal(f.ratePerWeek, 10);
+  assert.equal(f.projectedDate, '2026-04-12'); // 30 points at 10/week
+  assert.equal(f.earliestDate, f.projectedDate);
+  assert.equal(f.latestDate, f.projectedDate);
+});
+
+test('forecastCompletion: a noisy rate gets a band around the projection', () => {
+  const f = forecastCompletion(series('2026-03-01', 2, [20, 26, 25, 33, 32, 40, 39, 47]));
+  assert.equal(f.status, 'projected');
+  assert.ok(f.earliestDate! < f.projectedDate!);
+  assert.ok(f.latestDate === null || f.latestDate > f.projectedDate!);
+});
+
+test('forecastCompletion: complete, stalled, and too little history', () => {
+  const done = forecastCompletion(series('2026-03-01', 7, [80, 100, 100]));
+  assert.equal(done.status, 'complete');
+  assert.equal(done.projectedDate, '2026-03-08');
+
+  const flat = forecastCompletion(series('2026-03-01', 7, [50, 50, 49, 50]));
+  assert.equal(flat.status, 'stalled');
+  assert.equal(flat.projectedDate, null);
+
+  assert.equal(forecastCompletion(series('2026-03-01', 1, [10, 20, 30])).status, 'insufficient-data'); // 2-day span
+  assert.equal(forecastCompletion([]).currentPct, null);
+});
+
+test('forecastCompletion: only the window before the latest point is fitted', () => {
+  // A fast start two months ago, then a slower pace for the last four weeks.
+  const old = series('2026-01-01', 7, [0, 20, 40]);
+  const recent = series('2026-03-01', 7, [50, 55, 60, 65, 70]);
+  const f = forecastCompletion([...old, ...recent], 28);
+  assert.equal(f.points, 5);
+  assert.equal(f.ratePerWeek, 5);
+});
+
+function tower(name: 'HR' | 'LR', installedPct: number | null, floors: [string, number | null][]): RollupTower {
+  return {
+    tower: name,
+    containersTab: '',
+    installationTab: '',
+    installedPct,
+    duplicateRooms: [],
+    floors: floors.map(([floor, pct]) => ({ floor, installedPct: pct, roomsAvgPct: pct, installedFromSheet: false, rooms: [] })),
+  };
+}
+
+test('buildCompletionForecasts: per tower and floor, following the latest snapshot', () => {
+  const snapshots: RollupSnapshot[] = series('2026-03-01', 7, [0, 0, 0]).map(({ date }, i) => ({
+    date,
+    towers: [tower('HR', 50 + i * 10, [['20', 60 + i * 20], ['19', i === 1 ? null : 40 + i * 5]])],
+  }));
+  const [hr] = buildCompletionForecasts(snapshots.reverse());
+  assert.equal(hr.tower, 'HR');
+  assert.equal(hr.status, 'projected');
+  assert.equal(hr.ratePerWeek, 10);
+  assert.deepEqual(hr.floors.map((f) => f.floor), ['20', '19']);
+  assert.equal(hr.floors[0].status, 'complete');
+  assert.equal(hr.floors[1].points, 2); // the null day is skipped
+  assert.equal(hr.floors[1].status, 'insufficient-data');
+});
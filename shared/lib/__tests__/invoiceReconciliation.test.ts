@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  auditInvoicesFromRows,
+  buildInvoiceReconciliation,
+  type ReconciliationCategoryInput,
+  type ReconciliationItemInput,
+} from '../invoiceReconciliation';
+
+const ITEMS: ReconciliationItemInput[] = [
+  { key: 'rooms|carpet', name: 'Carpet', category: 'Rooms', displayCategory: 'Rooms', adjustedEstimate: 10000, paid: 4000 },
+  { key: 'rooms|paint', name: 'Paint', category: 'Rooms', displayCategory: 'Rooms', adjustedEstimate: 3000, paid: 1000 },
+  { key: 'libarary|books', name: 'Books', category: 'Libarary', displayCategory: 'Library', adjustedEstimate: 5000, paid: 0 },
+];
+const CATEGORIES: ReconciliationCategoryInput[] = [
+  { name: 'Rooms', displayName: 'Rooms', adjustedTotal: 13000 },
+  { name: 'Libarary', displayName: 'Library', adjustedTotal: 5000 },
+];
+
+test('auditInvoicesFromRows: case-drifting headers, formatted money, blank rows skipped', () => {
+  const r = auditInvoicesFromRows([
+    { VENDOR_NAME: 'Acme Flooring', INVOICE_NUMBER: 'A-1', INVOICE_AMOUNT: '$6,000.00', VERDICT: 'APPROVE', POTENTIAL_OVERCHARGE: 0 },
+    { vendor_name: null, invoice_amount: null },
+    { vendor_name: 'Page Turners', invoice_number: 7, invoice_amount: 2500, verdict: 'REJECT', potential_overcharge: '$300' },
+  ]);
+  assert.deepEqual(
+    r.map((i) => [i.row, i.vendor, i.invoiceNumber, i.amount, i.verdict, i.potentialOvercharge]),
+    [
+      [2, 'Acme Flooring', 'A-1', 6000, 'APPROVE', 0],
+      [4, 'Page Turners', '7', 2500, 'REJECT', 300],
+    ],
+  );
+});
+
+test('buildInvoiceReconciliation: invoiced vs paid vs estimated, over-budget flags, overcharge by category', () => {
+  const invoices = auditInvoicesFromRows([
+    { vendor_name: 'Acme Flooring', invoice_amount: 6000, potential_overcharge: 0 },
+    { vendor_name: 'ACME  flooring ', invoice_amount: 5000, potential_overcharge: 800 }, // crosses 10,000
+    { vendor_name: 'Acme Flooring', invoice_amount: 200, potential_overcharge: 0 },
+    { vendor_name: 'Page Turners', invoice_amount: 2500, potential_overcharge: 300 },
+    { vendor_name: 'Mystery LLC', invoice_amount: 900, potential_overcharge: 150 },
+  ]);
+  const r = buildInvoiceReconciliation(ITEMS, CATEGORIES, invoices, [
+    { vendor: 'Acme Flooring', itemKey: 'rooms|carpet', category: null },
+    { vendor: 'Page Turners', itemKey: null, category: ' libarary ' },
+    { vendor: 'Gone Vendor', itemKey: 'rooms|removed', category: null },
+  ]);
+
+  const [carpet, library] = r.lines;
+  assert.equal(carpet.key, 'rooms|carpet'); // over budget sorts first
+  assert.equal(carpet.overBudget, true);
+  assert.equal(carpet.invoiced, 11200);
+  assert.equal(carpet.paid, 4000);
+  assert.deepEqual(carpet.invoices.map((i) => i.pushesOverBudget), [false, true, true]);
+
+  assert.equal(library.target, 'category');
+  assert.equal(library.name, 'Library');
+  assert.equal(library.estimated, 5000);
+  assert.equal(library.overBudget, false);
+
+  assert.deepEqual(
+    r.overchargeByCategory.map((c) => [c.displayName, c.potentialOvercharge, c.invoiceCount]),
+    [['Rooms', 800, 3], ['Library', 300, 1], ['Unmapped', 150, 1]],
+  );
+  assert.deepEqual(r.unmappedVendors.map((u) => [u.vendor, u.invoiced]), [['Mystery LLC', 900]]);
+  assert.deepEqual(r.orphanMappings, ['Gone Vendor']);
+  assert.deepEqual(r.totals, { invoiced: 14600, mappedInvoiced: 13700, potentialOvercharge: 1250, overBudgetLines: 1, flaggedInvoices: 2 });
+});
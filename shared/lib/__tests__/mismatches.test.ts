@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { buildRoomRows, discoverRoomTabStructure, columnLetter, findPackageMismatches, mismatchesToCsv } from '../index';
+import { getTab } from '../../config/tabs';
+import type { RoomTab } from '../../types/dashboard';
+
+const tab = getTab('HR Installation Progress') as RoomTab;
+
+// Title row, header row, then rooms (one blank spacer row in between).
+const grid = [
+  ['HR INSTALLATION'],
+  ['Floor', '', 'Room Type', 'WHITE BOX', 'Room #', 'HEADBOARD PACKAGE', 'Panel', 'Track', 'DESK PACKAGE', 'Top'],
+  ['7', 'L1', 'King', 'TRUE', '701', '100%', 'Installed', 'Installed', '0%', ''],
+  ['', '', '', '', '', '', '', '', '', ''],
+  ['', 'L2', 'King', 'TRUE', '702', '50%', 'Installed', '', '0.5', 'Installed'],
+];
+
+test('columnLetter: A1 column letters past Z', () => {
+  assert.deepEqual([0, 25, 26, 51, 52, 701, 702].map(columnLetter), ['A', 'Z', 'AA', 'AZ', 'BA', 'ZZ', 'AAA']);
+});
+
+test('findPackageMismatches: only disagreeing summary cells, with their sheet address', () => {
+  const structure = discoverRoomTabStructure(grid);
+  const rows = buildRoomRows(grid, structure, tab);
+  const items = findPackageMismatches(grid, structure, tab, rows);
+
+  assert.deepEqual(
+    items.map((m) => [m.roomNo, m.package, m.manualPct, m.recomputedPct, m.cell, m.manualRaw]),
+    [['702', 'DESK', 50, 100, 'I5', '0.5']],
+  );
+  assert.equal(items[0].floor, '7');
+  assert.equal(items[0].tower, 'HR');
+});
+
+test('mismatchesToCsv: header row and quoted fields', () => {
+  const csv = mismatchesToCsv([
+    { tab: 'HR, main', tower: 'HR', type: 'installation', roomNo: '702', floor: '7', package: 'DESK "A"', manualRaw: '50%', manualPct: 50, recomputedPct: 100, cell: 'I5' },
+  ]);
+  assert.equal(
+    csv,
+    'Tab,Cell,Floor,Room #,Package,Sheet %,Recomputed %,Cell value\r\n"HR, main",I5,7,702,"DESK ""A""",50,100,50%\r\n',
+  );
+});
@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { buildPartLeaderboard, partRoomCells, type PartLeaderboardInput } from '../partLeaderboard';
+import type { PartCell, RoomRow, RoomTab, UrgencyBucket } from '../../types/dashboard';
+
+const HR_INSTALL: RoomTab = { kind: 'room', sheetName: 'HR Installation Progress', type: 'installation', vocab: 'hr', tower: 'HR' };
+const LR_INSTALL: RoomTab = { kind: 'room', sheetName: 'LR-Installation Progress', type: 'installation', vocab: 'lr', tower: 'LR' };
+const HR_CONTAINERS: RoomTab = { kind: 'room', sheetName: 'HR Containers Distribution', type: 'containers', vocab: 'containers', tower: 'HR' };
+
+function part(header: string, bucket: UrgencyBucket, rawValue = bucket): PartCell {
+  return { header, rawValue: bucket === 'unrecorded' ? '' : rawValue, bucket, weight: 0, isBlank: bucket === 'unrecorded' };
+}
+
+function room(roomNo: string, pkg: string, parts: PartCell[]): RoomRow {
+  return {
+    roomNo,
+    floor: roomNo.slice(0, -2),
+    floorPct: null,
+    line: '',
+    type: 'King',
+    installedPct: null,
+    packages: [{ name: pkg, recomputedPct: 0, manualPct: null, mismatch: false, unrecordedCount: 0, naOnly: false, parts }],
+  };
+}
+
+const inputs: PartLeaderboardInput[] = [
+  {
+    tab: HR_INSTALL,
+    rows: [
+      room('2701', 'HEADBOARD', [part('Headboard Niche Door', 'problem', 'Missing Parts'), part('Headboard Panel', 'received')]),
+      room('2702', 'HEADBOARD', [part('Headboard Niche Door', 'incoming'), part('Headboard Panel', 'received')]),
+      room('2601', 'HEADBOARD', [part('Headboard Niche Door', 'unrecorded'), part('Headboard Panel', 'excluded', 'N/A')]),
+    ],
+  },
+  {
+    tab: LR_INSTALL,
+    rows: [room('801', 'Headboard', [part('Headboard Niche Door', 'received'), part('Headboard Panel', 'upstream')])],
+  },
+  {
+    tab: HR_CONTAINERS,
+    rows: [room('2701', 'HEADBOARD', [part('Headboard Niche Door', 'received')])],
+  },
+];
+
+test('buildPartLeaderboard: ranks by rooms missing the part, merges towers, keeps tab types apart', () => {
+  const board = buildPartLeaderboard(inputs);
+  assert.deepEqual(
+    board.map((e) => [e.type, e.package, e.part, e.counts.missing]),
+    [
+      ['installation', 'HEADBOARD', 'Headboard Niche Door', 3],
+      ['installation', 'HEADBOARD', 'Headboard Panel', 1],
+      ['containers', 'HEADBOARD', 'Headboard Niche Door', 0],
+    ],
+  );
+
+  const niche = board[0];
+  assert.equal(niche.counts.applicable, 4);
+  assert.equal(niche.counts.problem, 1);
+  assert.equal(niche.counts.unrecorded, 1);
+  assert.deepEqual(niche.byTower.map((t) => [t.tower, t.counts.missing]), [['HR', 3], ['LR', 0]]);
+  assert.deepEqual(niche.byFloor.map((f) => [f.tower, f.floor, f.counts.missing]), [['HR', '27', 2], ['HR', '26', 1], ['LR', '8', 0]]);
+
+  assert.equal(board[1].counts.applicable, 3); // the N/A cell on 2601 doesn't count
+});
+
+test('partRoomCells: waiting rooms first, narrowed by tower and floor', () => {
+  const rooms = partRoomCells(inputs, 'installation', 'headboard', 'Headboard Niche Door');
+  assert.deepEqual(rooms.map((r) => [r.tower, r.roomNo, r.bucket]), [
+    ['HR', '2701', 'problem'],
+    ['HR', '2702', 'incoming'],
+    ['HR', '2601', 'unrecorded'],
+    ['LR', '801', 'received'],
+  ]);
+  assert.deepEqual(
+    partRoomCells(inputs, 'installation', 'HEADBOARD', 'Headboard Niche Door', { tower: 'HR', floor: '26' }).map((r) => r.roomNo),
+    ['2601'],
+  );
+});
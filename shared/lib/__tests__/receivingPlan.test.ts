@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { buildReceivingPlan, weekStartOf, type ReceivingScheduleInput } from '../receivingPlan';
+import type { ContainerRoomUnblock } from '../../types/dashboard';
+
+function row(id: number, containerNumber: string, etaWarehouse: string): ReceivingScheduleInput {
+  return { id, containerNumber, factory: 'IDM', status: 'Shipped', etaWarehouse };
+}
+
+function room(roomNo: string, packages: string[], partCount: number): ContainerRoomUnblock {
+  return { tower: 'LR', roomNo, floor: roomNo.slice(0, -2), packages, partCount };
+}
+
+test('weekStartOf: Monday of the week, Sunday belongs to the week before', () => {
+  assert.equal(weekStartOf('2026-04-15'), '2026-04-13'); // Wednesday
+  assert.equal(weekStartOf('2026-04-13'), '2026-04-13'); // Monday
+  assert.equal(weekStartOf('2026-04-19'), '2026-04-13'); // Sunday
+});
+
+test('buildReceivingPlan: containers grouped by warehouse ETA week, undated kept apart', () => {
+  const plan = buildReceivingPlan(
+    [row(3, '7', '4/16/2026'), row(4, '8', '4/14/2026'), row(5, '9', '4/21/2026'), row(6, '10', 'TBD')],
+    [],
+  );
+  assert.deepEqual(
+    plan.weeks.map((w) => [w.weekStart, w.containers.map((c) => c.container)]),
+    [['2026-04-13', ['8', '7']], ['2026-04-20', ['9']]],
+  );
+  assert.deepEqual(plan.undated.map((c) => c.container), ['10']);
+});
+
+test('buildReceivingPlan: a week merges the rooms its containers unblock', () => {
+  const plan = buildReceivingPlan(
+    [row(3, 'Container 7', '4/14/2026'), row(4, 'Containers 8 & 9', '4/15/2026')],
+    [
+      { number: 7, rooms: [room('701', ['CLOSET'], 2)] },
+      { number: 8, rooms: [room('701', ['BATH'], 1), room('702', ['BATH'], 1)] },
+      { number: 9, rooms: [room('702', ['BATH'], 3)] },
+    ],
+  );
+  const [week] = plan.weeks;
+  assert.deepEqual(week.containers[1].numbers, [8, 9]);
+  assert.deepEqual(week.containers[1].rooms.map((r) => [r.roomNo, r.partCount]), [['701', 1], ['702', 4]]);
+  assert.deepEqual(week.rooms.map((r) => [r.roomNo, r.packages, r.partCount]), [['701', ['CLOSET', 'BATH'], 3], ['702', ['BATH'], 4]]);
+  assert.equal(week.partCount, 7);
+});
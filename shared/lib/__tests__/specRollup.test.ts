@@ -0,0 +1,123 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { buildSpecRollup, checkRoomSpec, floorNumber, parseSpecFilter } from '../specRollup';
+import type { PackageResult, RollupRoom, RollupTower, RoomSpec, UrgencyBucket } from '../../types/dashboard';
+
+function pkg(name: string, parts: [string, string, UrgencyBucket][]): PackageResult {
+  return {
+    name,
+    recomputedPct: 0,
+    manualPct: null,
+    mismatch: false,
+    unrecordedCount: 0,
+    naOnly: parts.every(([, , b]) => b === 'excluded'),
+    parts: parts.map(([header, rawValue, bucket]) => ({ header, rawValue, bucket, weight: 1, isBlank: rawValue === '' })),
+  };
+}
+
+function room(roomNo: string, floor: string, installedPct: number | null, installed: PackageResult[], occ = 0): RollupRoom {
+  return {
+    key: `${roomNo}#${occ}`,
+    roomNo,
+    floor,
+    line: '',
+    type: 'King',
+    installedPct,
+    installedApplicable: 0,
+    packages: installed.map((p) => ({ name: p.name, received: null, installed: p })),
+  };
+}
+
+function spec(roomNumber: number, overrides: Partial<RoomSpec> = {}): RoomSpec {
+  return {
+    id: roomNumber,
+    floor: Math.floor(roomNumber / 100),
+    roomNumber,
+    area: 0,
+    sizeCategory: '',
+    roomType: 'King',
+    bedSize: '',
+    ada: 'No',
+    connectingDoor: 'No',
+    sinkStyle: '',
+    sinkSize: '',
+    showerWithGlassDoor: '',
+    showerWindow: '',
+    mossWall: '',
+    mirrorSlidingDoor: '',
+    moxyBar: '',
+    miniBarSize: '',
+    speakeasy: 'No',
+    partyBoxHeadboard: '',
+    curtainType: '',
+    nightStands: '',
+    tvSize: '',
+    ...overrides,
+  };
+}
+
+const speakEasyNA = pkg('SPEAK EASY', [['Speak Easy Bar Counter', 'N/A', 'excluded'], ['Speak Easy Mirror', 'N/A', 'excluded']]);
+const speakEasyDone = pkg('SPEAK EASY', [['Speak Easy Bar Counter', 'Installed', 'received'], ['Speak Easy Mirror', '', 'unrecorded']]);
+
+test('checkRoomSpec: flags a spec feature whose parts are all N/A, and tracked parts the spec rules out', () => {
+  const missing = checkRoomSpec(spec(2001, { speakeasy: 'Yes' }), [room('2001', '20', 50, [speakEasyNA])]);
+  assert.deepEqual(missing.map((d) => [d.feature, d.side, d.kind]), [['speakeasy', 'installed', 'spec-not-tracked']]);
+
+  const extra = checkRoomSpec(spec(2002), [room('2002', '20', 50, [speakEasyDone])]);
+  assert.equal(extra[0].kind, 'tracked-not-in-spec');
+  assert.deepEqual(extra[0].parts, ['Speak Easy Bar Counter']); // the blank cell is not a statement
+
+  assert.deepEqual(checkRoomSpec(spec(2003, { speakeasy: 'Yes' }), [room('2003', '20', 50, [speakEasyDone])]), []);
+  assert.deepEqual(checkRoomSpec(spec(2004, { speakeasy: '' }), [room('2004', '20', 50, [speakEasyNA])]), []); // unknown spec
+  assert.deepEqual(checkRoomSpec(spec(2005, { speakeasy: 'Yes' }), [room('2005', '20', 50, [])]), []); // tab doesn't track it
+});
+
+test('checkRoomSpec: a suite passes when any of its rows tracks the feature', () => {
+  const main = room('2010', '20', 40, [speakEasyDone]);
+  const lv = room('2010', '20', 40, [speakEasyNA], 1);
+  assert.deepEqual(checkRoomSpec(spec(2010, { speakeasy: 'Yes' }), [main, lv]), []);
+});
+
+test('floorNumber: reads the digits of a sheet floor label', () => {
+  assert.deepEqual(['22ND', ' 27th ', '22', '1ST'].map(floorNumber), [22, 27, 22, 1]);
+  assert.equal(floorNumber('ROOF'), null);
+  assert.equal(floorNumber(''), null);
+});
+
+test('parseSpecFilter: floors range, features, attributes, tower', () => {
+  const f = parseSpecFilter({ floors: '27-20', ada: 'yes', speakeasy: 'No', roomType: ' King ', tower: 'lr', moxyBar: 'maybe' });
+  assert.equal(f.floorMin, 20);
+  assert.equal(f.floorMax, 27);
+  assert.deepEqual(f.features, { ada: true, speakeasy: false });
+  assert.deepEqual(f.attributes, { roomType: 'King' });
+  assert.equal(f.tower, 'LR');
+  assert.equal(f.flaggedOnly, false);
+  assert.equal(parseSpecFilter({ floors: '21' }).floorMax, 21);
+});
+
+test('buildSpecRollup: joins by Room #, filters by spec, re-averages floors over the kept rooms', () => {
+  const tower: RollupTower = {
+    tower: 'HR',
+    containersTab: '',
+    installationTab: '',
+    installedPct: 50,
+    duplicateRooms: [],
+    floors: [
+      { floor: '27', installedPct: 60, roomsAvgPct: 60, installedFromSheet: false, rooms: [room('2701', '27', 80, []), room('2702', '27', 40, [])] },
+      { floor: '19', installedPct: 20, roomsAvgPct: 20, installedFromSheet: false, rooms: [room('1901', '19', 20, [])] },
+    ],
+  };
+  const specs = [spec(2701, { ada: 'Yes' }), spec(2702), spec(1901, { ada: 'Yes' }), spec(3001)];
+
+  const ada = buildSpecRollup([tower], specs, parseSpecFilter({ ada: 'yes', floors: '20-27' }));
+  assert.equal(ada.towers[0].roomCount, 1);
+  assert.equal(ada.towers[0].floors[0].rooms[0].roomNo, '2701');
+  assert.equal(ada.towers[0].floors[0].installedPct, 80);
+  assert.equal(ada.matchedRooms, 3);
+  assert.deepEqual(ada.specsWithoutRoom, [3001]);
+
+  const all = buildSpecRollup([tower], specs.slice(1), parseSpecFilter({}));
+  assert.equal(all.towers[0].roomCount, 3); // no spec criteria → rooms without a spec row stay
+  assert.deepEqual(all.roomsWithoutSpec, ['2701']);
+});
@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { discoverRoomTabStructure, diffTaxonomy, describeLayout, describeLayoutChange, layoutSignature } from '../index';
+import type { ExpectedTaxonomy } from '../../config/expectedTaxonomies';
+
+const LEADING = ['Floor', '', 'Room Type', 'WHITE BOX', 'Room #'];
+
+const expected: ExpectedTaxonomy = {
+  tab: 'X',
+  packages: [
+    { name: 'HEADBOARD', parts: ['Panel', 'Track', 'Niche'] },
+    { name: 'TV UNIT', parts: ['Cabinet', 'Mount'] },
+    { name: 'DESK', parts: ['Top', 'Leg'] },
+    { name: 'MIRROR', parts: ['Glass'] },
+  ],
+};
+
+function grid(header: string[], ...rooms: string[][]) {
+  return [[...LEADING, ...header], ...rooms.map((r) => ['7', 'L1', 'King', 'TRUE', ...r])];
+}
+
+test('diffTaxonomy: a tab matching its taxonomy has no drift', () => {
+  const g = grid(
+    ['HEADBOARD PACKAGE', 'Panel', 'Track', 'Niche', 'TV UNIT PACKAGE', 'Cabinet', 'Mount', 'DESK PACKAGE', 'Top', 'Leg', 'MIRROR PACKAGE', 'Glass'],
+    ['701'],
+  );
+  const drift = diffTaxonomy(g, discoverRoomTabStructure(g), expected);
+  assert.equal(drift.issueCount, 0);
+  assert.deepEqual(drift.discovered, drift.expected);
+});
+
+test('diffTaxonomy: renames, added/removed packages, added/removed/moved parts', () => {
+  const g = grid(
+    [
+      'HEADBOARD PACKAGE', 'Panel', 'Track', 'LED Strip',
+      'TV CABINET PACKAGE', 'Cabinet', 'Mount',
+      'DESKS PACKAGE', 'Top', 'Leg', 'Niche',
+      'WARDROBE PACKAGE', 'Door',
+    ],
+    ['701'],
+  );
+  const drift = diffTaxonomy(g, discoverRoomTabStructure(g), expected);
+
+  assert.deepEqual(drift.packagesRenamed.map((r) => [r.from, r.to]).sort(), [['DESK', 'DESKS'], ['TV UNIT', 'TV CABINET']]);
+  assert.deepEqual(drift.packagesAdded.map((p) => [p.name, p.column]), [['WARDROBE', 'Q']]);
+  assert.deepEqual(drift.packagesRemoved.map((p) => p.name), ['MIRROR']);
+  assert.deepEqual(drift.partsMoved, [{ part: 'Niche', from: 'HEADBOARD', to: 'DESKS', column: 'P' }]);
+  assert.deepEqual(drift.partsAdded, [{ package: 'HEADBOARD', part: 'LED Strip', column: 'I' }]);
+  assert.deepEqual(drift.partsRemoved, []); // MIRROR's parts go with the package
+  assert.equal(drift.issueCount, 6);
+});
+
+test('diffTaxonomy: blank-header columns are reported only when they hold data', () => {
+  const g = grid(
+    ['HEADBOARD PACKAGE', 'Panel', '', 'Track', '', 'Niche', 'TV UNIT PACKAGE', 'Cabinet', 'Mount', 'DESK PACKAGE', 'Top', 'Leg', 'MIRROR PACKAGE', 'Glass'],
+    ['701', '', '', 'Installed', '', '', ''],
+    ['702', '', '', 'Installed', '', '', ''],
+  );
+  const structure = discoverRoomTabStructure(g);
+  assert.equal(structure.blankHeaderColumns.length, 2);
+  const drift = diffTaxonomy(g, structure, expected);
+  assert.deepEqual(drift.headerlessColumns, [{ column: 'H', package: 'HEADBOARD', filledCells: 2 }]);
+});
+
+test('describeLayoutChange: a column inserted before the packages shifts every package', () => {
+  const before = grid(['HEADBOARD PACKAGE', 'Panel', 'DESK PACKAGE', 'Top'], ['701']);
+  const after = [[...LEADING, 'Notes?', 'HEADBOARD PACKAGE', 'Panel', 'Leg', 'DESK PACKAGE', 'Top']];
+  const a = describeLayout(discoverRoomTabStructure(before));
+  const b = describeLayout(discoverRoomTabStructure(after));
+  assert.notEqual(layoutSignature(a), layoutSignature(b));
+  assert.deepEqual(describeLayoutChange(a, b), [
+    'Package HEADBOARD moved from column F to G',
+    'HEADBOARD: added Leg',
+    'Package DESK moved from column H to J',
+  ]);
+  assert.deepEqual(describeLayoutChange(a, a), []);
+});
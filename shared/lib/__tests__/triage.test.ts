@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { normalizeTriageCell, triageKey, reconcileTriage, type TriageState } from '../triage';
+
+const TAB = 'HR-Installation Progress';
+
+function rec(roomNo: string, part: string, status: string, autoClosedAt: string | null = null): TriageState {
+  return { tab: TAB, roomNo, package: 'CLOSET', part, status, autoClosedAt };
+}
+
+test('triageKey: ignores part/package case and stray whitespace', () => {
+  assert.equal(
+    triageKey({ tab: TAB, roomNo: '2701 ', package: 'Closet', part: ' Transformer Door' }),
+    triageKey({ tab: TAB, roomNo: '2701', package: 'CLOSET', part: 'TRANSFORMER DOOR' }),
+  );
+});
+
+test('normalizeTriageCell: stores the cell the way triageKey matches it', () => {
+  const cell = normalizeTriageCell({ tab: TAB, roomNo: ' 2701', package: 'Closet ', part: 'Transformer  Door' });
+  assert.deepEqual(cell, { tab: TAB, roomNo: '2701', package: 'CLOSET', part: 'TRANSFORMER  DOOR' });
+  assert.equal(triageKey(cell), triageKey({ tab: TAB, roomNo: '2701', package: 'closet', part: 'transformer  door' }));
+});
+
+test('reconcileTriage: open record whose cell is no longer flagged closes', () => {
+  const open = rec('2701', 'Door', 'investigating');
+  const { close, reopen } = reconcileTriage([open], [], [TAB]);
+  assert.deepEqual(close, [open]);
+  assert.deepEqual(reopen, []);
+});
+
+test('reconcileTriage: still-flagged open record is left alone', () => {
+  const open = rec('2701', 'Door', 'reordered');
+  const { close } = reconcileTriage([open], [{ tab: TAB, roomNo: '2701', package: 'CLOSET', part: 'Door' }], [TAB]);
+  assert.deepEqual(close, []);
+});
+
+test('reconcileTriage: auto-closed record reopens when flagged again; manual resolve does not', () => {
+  const auto = rec('2701', 'Door', 'resolved', '2026-03-01T00:00:00Z');
+  const manual = rec('2702', 'Door', 'resolved');
+  const flagged = [
+    { tab: TAB, roomNo: '2701', package: 'CLOSET', part: 'Door' },
+    { tab: TAB, roomNo: '2702', package: 'CLOSET', part: 'Door' },
+  ];
+  const { close, reopen } = reconcileTriage([auto, manual], flagged, [TAB]);
+  assert.deepEqual(reopen, [auto]);
+  assert.deepEqual(close, []);
+});
+
+test('reconcileTriage: records on tabs that were not scanned are untouched', () => {
+  const open = rec('2701', 'Door', 'new');
+  assert.deepEqual(reconcileTriage([open], [], ['LR-Installation Progress']).close, []);
+});
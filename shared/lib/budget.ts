@@ -13,9 +13,23 @@
 //    The sheet's extra T (Paid) / U (Balance) columns are ignored.
 //  • Blank Estimated Cost → excluded (not zero-filled). Explicit $0 → a real $0 line item.
 //  • Blank Category → an explicit "Uncategorized" bucket (never dropped).
+//  • Contingency is the fixed CONTINGENCY_RATE on top of ΣC. Drawdowns from the contingency
+//    ledger (Postgres, not the sheet) move money out of it into a category: the category's
+//    adjusted total grows by the amount, contingency remaining shrinks by it, and the Total
+//    Budget stays the same.
+//  • Approved change orders (Postgres) ride ON TOP of the sheet: each line item, category
+//    and the totals report "estimate + approved COs" next to the sheet's own estimate,
+//    which is never rewritten. Remaining / % paid / per unit follow the adjusted figure.
+//    Proposed / rejected COs are ignored here.
+//  • Approved COs and drawdowns pointing at a category or line item no longer on the sheet
+//    land in a trailing "Unassigned" bucket, so the category shares still add up to 100%.
+
+import type { ChangeOrderStatus } from '../config/changeOrders';
 
 /** 10% contingency, per the Schedule Summary totals block (12,259,501 → +1,225,950). */
 export const CONTINGENCY_RATE = 0.1;
+/** The rollup bucket for approved COs and drawdowns whose category or line item left the sheet. */
+export const UNASSIGNED_CATEGORY = 'Unassigned';
 /** Hotel key/unit count for the "cost per unit" card. NOT a per-bedroom/bathroom figure. */
 export const BUDGET_UNITS = 166;
 
@@ -29,41 +43,66 @@ export const CATEGORY_DISPLAY_NAMES: Record<string, string> = {
 
 export interface BudgetLineItem {
   id: number; // sheet row number (1-based)
+  key: string; // budgetItemKey — stable across reads, unlike the row number
   name: string; // column A
   category: string; // column F, raw trimmed ("" → grouped as Uncategorized)
   displayCategory: string; // pretty label (typos fixed; blank → "Uncategorized")
   estimatedCost: number; // column C
   paid: number; // column D
   requiredForLowRise: boolean; // column E checkbox
+  approvedChangeOrders: number; // Σ approved change orders linked to this line item
+  adjustedEstimate: number; // estimatedCost + approvedChangeOrders
 }
 
 export interface BudgetCategory {
-  name: string; // raw grouping key (or "Uncategorized")
+  name: string; // raw grouping key (or "Uncategorized" / UNASSIGNED_CATEGORY)
   displayName: string; // pretty label
   total: number; // Σ Estimated Cost in this category
-  pct: number; // % of estimatedBeforeContingency
+  pct: number; // adjustedTotal as % of adjustedEstimate + contingencyUsed (Σ adjustedTotal)
   count: number; // # line items
+  contingencyDrawn: number; // Σ contingency ledger drawdowns into this category
+  approvedChangeOrders: number; // Σ approved COs on this category or any of its line items
+  adjustedTotal: number; // total + approvedChangeOrders + contingencyDrawn
 }
 
 export interface BudgetTotals {
   estimatedBeforeContingency: number; // Σ column C
   contingencyRate: number; // CONTINGENCY_RATE
-  contingency: number; // Σ C × rate
-  total: number; // Σ C × (1 + rate) — the headline "Total Budget"
+  contingency: number; // Σ C × rate — the original contingency
+  contingencyUsed: number; // Σ contingency ledger drawdowns
+  contingencyRemaining: number; // contingency − used (negative = overdrawn)
+  total: number; // Σ C × (1 + rate) — the sheet's "Total Budget"
+  approvedChangeOrders: number; // Σ approved change orders
+  adjustedEstimate: number; // estimatedBeforeContingency + approvedChangeOrders
+  adjustedTotal: number; // total + approvedChangeOrders — the headline the owner watches
   paid: number; // Σ column D
-  paidPct: number; // paid / total × 100
-  remaining: number; // total − paid
+  paidPct: number; // paid / adjustedTotal × 100
+  remaining: number; // adjustedTotal − paid
   units: number; // BUDGET_UNITS
-  costPerUnit: number; // total / units
+  costPerUnit: number; // adjustedTotal / units
 }
 
 export interface BudgetSummary {
   totals: BudgetTotals;
-  categories: BudgetCategory[]; // sorted by total desc
+  categories: BudgetCategory[]; // sorted by adjustedTotal desc
   items: BudgetLineItem[];
   meta: { headerRow: number; firstItemRow: number; lastItemRow: number; totalRow: number; lineItemCount: number };
 }
 
+/** What the engine needs of one contingency ledger entry. */
+export interface ContingencyDrawdown {
+  category: string; // BudgetCategory.name (raw grouping key)
+  amount: number;
+}
+
+/** What the engine needs of one change order. A line-item link wins over a category. */
+export interface BudgetChangeOrder {
+  status: ChangeOrderStatus;
+  amount: number; // negative = credit
+  category: string | null; // BudgetCategory.name
+  itemKey: string | null; // budgetItemKey
+}
+
 type Cell = string | number | boolean | null | undefined;
 type Grid = ReadonlyArray<ReadonlyArray<Cell>>;
 
@@ -88,6 +127,13 @@ function str(cell: Cell): string {
   return cell == null ? '' : String(cell).trim();
 }
 
+/** Identity of a line item across reads: category + name, lowercased, with "#2",
+ *  "#3"… for repeats. Row numbers shift whenever a row is inserted above. */
+export function budgetItemKey(category: string, name: string, occurrence = 1): string {
+  const base = `${category}|${name}`.replace(/\s+/g, ' ').toLowerCase();
+  return occurrence > 1 ? `${base}#${occurrence}` : base;
+}
+
 function displayCategoryFor(rawTrimmed: string): string {
   if (rawTrimmed === '') return 'Uncategorized';
   return CATEGORY_DISPLAY_NAMES[rawTrimmed] ?? rawTrimmed;
@@ -122,10 +168,15 @@ function locateColumns(grid: Grid): { headerRow: number; name: number; cost: num
   };
 }
 
-export function buildScheduleSummaryBudget(grid: Grid): BudgetSummary {
+export function buildScheduleSummaryBudget(
+  grid: Grid,
+  drawdowns: readonly ContingencyDrawdown[] = [],
+  changeOrders: readonly BudgetChangeOrder[] = [],
+): BudgetSummary {
   const col = locateColumns(grid);
 
   const items: BudgetLineItem[] = [];
+  const seenKeys = new Map<string, number>();
   let totalRow = -1;
   for (let r = col.headerRow + 1; r < grid.length; r++) {
     const row = grid[r] ?? [];
@@ -135,24 +186,64 @@ export function buildScheduleSummaryBudget(grid: Grid): BudgetSummary {
     const cost = parseBudgetNumber(row[col.cost]);
     if (name === '' || cost === null) continue; // spacer row / blank Estimated Cost
     const category = str(row[col.category]);
+    const baseKey = budgetItemKey(category, name);
+    const occurrence = (seenKeys.get(baseKey) ?? 0) + 1;
+    seenKeys.set(baseKey, occurrence);
     items.push({
       id: r + 1,
+      key: budgetItemKey(category, name, occurrence),
       name,
       category,
       displayCategory: displayCategoryFor(category),
       estimatedCost: cost,
       paid: parseBudgetNumber(row[col.paid]) ?? 0,
       requiredForLowRise: /^(true|yes|✓|checked|1)$/i.test(str(row[col.lowRise])),
+      approvedChangeOrders: 0,
+      adjustedEstimate: cost,
     });
   }
 
+  // Approved COs onto their line item (exact key) or category (trimmed, case-insensitive),
+  // and into the item's category either way. One pointing at a line item or category no
+  // longer on the sheet still counts in the totals, and in the Unassigned bucket.
+  const itemByKey = new Map(items.map((it) => [it.key, it]));
+  const coByCat = new Map<string, number>();
+  let approvedChangeOrders = 0;
+  for (const co of changeOrders) {
+    if (co.status !== 'approved') continue;
+    approvedChangeOrders += co.amount;
+    const item = co.itemKey !== null ? itemByKey.get(co.itemKey) : undefined;
+    if (item) {
+      item.approvedChangeOrders += co.amount;
+      item.adjustedEstimate += co.amount;
+    }
+    let cat = '';
+    if (item) cat = item.category || 'Uncategorized';
+    else if (co.itemKey === null) cat = (co.category ?? '').trim();
+    // '' (an item gone from the sheet) is never a category key, so it rolls up as Unassigned.
+    coByCat.set(cat.toLowerCase(), (coByCat.get(cat.toLowerCase()) ?? 0) + co.amount);
+  }
+
   const estimatedBeforeContingency = items.reduce((s, i) => s + i.estimatedCost, 0);
   const paid = items.reduce((s, i) => s + i.paid, 0);
   const contingency = estimatedBeforeContingency * CONTINGENCY_RATE;
   const total = estimatedBeforeContingency * (1 + CONTINGENCY_RATE);
-  const remaining = total - paid;
-  const costPerUnit = BUDGET_UNITS > 0 ? total / BUDGET_UNITS : 0;
-  const paidPct = total > 0 ? (paid / total) * 100 : 0;
+  // What's left, % paid and cost per unit are against "estimate + approved COs".
+  const adjustedEstimate = estimatedBeforeContingency + approvedChangeOrders;
+  const adjustedTotal = total + approvedChangeOrders;
+  const remaining = adjustedTotal - paid;
+  const costPerUnit = BUDGET_UNITS > 0 ? adjustedTotal / BUDGET_UNITS : 0;
+  const paidPct = adjustedTotal > 0 ? (paid / adjustedTotal) * 100 : 0;
+  const contingencyUsed = drawdowns.reduce((s, d) => s + d.amount, 0);
+
+  // Drawdowns per category, matched on the raw key (trimmed, case-insensitive). One
+  // naming a category no longer on the sheet still counts against the contingency, and
+  // in the Unassigned bucket.
+  const drawnByCat = new Map<string, number>();
+  for (const d of drawdowns) {
+    const key = d.category.trim().toLowerCase();
+    drawnByCat.set(key, (drawnByCat.get(key) ?? 0) + d.amount);
+  }
 
   // Category rollup — group on the RAW trimmed value (blank → "Uncategorized").
   const byCat = new Map<string, { total: number; count: number }>();
@@ -163,18 +254,59 @@ export function buildScheduleSummaryBudget(grid: Grid): BudgetSummary {
     e.count += 1;
     byCat.set(key, e);
   }
+  // Every category's share is of the estimate plus everything moved onto it since.
+  const allocated = adjustedEstimate + contingencyUsed;
   const categories: BudgetCategory[] = [...byCat.entries()]
-    .map(([name, e]) => ({
-      name,
-      displayName: name === 'Uncategorized' ? 'Uncategorized' : (CATEGORY_DISPLAY_NAMES[name] ?? name),
-      total: e.total,
-      pct: estimatedBeforeContingency > 0 ? (e.total / estimatedBeforeContingency) * 100 : 0,
-      count: e.count,
-    }))
-    .sort((a, b) => b.total - a.total);
+    .map(([name, e]) => {
+      const cos = coByCat.get(name.toLowerCase()) ?? 0;
+      const drawn = drawnByCat.get(name.toLowerCase()) ?? 0;
+      return {
+        name,
+        displayName: name === 'Uncategorized' ? 'Uncategorized' : (CATEGORY_DISPLAY_NAMES[name] ?? name),
+        total: e.total,
+        pct: allocated > 0 ? ((e.total + cos + drawn) / allocated) * 100 : 0,
+        count: e.count,
+        contingencyDrawn: drawn,
+        approvedChangeOrders: cos,
+        adjustedTotal: e.total + cos + drawn,
+      };
+    })
+    .sort((a, b) => b.adjustedTotal - a.adjustedTotal);
+  const onSheet = new Set([...byCat.keys()].map((name) => name.toLowerCase()));
+  const unassigned = (byKey: Map<string, number>) =>
+    [...byKey].reduce((s, [key, amount]) => (onSheet.has(key) ? s : s + amount), 0);
+  const unassignedCos = unassigned(coByCat);
+  const unassignedDrawn = unassigned(drawnByCat);
+  if (unassignedCos !== 0 || unassignedDrawn !== 0) {
+    categories.push({
+      name: UNASSIGNED_CATEGORY,
+      displayName: UNASSIGNED_CATEGORY,
+      total: 0,
+      pct: allocated > 0 ? ((unassignedCos + unassignedDrawn) / allocated) * 100 : 0,
+      count: 0,
+      contingencyDrawn: unassignedDrawn,
+      approvedChangeOrders: unassignedCos,
+      adjustedTotal: unassignedCos + unassignedDrawn,
+    });
+  }
 
   return {
-    totals: { estimatedBeforeContingency, contingencyRate: CONTINGENCY_RATE, contingency, total, paid, paidPct, remaining, units: BUDGET_UNITS, costPerUnit },
+    totals: {
+      estimatedBeforeContingency,
+      contingencyRate: CONTINGENCY_RATE,
+      contingency,
+      contingencyUsed,
+      contingencyRemaining: contingency - contingencyUsed,
+      total,
+      approvedChangeOrders,
+      adjustedEstimate,
+      adjustedTotal,
+      paid,
+      paidPct,
+      remaining,
+      units: BUDGET_UNITS,
+      costPerUnit,
+    },
     categories,
     items,
     meta: {
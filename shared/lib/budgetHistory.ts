@@ -0,0 +1,178 @@
+// Budget history — dated snapshots of the Schedule Summary read, and what moved
+// between them. Pure, no I/O. The sheet only ever shows today's estimate and
+// paid per line item, so every read is kept (one snapshot per day, the latest
+// read of the day wins) and the variance / burn views are rebuilt from those.
+
+import type { BudgetLineItem, BudgetTotals } from './budget';
+
+/** What a snapshot keeps of one line item. */
+export interface BudgetSnapshotItem {
+  key: string; // budgetItemKey
+  name: string;
+  displayCategory: string;
+  estimatedCost: number;
+  paid: number;
+}
+
+export interface BudgetSnapshotInput {
+  date: string; // YYYY-MM-DD
+  totals: BudgetTotals;
+  items: BudgetSnapshotItem[];
+}
+
+/** One date on which a line item's estimate or paid amount moved. */
+export interface BudgetItemChange {
+  date: string;
+  estimatedCost: number | null; // null = not on the sheet that day
+  paid: number | null;
+  estimateDelta: number;
+  paidDelta: number;
+}
+
+export type BudgetItemMovement = 'grew' | 'shrank' | 'added' | 'removed' | 'unchanged';
+
+export interface BudgetItemVariance {
+  key: string;
+  name: string;
+  displayCategory: string;
+  movement: BudgetItemMovement;
+  /** Estimate in the first snapshot of the range (null = added since). */
+  baselineEstimate: number | null;
+  /** Estimate in the latest snapshot (null = removed since). */
+  currentEstimate: number | null;
+  estimateDelta: number;
+  currentPaid: number;
+  paidDelta: number;
+  /** Dates the estimate moved, oldest first. Paid-only moves are left out. */
+  changes: BudgetItemChange[];
+}
+
+export interface BudgetBurnPoint {
+  date: string;
+  paid: number;
+  total: number; // total budget that day: incl. contingency + approved COs (adjustedTotal)
+  estimatedBeforeContingency: number;
+}
+
+export interface BudgetVarianceReport {
+  from: string | null; // first snapshot in range
+  to: string | null; // latest snapshot
+  snapshotCount: number;
+  baseline: BudgetTotals | null;
+  current: BudgetTotals | null;
+  /** Items whose estimate moved, largest absolute movement first. */
+  items: BudgetItemVariance[];
+  /** Cumulative paid vs total budget, one point per snapshot. */
+  burn: BudgetBurnPoint[];
+}
+
+export function snapshotItems(items: BudgetLineItem[]): BudgetSnapshotItem[] {
+  return items.map(({ key, name, displayCategory, estimatedCost, paid }) => ({ key, name, displayCategory, estimatedCost, paid }));
+}
+
+/**
+ * Cheap equality key for a read — only what the history is about: the sheet's
+ * line items, plus the contingency ledger and approved change orders, which move
+ * the stored totals without touching the sheet.
+ */
+export function budgetSnapshotSignature(summary: {
+  totals: Pick<BudgetTotals, 'contingencyUsed' | 'approvedChangeOrders'>;
+  items: Pick<BudgetSnapshotItem, 'key' | 'estimatedCost' | 'paid'>[];
+}): string {
+  const { contingencyUsed, approvedChangeOrders } = summary.totals;
+  return [
+    `contingencyUsed=${contingencyUsed}/approvedChangeOrders=${approvedChangeOrders}`,
+    ...summary.items.map((i) => `${i.key}=${i.estimatedCost}/${i.paid}`),
+  ].join('\n');
+}
+
+/** Cents, so float noise from the sheet never reads as a change. */
+function cents(n: number): number {
+  return Math.round(n * 100);
+}
+
+/**
+ * What moved between the first and last snapshot on or after `from` (all
+ * snapshots when omitted), per line item, with every date the estimate changed
+ * in between. Snapshots may arrive in any order.
+ */
+export function buildBudgetVariance(snapshots: BudgetSnapshotInput[], from?: string): BudgetVarianceReport {
+  const ordered = snapshots.filter((s) => !from || s.date >= from).sort((a, b) => a.date.localeCompare(b.date));
+  const burn: BudgetBurnPoint[] = ordered.map((s) => ({
+    date: s.date,
+    paid: s.totals.paid,
+    // Snapshots stored before change orders existed have no adjustedTotal.
+    total: s.totals.adjustedTotal ?? s.totals.total,
+    estimatedBeforeContingency: s.totals.estimatedBeforeContingency,
+  }));
+  if (ordered.length === 0) {
+    return { from: null, to: null, snapshotCount: 0, baseline: null, current: null, items: [], burn };
+  }
+
+  const first = ordered[0];
+  const last = ordered[ordered.length - 1];
+  const keys = new Map<string, BudgetSnapshotItem>(); // latest known name/category per key
+  for (const s of ordered) for (const item of s.items) keys.set(item.key, item);
+
+  const byDate = ordered.map((s) => ({ date: s.date, items: new Map(s.items.map((i) => [i.key, i])) }));
+
+  const items: BudgetItemVariance[] = [];
+  for (const [key, latest] of keys) {
+    const changes: BudgetItemChange[] = [];
+    let prevEstimate: number | null = byDate[0].items.get(key)?.estimatedCost ?? null;
+    let prevPaid: number | null = byDate[0].items.get(key)?.paid ?? null;
+    for (const { date, items: day } of byDate.slice(1)) {
+      const item = day.get(key);
+      const estimate = item?.estimatedCost ?? null;
+      const paid = item?.paid ?? null;
+      const estimateMoved = (estimate === null) !== (prevEstimate === null) || cents(estimate ?? 0) !== cents(prevEstimate ?? 0);
+      if (estimateMoved) {
+        changes.push({
+          date,
+          estimatedCost: estimate,
+          paid,
+          estimateDelta: (estimate ?? 0) - (prevEstimate ?? 0),
+          paidDelta: (paid ?? 0) - (prevPaid ?? 0),
+        });
+      }
+      prevEstimate = estimate;
+      prevPaid = paid;
+    }
+    if (changes.length === 0) continue;
+
+    const baseline = byDate[0].items.get(key) ?? null;
+    const current = byDate[byDate.length - 1].items.get(key) ?? null;
+    const estimateDelta = (current?.estimatedCost ?? 0) - (baseline?.estimatedCost ?? 0);
+    const movement: BudgetItemMovement =
+      baseline === null ? 'added'
+      : current === null ? 'removed'
+      : cents(estimateDelta) > 0 ? 'grew'
+      : cents(estimateDelta) < 0 ? 'shrank'
+      : 'unchanged'; // moved and came back
+
+    items.push({
+      key,
+      name: latest.name,
+      displayCategory: latest.displayCategory,
+      movement,
+      baselineEstimate: baseline?.estimatedCost ?? null,
+      currentEstimate: current?.estimatedCost ?? null,
+      estimateDelta,
+      currentPaid: current?.paid ?? 0,
+      paidDelta: (current?.paid ?? 0) - (baseline?.paid ?? 0),
+      changes,
+    });
+  }
+
+  items.sort((a, b) => Math.abs(b.estimateDelta) - Math.abs(a.estimateDelta) || a.name.localeCompare(b.name));
+
+  return {
+    from: first.date,
+    to: last.date,
+    snapshotCount: ordered.length,
+    baseline: first.totals,
+    current: last.totals,
+    items,
+    burn,
+  };
+}
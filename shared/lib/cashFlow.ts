@@ -0,0 +1,236 @@
+// Cash-flow projection — when the unpaid part of each budget line item leaves
+// the bank. Pure, no I/O. A line item's payment schedule splits its estimate
+// across milestones (config/cashFlow.ts) and is dated from a timeline task or a
+// Container Schedule row, so the months move whenever the task's events or the
+// container's ETAs do. What has been paid is applied to the milestones in order
+// (deposit first); an unpaid milestone already past due lands in the current month.
+
+import type { BudgetLineItem } from './budget';
+import { parseSheetDate } from './containerEta';
+import { scheduleContainerKey } from './etaSlippage';
+import { PAYMENT_MILESTONES, RETAINAGE_RELEASE_DAYS, type PaymentLinkType, type PaymentMilestone } from '../config/cashFlow';
+
+export type CashFlowItemInput = Pick<BudgetLineItem, 'key' | 'name' | 'displayCategory' | 'estimatedCost' | 'paid'>;
+
+/** One line item's payment schedule (budget_payment_schedules). Percentages sum to 100. */
+export interface PaymentScheduleInput {
+  itemKey: string; // budgetItemKey
+  depositPct: number;
+  onShipPct: number;
+  onDeliveryPct: number;
+  retainagePct: number;
+  linkType: PaymentLinkType;
+  timelineTaskId: number | null;
+  container: string | null; // Container Schedule "Container #" text
+}
+
+/** A timeline task with the span of its events. */
+export interface CashFlowTaskInput {
+  id: number;
+  label: string;
+  start: string | null; // earliest event start, YYYY-MM-DD
+  end: string | null; // latest event end
+}
+
+/** The Container Schedule columns the projection dates from (raw sheet text). */
+export interface CashFlowContainerInput {
+  containerNumber: string;
+  loadingDate: string;
+  vesselDepartureDate: string;
+  etaNYPort: string;
+  etaWarehouse: string;
+}
+
+export interface CashFlowPayment {
+  itemKey: string;
+  name: string;
+  displayCategory: string;
+  milestone: PaymentMilestone;
+  dueDate: string; // the milestone's own date
+  amount: number;
+  overdue: boolean; // due before asOf, still unpaid — counted in the current month
+}
+
+export interface CashFlowMonth {
+  month: string; // YYYY-MM
+  total: number;
+  byMilestone: Record<PaymentMilestone, number>;
+  payments: CashFlowPayment[];
+}
+
+/** An unpaid milestone with no date yet — why, and how much. */
+export interface CashFlowUndated {
+  itemKey: string;
+  name: string;
+  milestone: PaymentMilestone;
+  amount: number;
+  reason: string;
+}
+
+export interface CashFlowProjection {
+  asOf: string; // YYYY-MM-DD
+  /** Every month from asOf's to the last with a payment, empty months included. */
+  months: CashFlowMonth[];
+  projectedTotal: number; // Σ months
+  overdueTotal: number; // past-due part of the current month
+  undated: CashFlowUndated[];
+  undatedTotal: number;
+  /** Line items with an unpaid balance and no payment schedule. */
+  unscheduledCount: number;
+  unscheduledAmount: number;
+  /** Schedules whose line item is no longer on the Schedule Summary. */
+  orphanKeys: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function nextMonth(month: string): string {
+  const [y, m] = month.split('-').map(Number);
+  return m === 12 ? `${y + 1}-01` : `${y}-${String(m + 1).padStart(2, '0')}`;
+}
+
+function emptyByMilestone(): Record<PaymentMilestone, number> {
+  return { deposit: 0, onShip: 0, onDelivery: 0, retainage: 0 };
+}
+
+function milestonePct(schedule: PaymentScheduleInput, milestone: PaymentMilestone): number {
+  switch (milestone) {
+    case 'deposit': return schedule.depositPct;
+    case 'onShip': return schedule.onShipPct;
+    case 'onDelivery': return schedule.onDeliveryPct;
+    case 'retainage': return schedule.retainagePct;
+  }
+}
+
+type MilestoneDates = { dates: Record<PaymentMilestone, string | null>; reason: string };
+
+/** The date each milestone falls on for a schedule, and why any are missing. */
+function milestoneDates(
+  schedule: PaymentScheduleInput,
+  tasks: Map<number, CashFlowTaskInput>,
+  containers: Map<string, CashFlowContainerInput>,
+): MilestoneDates {
+  let deposit: string | null = null;
+  let onShip: string | null = null;
+  let onDelivery: string | null = null;
+  let reason = '';
+
+  if (schedule.linkType === 'task') {
+    const task = schedule.timelineTaskId !== null ? tasks.get(schedule.timelineTaskId) : undefined;
+    if (!task) reason = 'Linked timeline task no longer exists';
+    else {
+      deposit = onShip = task.start;
+      onDelivery = task.end;
+      if (!task.start) reason = `"${task.label}" has no timeline events`;
+    }
+  } else {
+    const key = scheduleContainerKey(schedule.container).toLowerCase();
+    const row = containers.get(key);
+    if (!row) reason = `Container ${schedule.container} is not on the Container Schedule`;
+    else {
+      const loaded = parseSheetDate(row.loadingDate);
+      const departed = parseSheetDate(row.vesselDepartureDate);
+      deposit = loaded ?? departed;
+      onShip = departed ?? loaded;
+      onDelivery = parseSheetDate(row.etaWarehouse) ?? parseSheetDate(row.etaNYPort);
+      if (!deposit || !onDelivery) reason = `Container ${row.containerNumber} is missing ${!deposit ? 'a loading date' : 'an ETA'}`;
+    }
+  }
+
+  const retainage = onDelivery ? addDays(onDelivery, RETAINAGE_RELEASE_DAYS) : null;
+  return { dates: { deposit, onShip, onDelivery, retainage }, reason };
+}
+
+/**
+ * Project monthly outflow from `asOf` (YYYY-MM-DD) for every scheduled line
+ * item's unpaid balance. Estimates are whatever `items` carry, so pass the
+ * adjusted figures when the budget is adjusted.
+ */
+export function buildCashFlowProjection(
+  items: CashFlowItemInput[],
+  schedules: PaymentScheduleInput[],
+  tasks: CashFlowTaskInput[],
+  containers: CashFlowContainerInput[],
+  asOf: string,
+): CashFlowProjection {
+  const taskById = new Map(tasks.map((t) => [t.id, t]));
+  const containerByKey = new Map<string, CashFlowContainerInput>();
+  for (const c of containers) {
+    const key = scheduleContainerKey(c.containerNumber).toLowerCase();
+    if (key && !containerByKey.has(key)) containerByKey.set(key, c);
+  }
+  const scheduleByKey = new Map(schedules.map((s) => [s.itemKey, s]));
+  const itemKeys = new Set(items.map((i) => i.key));
+
+  const currentMonth = asOf.slice(0, 7);
+  const byMonth = new Map<string, CashFlowMonth>();
+  const undated: CashFlowUndated[] = [];
+  let unscheduledCount = 0;
+  let unscheduledAmount = 0;
+
+  for (const item of items) {
+    const unpaid = item.estimatedCost - item.paid;
+    const schedule = scheduleByKey.get(item.key);
+    if (!schedule) {
+      if (unpaid > 0.005) {
+        unscheduledCount += 1;
+        unscheduledAmount += unpaid;
+      }
+      continue;
+    }
+
+    const { dates, reason } = milestoneDates(schedule, taskById, containerByKey);
+    let paidLeft = Math.max(0, item.paid);
+    for (const milestone of PAYMENT_MILESTONES) {
+      const due = (item.estimatedCost * milestonePct(schedule, milestone)) / 100;
+      const covered = Math.min(due, paidLeft);
+      paidLeft -= covered;
+      const amount = due - covered;
+      if (amount < 0.005) continue;
+
+      const dueDate = dates[milestone];
+      if (!dueDate) {
+        undated.push({ itemKey: item.key, name: item.name, milestone, amount, reason: reason || 'No date for this milestone' });
+        continue;
+      }
+      const overdue = dueDate < asOf;
+      const month = overdue ? currentMonth : dueDate.slice(0, 7);
+      let bucket = byMonth.get(month);
+      if (!bucket) {
+        bucket = { month, total: 0, byMilestone: emptyByMilestone(), payments: [] };
+        byMonth.set(month, bucket);
+      }
+      bucket.total += amount;
+      bucket.byMilestone[milestone] += amount;
+      bucket.payments.push({ itemKey: item.key, name: item.name, displayCategory: item.displayCategory, milestone, dueDate, amount, overdue });
+    }
+  }
+
+  // Consecutive months, so the chart shows the quiet ones too.
+  const months: CashFlowMonth[] = [];
+  const last = [...byMonth.keys()].sort().pop();
+  if (last) {
+    for (let m = currentMonth; m <= last; m = nextMonth(m)) {
+      const bucket = byMonth.get(m) ?? { month: m, total: 0, byMilestone: emptyByMilestone(), payments: [] };
+      bucket.payments.sort((a, b) => a.dueDate.localeCompare(b.dueDate) || b.amount - a.amount);
+      months.push(bucket);
+    }
+  }
+
+  const overdueTotal = months[0]?.payments.filter((p) => p.overdue).reduce((s, p) => s + p.amount, 0) ?? 0;
+  return {
+    asOf,
+    months,
+    projectedTotal: months.reduce((s, m) => s + m.total, 0),
+    overdueTotal,
+    undated: undated.sort((a, b) => b.amount - a.amount),
+    undatedTotal: undated.reduce((s, u) => s + u.amount, 0),
+    unscheduledCount,
+    unscheduledAmount,
+    orphanKeys: schedules.map((s) => s.itemKey).filter((k) => !itemKeys.has(k)),
+  };
+}
@@ -0,0 +1,112 @@
+// Cell-level change feed between two snapshots of one room tab. Pure, no I/O.
+//
+// Rooms pair by Room # + occurrence (the rollup's rule, so duplicate/suite rows
+// pair main↔main), packages by name (case-insensitive), parts by header +
+// occurrence within the package. Parts or packages present on only one side are
+// taxonomy changes, not cell edits, and are not listed here.
+
+import type { RoomRow, UrgencyBucket } from '../types/dashboard';
+
+/** One part cell whose rawValue or bucket differs between the two snapshots. */
+export interface PartCellChange {
+  roomNo: string;
+  floor: string;
+  line: string;
+  type: string;
+  package: string;
+  part: string;
+  oldValue: string;
+  newValue: string;
+  oldBucket: UrgencyBucket;
+  newBucket: UrgencyBucket;
+}
+
+/** One package whose recomputed % moved (0-100; delta = new − old). */
+export interface PackagePctChange {
+  roomNo: string;
+  floor: string;
+  line: string;
+  type: string;
+  package: string;
+  oldPct: number;
+  newPct: number;
+  delta: number;
+}
+
+export interface RoomTabChanges {
+  cells: PartCellChange[];
+  packages: PackagePctChange[];
+  /** Room #s only in the newer snapshot / only in the older one. */
+  addedRooms: string[];
+  removedRooms: string[];
+}
+
+function keyByOccurrence<T>(items: T[], keyOf: (item: T) => string): Map<string, T> {
+  const seen = new Map<string, number>();
+  const map = new Map<string, T>();
+  for (const item of items) {
+    const base = keyOf(item);
+    const occ = seen.get(base) ?? 0;
+    seen.set(base, occ + 1);
+    map.set(`${base}#${occ}`, item);
+  }
+  return map;
+}
+
+/**
+ * Every part cell and package % that changed from `before` to `after` (both the
+ * same room tab). Output follows `after`'s row / package / part order.
+ */
+export function diffRoomRows(before: RoomRow[], after: RoomRow[]): RoomTabChanges {
+  const oldRooms = keyByOccurrence(before, (r) => r.roomNo);
+  const newRooms = keyByOccurrence(after, (r) => r.roomNo);
+
+  const cells: PartCellChange[] = [];
+  const packages: PackagePctChange[] = [];
+  const addedRooms: string[] = [];
+
+  for (const [key, room] of newRooms) {
+    const prev = oldRooms.get(key);
+    if (!prev) {
+      addedRooms.push(room.roomNo);
+      continue;
+    }
+    const where = { roomNo: room.roomNo, floor: room.floor, line: room.line, type: room.type };
+    const oldPkgs = keyByOccurrence(prev.packages, (p) => p.name.toUpperCase());
+
+    for (const [pkgKey, pkg] of keyByOccurrence(room.packages, (p) => p.name.toUpperCase())) {
+      const prevPkg = oldPkgs.get(pkgKey);
+      if (!prevPkg) continue;
+
+      if (pkg.recomputedPct !== prevPkg.recomputedPct) {
+        packages.push({
+          ...where,
+          package: pkg.name,
+          oldPct: prevPkg.recomputedPct,
+          newPct: pkg.recomputedPct,
+          delta: pkg.recomputedPct - prevPkg.recomputedPct,
+        });
+      }
+
+      const oldParts = keyByOccurrence(prevPkg.parts, (p) => p.header.trim().toUpperCase());
+      for (const [partKey, part] of keyByOccurrence(pkg.parts, (p) => p.header.trim().toUpperCase())) {
+        const prevPart = oldParts.get(partKey);
+        if (!prevPart) continue;
+        if (part.rawValue === prevPart.rawValue && part.bucket === prevPart.bucket) continue;
+        cells.push({
+          ...where,
+          package: pkg.name,
+          part: part.header,
+          oldValue: prevPart.rawValue,
+          newValue: part.rawValue,
+          oldBucket: prevPart.bucket,
+          newBucket: part.bucket,
+        });
+      }
+    }
+  }
+
+  const removedRooms = [...oldRooms.entries()].filter(([key]) => !newRooms.has(key)).map(([, r]) => r.roomNo);
+
+  return { cells, packages, addedRooms, removedRooms };
+}
@@ -0,0 +1,86 @@
+// Aya Dashboard Expansion — container arrival from the Container Schedule.
+// Pure, no I/O. The schedule's free-text `status` column (plus the warehouse
+// proof-of-delivery link) says where each container is; normalizing it lets the
+// arrived set (ARRIVED_CONTAINERS, §3.3) follow the sheet instead of a hand
+// list. Admin overrides win over the derived value, both ways.
+
+import type { ArrivalState, ContainerArrival } from '../types/dashboard';
+import { parseContainerRef } from './containers';
+import { norm } from './normalize';
+
+/** Arrival states, earliest → latest. */
+export const ARRIVAL_STATES: ArrivalState[] = ['unknown', 'loaded', 'departed', 'at-port', 'at-warehouse', 'delivered'];
+
+/**
+ * Normalize a schedule status. Matches the lifecycle used on the sheet ("Ready to
+ * be shipped", "Passed inspection", "Shipped", "Arrived NY Port", "Warehouse",
+ * "Arrived to hotel") and common variants. A proof-of-delivery link means
+ * delivered whatever the status says. Never throws — unknown text → 'unknown'.
+ */
+export function arrivalState(status: string | null | undefined, proofOfDelivery?: string | null): ArrivalState {
+  if ((proofOfDelivery ?? '').trim() !== '') return 'delivered';
+  const n = norm(status);
+  if (n === '') return 'unknown';
+  if (/\b(hotel|site|delivered|installed)\b/.test(n)) return 'delivered';
+  if (n.includes('warehouse')) return 'at-warehouse';
+  if (/\bports?\b/.test(n)) return 'at-port'; // not "transport" / "reported"
+  if (/\b(ready to|inspection|loaded|packed)\b/.test(n)) return 'loaded'; // before "shipped": "Ready to be shipped"
+  if (/\b(shipped|departed|in transit|on the water|sailed)\b/.test(n)) return 'departed';
+  return 'unknown';
+}
+
+/** The schedule columns arrival is derived from. */
+export interface ScheduleArrivalInput {
+  containerNumber: string;
+  status: string;
+  warehouseProofOfDelivery: string;
+}
+
+export interface ArrivalOverrideInput {
+  number: number;
+  arrived: boolean;
+}
+
+/**
+ * Arrival per container on the schedule, plus any overridden number the schedule
+ * doesn't list. `arrivedFrom` is the first state that counts as arrived. A number
+ * on several schedule rows takes its furthest-along state. Sorted by number.
+ */
+export function deriveContainerArrivals(
+  schedule: ScheduleArrivalInput[],
+  overrides: ArrivalOverrideInput[],
+  arrivedFrom: ArrivalState,
+): ContainerArrival[] {
+  const threshold = ARRIVAL_STATES.indexOf(arrivedFrom);
+  const byNumber = new Map<number, { state: ArrivalState; status: string | null; proofOfDelivery: boolean }>();
+
+  for (const row of schedule) {
+    const state = arrivalState(row.status, row.warehouseProofOfDelivery);
+    for (const number of parseContainerRef(row.containerNumber).numbers) {
+      const prev = byNumber.get(number);
+      if (prev && ARRIVAL_STATES.indexOf(prev.state) >= ARRIVAL_STATES.indexOf(state)) continue;
+      byNumber.set(number, {
+        state,
+        status: row.status.trim() || null,
+        proofOfDelivery: row.warehouseProofOfDelivery.trim() !== '',
+      });
+    }
+  }
+
+  const overrideByNumber = new Map(overrides.map((o) => [o.number, o.arrived]));
+  const numbers = new Set([...byNumber.keys(), ...overrideByNumber.keys()]);
+
+  return [...numbers]
+    .sort((a, b) => a - b)
+    .map((number) => {
+      const entry = byNumber.get(number) ?? { state: 'unknown' as const, status: null, proofOfDelivery: false };
+      const derivedArrived = ARRIVAL_STATES.indexOf(entry.state) >= threshold;
+      const override = overrideByNumber.get(number) ?? null;
+      return { number, ...entry, derivedArrived, override, arrived: override ?? derivedArrived };
+    });
+}
+
+/** The arrived set to pass to the engine as `arrivedContainers`. */
+export function arrivedSetFrom(arrivals: ContainerArrival[]): Set<number> {
+  return new Set(arrivals.filter((a) => a.arrived).map((a) => a.number));
+}
@@ -0,0 +1,151 @@
+// Aya Dashboard Expansion — Container Schedule ETAs × container index.
+// Pure, no I/O. The Container Schedule sheet knows WHEN each container lands;
+// buildContainerIndex knows WHICH room parts it blocks. Joining them gives a
+// projected unblock date per container and, per room, the latest date among
+// its still-pending containers — so crews can be planned by date.
+
+import type { ContainerGroup, ContainerEta, ContainerRoomUnblock, RoomEta } from '../types/dashboard';
+import { parseContainerRef } from './containers';
+
+/** The Container Schedule columns this join needs (as parsed by the server). */
+export interface ScheduleEtaInput {
+  containerNumber: string;
+  etaNYPort: string;
+  etaWarehouse: string;
+  status: string;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+function isoDate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const d = new Date(Date.UTC(year, month - 1, day));
+  if (d.getUTCMonth() !== month - 1) return null; // e.g. Feb 30
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Parse a date cell as entered in the schedule sheet to YYYY-MM-DD, or null.
+ * Accepts "2026-03-15", "3/15/2026", "3/15/26", "Mar 15, 2026", "15 Mar 2026",
+ * "15-Mar-26". Anything else ("TBD", "Mid April", "3/15") is null — a guessed
+ * date is worse than none.
+ */
+export function parseSheetDate(raw: string | null | undefined): string | null {
+  const s = (raw ?? '').trim();
+  if (s === '') return null;
+
+  let m = s.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (m) return isoDate(+m[1], +m[2], +m[3]);
+
+  m = s.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (m) return isoDate(m[3].length === 2 ? 2000 + +m[3] : +m[3], +m[1], +m[2]);
+
+  m = s.match(/^([a-z]{3})[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/i);
+  if (m && MONTHS.includes(m[1].toLowerCase())) return isoDate(+m[3], MONTHS.indexOf(m[1].toLowerCase()) + 1, +m[2]);
+
+  m = s.match(/^(\d{1,2})[\s-]([a-z]{3})[a-z]*[\s-](\d{2}|\d{4})$/i);
+  if (m && MONTHS.includes(m[2].toLowerCase())) {
+    return isoDate(m[3].length === 2 ? 2000 + +m[3] : +m[3], MONTHS.indexOf(m[2].toLowerCase()) + 1, +m[1]);
+  }
+  return null;
+}
+
+function laterOf(a: string | null, b: string | null): string | null {
+  if (!a) return b;
+  if (!b) return a;
+  return a > b ? a : b;
+}
+
+interface ScheduleEntry {
+  etaNYPort: string | null;
+  etaWarehouse: string | null;
+  status: string | null;
+}
+
+/** Container # → its schedule dates. A number on several rows takes the latest dates. */
+export function indexScheduleByContainer(schedule: ScheduleEtaInput[]): Map<number, ScheduleEntry> {
+  const byNumber = new Map<number, ScheduleEntry>();
+  for (const row of schedule) {
+    const { numbers } = parseContainerRef(row.containerNumber);
+    for (const number of new Set(numbers)) {
+      const prev = byNumber.get(number);
+      byNumber.set(number, {
+        etaNYPort: laterOf(prev?.etaNYPort ?? null, parseSheetDate(row.etaNYPort)),
+        etaWarehouse: laterOf(prev?.etaWarehouse ?? null, parseSheetDate(row.etaWarehouse)),
+        status: row.status.trim() || prev?.status || null,
+      });
+    }
+  }
+  return byNumber;
+}
+
+function roomNum(roomNo: string): number {
+  const n = parseInt((roomNo || '').replace(/\D/g, ''), 10);
+  return Number.isNaN(n) ? 0 : n;
+}
+
+export interface ContainerEtaResult {
+  containers: ContainerEta[];
+  rooms: RoomEta[];
+}
+
+/**
+ * Join the container index with the schedule. Containers are returned in
+ * projected-unblock order (undated last); rooms only when they still wait on at
+ * least one pending (not-arrived) container, soonest fully-unblocked first.
+ */
+export function joinContainerEtas(index: ContainerGroup[], schedule: ScheduleEtaInput[]): ContainerEtaResult {
+  const bySchedule = indexScheduleByContainer(schedule);
+  const rooms = new Map<string, RoomEta>();
+
+  const containers: ContainerEta[] = index.map((group) => {
+    const sched = bySchedule.get(group.number);
+    const projectedUnblock = sched ? sched.etaWarehouse ?? sched.etaNYPort : null;
+
+    const perRoom = new Map<string, ContainerRoomUnblock>();
+    for (const e of group.entries) {
+      const key = `${e.tower}:${e.roomNo}`;
+      let r = perRoom.get(key);
+      if (!r) {
+        r = { tower: e.tower, roomNo: e.roomNo, floor: e.floor, packages: [], partCount: 0 };
+        perRoom.set(key, r);
+      }
+      if (!r.packages.includes(e.package)) r.packages.push(e.package);
+      r.partCount++;
+
+      if (group.arrived) continue;
+      let room = rooms.get(key);
+      if (!room) {
+        room = { tower: e.tower, roomNo: e.roomNo, floor: e.floor, latestEta: null, pendingContainers: [], undatedContainers: [], outstandingParts: 0 };
+        rooms.set(key, room);
+      }
+      room.outstandingParts++;
+      if (!room.pendingContainers.includes(group.number)) {
+        room.pendingContainers.push(group.number);
+        if (projectedUnblock) room.latestEta = laterOf(room.latestEta, projectedUnblock);
+        else room.undatedContainers.push(group.number);
+      }
+    }
+
+    return {
+      number: group.number,
+      arrived: group.arrived,
+      scheduled: sched !== undefined,
+      etaNYPort: sched?.etaNYPort ?? null,
+      etaWarehouse: sched?.etaWarehouse ?? null,
+      projectedUnblock,
+      status: sched?.status ?? null,
+      rooms: [...perRoom.values()].sort((a, b) => a.tower.localeCompare(b.tower) || roomNum(a.roomNo) - roomNum(b.roomNo)),
+    };
+  });
+
+  const byDate = (a: string | null, b: string | null) => (a && b ? a.localeCompare(b) : a ? -1 : b ? 1 : 0);
+  containers.sort((a, b) => byDate(a.projectedUnblock, b.projectedUnblock) || a.number - b.number);
+
+  return {
+    containers,
+    rooms: [...rooms.values()].sort(
+      (a, b) => byDate(a.latestEta, b.latestEta) || a.tower.localeCompare(b.tower) || roomNum(a.roomNo) - roomNum(b.roomNo),
+    ),
+  };
+}
@@ -115,6 +115,9 @@ export interface RoomTabStructure {
   /** Trailing "Completion %" column index (HR DL / LR CU) — the sheet-sourced
    *  installation %. undefined if the tab has no such column (e.g. Containers tabs). */
   completionCol?: number;
+  /** Columns inside a package's part run whose header is blank — skipped as spacers,
+   *  so anything entered in them is invisible to the engine. */
+  blankHeaderColumns: { colIndex: number; packageIndex: number }[];
   warnings: string[];
 }
 
@@ -191,6 +194,7 @@ export function discoverRoomTabStructure(grid: Grid, expected?: ExpectedTaxonomy
   // Parts for each package = non-empty, non-trailing headers up to the next
   // package summary (or the trailing region for the last package).
   const packages: DiscoveredPackage[] = [];
+  const blankHeaderColumns: RoomTabStructure['blankHeaderColumns'] = [];
   for (let k = 0; k < packageIndices.length; k++) {
     const pi = packageIndices[k];
     const next = k + 1 < packageIndices.length ? packageIndices[k + 1] : header.length;
@@ -206,7 +210,10 @@ export function discoverRoomTabStructure(grid: Grid, expected?: ExpectedTaxonomy
     for (let c = pi + 1; c < next; c++) {
       const h = cell(grid, headerRowIndex, c);
       if (isTrailingStopHeader(h)) break; // trailing region begins
-      if (isBlank(h)) continue; // hidden/spacer column
+      if (isBlank(h)) {
+        blankHeaderColumns.push({ colIndex: c, packageIndex: k }); // hidden/spacer column
+        continue;
+      }
       parts.push({ header: cleanHeader(h), colIndex: c });
     }
     packages.push({ name, summaryColIndex: pi, parts });
@@ -252,7 +259,19 @@ export function discoverRoomTabStructure(grid: Grid, expected?: ExpectedTaxonomy
     }
   }
 
-  return { headerRowIndex, firstDataRowIndex, leading, packages, completionCol, warnings };
+  return { headerRowIndex, firstDataRowIndex, leading, packages, completionCol, blankHeaderColumns, warnings };
+}
+
+/** 0-based grid rows that hold a room (non-blank Room #), in sheet order — one per
+ *  RoomRow that buildRoomRows returns, so the two can be zipped for cell addresses. */
+export function roomRowIndices(grid: Grid, structure: RoomTabStructure): number[] {
+  const col = structure.leading.roomNo;
+  if (col < 0) return [];
+  const indices: number[] = [];
+  for (let r = structure.firstDataRowIndex; r < grid.length; r++) {
+    if (!isBlank(cell(grid, r, col))) indices.push(r);
+  }
+  return indices;
 }
 
 /** Build fully-recomputed room rows from a grid + its discovered structure. */
@@ -275,9 +294,7 @@ export function buildRoomRows(
     return v === null ? null : Math.round(v);
   };
 
-  for (let r = structure.firstDataRowIndex; r < grid.length; r++) {
-    if (leading.roomNo < 0 || isBlank(cell(grid, r, leading.roomNo))) continue;
-
+  for (const r of roomRowIndices(grid, structure)) {
     const roomNo = cell(grid, r, leading.roomNo).trim();
     const line = leading.roomLine !== undefined ? cell(grid, r, leading.roomLine).trim() : '';
     const type = leading.roomType !== undefined ? cell(grid, r, leading.roomType).trim() : '';
@@ -0,0 +1,179 @@
+// Container Schedule document audit.
+// Pure, no I/O. Each schedule row carries links to its shipping documents; the
+// server looks every Drive link up (existence, type, last modified) and this
+// module turns those lookups into a per-container compliance row. A container
+// that has reached the warehouse without a usable BOL or proof of delivery is
+// flagged — accounting holds payment on those.
+
+import type { ArrivalState } from '../types/dashboard';
+import { ARRIVAL_STATES, arrivalState } from './containerArrival';
+
+export type ContainerDocField =
+  | 'bolCopy'
+  | 'insurance'
+  | 'packingList'
+  | 'productListWithPhotos'
+  | 'productDetails'
+  | 'warehouseProofOfDelivery';
+
+interface DocFieldSpec {
+  field: ContainerDocField;
+  label: string;
+  /** 'link' cells must point at a file; 'text' cells only need to be filled in. */
+  kind: 'link' | 'text';
+  /** Mime type prefixes a linked file may have. Empty = any. */
+  accepts: string[];
+  /** Must be present and valid once the container is delivered. */
+  requiredOnDelivery: boolean;
+}
+
+const PDF_OR_IMAGE = ['application/pdf', 'image/'];
+
+export const CONTAINER_DOC_FIELDS: DocFieldSpec[] = [
+  { field: 'bolCopy', label: 'BOL', kind: 'link', accepts: PDF_OR_IMAGE, requiredOnDelivery: true },
+  { field: 'insurance', label: 'Insurance', kind: 'link', accepts: PDF_OR_IMAGE, requiredOnDelivery: false },
+  {
+    field: 'packingList',
+    label: 'Packing list',
+    kind: 'link',
+    accepts: ['application/pdf', 'application/vnd.google-apps.spreadsheet', 'application/vnd.openxmlformats-officedocument.spreadsheetml', 'application/vnd.ms-excel'],
+    requiredOnDelivery: false,
+  },
+  { field: 'productListWithPhotos', label: 'Product list', kind: 'link', accepts: [], requiredOnDelivery: false },
+  { field: 'productDetails', label: 'Product details', kind: 'text', accepts: [], requiredOnDelivery: false },
+  { field: 'warehouseProofOfDelivery', label: 'Proof of delivery', kind: 'link', accepts: PDF_OR_IMAGE, requiredOnDelivery: true },
+];
+
+/** From this schedule state on, the delivery documents are required. */
+export const DOCUMENTS_REQUIRED_FROM: ArrivalState = 'at-warehouse';
+
+/**
+ * ok — filled (text) or a Drive file of an accepted type
+ * external — a non-Drive URL; can't be verified, treated as present
+ * unverified — Drive lookup failed (quota, network); treated as present
+ * missing — blank / "N/A" / "-"
+ * not-a-link — text where a link belongs
+ * not-found — Drive has no such file, or it isn't shared with the dashboard
+ * trashed — the file is in Drive's trash
+ * wrong-type — a file, but not the kind this document should be
+ */
+export type DocCheckState = 'ok' | 'external' | 'unverified' | 'missing' | 'not-a-link' | 'not-found' | 'trashed' | 'wrong-type';
+
+/** States that count as the document being there. */
+export const DOC_PRESENT_STATES: DocCheckState[] = ['ok', 'external', 'unverified'];
+
+export interface DocCheck {
+  state: DocCheckState;
+  value: string; // the cell, as read
+  fileId: string | null;
+  name: string | null;
+  mimeType: string | null;
+  modifiedTime: string | null;
+}
+
+/** A Drive metadata lookup: the file, null (404), or 'error' (lookup failed). */
+export type DriveLookup = { name: string; mimeType: string; modifiedTime: string | null; trashed: boolean } | null | 'error';
+
+export interface DocumentAuditInput {
+  id: number;
+  containerNumber: string;
+  factory: string;
+  status: string;
+  bolCopy: string;
+  insurance: string;
+  packingList: string;
+  productListWithPhotos: string;
+  productDetails: string;
+  warehouseProofOfDelivery: string;
+}
+
+export interface ContainerDocAudit {
+  id: number;
+  container: string;
+  factory: string;
+  status: string;
+  state: ArrivalState; // from the status text alone
+  delivered: boolean; // state ≥ DOCUMENTS_REQUIRED_FROM
+  docs: Record<ContainerDocField, DocCheck>;
+  presentCount: number;
+  missingRequired: ContainerDocField[]; // delivered and a required doc isn't present
+  flagged: boolean;
+}
+
+function isBlankDoc(value: string): boolean {
+  const n = value.trim().toLowerCase();
+  return n === '' || n === '-' || n === 'n/a' || n === 'n.a' || n === 'na' || n === 'n.a.';
+}
+
+/** The Drive file ID in a Drive / Docs / Sheets link, or null. Folder links are not files. */
+export function extractDriveFileId(url: string): string | null {
+  const patterns = [
+    /drive\.google\.com\/file\/d\/([a-zA-Z0-9_-]{10,})/,
+    /docs\.google\.com\/(?:document|spreadsheets|presentation|drawings|forms)\/d\/([a-zA-Z0-9_-]{10,})/,
+    /drive\.google\.com\/(?:open|uc)\?(?:.*&)?id=([a-zA-Z0-9_-]{10,})/,
+  ];
+  for (const p of patterns) {
+    const m = url.match(p);
+    if (m) return m[1];
+  }
+  return null;
+}
+
+/** Every Drive file ID the audit needs looked up. */
+export function driveIdsToLookUp(rows: DocumentAuditInput[]): string[] {
+  const ids = new Set<string>();
+  for (const row of rows) {
+    for (const spec of CONTAINER_DOC_FIELDS) {
+      if (spec.kind !== 'link') continue;
+      const id = extractDriveFileId(row[spec.field] ?? '');
+      if (id) ids.add(id);
+    }
+  }
+  return [...ids];
+}
+
+function checkDoc(spec: DocFieldSpec, value: string, lookups: Map<string, DriveLookup>): DocCheck {
+  const base: DocCheck = { state: 'missing', value, fileId: null, name: null, mimeType: null, modifiedTime: null };
+  if (isBlankDoc(value)) return base;
+  if (spec.kind === 'text') return { ...base, state: 'ok' };
+
+  const trimmed = value.trim();
+  if (!/^https?:\/\//i.test(trimmed)) return { ...base, state: 'not-a-link' };
+  const fileId = extractDriveFileId(trimmed);
+  if (!fileId) return { ...base, state: 'external' };
+
+  const meta = lookups.get(fileId);
+  if (meta === undefined || meta === 'error') return { ...base, state: 'unverified', fileId };
+  if (meta === null) return { ...base, state: 'not-found', fileId };
+  const found = { ...base, fileId, name: meta.name, mimeType: meta.mimeType, modifiedTime: meta.modifiedTime };
+  if (meta.trashed) return { ...found, state: 'trashed' };
+  if (spec.accepts.length > 0 && !spec.accepts.some((prefix) => meta.mimeType.startsWith(prefix))) return { ...found, state: 'wrong-type' };
+  return { ...found, state: 'ok' };
+}
+
+export function auditContainerDocuments(rows: DocumentAuditInput[], lookups: Map<string, DriveLookup>): ContainerDocAudit[] {
+  const requiredFrom = ARRIVAL_STATES.indexOf(DOCUMENTS_REQUIRED_FROM);
+  return rows.map((row) => {
+    const docs = Object.fromEntries(
+      CONTAINER_DOC_FIELDS.map((spec) => [spec.field, checkDoc(spec, row[spec.field] ?? '', lookups)]),
+    ) as Record<ContainerDocField, DocCheck>;
+    // Status alone: a POD link can't be what proves the container needs a POD.
+    const state = arrivalState(row.status);
+    const delivered = ARRIVAL_STATES.indexOf(state) >= requiredFrom;
+    const missingRequired = delivered
+      ? CONTAINER_DOC_FIELDS.filter((spec) => spec.requiredOnDelivery && !DOC_PRESENT_STATES.includes(docs[spec.field].state)).map((spec) => spec.field)
+      : [];
+    return {
+      id: row.id,
+      container: row.containerNumber.trim(),
+      factory: row.factory,
+      status: row.status,
+      state,
+      delivered,
+      docs,
+      presentCount: Object.values(docs).filter((d) => DOC_PRESENT_STATES.includes(d.state)).length,
+      missingRequired,
+      flagged: missingRequired.length > 0,
+    };
+  });
+}
@@ -0,0 +1,79 @@
+// Container Schedule ETA slippage.
+// Pure, no I/O. The schedule sheet only holds today's ETAs; the server stores
+// every distinct pair it sees (container_eta_observations). From that history:
+// the first promised date, the current one, how far it moved and how often.
+
+import type { ContainerSlippage, EtaSlip } from '../types/dashboard';
+
+/** Slips beyond this many days are flagged by default. */
+export const DEFAULT_SLIP_THRESHOLD_DAYS = 7;
+
+/** The key observations are stored under: the schedule's container text, whitespace-collapsed. */
+export function scheduleContainerKey(raw: string | null | undefined): string {
+  return (raw ?? '').replace(/\s+/g, ' ').trim();
+}
+
+export interface EtaObservation {
+  container: string;
+  etaNYPort: string | null;
+  etaWarehouse: string | null;
+  observedAt: string; // ISO timestamp
+}
+
+/** Whether a newly read ETA pair differs from the last one stored for its container. */
+export function etaChanged(
+  last: Pick<EtaObservation, 'etaNYPort' | 'etaWarehouse'> | undefined,
+  next: Pick<EtaObservation, 'etaNYPort' | 'etaWarehouse'>,
+): boolean {
+  if (!last) return next.etaNYPort !== null || next.etaWarehouse !== null;
+  return last.etaNYPort !== next.etaNYPort || last.etaWarehouse !== next.etaWarehouse;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+}
+
+/** Slip of one field across time-ordered observations; blanks ("TBD") are skipped. */
+function slipOf(observations: EtaObservation[], pick: (o: EtaObservation) => string | null): EtaSlip | null {
+  const history: EtaSlip['history'] = [];
+  for (const o of observations) {
+    const eta = pick(o);
+    if (eta === null) continue;
+    if (history.length === 0 || history[history.length - 1].eta !== eta) history.push({ eta, observedAt: o.observedAt });
+  }
+  if (history.length === 0) return null;
+  const original = history[0].eta;
+  const current = history[history.length - 1].eta;
+  return { original, current, daysSlipped: daysBetween(original, current), revisions: history.length - 1, history };
+}
+
+/**
+ * One entry per container with at least one dated observation, most slipped
+ * first. Observations may arrive in any order.
+ */
+export function buildSlippageReport(observations: EtaObservation[]): ContainerSlippage[] {
+  const byContainer = new Map<string, EtaObservation[]>();
+  for (const o of observations) {
+    const list = byContainer.get(o.container) ?? [];
+    list.push(o);
+    byContainer.set(o.container, list);
+  }
+
+  const report: ContainerSlippage[] = [];
+  for (const [container, list] of byContainer) {
+    list.sort((a, b) => a.observedAt.localeCompare(b.observedAt));
+    const nyPort = slipOf(list, (o) => o.etaNYPort);
+    const warehouse = slipOf(list, (o) => o.etaWarehouse);
+    if (!nyPort && !warehouse) continue;
+    report.push({
+      container,
+      nyPort,
+      warehouse,
+      daysSlipped: Math.max(nyPort?.daysSlipped ?? 0, warehouse?.daysSlipped ?? 0),
+      revisions: Math.max(nyPort?.revisions ?? 0, warehouse?.revisions ?? 0),
+      firstSeenAt: list[0].observedAt,
+      lastChangedAt: list[list.length - 1].observedAt,
+    });
+  }
+  return report.sort((a, b) => b.daysSlipped - a.daysSlipped || a.container.localeCompare(b.container, undefined, { numeric: true }));
+}
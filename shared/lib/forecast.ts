@@ -0,0 +1,155 @@
+// Completion forecast per tower and floor.
+// Pure, no I/O. The sheet only holds today's installed %; the daily snapshots
+// hold the rest. For each tower and floor this fits a straight line through
+// the installed % of the last few weeks of snapshots and projects the day it
+// reaches 100%, with a band from the uncertainty of the fitted rate.
+
+import type {
+  CompletionForecast,
+  FloorForecast,
+  RollupTower,
+  Tower,
+  TowerForecast,
+} from '../types/dashboard';
+
+/** How many days of snapshots the fit looks back over by default. */
+export const DEFAULT_FORECAST_WINDOW_DAYS = 28;
+/** Fewer snapshot days, or a shorter span, than this is not a trend. */
+const MIN_POINTS = 3;
+const MIN_SPAN_DAYS = 7;
+/** A projection further out than this is reported as stalled, not as a date. */
+const MAX_HORIZON_DAYS = 730;
+/** Two-sided 80% band on the fitted rate. */
+const BAND_Z = 1.2816;
+
+const DAY_MS = 86_400_000;
+
+/** One captured day of the rollup. Only the installed %s are read. */
+export interface RollupSnapshot {
+  date: string; // YYYY-MM-DD
+  towers: RollupTower[];
+}
+
+function dayNumber(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`) / DAY_MS;
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + Math.ceil(days) * DAY_MS).toISOString().slice(0, 10);
+}
+
+function empty(status: CompletionForecast['status'], history: CompletionForecast['history']): CompletionForecast {
+  const last = history[history.length - 1];
+  return {
+    status,
+    currentPct: last?.pct ?? null,
+    asOf: last?.date ?? null,
+    ratePerWeek: null,
+    projectedDate: null,
+    earliestDate: null,
+    latestDate: null,
+    points: history.length,
+    history,
+  };
+}
+
+/**
+ * Forecast one series of daily installed %s (any order; a later entry for the
+ * same date wins). Only the last `windowDays` before the latest point are fitted;
+ * the projection starts from the latest observed value, not the fitted line.
+ */
+export function forecastCompletion(
+  series: { date: string; pct: number }[],
+  windowDays: number = DEFAULT_FORECAST_WINDOW_DAYS,
+): CompletionForecast {
+  const byDate = new Map<string, number>();
+  for (const p of series) byDate.set(p.date, p.pct);
+  const all = [...byDate.entries()].map(([date, pct]) => ({ date, pct })).sort((a, b) => a.date.localeCompare(b.date));
+  if (all.length === 0) return empty('insufficient-data', []);
+
+  const last = all[all.length - 1];
+  const cutoff = dayNumber(last.date) - windowDays;
+  const history = all.filter((p) => dayNumber(p.date) >= cutoff);
+
+  if (last.pct >= 100) {
+    let i = all.length - 1;
+    while (i > 0 && all[i - 1].pct >= 100) i--;
+    const doneOn = all[i].date;
+    return { ...empty('complete', history), projectedDate: doneOn, earliestDate: doneOn, latestDate: doneOn };
+  }
+
+  const span = dayNumber(last.date) - dayNumber(history[0].date);
+  if (history.length < MIN_POINTS || span < MIN_SPAN_DAYS) return empty('insufficient-data', history);
+
+  // Ordinary least squares of pct on days.
+  const x0 = dayNumber(history[0].date);
+  const xs = history.map((p) => dayNumber(p.date) - x0);
+  const ys = history.map((p) => p.pct);
+  const n = xs.length;
+  const xMean = xs.reduce((s, x) => s + x, 0) / n;
+  const yMean = ys.reduce((s, y) => s + y, 0) / n;
+  let sxx = 0, sxy = 0;
+  for (let i = 0; i < n; i++) {
+    sxx += (xs[i] - xMean) ** 2;
+    sxy += (xs[i] - xMean) * (ys[i] - yMean);
+  }
+  const slope = sxy / sxx;
+  const intercept = yMean - slope * xMean;
+  let sse = 0;
+  for (let i = 0; i < n; i++) sse += (ys[i] - (intercept + slope * xs[i])) ** 2;
+  const slopeSe = Math.sqrt(sse / (n - 2) / sxx);
+
+  const ratePerWeek = Math.round(slope * 7 * 10) / 10;
+  const remaining = 100 - last.pct;
+  const daysAt = (rate: number) => (rate > 0 && remaining / rate <= MAX_HORIZON_DAYS ? remaining / rate : null);
+
+  const central = daysAt(slope);
+  if (central === null) return { ...empty('stalled', history), ratePerWeek };
+
+  const fast = daysAt(slope + BAND_Z * slopeSe);
+  const slow = daysAt(slope - BAND_Z * slopeSe);
+  return {
+    ...empty('projected', history),
+    ratePerWeek,
+    projectedDate: addDays(last.date, central),
+    earliestDate: addDays(last.date, fast ?? central),
+    latestDate: slow === null ? null : addDays(last.date, slow),
+  };
+}
+
+/**
+ * Tower and floor forecasts from a run of rollup snapshots. Towers and floors
+ * follow the latest snapshot (floors high → low); a floor's history is matched
+ * by its label, so it needs to have been captured under the same name.
+ */
+export function buildCompletionForecasts(
+  snapshots: RollupSnapshot[],
+  windowDays: number = DEFAULT_FORECAST_WINDOW_DAYS,
+): TowerForecast[] {
+  const ordered = snapshots.slice().sort((a, b) => a.date.localeCompare(b.date));
+  const latest = ordered[ordered.length - 1];
+  if (!latest) return [];
+
+  const towerSeries = new Map<Tower, { date: string; pct: number }[]>();
+  const floorSeries = new Map<string, { date: string; pct: number }[]>();
+  const push = <K>(map: Map<K, { date: string; pct: number }[]>, key: K, date: string, pct: number | null) => {
+    if (pct === null) return;
+    const list = map.get(key) ?? [];
+    list.push({ date, pct });
+    map.set(key, list);
+  };
+  for (const snap of ordered) {
+    for (const t of snap.towers) {
+      push(towerSeries, t.tower, snap.date, t.installedPct);
+      for (const f of t.floors) push(floorSeries, `${t.tower}:${f.floor}`, snap.date, f.installedPct);
+    }
+  }
+
+  return latest.towers.map((t) => ({
+    tower: t.tower,
+    ...forecastCompletion(towerSeries.get(t.tower) ?? [], windowDays),
+    floors: t.floors.map(
+      (f): FloorForecast => ({ floor: f.floor, ...forecastCompletion(floorSeries.get(`${t.tower}:${f.floor}`) ?? [], windowDays) }),
+    ),
+  }));
+}
@@ -13,3 +13,18 @@ export * from './partRollup';
 export * from './containerIndex';
 export * from './outstanding';
 export * from './budget';
+export * from './changes';
+export * from './triage';
+export * from './containerEta';
+export * from './containerArrival';
+export * from './etaSlippage';
+export * from './receivingPlan';
+export * from './documentAudit';
+export * from './forecast';
+export * from './mismatches';
+export * from './taxonomyDrift';
+export * from './specRollup';
+export * from './partLeaderboard';
+export * from './budgetHistory';
+export * from './cashFlow';
+export * from './invoiceReconciliation';
@@ -0,0 +1,232 @@
+// Invoice reconciliation — the invoice audit (Construction sheet) tied to the
+// budget. Pure, no I/O. Each audited vendor is mapped to ONE budget line item or
+// category (vendor_budget_mappings); its invoices then count against that line,
+// so every line shows invoiced vs paid vs estimated (estimate + approved COs).
+// Invoices are taken in sheet order: the one whose running total first crosses
+// the line's estimate, and every one after it, would push the line over budget.
+
+import type { BudgetCategory, BudgetLineItem } from './budget';
+import { parseBudgetNumber } from './budget';
+
+/** One row of the invoice audit, as the reconciliation reads it. */
+export interface AuditInvoice {
+  row: number; // sheet row number (1-based, header on row 1)
+  vendor: string;
+  invoiceNumber: string;
+  amount: number;
+  verdict: string;
+  potentialOvercharge: number;
+}
+
+/** One vendor's mapping — to a line item (budgetItemKey) or a category, never both. */
+export interface VendorMappingInput {
+  vendor: string;
+  itemKey: string | null;
+  category: string | null; // BudgetCategory.name
+}
+
+export type ReconciliationItemInput = Pick<BudgetLineItem, 'key' | 'name' | 'category' | 'displayCategory' | 'adjustedEstimate' | 'paid'>;
+export type ReconciliationCategoryInput = Pick<BudgetCategory, 'name' | 'displayName' | 'adjustedTotal'>;
+
+export interface ReconciledInvoice extends AuditInvoice {
+  /** Invoiced on the line, this invoice included, is above its estimate. */
+  pushesOverBudget: boolean;
+}
+
+export interface ReconciliationLine {
+  target: 'item' | 'category';
+  key: string; // budgetItemKey, or BudgetCategory.name
+  name: string;
+  displayCategory: string;
+  estimated: number; // estimate + approved COs (+ contingency drawn, for a category line)
+  paid: number; // Schedule Summary "Paid" (Σ over the category for a category line)
+  invoiced: number;
+  potentialOvercharge: number;
+  overBudget: boolean; // invoiced > estimated
+  vendors: string[];
+  invoices: ReconciledInvoice[];
+}
+
+export interface CategoryOvercharge {
+  category: string; // BudgetCategory.name, or "Unmapped"
+  displayName: string;
+  potentialOvercharge: number;
+  invoiced: number;
+  invoiceCount: number;
+}
+
+export interface UnmappedVendor {
+  vendor: string;
+  invoiceCount: number;
+  invoiced: number;
+  potentialOvercharge: number;
+}
+
+export interface InvoiceReconciliation {
+  /** Every line a vendor is mapped to — over budget first, then by invoiced. */
+  lines: ReconciliationLine[];
+  /** Σ potential_overcharge per category, largest first; unmapped vendors under "Unmapped". */
+  overchargeByCategory: CategoryOvercharge[];
+  unmappedVendors: UnmappedVendor[];
+  /** Vendors whose mapping points at a line item or category no longer on the sheet. */
+  orphanMappings: string[];
+  totals: {
+    invoiced: number;
+    mappedInvoiced: number;
+    potentialOvercharge: number;
+    overBudgetLines: number;
+    flaggedInvoices: number; // invoices that push their line over budget
+  };
+}
+
+export const UNMAPPED_CATEGORY = 'Unmapped';
+
+/** How vendors are matched between the audit and the mapping table. */
+export function vendorKey(vendor: string): string {
+  return vendor.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+type AuditRow = Record<string, string | number | boolean | null | undefined>;
+
+// The audit's column names drift in case (vendor_name / VENDOR_NAME) — same
+// fallbacks as the Construction page.
+function field(row: AuditRow, ...keys: string[]): string | number | boolean | null {
+  for (const key of keys) {
+    for (const k of [key, key.toUpperCase(), key.toLowerCase()]) {
+      const v = row[k];
+      if (v !== undefined && v !== null && v !== '') return v;
+    }
+  }
+  return null;
+}
+
+/** Audit sheet rows (header-keyed) → invoices. Blank rows are skipped. */
+export function auditInvoicesFromRows(rows: readonly AuditRow[]): AuditInvoice[] {
+  const invoices: AuditInvoice[] = [];
+  rows.forEach((row, i) => {
+    const vendor = String(field(row, 'vendor_name', 'contractor', 'vendor') ?? '').trim();
+    const amount = parseBudgetNumber(field(row, 'invoice_amount', 'amount')) ?? 0;
+    if (vendor === '' && amount === 0) return;
+    invoices.push({
+      row: i + 2,
+      vendor: vendor || 'Unknown Vendor',
+      invoiceNumber: String(field(row, 'invoice_number', 'invoice_id', 'id') ?? ''),
+      amount,
+      verdict: String(field(row, 'verdict', 'status') ?? 'HOLD_FOR_REVIEW'),
+      potentialOvercharge: parseBudgetNumber(field(row, 'potential_overcharge', 'overcharge')) ?? 0,
+    });
+  });
+  return invoices;
+}
+
+function emptyLine(
+  target: ReconciliationLine['target'],
+  key: string,
+  name: string,
+  displayCategory: string,
+  estimated: number,
+  paid: number,
+): ReconciliationLine {
+  return { target, key, name, displayCategory, estimated, paid, invoiced: 0, potentialOvercharge: 0, overBudget: false, vendors: [], invoices: [] };
+}
+
+export function buildInvoiceReconciliation(
+  items: readonly ReconciliationItemInput[],
+  categories: readonly ReconciliationCategoryInput[],
+  invoices: readonly AuditInvoice[],
+  mappings: readonly VendorMappingInput[],
+): InvoiceReconciliation {
+  const itemByKey = new Map(items.map((it) => [it.key, it]));
+  const categoryByKey = new Map(categories.map((c) => [c.name.trim().toLowerCase(), c]));
+  const paidByCategory = new Map<string, number>();
+  for (const it of items) {
+    const key = (it.category || 'Uncategorized').toLowerCase();
+    paidByCategory.set(key, (paidByCategory.get(key) ?? 0) + it.paid);
+  }
+
+  // Resolve each mapping to its line (created lazily, shared by every vendor on it).
+  const lines = new Map<string, ReconciliationLine>();
+  const lineByVendor = new Map<string, ReconciliationLine>();
+  const orphanMappings: string[] = [];
+  for (const m of mappings) {
+    let line: ReconciliationLine | undefined;
+    if (m.itemKey !== null) {
+      const item = itemByKey.get(m.itemKey);
+      if (item) {
+        const id = `item:${item.key}`;
+        line = lines.get(id) ?? emptyLine('item', item.key, item.name, item.displayCategory, item.adjustedEstimate, item.paid);
+        lines.set(id, line);
+      }
+    } else {
+      const cat = categoryByKey.get((m.category ?? '').trim().toLowerCase());
+      if (cat) {
+        const id = `category:${cat.name.toLowerCase()}`;
+        const paid = paidByCategory.get(cat.name.toLowerCase()) ?? 0;
+        line = lines.get(id) ?? emptyLine('category', cat.name, cat.displayName, cat.displayName, cat.adjustedTotal, paid);
+        lines.set(id, line);
+      }
+    }
+    if (!line) {
+      orphanMappings.push(m.vendor);
+      continue;
+    }
+    line.vendors.push(m.vendor);
+    lineByVendor.set(vendorKey(m.vendor), line);
+  }
+
+  const overcharge = new Map<string, CategoryOvercharge>();
+  const addOvercharge = (category: string, displayName: string, inv: AuditInvoice) => {
+    const key = category.toLowerCase();
+    const e = overcharge.get(key) ?? { category, displayName, potentialOvercharge: 0, invoiced: 0, invoiceCount: 0 };
+    e.potentialOvercharge += inv.potentialOvercharge;
+    e.invoiced += inv.amount;
+    e.invoiceCount += 1;
+    overcharge.set(key, e);
+  };
+
+  const unmapped = new Map<string, UnmappedVendor>();
+  let flaggedInvoices = 0;
+  for (const inv of invoices) {
+    const line = lineByVendor.get(vendorKey(inv.vendor));
+    if (!line) {
+      const key = vendorKey(inv.vendor);
+      const u = unmapped.get(key) ?? { vendor: inv.vendor, invoiceCount: 0, invoiced: 0, potentialOvercharge: 0 };
+      u.invoiceCount += 1;
+      u.invoiced += inv.amount;
+      u.potentialOvercharge += inv.potentialOvercharge;
+      unmapped.set(key, u);
+      addOvercharge(UNMAPPED_CATEGORY, UNMAPPED_CATEGORY, inv);
+      continue;
+    }
+    line.invoiced += inv.amount;
+    line.potentialOvercharge += inv.potentialOvercharge;
+    const pushesOverBudget = line.invoiced - line.estimated > 0.005;
+    if (pushesOverBudget) flaggedInvoices += 1;
+    line.invoices.push({ ...inv, pushesOverBudget });
+    if (line.target === 'category') addOvercharge(line.key, line.displayCategory, inv);
+    else {
+      const item = itemByKey.get(line.key)!;
+      addOvercharge(item.category || 'Uncategorized', item.displayCategory, inv);
+    }
+  }
+
+  const reconciled = [...lines.values()];
+  for (const line of reconciled) line.overBudget = line.invoiced - line.estimated > 0.005;
+  reconciled.sort((a, b) => Number(b.overBudget) - Number(a.overBudget) || b.invoiced - a.invoiced);
+
+  const invoiced = invoices.reduce((s, i) => s + i.amount, 0);
+  const unmappedVendors = [...unmapped.values()].sort((a, b) => b.invoiced - a.invoiced);
+  return {
+    lines: reconciled,
+    overchargeByCategory: [...overcharge.values()].sort((a, b) => b.potentialOvercharge - a.potentialOvercharge),
+    unmappedVendors,
+    orphanMappings,
+    totals: {
+      invoiced,
+      mappedInvoiced: invoiced - unmappedVendors.reduce((s, u) => s + u.invoiced, 0),
+      potentialOvercharge: invoices.reduce((s, i) => s + i.potentialOvercharge, 0),
+      overBudgetLines: reconciled.filter((l) => l.overBudget).length,
+      flaggedInvoices,
+    },
+  };
+}
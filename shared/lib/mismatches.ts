@@ -0,0 +1,90 @@
+// Stale manual-% punch list (§3.2).
+// Pure, no I/O. buildRoomRows flags a package whose PACKAGE-summary cell
+// disagrees with the % recomputed from its parts; this lists every flagged
+// cell of one tab with its A1 address, so the sheet can be fixed cell by cell.
+
+import type { RoomRow, RoomTab } from '../types/dashboard';
+import { roomRowIndices, type RoomTabStructure } from './discovery';
+
+type Grid = ReadonlyArray<ReadonlyArray<string | null | undefined>>;
+
+export interface PackageMismatch {
+  tab: string; // registered sheetName
+  tower: RoomTab['tower'];
+  type: RoomTab['type'];
+  roomNo: string;
+  floor: string;
+  package: string;
+  /** What the summary cell says, as read. */
+  manualRaw: string;
+  manualPct: number;
+  recomputedPct: number;
+  /** A1 address of the summary cell on the tab, e.g. "K12". */
+  cell: string;
+}
+
+/** 0-based column index → A1 column letters (0 → A, 26 → AA). */
+export function columnLetter(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+/**
+ * Every mismatched package on one room tab. `rows` must be buildRoomRows'
+ * output for the same grid + structure (rows and packages line up by position).
+ */
+export function findPackageMismatches(
+  grid: Grid,
+  structure: RoomTabStructure,
+  tab: RoomTab,
+  rows: RoomRow[],
+): PackageMismatch[] {
+  const rowIndices = roomRowIndices(grid, structure);
+  const out: PackageMismatch[] = [];
+  rows.forEach((room, i) => {
+    const r = rowIndices[i];
+    room.packages.forEach((pkg, k) => {
+      if (!pkg.mismatch || pkg.manualPct === null) return;
+      const col = structure.packages[k].summaryColIndex;
+      out.push({
+        tab: tab.sheetName,
+        tower: tab.tower,
+        type: tab.type,
+        roomNo: room.roomNo,
+        floor: room.floor,
+        package: pkg.name,
+        manualRaw: String(grid[r]?.[col] ?? '').trim(),
+        manualPct: pkg.manualPct,
+        recomputedPct: pkg.recomputedPct,
+        cell: `${columnLetter(col)}${r + 1}`,
+      });
+    });
+  });
+  return out;
+}
+
+const CSV_COLUMNS: [keyof PackageMismatch, string][] = [
+  ['tab', 'Tab'],
+  ['cell', 'Cell'],
+  ['floor', 'Floor'],
+  ['roomNo', 'Room #'],
+  ['package', 'Package'],
+  ['manualPct', 'Sheet %'],
+  ['recomputedPct', 'Recomputed %'],
+  ['manualRaw', 'Cell value'],
+];
+
+function csvField(value: string | number): string {
+  const s = String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** The punch list as CSV (RFC 4180, CRLF line ends), header row first. */
+export function mismatchesToCsv(items: PackageMismatch[]): string {
+  const lines = [CSV_COLUMNS.map(([, label]) => csvField(label)).join(',')];
+  for (const item of items) lines.push(CSV_COLUMNS.map(([key]) => csvField(item[key])).join(','));
+  return lines.join('\r\n') + '\r\n';
+}
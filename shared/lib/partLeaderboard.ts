@@ -0,0 +1,155 @@
+// Most-missing parts leaderboard — every part across the four room tabs, one
+// line per tab type + package + part (towers merged), ranked by how many rooms
+// still lack it. Pure, no I/O. Containers and Installation are never merged:
+// "received" means delivered on one and installed on the other.
+
+import type {
+  PartCounts,
+  PartLeaderboardEntry,
+  PartRoomCell,
+  RoomRow,
+  RoomTab,
+  TabType,
+  Tower,
+  UrgencyBucket,
+} from '../types/dashboard';
+import { norm } from './normalize';
+import { rollupByPart } from './partRollup';
+
+export interface PartLeaderboardInput {
+  tab: RoomTab;
+  rows: RoomRow[];
+}
+
+interface Cell extends PartRoomCell {
+  type: TabType;
+  package: string;
+  part: string;
+}
+
+function num(label: string): number {
+  const n = parseInt((label || '').replace(/\D/g, ''), 10);
+  return Number.isNaN(n) ? 0 : n;
+}
+
+/** Every applicable (non-N/A) part cell of the given tabs. */
+function cells(inputs: PartLeaderboardInput[]): Cell[] {
+  const out: Cell[] = [];
+  for (const { tab, rows } of inputs) {
+    for (const room of rows) {
+      for (const pkg of room.packages) {
+        for (const p of pkg.parts) {
+          if (p.bucket === 'excluded') continue;
+          out.push({
+            type: tab.type,
+            package: pkg.name,
+            part: p.header,
+            tower: tab.tower,
+            tab: tab.sheetName,
+            floor: room.floor,
+            roomNo: room.roomNo,
+            roomType: room.type,
+            bucket: p.bucket,
+            rawValue: p.rawValue,
+          });
+        }
+      }
+    }
+  }
+  return out;
+}
+
+function countBuckets(list: Cell[]): PartCounts {
+  const counts: PartCounts = {
+    applicable: list.length,
+    received: 0,
+    incoming: 0,
+    upstream: 0,
+    problem: 0,
+    attention: 0,
+    unrecorded: 0,
+    other: 0,
+    missing: 0,
+  };
+  for (const c of list) {
+    const bucket = c.bucket as Exclude<UrgencyBucket, 'excluded'>;
+    counts[bucket]++;
+  }
+  counts.missing = counts.applicable - counts.received;
+  return counts;
+}
+
+function groupBy<K>(list: Cell[], key: (c: Cell) => K): Map<K, Cell[]> {
+  const map = new Map<K, Cell[]>();
+  for (const c of list) {
+    const k = key(c);
+    const group = map.get(k);
+    if (group) group.push(c);
+    else map.set(k, [c]);
+  }
+  return map;
+}
+
+/**
+ * Rank every part by rooms still missing it (then by problems, then by name),
+ * with the same counts split by tower and by floor. Package names match
+ * case-insensitively across towers; the first spelling seen is kept.
+ */
+export function buildPartLeaderboard(inputs: PartLeaderboardInput[]): PartLeaderboardEntry[] {
+  const all = cells(inputs);
+  const entries: PartLeaderboardEntry[] = [];
+
+  for (const [type, ofType] of groupBy(all, (c) => c.type)) {
+    const spelling = new Map<string, string>();
+    for (const c of ofType) if (!spelling.has(norm(c.package))) spelling.set(norm(c.package), c.package);
+
+    for (const group of rollupByPart(ofType, (c) => spelling.get(norm(c.package))!, (c) => c.part)) {
+      const byTower = [...groupBy(group.items, (c) => c.tower)]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([tower, list]) => ({ tower, counts: countBuckets(list) }));
+      const byFloor = [...groupBy(group.items, (c) => `${c.tower}|${c.floor}`).values()]
+        .map((list) => ({ tower: list[0].tower, floor: list[0].floor, counts: countBuckets(list) }))
+        .sort((a, b) => a.tower.localeCompare(b.tower) || num(b.floor) - num(a.floor));
+      entries.push({ type, package: group.package, part: group.part, counts: countBuckets(group.items), byTower, byFloor });
+    }
+  }
+
+  return entries.sort(
+    (a, b) =>
+      b.counts.missing - a.counts.missing ||
+      b.counts.problem - a.counts.problem ||
+      a.part.localeCompare(b.part) ||
+      a.type.localeCompare(b.type),
+  );
+}
+
+/**
+ * Drill-down: every room's cell for one part (N/A left out), received last so
+ * the rooms still waiting come first. Optional tower / floor narrow it to one
+ * row of the leaderboard's breakdown.
+ */
+export function partRoomCells(
+  inputs: PartLeaderboardInput[],
+  type: TabType,
+  pkg: string,
+  part: string,
+  where: { tower?: Tower; floor?: string } = {},
+): PartRoomCell[] {
+  return cells(inputs)
+    .filter(
+      (c) =>
+        c.type === type &&
+        norm(c.package) === norm(pkg) &&
+        c.part === part &&
+        (where.tower === undefined || c.tower === where.tower) &&
+        (where.floor === undefined || c.floor === where.floor),
+    )
+    .sort(
+      (a, b) =>
+        Number(a.bucket === 'received') - Number(b.bucket === 'received') ||
+        a.tower.localeCompare(b.tower) ||
+        num(b.floor) - num(a.floor) ||
+        num(a.roomNo) - num(b.roomNo),
+    )
+    .map(({ type: _type, package: _pkg, part: _part, ...cell }) => cell);
+}
@@ -0,0 +1,115 @@
+// Container Schedule receiving plan.
+// Pure, no I/O. Places each schedule row on its warehouse ETA and groups by
+// week (Monday start), carrying the rooms/packages the container index says
+// each container unblocks — "what's landing next week and where does it go".
+
+import type { ContainerRoomUnblock } from '../types/dashboard';
+import { parseContainerRef } from './containers';
+import { parseSheetDate } from './containerEta';
+
+/** The Container Schedule columns the plan needs. */
+export interface ReceivingScheduleInput {
+  id: number;
+  containerNumber: string;
+  factory: string;
+  status: string;
+  etaWarehouse: string;
+}
+
+/** Rooms one container number unblocks (a ContainerEta from the joined index). */
+export interface ReceivingUnblockInput {
+  number: number;
+  rooms: ContainerRoomUnblock[];
+}
+
+export interface ReceivingContainer {
+  id: number; // schedule row
+  container: string; // schedule "Container #" text
+  factory: string;
+  status: string;
+  eta: string | null; // warehouse ETA, YYYY-MM-DD
+  numbers: number[]; // container numbers parsed from the text
+  rooms: ContainerRoomUnblock[]; // across all its numbers, merged per room
+  partCount: number;
+}
+
+export interface ReceivingWeek {
+  weekStart: string; // Monday, YYYY-MM-DD
+  containers: ReceivingContainer[];
+  rooms: ContainerRoomUnblock[]; // everything the week's containers unblock, merged per room
+  partCount: number;
+}
+
+export interface ReceivingPlan {
+  weeks: ReceivingWeek[]; // oldest first, only weeks with a container
+  undated: ReceivingContainer[]; // no usable warehouse ETA
+}
+
+/** The Monday of the week holding `date` (YYYY-MM-DD). */
+export function weekStartOf(date: string): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  return d.toISOString().slice(0, 10);
+}
+
+function roomNum(roomNo: string): number {
+  const n = parseInt((roomNo || '').replace(/\D/g, ''), 10);
+  return Number.isNaN(n) ? 0 : n;
+}
+
+function mergeRooms(lists: ContainerRoomUnblock[][]): ContainerRoomUnblock[] {
+  const byRoom = new Map<string, ContainerRoomUnblock>();
+  for (const list of lists) {
+    for (const r of list) {
+      const key = `${r.tower}:${r.roomNo}`;
+      const merged = byRoom.get(key);
+      if (!merged) {
+        byRoom.set(key, { ...r, packages: [...r.packages] });
+        continue;
+      }
+      for (const p of r.packages) if (!merged.packages.includes(p)) merged.packages.push(p);
+      merged.partCount += r.partCount;
+    }
+  }
+  return [...byRoom.values()].sort((a, b) => a.tower.localeCompare(b.tower) || roomNum(a.roomNo) - roomNum(b.roomNo));
+}
+
+export function buildReceivingPlan(schedule: ReceivingScheduleInput[], unblocks: ReceivingUnblockInput[]): ReceivingPlan {
+  const roomsByNumber = new Map(unblocks.map((u) => [u.number, u.rooms]));
+
+  const containers: ReceivingContainer[] = schedule.map((row) => {
+    const numbers = [...new Set(parseContainerRef(row.containerNumber).numbers)];
+    const rooms = mergeRooms(numbers.map((n) => roomsByNumber.get(n) ?? []));
+    return {
+      id: row.id,
+      container: row.containerNumber.trim(),
+      factory: row.factory,
+      status: row.status,
+      eta: parseSheetDate(row.etaWarehouse),
+      numbers,
+      rooms,
+      partCount: rooms.reduce((n, r) => n + r.partCount, 0),
+    };
+  });
+
+  const byWeek = new Map<string, ReceivingContainer[]>();
+  const undated: ReceivingContainer[] = [];
+  for (const c of containers) {
+    if (!c.eta) {
+      undated.push(c);
+      continue;
+    }
+    const week = weekStartOf(c.eta);
+    byWeek.set(week, [...(byWeek.get(week) ?? []), c]);
+  }
+
+  const weeks = [...byWeek.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([weekStart, list]) => {
+      list.sort((a, b) => a.eta!.localeCompare(b.eta!) || a.id - b.id);
+      const rooms = mergeRooms(list.map((c) => c.rooms));
+      return { weekStart, containers: list, rooms, partCount: rooms.reduce((n, r) => n + r.partCount, 0) };
+    });
+
+  return { weeks, undated };
+}
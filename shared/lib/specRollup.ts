@@ -0,0 +1,203 @@
+// Spec-aware rollup — Room Specs joined to the Floor → Room rollup by Room #.
+// Pure, no I/O. Checks each room's Yes/No features against the part cells the
+// features imply (config/roomSpecs.ts) and filters the rollup by spec, e.g.
+// "ADA rooms on floors 20–27". Floor / tower %s are re-averaged over the rooms
+// that pass the filter, the same plain per-room average the rollup uses.
+
+import type {
+  PackageResult,
+  RollupRoom,
+  RollupTower,
+  RoomSpec,
+  SpecAttribute,
+  SpecDisagreement,
+  SpecFeature,
+  SpecFilter,
+  SpecRollup,
+  SpecRollupFloor,
+  SpecRollupRoom,
+  Tower,
+} from '../types/dashboard';
+import { SPEC_ATTRIBUTES, SPEC_FEATURES, SPEC_PART_RULES, type SpecPartRule } from '../config/roomSpecs';
+import { isBlank, norm } from './normalize';
+
+/** A Room Specs Yes/No cell: true, false, or null when it says anything else. */
+export function specFlag(value: string | null | undefined): boolean | null {
+  const n = norm(value);
+  if (n === 'yes') return true;
+  if (n === 'no') return false;
+  return null;
+}
+
+/** The Room # as a number ("2704" → 2704, "2704 LV" → 2704), null without digits. */
+function roomNumber(roomNo: string): number | null {
+  const match = (roomNo || '').match(/\d+/);
+  return match ? parseInt(match[0], 10) : null;
+}
+
+/** Numeric value of a floor label's digits ("27TH" → 27), null without digits. */
+export function floorNumber(label: string): number | null {
+  const n = parseInt((label || '').replace(/\D/g, ''), 10);
+  return Number.isNaN(n) ? null : n;
+}
+
+/**
+ * Read a filter from query-string values: tower=HR|LR, floors=20-27 (or a
+ * single floor), one param per feature (yes/no), one per attribute, flagged=true.
+ * Unrecognised values are ignored rather than rejected.
+ */
+export function parseSpecFilter(query: Record<string, unknown>): SpecFilter {
+  const str = (key: string) => (typeof query[key] === 'string' ? (query[key] as string).trim() : '');
+  const filter: SpecFilter = { features: {}, attributes: {}, flaggedOnly: str('flagged') === 'true' };
+
+  const tower = str('tower').toUpperCase();
+  if (tower === 'HR' || tower === 'LR') filter.tower = tower;
+
+  const floors = str('floors').match(/^(\d+)\s*(?:[-–]\s*(\d+))?$/);
+  if (floors) {
+    const a = parseInt(floors[1], 10);
+    const b = floors[2] !== undefined ? parseInt(floors[2], 10) : a;
+    filter.floorMin = Math.min(a, b);
+    filter.floorMax = Math.max(a, b);
+  }
+
+  for (const { key } of SPEC_FEATURES) {
+    const flag = specFlag(str(key));
+    if (flag !== null) filter.features[key] = flag;
+  }
+  for (const { key } of SPEC_ATTRIBUTES) {
+    if (str(key)) filter.attributes[key] = str(key);
+  }
+  return filter;
+}
+
+function hasSpecCriteria(filter: SpecFilter): boolean {
+  return Object.keys(filter.features).length > 0 || Object.keys(filter.attributes).length > 0;
+}
+
+function specMatches(spec: RoomSpec, filter: SpecFilter): boolean {
+  for (const [key, want] of Object.entries(filter.features) as [SpecFeature, boolean][]) {
+    if (specFlag(spec[key]) !== want) return false;
+  }
+  for (const [key, want] of Object.entries(filter.attributes) as [SpecAttribute, string][]) {
+    if (norm(spec[key]) !== norm(want)) return false;
+  }
+  return true;
+}
+
+/** The part cells on one side that a rule covers, across every row of one Room #. */
+function ruleCells(rule: SpecPartRule, packages: PackageResult[]) {
+  const pkgNames = new Set(rule.packages.map(norm));
+  const partNames = new Set(rule.parts.map(norm));
+  return packages.flatMap((pkg) =>
+    pkgNames.has(norm(pkg.name)) ? pkg.parts : pkg.parts.filter((p) => partNames.has(norm(p.header))),
+  );
+}
+
+/**
+ * Compare one Room #'s spec with its part cells (all of its rows, both tabs).
+ * Blank cells are unrecorded, not a statement either way, so they never flag.
+ */
+export function checkRoomSpec(spec: RoomSpec, rooms: RollupRoom[]): SpecDisagreement[] {
+  const out: SpecDisagreement[] = [];
+  for (const rule of SPEC_PART_RULES) {
+    const want = specFlag(spec[rule.feature]);
+    if (want === null) continue;
+
+    for (const side of ['received', 'installed'] as const) {
+      const packages = rooms.flatMap((r) => r.packages.map((p) => p[side]).filter((p): p is PackageResult => p !== null));
+      const cells = ruleCells(rule, packages);
+      if (cells.length === 0) continue; // this tab doesn't track the feature
+
+      const tracked = cells.filter((c) => c.bucket !== 'excluded' && !isBlank(c.rawValue));
+      const allNA = cells.every((c) => c.bucket === 'excluded');
+      if (want && allNA) {
+        out.push({ feature: rule.feature, label: rule.label, side, kind: 'spec-not-tracked', parts: [...new Set(cells.map((c) => c.header))] });
+      } else if (!want && tracked.length > 0) {
+        out.push({ feature: rule.feature, label: rule.label, side, kind: 'tracked-not-in-spec', parts: [...new Set(tracked.map((c) => c.header))] });
+      }
+    }
+  }
+  return out;
+}
+
+function average(values: (number | null)[]): number | null {
+  const present = values.filter((v): v is number => v !== null);
+  return present.length > 0 ? Math.round(present.reduce((a, b) => a + b, 0) / present.length) : null;
+}
+
+/**
+ * Join both towers' rollups to the Room Specs rows by Room #, check every
+ * matched room, and keep the rooms that pass `filter`. Whenever the filter
+ * names a feature or attribute, rooms without a spec row are left out.
+ */
+export function buildSpecRollup(towers: RollupTower[], specs: RoomSpec[], filter: SpecFilter): SpecRollup {
+  const specByRoom = new Map<number, RoomSpec>();
+  for (const s of specs) if (!specByRoom.has(s.roomNumber)) specByRoom.set(s.roomNumber, s);
+
+  const joined = new Set<number>();
+  const roomsWithoutSpec = new Set<string>();
+  let disagreementCount = 0;
+
+  const out = towers.map((t) => {
+    // Every row of a Room # in this tower, so a suite's main + LV rows are checked together.
+    const rowsByNumber = new Map<number, RollupRoom[]>();
+    for (const floor of t.floors) {
+      for (const room of floor.rooms) {
+        const n = roomNumber(room.roomNo);
+        if (n === null) continue;
+        const list = rowsByNumber.get(n);
+        if (list) list.push(room);
+        else rowsByNumber.set(n, [room]);
+      }
+    }
+
+    const floors: SpecRollupFloor[] = t.floors
+      .map((floor) => {
+        const rooms: SpecRollupRoom[] = [];
+        for (const room of floor.rooms) {
+          const n = roomNumber(room.roomNo);
+          const spec = n !== null ? specByRoom.get(n) ?? null : null;
+          if (spec) joined.add(spec.roomNumber);
+          else roomsWithoutSpec.add(room.roomNo);
+
+          const group = n !== null ? rowsByNumber.get(n) ?? [room] : [room];
+          const disagreements = spec && group[0] === room ? checkRoomSpec(spec, group) : [];
+
+          if (filter.tower && filter.tower !== t.tower) continue;
+          const floorNo = floorNumber(floor.floor) ?? spec?.floor ?? null;
+          if (filter.floorMin !== undefined && (floorNo === null || floorNo < filter.floorMin)) continue;
+          if (filter.floorMax !== undefined && (floorNo === null || floorNo > filter.floorMax)) continue;
+          if (hasSpecCriteria(filter) && (!spec || !specMatches(spec, filter))) continue;
+          if (filter.flaggedOnly && disagreements.length === 0) continue;
+
+          disagreementCount += disagreements.length;
+          rooms.push({
+            key: room.key,
+            roomNo: room.roomNo,
+            floor: room.floor,
+            type: room.type,
+            installedPct: room.installedPct,
+            spec,
+            disagreements,
+          });
+        }
+        return { floor: floor.floor, installedPct: average(rooms.map((r) => r.installedPct)), rooms };
+      })
+      .filter((f) => f.rooms.length > 0);
+
+    const rooms = floors.flatMap((f) => f.rooms);
+    return { tower: t.tower as Tower, installedPct: average(rooms.map((r) => r.installedPct)), roomCount: rooms.length, floors };
+  });
+
+  return {
+    towers: out,
+    matchedRooms: joined.size,
+    roomsWithoutSpec: [...roomsWithoutSpec].sort((a, b) => (roomNumber(a) ?? 0) - (roomNumber(b) ?? 0)),
+    specsWithoutRoom: [...specByRoom.keys()].filter((n) => !joined.has(n)).sort((a, b) => a - b),
+    disagreementCount,
+    attributeValues: Object.fromEntries(
+      SPEC_ATTRIBUTES.map(({ key }) => [key, [...new Set(specs.map((s) => s[key]).filter(Boolean))].sort()]),
+    ) as Record<SpecAttribute, string[]>,
+  };
+}
@@ -0,0 +1,210 @@
+// Taxonomy drift — discovered room-tab structure vs the expected taxonomy.
+// Pure, no I/O. Discovery already reads whatever the live headers say and only
+// warns on count differences; this spells the difference out per tab: packages
+// added / removed / renamed (fuzzy), parts added / removed / moved between
+// packages, and unlabelled columns that hold data. It also describes a tab's
+// column layout so the server can record when it changes.
+
+import type { ExpectedTaxonomy } from '../config/expectedTaxonomies';
+import type { TabLayout, TaxonomyDrift } from '../types/dashboard';
+import { norm, isBlank } from './normalize';
+import { roomRowIndices, type RoomTabStructure } from './discovery';
+import { columnLetter } from './mismatches';
+
+type Grid = ReadonlyArray<ReadonlyArray<string | null | undefined>>;
+
+/** Unmatched packages this similar (0..1, by name or by shared parts) count as a rename. */
+export const RENAME_SIMILARITY = 0.6;
+
+function levenshtein(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const next = [i];
+    for (let j = 1; j <= b.length; j++) {
+      next[j] = Math.min(prev[j] + 1, next[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = next;
+  }
+  return prev[b.length];
+}
+
+function nameSimilarity(a: string, b: string): number {
+  const x = norm(a), y = norm(b);
+  const longest = Math.max(x.length, y.length);
+  return longest === 0 ? 1 : 1 - levenshtein(x, y) / longest;
+}
+
+function partOverlap(a: string[], b: string[]): number {
+  const x = new Set(a.map(norm)), y = new Set(b.map(norm));
+  let shared = 0;
+  for (const p of x) if (y.has(p)) shared++;
+  const union = x.size + y.size - shared;
+  return union === 0 ? 0 : shared / union;
+}
+
+export function describeLayout(structure: RoomTabStructure): TabLayout {
+  return {
+    headerRow: structure.headerRowIndex + 1,
+    packages: structure.packages.map((p) => ({
+      name: p.name,
+      column: columnLetter(p.summaryColIndex),
+      parts: p.parts.map((x) => ({ header: x.header, column: columnLetter(x.colIndex) })),
+    })),
+    blankHeaderColumns: structure.blankHeaderColumns.map((b) => columnLetter(b.colIndex)),
+  };
+}
+
+/** Stable string of a layout; equal strings mean nothing moved. */
+export function layoutSignature(layout: TabLayout): string {
+  return JSON.stringify(layout);
+}
+
+/**
+ * Diff one tab's discovered structure against its expected taxonomy. With no
+ * expected taxonomy only headerless columns are reported.
+ */
+export function diffTaxonomy(grid: Grid, structure: RoomTabStructure, expected: ExpectedTaxonomy | undefined): TaxonomyDrift {
+  const discovered = structure.packages;
+  const drift: TaxonomyDrift = {
+    hasExpected: expected !== undefined,
+    discovered: { packageCount: discovered.length, partCount: discovered.reduce((s, p) => s + p.parts.length, 0) },
+    expected: expected
+      ? { packageCount: expected.packages.length, partCount: expected.packages.reduce((s, p) => s + p.parts.length, 0) }
+      : null,
+    packagesAdded: [],
+    packagesRemoved: [],
+    packagesRenamed: [],
+    partsAdded: [],
+    partsRemoved: [],
+    partsMoved: [],
+    headerlessColumns: [],
+    issueCount: 0,
+  };
+
+  const rows = roomRowIndices(grid, structure);
+  for (const b of structure.blankHeaderColumns) {
+    const filledCells = rows.filter((r) => !isBlank(grid[r]?.[b.colIndex] ?? '')).length;
+    if (filledCells > 0) {
+      drift.headerlessColumns.push({ column: columnLetter(b.colIndex), package: discovered[b.packageIndex].name, filledCells });
+    }
+  }
+
+  if (expected) {
+    // Pair packages: exact name first, then the most similar remaining pairs.
+    const pairs: [number, number][] = []; // [discovered index, expected index]
+    const freeD = new Set(discovered.map((_, i) => i));
+    const freeE = new Set(expected.packages.map((_, i) => i));
+    for (const d of [...freeD]) {
+      const e = [...freeE].find((i) => norm(expected.packages[i].name) === norm(discovered[d].name));
+      if (e !== undefined) {
+        pairs.push([d, e]);
+        freeD.delete(d);
+        freeE.delete(e);
+      }
+    }
+    const candidates: { d: number; e: number; score: number }[] = [];
+    for (const d of freeD) {
+      for (const e of freeE) {
+        const score = Math.max(
+          nameSimilarity(discovered[d].name, expected.packages[e].name),
+          partOverlap(discovered[d].parts.map((p) => p.header), expected.packages[e].parts),
+        );
+        if (score >= RENAME_SIMILARITY) candidates.push({ d, e, score });
+      }
+    }
+    candidates.sort((a, b) => b.score - a.score);
+    for (const c of candidates) {
+      if (!freeD.has(c.d) || !freeE.has(c.e)) continue;
+      pairs.push([c.d, c.e]);
+      freeD.delete(c.d);
+      freeE.delete(c.e);
+      drift.packagesRenamed.push({
+        from: expected.packages[c.e].name,
+        to: discovered[c.d].name,
+        column: columnLetter(discovered[c.d].summaryColIndex),
+        similarity: Math.round(c.score * 100) / 100,
+      });
+    }
+    for (const d of freeD) {
+      drift.packagesAdded.push({ name: discovered[d].name, column: columnLetter(discovered[d].summaryColIndex), partCount: discovered[d].parts.length });
+    }
+    for (const e of freeE) {
+      drift.packagesRemoved.push({ name: expected.packages[e].name, partCount: expected.packages[e].parts.length });
+    }
+
+    // Parts missing from / new to their package; a part on both lists is a move.
+    const extra: { package: string; part: string; column: string; paired: boolean }[] = [];
+    const missing: { package: string; part: string; paired: boolean }[] = [];
+    for (const [d, e] of pairs) {
+      const want = new Set(expected.packages[e].parts.map(norm));
+      const have = new Set(discovered[d].parts.map((p) => norm(p.header)));
+      for (const p of discovered[d].parts) {
+        if (!want.has(norm(p.header))) extra.push({ package: discovered[d].name, part: p.header, column: columnLetter(p.colIndex), paired: true });
+      }
+      for (const p of expected.packages[e].parts) {
+        if (!have.has(norm(p))) missing.push({ package: expected.packages[e].name, part: p, paired: true });
+      }
+    }
+    for (const d of freeD) {
+      for (const p of discovered[d].parts) extra.push({ package: discovered[d].name, part: p.header, column: columnLetter(p.colIndex), paired: false });
+    }
+    for (const e of freeE) {
+      for (const p of expected.packages[e].parts) missing.push({ package: expected.packages[e].name, part: p, paired: false });
+    }
+
+    const moved = new Set<(typeof missing)[number]>();
+    for (const x of extra) {
+      const from = missing.find((m) => !moved.has(m) && norm(m.part) === norm(x.part));
+      if (from) {
+        moved.add(from);
+        drift.partsMoved.push({ part: x.part, from: from.package, to: x.package, column: x.column });
+      } else if (x.paired) {
+        drift.partsAdded.push({ package: x.package, part: x.part, column: x.column });
+      }
+    }
+    for (const m of missing) {
+      if (!moved.has(m) && m.paired) drift.partsRemoved.push({ package: m.package, part: m.part });
+    }
+  }
+
+  drift.issueCount =
+    drift.packagesAdded.length +
+    drift.packagesRemoved.length +
+    drift.packagesRenamed.length +
+    drift.partsAdded.length +
+    drift.partsRemoved.length +
+    drift.partsMoved.length +
+    drift.headerlessColumns.length;
+  return drift;
+}
+
+/** Plain-language list of what differs between two recorded layouts of one tab. */
+export function describeLayoutChange(prev: TabLayout, next: TabLayout): string[] {
+  const changes: string[] = [];
+  if (prev.headerRow !== next.headerRow) changes.push(`Header row moved from ${prev.headerRow} to ${next.headerRow}`);
+
+  const before = new Map(prev.packages.map((p) => [norm(p.name), p]));
+  const after = new Map(next.packages.map((p) => [norm(p.name), p]));
+  for (const [key, p] of after) {
+    const old = before.get(key);
+    if (!old) {
+      changes.push(`Package ${p.name} added at column ${p.column}`);
+      continue;
+    }
+    if (old.column !== p.column) changes.push(`Package ${p.name} moved from column ${old.column} to ${p.column}`);
+    const oldParts = new Set(old.parts.map((x) => norm(x.header)));
+    const newParts = new Set(p.parts.map((x) => norm(x.header)));
+    const added = p.parts.filter((x) => !oldParts.has(norm(x.header))).map((x) => x.header);
+    const removed = old.parts.filter((x) => !newParts.has(norm(x.header))).map((x) => x.header);
+    if (added.length) changes.push(`${p.name}: added ${added.join(', ')}`);
+    if (removed.length) changes.push(`${p.name}: removed ${removed.join(', ')}`);
+  }
+  for (const [key, p] of before) {
+    if (!after.has(key)) changes.push(`Package ${p.name} removed (was at column ${p.column})`);
+  }
+  if (prev.blankHeaderColumns.join() !== next.blankHeaderColumns.join()) {
+    changes.push(`Unlabelled columns: ${prev.blankHeaderColumns.join(', ') || 'none'} → ${next.blankHeaderColumns.join(', ') || 'none'}`);
+  }
+  if (changes.length === 0 && layoutSignature(prev) !== layoutSignature(next)) changes.push('Part columns reordered');
+  return changes;
+}
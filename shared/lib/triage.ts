@@ -0,0 +1,58 @@
+// Exception triage reconciliation. Pure, no I/O.
+//
+// A triage record is keyed by the cell it follows up on: tab + room + package +
+// part header. Each exceptions scan is reconciled against the open records:
+//  • an open record whose cell is no longer flagged closes itself (resolved,
+//    marked auto-closed) — the record and its history stay;
+//  • an auto-closed record whose cell is flagged again reopens as "new".
+// A record resolved by hand stays resolved even while the cell is still flagged.
+// Tabs that could not be read this scan are left alone.
+
+import type { TriageStatus } from '../config/triage';
+
+export interface TriageKeyFields {
+  tab: string;
+  roomNo: string;
+  package: string;
+  part: string;
+}
+
+export interface TriageState extends TriageKeyFields {
+  status: TriageStatus | string;
+  autoClosedAt: Date | string | null;
+}
+
+/** A cell's fields as records store them: trimmed, package and part upper-cased. */
+export function normalizeTriageCell(k: TriageKeyFields): TriageKeyFields {
+  return { tab: k.tab, roomNo: k.roomNo.trim(), package: k.package.trim().toUpperCase(), part: k.part.trim().toUpperCase() };
+}
+
+/** Stable identity of a flagged cell across scans. */
+export function triageKey(k: TriageKeyFields): string {
+  const n = normalizeTriageCell(k);
+  return [n.tab, n.roomNo, n.package, n.part].join('||');
+}
+
+export interface TriageReconciliation<T> {
+  close: T[];
+  reopen: T[];
+}
+
+export function reconcileTriage<T extends TriageState>(
+  records: T[],
+  flagged: TriageKeyFields[],
+  scannedTabs: string[],
+): TriageReconciliation<T> {
+  const flaggedKeys = new Set(flagged.map(triageKey));
+  const scanned = new Set(scannedTabs);
+  const close: T[] = [];
+  const reopen: T[] = [];
+
+  for (const record of records) {
+    if (!scanned.has(record.tab)) continue;
+    const stillFlagged = flaggedKeys.has(triageKey(record));
+    if (record.status !== 'resolved' && !stillFlagged) close.push(record);
+    else if (record.status === 'resolved' && record.autoClosedAt !== null && stillFlagged) reopen.push(record);
+  }
+  return { close, reopen };
+}
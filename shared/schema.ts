@@ -1,6 +1,13 @@
-import { pgTable, text, serial, timestamp, varchar, index, integer, date } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, timestamp, varchar, index, uniqueIndex, integer, date, boolean, jsonb, numeric } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { USER_ROLES, DASHBOARD_TABS } from "./config/access";
+import { TRIAGE_STATUSES } from "./config/triage";
+import { PAYMENT_LINK_TYPES } from "./config/cashFlow";
+import { CHANGE_ORDER_STATUSES } from "./config/changeOrders";
+import type { CommonAreaFloor, RoomRow, TabLayout, TaxonomyDrift } from "./types/dashboard";
+import type { BudgetTotals } from "./lib/budget";
+import type { BudgetSnapshotItem } from "./lib/budgetHistory";
 
 export const messages = pgTable("messages", {
   id: serial("id").primaryKey(),
@@ -95,3 +102,386 @@ export const insertCustomEventTypeSchema = createInsertSchema(customEventTypes).
 
 export type CustomEventType = typeof customEventTypes.$inferSelect;
 export type InsertCustomEventType = z.infer<typeof insertCustomEventTypeSchema>;
+
+// Users Table - named accounts that replace the shared gate passwords.
+// role + tabGrants decide which tabs a user can open (see shared/config/access.ts).
+// passwordHash stays null until the invite is accepted.
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  email: varchar("email", { length: 255 }).notNull().unique(),
+  name: varchar("name", { length: 255 }).notNull(),
+  role: varchar("role", { length: 20 }).notNull(), // field | construction | management | admin
+  tabGrants: text("tab_grants").array().notNull().default([]), // extra tabs beyond the role
+  passwordHash: text("password_hash"),
+  inviteToken: varchar("invite_token", { length: 64 }),
+  inviteExpiresAt: timestamp("invite_expires_at"),
+  disabled: boolean("disabled").notNull().default(false),
+  invitedBy: integer("invited_by"),
+  lastLoginAt: timestamp("last_login_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("users_invite_token_idx").on(table.inviteToken),
+]);
+
+export const insertUserSchema = createInsertSchema(users, {
+  email: z.string().trim().toLowerCase().email(),
+  name: z.string().trim().min(1),
+  role: z.enum(USER_ROLES),
+  tabGrants: z.array(z.enum(DASHBOARD_TABS)),
+}).pick({
+  email: true,
+  name: true,
+  role: true,
+  tabGrants: true,
+});
+
+export const updateUserSchema = insertUserSchema
+  .omit({ email: true })
+  .extend({ disabled: z.boolean() })
+  .partial();
+
+export type User = typeof users.$inferSelect;
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UpdateUser = z.infer<typeof updateUserSchema>;
+
+// Expansion Snapshots Table - one row per Tracking Detail tab per day.
+// `data` holds the tab's normalized output: RoomRow[] for room tabs,
+// CommonAreaFloor[] for Corridors / Staircase. Re-capturing a day overwrites it.
+export const expansionSnapshots = pgTable("expansion_snapshots", {
+  id: serial("id").primaryKey(),
+  snapshotDate: date("snapshot_date").notNull(), // YYYY-MM-DD (server local date)
+  tab: varchar("tab", { length: 255 }).notNull(), // registered sheetName, not the resolved title
+  kind: varchar("kind", { length: 20 }).notNull(), // 'room' | 'commonArea'
+  resolvedTitle: varchar("resolved_title", { length: 255 }),
+  itemCount: integer("item_count").notNull(), // rooms or floors
+  data: jsonb("data").$type<RoomRow[] | CommonAreaFloor[]>().notNull(),
+  capturedAt: timestamp("captured_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("expansion_snapshots_date_tab_idx").on(table.snapshotDate, table.tab),
+]);
+
+export type ExpansionSnapshot = typeof expansionSnapshots.$inferSelect;
+export type InsertExpansionSnapshot = typeof expansionSnapshots.$inferInsert;
+
+// Exception Triage Table - procurement follow-up on one flagged part cell,
+// keyed by tab + room + package + part header (see shared/lib/triage.ts).
+// Rows are never deleted: a cell that stops being flagged auto-closes its record.
+export const exceptionTriage = pgTable("exception_triage", {
+  id: serial("id").primaryKey(),
+  tab: varchar("tab", { length: 255 }).notNull(), // registered sheetName
+  roomNo: varchar("room_no", { length: 50 }).notNull(),
+  package: varchar("package", { length: 255 }).notNull(),
+  part: varchar("part", { length: 255 }).notNull(),
+  assignee: varchar("assignee", { length: 255 }),
+  status: varchar("status", { length: 20 }).notNull().default("new"), // new | investigating | reordered | resolved
+  notes: text("notes"),
+  dueDate: date("due_date"),
+  autoClosedAt: timestamp("auto_closed_at"), // set when the cell stopped being flagged
+  updatedBy: varchar("updated_by", { length: 255 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("exception_triage_cell_idx").on(table.tab, table.roomNo, table.package, table.part),
+  index("exception_triage_status_idx").on(table.status),
+]);
+
+export const upsertExceptionTriageSchema = createInsertSchema(exceptionTriage, {
+  tab: z.string().min(1),
+  roomNo: z.string().min(1),
+  package: z.string().min(1),
+  part: z.string().min(1),
+  assignee: z.string().trim().max(255).nullable(),
+  status: z.enum(TRIAGE_STATUSES),
+  notes: z.string().max(5000).nullable(),
+  dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "expected YYYY-MM-DD").nullable(),
+})
+  .pick({ tab: true, roomNo: true, package: true, part: true, assignee: true, status: true, notes: true, dueDate: true })
+  .partial({ assignee: true, status: true, notes: true, dueDate: true });
+
+export type ExceptionTriage = typeof exceptionTriage.$inferSelect;
+export type UpsertExceptionTriage = z.infer<typeof upsertExceptionTriageSchema>;
+
+// Exception Triage Events - history of every triage change, manual or automatic.
+// `changes` maps field → { from, to }.
+export const exceptionTriageEvents = pgTable("exception_triage_events", {
+  id: serial("id").primaryKey(),
+  triageId: integer("triage_id").notNull(),
+  kind: varchar("kind", { length: 20 }).notNull(), // 'created' | 'edited' | 'auto-closed' | 'reopened'
+  actor: varchar("actor", { length: 255 }), // null for automatic changes
+  changes: jsonb("changes").$type<Record<string, { from: unknown; to: unknown }>>().notNull().default({}),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("exception_triage_events_triage_idx").on(table.triageId),
+]);
+
+export type ExceptionTriageEvent = typeof exceptionTriageEvents.$inferSelect;
+
+// Runtime Settings Table - admin-edited knobs that used to be constants in
+// shared/config/runtime.ts. `value` is JSON; the constant stays the default
+// until a row exists.
+export const runtimeSettings = pgTable("runtime_settings", {
+  key: varchar("key", { length: 100 }).primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedBy: varchar("updated_by", { length: 255 }),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type RuntimeSetting = typeof runtimeSettings.$inferSelect;
+
+// Arrived Containers Table - container numbers marked as physically arrived
+// (see ARRIVED_CONTAINERS). Only consulted when the "arrivedContainersMode"
+// runtime setting is "list".
+export const arrivedContainers = pgTable("arrived_containers", {
+  containerNumber: integer("container_number").primaryKey(),
+  markedBy: varchar("marked_by", { length: 255 }),
+  markedAt: timestamp("marked_at").defaultNow().notNull(),
+});
+
+export type ArrivedContainer = typeof arrivedContainers.$inferSelect;
+
+// Container Arrival Overrides Table - exceptions to the arrival derived from the
+// Container Schedule status ("schedule" mode): force a container arrived or not.
+export const containerArrivalOverrides = pgTable("container_arrival_overrides", {
+  containerNumber: integer("container_number").primaryKey(),
+  arrived: boolean("arrived").notNull(),
+  reason: text("reason"),
+  setBy: varchar("set_by", { length: 255 }),
+  setAt: timestamp("set_at").defaultNow().notNull(),
+});
+
+export type ContainerArrivalOverride = typeof containerArrivalOverrides.$inferSelect;
+
+// Container ETA Observations Table - every distinct ETA pair seen on the
+// Container Schedule, per container, so slippage survives the sheet being
+// overwritten. A row is only added when a container's ETAs change.
+export const containerEtaObservations = pgTable("container_eta_observations", {
+  id: serial("id").primaryKey(),
+  container: varchar("container", { length: 100 }).notNull(), // schedule "Container #" text, whitespace-collapsed
+  etaNYPort: date("eta_ny_port"), // null = blank / not a date (e.g. "TBD")
+  etaWarehouse: date("eta_warehouse"),
+  observedAt: timestamp("observed_at").defaultNow().notNull(),
+}, (table) => [
+  index("container_eta_observations_container_idx").on(table.container, table.observedAt),
+]);
+
+export type ContainerEtaObservation = typeof containerEtaObservations.$inferSelect;
+
+// Sheet Layout Observations Table - each room tab's discovered column layout and
+// its drift from the expected taxonomy, added only when the layout changes, so
+// the Sheet health page can show when (and how) the sheet was restructured.
+export const sheetLayoutObservations = pgTable("sheet_layout_observations", {
+  id: serial("id").primaryKey(),
+  tab: varchar("tab", { length: 255 }).notNull(), // registered sheetName
+  resolvedTitle: varchar("resolved_title", { length: 255 }),
+  signature: text("signature").notNull(), // layoutSignature(layout)
+  layout: jsonb("layout").$type<TabLayout>().notNull(),
+  drift: jsonb("drift").$type<TaxonomyDrift>().notNull(),
+  observedAt: timestamp("observed_at").defaultNow().notNull(),
+}, (table) => [
+  index("sheet_layout_observations_tab_idx").on(table.tab, table.observedAt),
+]);
+
+export type SheetLayoutObservation = typeof sheetLayoutObservations.$inferSelect;
+
+// Budget Snapshots Table - one row per day of the Schedule Summary as read
+// (totals + each line item's estimate and paid), so estimate movement and the
+// paid burn survive the sheet being edited in place. A later read on the same
+// day overwrites that day's row.
+export const budgetSnapshots = pgTable("budget_snapshots", {
+  id: serial("id").primaryKey(),
+  snapshotDate: date("snapshot_date").notNull(), // YYYY-MM-DD (server local date)
+  totals: jsonb("totals").$type<BudgetTotals>().notNull(),
+  items: jsonb("items").$type<BudgetSnapshotItem[]>().notNull(),
+  lineItemCount: integer("line_item_count").notNull(),
+  capturedAt: timestamp("captured_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("budget_snapshots_date_idx").on(table.snapshotDate),
+]);
+
+export type BudgetSnapshot = typeof budgetSnapshots.$inferSelect;
+
+// Contingency Drawdowns Table - the contingency ledger. Each row moves money out
+// of the fixed contingency (CONTINGENCY_RATE on the estimate) into one budget
+// category, with the reason, who approved it and when. The budget engine sums
+// these into BudgetTotals.contingencyUsed / contingencyRemaining.
+export const contingencyDrawdowns = pgTable("contingency_drawdowns", {
+  id: serial("id").primaryKey(),
+  category: varchar("category", { length: 255 }).notNull(), // BudgetCategory.name (raw Schedule Summary category)
+  amount: numeric("amount", { precision: 14, scale: 2 }).notNull(), // dollars, > 0
+  reason: text("reason").notNull(),
+  approver: varchar("approver", { length: 255 }).notNull(),
+  drawdownDate: date("drawdown_date").notNull(), // YYYY-MM-DD the drawdown was approved
+  createdBy: varchar("created_by", { length: 255 }), // session email; null for shared-password sessions
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("contingency_drawdowns_date_idx").on(table.drawdownDate),
+]);
+
+export const insertContingencyDrawdownSchema = createInsertSchema(contingencyDrawdowns, {
+  category: z.string().trim().min(1).max(255),
+  amount: z.number().positive().max(1_000_000_000),
+  reason: z.string().trim().min(1).max(5000),
+  approver: z.string().trim().min(1).max(255),
+  drawdownDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "expected YYYY-MM-DD"),
+}).pick({ category: true, amount: true, reason: true, approver: true, drawdownDate: true });
+
+export type ContingencyDrawdownRow = typeof contingencyDrawdowns.$inferSelect;
+export type InsertContingencyDrawdown = z.infer<typeof insertContingencyDrawdownSchema>;
+
+// Budget Payment Schedules Table - when a Schedule Summary line item gets paid:
+// its estimate split across deposit / on-ship / on-delivery / retainage, dated
+// from a timeline task or a Container Schedule row (see shared/lib/cashFlow.ts).
+// One row per line item, keyed by budgetItemKey since row numbers shift.
+export const budgetPaymentSchedules = pgTable("budget_payment_schedules", {
+  id: serial("id").primaryKey(),
+  itemKey: varchar("item_key", { length: 600 }).notNull(), // budgetItemKey
+  itemName: text("item_name").notNull(), // as it read when the schedule was saved
+  depositPct: integer("deposit_pct").notNull().default(0),
+  onShipPct: integer("on_ship_pct").notNull().default(0),
+  onDeliveryPct: integer("on_delivery_pct").notNull().default(0),
+  retainagePct: integer("retainage_pct").notNull().default(0),
+  linkType: varchar("link_type", { length: 20 }).notNull(), // task | container
+  timelineTaskId: integer("timeline_task_id"), // linkType 'task'
+  container: varchar("container", { length: 100 }), // linkType 'container' — schedule "Container #" text
+  updatedBy: varchar("updated_by", { length: 255 }),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("budget_payment_schedules_item_idx").on(table.itemKey),
+]);
+
+const schedulePct = z.number().int().min(0).max(100);
+
+export const upsertBudgetPaymentScheduleSchema = createInsertSchema(budgetPaymentSchedules, {
+  itemKey: z.string().min(1).max(600),
+  itemName: z.string().trim().min(1),
+  depositPct: schedulePct,
+  onShipPct: schedulePct,
+  onDeliveryPct: schedulePct,
+  retainagePct: schedulePct,
+  linkType: z.enum(PAYMENT_LINK_TYPES),
+  timelineTaskId: z.number().int().positive().nullable(),
+  container: z.string().trim().max(100).nullable(),
+})
+  .pick({
+    itemKey: true,
+    itemName: true,
+    depositPct: true,
+    onShipPct: true,
+    onDeliveryPct: true,
+    retainagePct: true,
+    linkType: true,
+    timelineTaskId: true,
+    container: true,
+  })
+  .refine((s) => s.depositPct + s.onShipPct + s.onDeliveryPct + s.retainagePct === 100, {
+    message: "percentages must add up to 100",
+    path: ["depositPct"],
+  })
+  .refine((s) => (s.linkType === "task" ? s.timelineTaskId != null : !!s.container), {
+    message: "a task schedule needs timelineTaskId, a container schedule needs container",
+    path: ["linkType"],
+  });
+
+export type BudgetPaymentSchedule = typeof budgetPaymentSchedules.$inferSelect;
+export type UpsertBudgetPaymentSchedule = z.infer<typeof upsertBudgetPaymentScheduleSchema>;
+
+// Change Orders Table - vendor change orders against the Schedule Summary. Each
+// one is linked to a budget category OR a single line item (by budgetItemKey),
+// and carries the Drive documents backing it, picked from the vendor invoices
+// folders. Approved ones are added to the estimate (shared/lib/budget.ts).
+export const changeOrders = pgTable("change_orders", {
+  id: serial("id").primaryKey(),
+  number: varchar("number", { length: 50 }).notNull(), // "CO-014" — as the vendor numbers it
+  vendor: varchar("vendor", { length: 255 }).notNull(),
+  description: text("description").notNull().default(""),
+  amount: numeric("amount", { precision: 14, scale: 2 }).notNull(), // dollars; negative = credit
+  category: varchar("category", { length: 255 }), // BudgetCategory.name, when linked to a category
+  itemKey: varchar("item_key", { length: 600 }), // budgetItemKey, when linked to a line item
+  itemName: text("item_name"), // the line item as it read when linked
+  status: varchar("status", { length: 20 }).notNull().default("proposed"), // proposed | approved | rejected
+  documents: jsonb("documents").$type<ChangeOrderDocument[]>().notNull().default([]),
+  createdBy: varchar("created_by", { length: 255 }), // session email; null for shared-password sessions
+  updatedBy: varchar("updated_by", { length: 255 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("change_orders_number_idx").on(table.number),
+  index("change_orders_status_idx").on(table.status),
+]);
+
+/** A Drive file attached to a change order (from the vendor invoices folders). */
+export interface ChangeOrderDocument {
+  id: string; // Drive file id
+  name: string;
+  url: string | null; // webViewLink
+}
+
+const changeOrderDocumentSchema = z.object({
+  id: z.string().min(1).max(200),
+  name: z.string().min(1).max(500),
+  url: z.string().url().nullable(),
+});
+
+export const upsertChangeOrderSchema = createInsertSchema(changeOrders, {
+  number: z.string().trim().min(1).max(50),
+  vendor: z.string().trim().min(1).max(255),
+  description: z.string().trim().max(5000),
+  amount: z.number().finite().min(-1_000_000_000).max(1_000_000_000).refine((v) => v !== 0, "must not be zero"),
+  category: z.string().trim().min(1).max(255).nullable(),
+  itemKey: z.string().min(1).max(600).nullable(),
+  itemName: z.string().trim().min(1).nullable(),
+  status: z.enum(CHANGE_ORDER_STATUSES),
+  documents: z.array(changeOrderDocumentSchema).max(50),
+})
+  .pick({
+    number: true,
+    vendor: true,
+    description: true,
+    amount: true,
+    category: true,
+    itemKey: true,
+    itemName: true,
+    status: true,
+    documents: true,
+  })
+  .refine((co) => (co.category != null) !== (co.itemKey != null), {
+    message: "link the change order to either a category or a line item",
+    path: ["category"],
+  });
+
+export type ChangeOrderRow = typeof changeOrders.$inferSelect;
+export type UpsertChangeOrder = z.infer<typeof upsertChangeOrderSchema>;
+
+// Vendor Budget Mappings Table - which budget line the invoice audit's vendors
+// bill against: one Schedule Summary line item (budgetItemKey) OR one category
+// per vendor, so the reconciliation (shared/lib/invoiceReconciliation.ts) can
+// count every invoice against a single line. Vendors match the audit's
+// vendor_name trimmed and case-insensitively.
+export const vendorBudgetMappings = pgTable("vendor_budget_mappings", {
+  id: serial("id").primaryKey(),
+  vendor: varchar("vendor", { length: 255 }).notNull(), // as the audit spells it
+  vendorKey: varchar("vendor_key", { length: 255 }).notNull(), // vendorKey(vendor) — what's unique
+  itemKey: varchar("item_key", { length: 600 }), // budgetItemKey, when mapped to a line item
+  itemName: text("item_name"), // the line item as it read when mapped
+  category: varchar("category", { length: 255 }), // BudgetCategory.name, when mapped to a category
+  updatedBy: varchar("updated_by", { length: 255 }),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("vendor_budget_mappings_vendor_idx").on(table.vendorKey),
+]);
+
+export const upsertVendorBudgetMappingSchema = createInsertSchema(vendorBudgetMappings, {
+  vendor: z.string().trim().min(1).max(255),
+  itemKey: z.string().min(1).max(600).nullable(),
+  itemName: z.string().trim().min(1).nullable(),
+  category: z.string().trim().min(1).max(255).nullable(),
+})
+  .pick({ vendor: true, itemKey: true, itemName: true, category: true })
+  .refine((m) => (m.category != null) !== (m.itemKey != null), {
+    message: "map the vendor to either a category or a line item",
+    path: ["category"],
+  });
+
+export type VendorBudgetMapping = typeof vendorBudgetMappings.$inferSelect;
+export type UpsertVendorBudgetMapping = z.infer<typeof upsertVendorBudgetMappingSchema>;
@@ -180,6 +180,38 @@ export interface RollupTower {
   duplicateRooms: string[];
 }
 
+// ---------------------------------------------------------------------------
+// Completion forecast — install rate fitted over daily snapshots of the rollup
+// ---------------------------------------------------------------------------
+
+export type ForecastStatus = 'complete' | 'projected' | 'stalled' | 'insufficient-data';
+
+export interface CompletionForecast {
+  status: ForecastStatus;
+  /** Installed % on the latest snapshot in the window (null if never reported). */
+  currentPct: number | null;
+  asOf: string | null; // date of that snapshot
+  /** Fitted install rate, percentage points per week. null without a fit. */
+  ratePerWeek: number | null;
+  /** Day 100% is reached at the fitted rate ('complete': the day it was first seen at 100%). */
+  projectedDate: string | null;
+  /** Confidence band around projectedDate. latestDate is null when the slow end never gets there. */
+  earliestDate: string | null;
+  latestDate: string | null;
+  /** Snapshot days the fit used. */
+  points: number;
+  history: { date: string; pct: number }[];
+}
+
+export interface FloorForecast extends CompletionForecast {
+  floor: string;
+}
+
+export interface TowerForecast extends CompletionForecast {
+  tower: Tower;
+  floors: FloorForecast[];
+}
+
 // ---------------------------------------------------------------------------
 // Container view (§9 item 3) — container # → the rooms/parts it unblocks
 // ---------------------------------------------------------------------------
@@ -248,6 +280,77 @@ export interface ContainerGroup {
   entries: ContainerBlockedPart[];
 }
 
+/**
+ * Where a shipped container is, normalized from the Container Schedule `status`
+ * column (ordered earliest → latest). 'unknown' = blank or unrecognised text.
+ */
+export type ArrivalState = 'unknown' | 'loaded' | 'departed' | 'at-port' | 'at-warehouse' | 'delivered';
+
+/** One container's arrival, derived from the schedule and any admin override. */
+export interface ContainerArrival {
+  number: number;
+  state: ArrivalState;
+  status: string | null; // schedule status text, as entered
+  proofOfDelivery: boolean; // warehouse POD link present
+  derivedArrived: boolean; // what the schedule alone says
+  override: boolean | null; // admin override: true = arrived, false = not arrived
+  arrived: boolean; // override ?? derivedArrived
+}
+
+/** How one ETA field (NY port or warehouse) moved across observations. */
+export interface EtaSlip {
+  original: string; // first dated ETA observed (YYYY-MM-DD)
+  current: string; // latest dated ETA observed
+  daysSlipped: number; // current − original; negative = pulled in
+  revisions: number; // times the date changed after the first observation
+  history: { eta: string; observedAt: string }[]; // each distinct date, oldest first
+}
+
+/** Slippage for one Container Schedule container. */
+export interface ContainerSlippage {
+  container: string;
+  nyPort: EtaSlip | null;
+  warehouse: EtaSlip | null;
+  /** The larger slip of the two fields (0 when neither has a date yet). */
+  daysSlipped: number;
+  revisions: number;
+  firstSeenAt: string;
+  lastChangedAt: string;
+}
+
+/** A room's packages that one container unblocks. */
+export interface ContainerRoomUnblock {
+  tower: Tower;
+  roomNo: string;
+  floor: string;
+  packages: string[];
+  partCount: number;
+}
+
+/** One container joined to its Container Schedule row(s). Dates are YYYY-MM-DD. */
+export interface ContainerEta {
+  number: number;
+  arrived: boolean;
+  scheduled: boolean; // found on the Container Schedule sheet
+  etaNYPort: string | null;
+  etaWarehouse: string | null;
+  /** When its parts can be installed: warehouse ETA, else NY port ETA. */
+  projectedUnblock: string | null;
+  status: string | null; // schedule status text, as entered
+  rooms: ContainerRoomUnblock[];
+}
+
+/** Per room: the latest projected unblock date among its still-pending containers. */
+export interface RoomEta {
+  tower: Tower;
+  roomNo: string;
+  floor: string;
+  latestEta: string | null; // null when no pending container has a date
+  pendingContainers: number[];
+  undatedContainers: number[]; // pending containers with no ETA on the schedule
+  outstandingParts: number;
+}
+
 // ---------------------------------------------------------------------------
 // Common-area result types (§8)
 // ---------------------------------------------------------------------------
@@ -281,3 +384,189 @@ export interface LobbyTask {
   status: StatusState;
   flagged: boolean;   // e.g. row 17 "PHR Alarm System" manually red-flagged
 }
+
+// ---------------------------------------------------------------------------
+// Sheet health — room-tab layout and its drift from the expected taxonomy
+// ---------------------------------------------------------------------------
+
+export interface TaxonomyDrift {
+  hasExpected: boolean;
+  discovered: { packageCount: number; partCount: number };
+  expected: { packageCount: number; partCount: number } | null;
+  packagesAdded: { name: string; column: string; partCount: number }[];
+  packagesRemoved: { name: string; partCount: number }[];
+  packagesRenamed: { from: string; to: string; column: string; similarity: number }[];
+  /** Parts of packages found on both sides (renames included). */
+  partsAdded: { package: string; part: string; column: string }[];
+  partsRemoved: { package: string; part: string }[];
+  /** Expected under one package, found under another. */
+  partsMoved: { part: string; from: string; to: string; column: string }[];
+  /** Blank-header columns inside a package that have data in them — the engine skips these. */
+  headerlessColumns: { column: string; package: string; filledCells: number }[];
+  issueCount: number;
+}
+
+/** A tab's column layout as discovered — stored whenever it changes. */
+export interface TabLayout {
+  headerRow: number; // 1-based
+  packages: { name: string; column: string; parts: { header: string; column: string }[] }[];
+  blankHeaderColumns: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Spec-aware rollup — Room Specs ("ROOM FEATURES") joined to the rollup by Room #
+// ---------------------------------------------------------------------------
+
+/** One room from the Room Specs sheet. Feature columns keep the sheet's own text
+ *  ("Yes" / "No" / anything else = unknown). */
+export interface RoomSpec {
+  id: number; // sheet row number
+  floor: number;
+  roomNumber: number;
+  area: number;
+  sizeCategory: string;
+  roomType: string;
+  bedSize: string;
+  ada: string;
+  connectingDoor: string;
+  sinkStyle: string;
+  sinkSize: string;
+  showerWithGlassDoor: string;
+  showerWindow: string;
+  mossWall: string;
+  mirrorSlidingDoor: string;
+  moxyBar: string;
+  miniBarSize: string;
+  speakeasy: string;
+  partyBoxHeadboard: string;
+  curtainType: string;
+  nightStands: string;
+  tvSize: string;
+}
+
+/** Yes/No columns of the Room Specs sheet. */
+export type SpecFeature =
+  | 'ada'
+  | 'connectingDoor'
+  | 'showerWindow'
+  | 'mossWall'
+  | 'mirrorSlidingDoor'
+  | 'moxyBar'
+  | 'speakeasy'
+  | 'partyBoxHeadboard';
+
+/** Free-text columns of the Room Specs sheet that can be filtered on. */
+export type SpecAttribute =
+  | 'roomType'
+  | 'sizeCategory'
+  | 'bedSize'
+  | 'sinkStyle'
+  | 'sinkSize'
+  | 'showerWithGlassDoor'
+  | 'miniBarSize'
+  | 'curtainType'
+  | 'nightStands'
+  | 'tvSize';
+
+export interface SpecFilter {
+  tower?: Tower;
+  floorMin?: number;
+  floorMax?: number;
+  /** Required Yes (true) / No (false) per feature. */
+  features: Partial<Record<SpecFeature, boolean>>;
+  /** Exact (case-insensitive) value per attribute. */
+  attributes: Partial<Record<SpecAttribute, string>>;
+  /** Only rooms with at least one disagreement. */
+  flaggedOnly: boolean;
+}
+
+/** A room whose spec and tracked parts disagree, on one tab. */
+export interface SpecDisagreement {
+  feature: SpecFeature;
+  label: string;
+  side: 'received' | 'installed';
+  /** spec-not-tracked: spec says Yes but every matching part is N/A.
+   *  tracked-not-in-spec: spec says No but a matching part has a value. */
+  kind: 'spec-not-tracked' | 'tracked-not-in-spec';
+  parts: string[];
+}
+
+export interface SpecRollupRoom {
+  key: string;
+  roomNo: string;
+  floor: string;
+  type: string;
+  installedPct: number | null;
+  spec: RoomSpec | null;
+  /** Checked once per Room # — carried by its first row only, so suites aren't counted twice. */
+  disagreements: SpecDisagreement[];
+}
+
+export interface SpecRollupFloor {
+  floor: string;
+  /** Average Room % of the rooms that passed the filter. */
+  installedPct: number | null;
+  rooms: SpecRollupRoom[];
+}
+
+export interface SpecRollupTower {
+  tower: Tower;
+  installedPct: number | null;
+  roomCount: number;
+  floors: SpecRollupFloor[];
+}
+
+export interface SpecRollup {
+  towers: SpecRollupTower[];
+  /** Rollup rooms (by Room #) that found a spec row. */
+  matchedRooms: number;
+  /** Rollup Room #s with no row on the Room Specs sheet. */
+  roomsWithoutSpec: string[];
+  /** Room Specs Room #s that appear on neither tower's tabs. */
+  specsWithoutRoom: number[];
+  /** Disagreements across the filtered rooms. */
+  disagreementCount: number;
+  /** Distinct values per attribute across the whole sheet, for filter pickers. */
+  attributeValues: Record<SpecAttribute, string[]>;
+}
+
+// ---------------------------------------------------------------------------
+// Most-missing parts — every part across the four room tabs, ranked
+// ---------------------------------------------------------------------------
+
+/** Cells of one part by bucket. N/A cells are left out entirely. */
+export interface PartCounts {
+  /** Rooms the part applies to (non-N/A cells). */
+  applicable: number;
+  received: number;
+  incoming: number;
+  upstream: number;
+  problem: number;
+  attention: number;
+  unrecorded: number;
+  other: number;
+  /** Applicable but not received (delivered / installed) — the ranking key. */
+  missing: number;
+}
+
+export interface PartLeaderboardEntry {
+  /** Containers tabs rank delivery, Installation tabs rank installs. */
+  type: TabType;
+  package: string;
+  part: string;
+  counts: PartCounts;
+  byTower: { tower: Tower; counts: PartCounts }[];
+  /** Floors high → low within each tower. */
+  byFloor: { tower: Tower; floor: string; counts: PartCounts }[];
+}
+
+/** One room's cell for a part — the leaderboard's drill-down. */
+export interface PartRoomCell {
+  tower: Tower;
+  tab: string;
+  floor: string;
+  roomNo: string;
+  roomType: string;
+  bucket: UrgencyBucket;
+  rawValue: string;
+}